@@ -0,0 +1,215 @@
+import { parseArgs } from 'util';
+import { CliCommand, CliOptions } from '../types';
+import { CliError, ExitCode } from './exit-codes';
+
+export const CLI_COMMANDS: CliCommand[] = [
+  'validate',
+  'plan',
+  'distribute',
+  'resume',
+  'status',
+  'verify',
+  'report',
+  'recover',
+  'allocate',
+];
+
+const FAILURE_ACTIONS: CliOptions['onFailure'][] = ['policy', 'retry', 'skip', 'pause', 'abort'];
+
+// Commands that read a CSV file, those that can stream it, and those that work on saved resume
+// state
+const CSV_COMMANDS: CliCommand[] = ['validate', 'plan', 'distribute', 'recover', 'allocate'];
+const STREAM_COMMANDS: CliCommand[] = ['validate', 'plan', 'distribute'];
+const RESUME_COMMANDS: CliCommand[] = ['resume', 'status', 'verify', 'report'];
+
+export const USAGE = `Usage: node dist/index.js [command] [options]
+
+Without a command, the interactive flow runs (stdin must be a terminal).
+
+Commands:
+  validate <csv>     Validate the CSV file
+  plan <csv>         Validate, run the recipient pre-flight, estimate fees and check the balance
+  distribute <csv>   Plan, then send the transfers (needs --yes)
+  resume             Reconcile the saved state with the chain, then continue it (needs --yes)
+  status             Show the progress of the saved distribution and list every open run
+  verify             Check that settled transfers are still on the canonical chain
+  report             Break down the saved distribution by status, including failures
+  recover <csv>      Rebuild lost resume state from the CSV file and its transaction logs
+                     (needs --log and --yes)
+  allocate <weights> Split --pool across the recipients by weight, and write the distribution
+                     CSV and its allocation report
+
+Options:
+  --csv <path>                 CSV file, instead of the positional argument
+  --dry-run                    Simulate every transfer before sending (plan, distribute)
+  --on-failure <action>        policy, retry, skip, pause or abort a failed transfer
+                               (default: policy, the retry policy for the error's class)
+  --max-retries <n>            With --on-failure retry: retries before skipping (default: 3)
+  -y, --yes                    Send without asking for confirmation
+  --run <id>                   Open run to work on (default: the one saved most recently)
+  --resume-file <name>         Saved state of the run to use (default: the latest)
+  --stream                     Read the CSV in chunks instead of into memory, for very large
+                               files (validate, plan, distribute)
+  --log <path>                 Transaction log to recover from, once per log (recover)
+  --check-chain                Check the logged transfers against the chain (recover)
+  --accept-discrepancies       Save the recovered state despite discrepancies (recover)
+  --pool <amount>              Total to split, such as 500000 or "500,000 AI3" (allocate)
+  --out <path>                 Distribution CSV to write (allocate; default:
+                               <weights>-allocation.csv beside the weights file)
+  --json                       Print one JSON document on stdout, logs go to stderr
+  -h, --help                   Show this help
+
+Exit codes:
+  0 success                    6 not confirmed, pass --yes
+  1 unexpected error           7 finished with failed transfers
+  2 usage error                8 paused, aborted or interrupted
+  3 CSV validation failed      9 verification failed
+  4 pre-flight failed          10 no saved distribution state
+  5 insufficient balance       11 the CSV already has an open run
+`;
+
+/**
+ * Parse the command line (without the node and script arguments)
+ * @param isInteractive Whether stdin is a terminal; without one a command is required
+ * @throws CliError with ExitCode.Usage for anything that does not parse
+ */
+export function parseCliArgs(argv: string[], isInteractive: boolean): CliOptions {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        csv: { type: 'string' },
+        'dry-run': { type: 'boolean', default: false },
+        'on-failure': { type: 'string', default: 'policy' },
+        'max-retries': { type: 'string', default: '3' },
+        yes: { type: 'boolean', short: 'y', default: false },
+        run: { type: 'string' },
+        'resume-file': { type: 'string' },
+        stream: { type: 'boolean', default: false },
+        log: { type: 'string', multiple: true, default: [] },
+        'check-chain': { type: 'boolean', default: false },
+        'accept-discrepancies': { type: 'boolean', default: false },
+        pool: { type: 'string' },
+        out: { type: 'string' },
+        json: { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (error) {
+    throw new CliError(error instanceof Error ? error.message : String(error), ExitCode.Usage);
+  }
+
+  const { values, positionals } = parsed;
+  const [commandName, ...rest] = positionals;
+  const help = !!values.help;
+
+  if (commandName !== undefined && !CLI_COMMANDS.includes(commandName as CliCommand)) {
+    throw new CliError(
+      `Unknown command: ${commandName}. Must be one of: ${CLI_COMMANDS.join(', ')}`,
+      ExitCode.Usage
+    );
+  }
+  const command = commandName as CliCommand | undefined;
+
+  const onFailure = values['on-failure'] as CliOptions['onFailure'];
+  if (!FAILURE_ACTIONS.includes(onFailure)) {
+    throw new CliError(
+      `Invalid --on-failure: ${onFailure}. Must be one of: ${FAILURE_ACTIONS.join(', ')}`,
+      ExitCode.Usage
+    );
+  }
+
+  const maxRetries = Number(values['max-retries']);
+  if (!Number.isInteger(maxRetries) || maxRetries < 0) {
+    throw new CliError(
+      `Invalid --max-retries: ${values['max-retries']}. Must be a whole number of 0 or more`,
+      ExitCode.Usage
+    );
+  }
+
+  const options: CliOptions = {
+    command,
+    csvPath: values.csv ?? rest.shift(),
+    dryRun: !!values['dry-run'],
+    onFailure,
+    maxRetries,
+    yes: !!values.yes,
+    json: !!values.json,
+    runId: values.run,
+    resumeFile: values['resume-file'],
+    stream: !!values.stream,
+    logFiles: values.log ?? [],
+    checkChain: !!values['check-chain'],
+    acceptDiscrepancies: !!values['accept-discrepancies'],
+    pool: values.pool,
+    outPath: values.out,
+    help,
+  };
+
+  if (help) {
+    return options;
+  }
+
+  if (rest.length > 0) {
+    throw new CliError(`Unexpected argument: ${rest[0]}`, ExitCode.Usage);
+  }
+
+  if (!command) {
+    if (!isInteractive) {
+      throw new CliError(
+        'No command given and stdin is not a terminal; pass a command to run unattended',
+        ExitCode.Usage
+      );
+    }
+    if (options.json) {
+      throw new CliError('--json needs a command', ExitCode.Usage);
+    }
+    return options;
+  }
+
+  if (CSV_COMMANDS.includes(command) && !options.csvPath) {
+    throw new CliError(
+      `${command} needs a CSV file: ${command} <csv> or --csv <path>`,
+      ExitCode.Usage
+    );
+  }
+  if (options.stream && !STREAM_COMMANDS.includes(command)) {
+    throw new CliError(
+      `--stream applies to reading a CSV file (${STREAM_COMMANDS.join(', ')}); a streamed run resumes streamed`,
+      ExitCode.Usage
+    );
+  }
+  if (RESUME_COMMANDS.includes(command) && options.csvPath) {
+    throw new CliError(
+      `${command} works on the saved state and takes no CSV file; use --run to pick a run`,
+      ExitCode.Usage
+    );
+  }
+
+  if (command === 'recover' && options.logFiles.length === 0) {
+    throw new CliError(
+      'recover needs the transaction logs of the run: --log <path>, once per log',
+      ExitCode.Usage
+    );
+  }
+  if (
+    command !== 'recover' &&
+    (options.logFiles.length > 0 || options.checkChain || options.acceptDiscrepancies)
+  ) {
+    throw new CliError(
+      '--log, --check-chain and --accept-discrepancies apply to recover only',
+      ExitCode.Usage
+    );
+  }
+
+  if (command === 'allocate' && !options.pool) {
+    throw new CliError('allocate needs the total to split: --pool <amount>', ExitCode.Usage);
+  }
+  if (command !== 'allocate' && (options.pool || options.outPath)) {
+    throw new CliError('--pool and --out apply to allocate only', ExitCode.Usage);
+  }
+
+  return options;
+}
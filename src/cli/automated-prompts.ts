@@ -0,0 +1,178 @@
+import {
+  AllocationReport,
+  CliOptions,
+  DistributionRecord,
+  DistributionReport,
+  DryRunReport,
+  LogRecoveryReport,
+  ReconciliationReport,
+  RecipientPreflightReport,
+  ResumeData,
+  ValidationResult,
+} from '../types';
+import { ResumeManager } from '../core/resume-manager';
+import Logger from '../utils/logger';
+import { CliError, ExitCode } from './exit-codes';
+import { UserPrompts } from './prompts';
+
+/**
+ * Answers the prompts of the distribution flow from the command line flags, so the subcommands
+ * never wait on stdin. Failed transfers go to PolicyFailureHandler instead of a prompt.
+ * Reports are still printed, except in JSON mode where stdout carries only the JSON document.
+ */
+export class AutomatedPrompts extends UserPrompts {
+  private options: CliOptions;
+
+  constructor(logger: Logger, options: CliOptions) {
+    super(logger);
+    this.options = options;
+  }
+
+  async askForCSVPath(): Promise<string> {
+    if (!this.options.csvPath) {
+      throw new CliError('No CSV file given: pass it as an argument or with --csv', ExitCode.Usage);
+    }
+    return this.options.csvPath;
+  }
+
+  async askForDryRun(): Promise<boolean> {
+    return this.options.dryRun;
+  }
+
+  async handleValidationErrors(validation: ValidationResult): Promise<'retry' | 'abort'> {
+    this.showValidationErrors(validation);
+    return 'abort';
+  }
+
+  async askForInsufficientBalance(
+    required: bigint,
+    available: bigint,
+    shortfall: bigint,
+    distributionAmount: bigint,
+    estimatedFees: bigint
+  ): Promise<'abort' | 'continue'> {
+    // Sending into a known shortfall is never done unattended
+    this.showInsufficientBalance(required, available, shortfall, distributionAmount, estimatedFees);
+    return 'abort';
+  }
+
+  async confirmDistribution(
+    validation: ValidationResult,
+    distributorAddress: string,
+    network: string,
+    balanceValidation?: { sufficient: boolean; currentBalance: bigint; requiredAmount: bigint }
+  ): Promise<boolean> {
+    this.showDistributionSummary(validation, distributorAddress, network, balanceValidation);
+    return this.options.yes;
+  }
+
+  async showDistributionComplete(summary: any): Promise<void> {
+    this.showDistributionResult(summary);
+  }
+
+  showDistributionSummary(
+    validation: ValidationResult,
+    distributorAddress: string,
+    network: string,
+    balanceValidation?: { sufficient: boolean; currentBalance: bigint; requiredAmount: bigint }
+  ): void {
+    if (!this.options.json) {
+      super.showDistributionSummary(validation, distributorAddress, network, balanceValidation);
+    }
+  }
+
+  showValidationErrors(validation: ValidationResult): void {
+    if (!this.options.json) {
+      super.showValidationErrors(validation);
+    }
+  }
+
+  showInsufficientBalance(
+    required: bigint,
+    available: bigint,
+    shortfall: bigint,
+    distributionAmount: bigint,
+    estimatedFees: bigint
+  ): void {
+    if (!this.options.json) {
+      super.showInsufficientBalance(
+        required,
+        available,
+        shortfall,
+        distributionAmount,
+        estimatedFees
+      );
+    }
+  }
+
+  showResumeSummary(
+    resumeData: ResumeData,
+    analysis: ReturnType<ResumeManager['analyzeProgress']>
+  ): void {
+    if (!this.options.json) {
+      super.showResumeSummary(resumeData, analysis);
+    }
+  }
+
+  showReconciliationReport(report: ReconciliationReport): void {
+    if (!this.options.json) {
+      super.showReconciliationReport(report);
+    }
+  }
+
+  showRecoveryReport(report: LogRecoveryReport): void {
+    if (!this.options.json) {
+      super.showRecoveryReport(report);
+    }
+  }
+
+  showRecipientPreflightReport(report: RecipientPreflightReport): void {
+    if (!this.options.json) {
+      super.showRecipientPreflightReport(report);
+    }
+  }
+
+  showDryRunReport(report: DryRunReport, reportPath: string): void {
+    if (!this.options.json) {
+      super.showDryRunReport(report, reportPath);
+    }
+  }
+
+  showAllocationReport(report: AllocationReport, reportPath: string): void {
+    if (!this.options.json) {
+      super.showAllocationReport(report, reportPath);
+    }
+  }
+
+  showDistributionReport(report: DistributionReport): void {
+    if (!this.options.json) {
+      super.showDistributionReport(report);
+    }
+  }
+
+  showDistributionResult(summary: any): void {
+    if (!this.options.json) {
+      super.showDistributionResult(summary);
+    }
+  }
+
+  displayBanner(): void {
+    // No banner in unattended runs
+  }
+
+  displayProgress(): void {
+    // The carriage-return progress bar is unreadable in captured output; each transfer is logged
+  }
+
+  displayTransactionSuccess(record: DistributionRecord, index: number, total: number): void {
+    if (!this.options.json) {
+      super.displayTransactionSuccess(record, index, total);
+    }
+  }
+
+  displayTransactionFailure(record: DistributionRecord, index: number, total: number): void {
+    if (!this.options.json) {
+      super.displayTransactionFailure(record, index, total);
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { DistributionSummary } from '../types';
+
+/**
+ * Process exit codes of the subcommands. Scripts and schedulers branch on these, so existing
+ * values must never be renumbered.
+ */
+export const ExitCode = {
+  Success: 0,
+  Error: 1, // Unexpected error: configuration, RPC, file system
+  Usage: 2, // Bad command line, or a required flag is missing
+  ValidationFailed: 3, // The CSV file is missing or invalid
+  PreflightFailed: 4, // Blocked by the recipient pre-flight, or the dry run predicts failures
+  InsufficientBalance: 5,
+  NotConfirmed: 6, // Sending needs --yes
+  TransfersFailed: 7, // The distribution finished, but some transfers failed
+  Halted: 8, // Paused or aborted by the failure policy, or interrupted; resume later
+  VerificationFailed: 9, // Settled transfers are no longer canonical, or reconciliation failed
+  NoResumeData: 10, // No saved distribution state to resume, report on or verify
+  RunAlreadyOpen: 11, // The CSV already has saved state on this network; resume it instead
+} as const;
+
+/**
+ * Exit code of a distribution that ran: halted before the end, finished with records still
+ * failed, or done. Failed attempts that a retry later completed do not count.
+ */
+export function summaryExitCode(summary: DistributionSummary): number {
+  if (summary.abortedByUser || !summary.endTime) {
+    return ExitCode.Halted;
+  }
+  return summary.failed > 0 ? ExitCode.TransfersFailed : ExitCode.Success;
+}
+
+/**
+ * An error that ends the run with a specific exit code
+ */
+export class CliError extends Error {
+  constructor(
+    message: string,
+    public _exitCode: number
+  ) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
@@ -1,8 +1,15 @@
-import { TransactionFailureHandler, DistributionRecord } from '../types';
+import { TransactionFailureHandler, DistributionRecord, FailureAction } from '../types';
+import { RetryPolicyEngine } from '../core/retry-policy';
 import { UserPrompts } from './prompts';
 
+/**
+ * Asks the user, showing what the retry policy makes of the error and suggesting its action
+ */
 export class InteractiveFailureHandler implements TransactionFailureHandler {
-  constructor(private _prompts: UserPrompts) {}
+  constructor(
+    private _prompts: UserPrompts,
+    private _retryPolicy: RetryPolicyEngine
+  ) {}
 
   async handleFailure(
     record: DistributionRecord,
@@ -10,6 +17,30 @@ export class InteractiveFailureHandler implements TransactionFailureHandler {
     error: any,
     attempts: number
   ): Promise<'retry' | 'skip' | 'pause' | 'abort'> {
-    return await this._prompts.handleTransactionFailure(record, index, error, attempts);
+    const decision = this._retryPolicy.decide(error, attempts);
+    return await this._prompts.handleTransactionFailure(record, index, error, attempts, decision);
+  }
+}
+
+/**
+ * Answers every failure with the same action, for unattended runs (--on-failure). A retried
+ * transfer that has failed more than maxRetries times is skipped instead.
+ */
+export class PolicyFailureHandler implements TransactionFailureHandler {
+  constructor(
+    private _action: FailureAction,
+    private _maxRetries: number
+  ) {}
+
+  async handleFailure(
+    _record: DistributionRecord,
+    _index: number,
+    _error: any,
+    attempts: number
+  ): Promise<FailureAction> {
+    if (this._action === 'retry' && attempts > this._maxRetries) {
+      return 'skip';
+    }
+    return this._action;
   }
 }
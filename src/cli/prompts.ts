@@ -1,7 +1,20 @@
 import inquirer from 'inquirer';
 import chalk from 'chalk';
-import { DistributionRecord, ValidationResult, ResumeData } from '../types';
-import { ResumeManager } from '../core/resume-manager';
+import {
+  AllocationReport,
+  DistributionRecord,
+  ValidationResult,
+  ResumeData,
+  ReconciliationReport,
+  DryRunReport,
+  DistributionReport,
+  FailureHistogramEntry,
+  LogRecoveryReport,
+  RecipientPreflightReport,
+  ExistentialDepositDecision,
+  RetryDecision,
+} from '../types';
+import { OpenRun, ResumeManager } from '../core/resume-manager';
 import { shannonsToAi3 } from '@autonomys/auto-utils';
 import Logger from '../utils/logger';
 
@@ -18,6 +31,26 @@ export class UserPrompts {
     network: string,
     balanceValidation?: { sufficient: boolean; currentBalance: bigint; requiredAmount: bigint }
   ): Promise<boolean> {
+    this.showDistributionSummary(validation, distributorAddress, network, balanceValidation);
+
+    const { confirm } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'confirm',
+        message: 'Do you want to proceed with this distribution?',
+        default: false,
+      },
+    ]);
+
+    return confirm;
+  }
+
+  showDistributionSummary(
+    validation: ValidationResult,
+    distributorAddress: string,
+    network: string,
+    balanceValidation?: { sufficient: boolean; currentBalance: bigint; requiredAmount: bigint }
+  ): void {
     console.log(chalk.blue('\n=== Distribution Summary ==='));
     console.log(chalk.white(`Network: ${chalk.cyan(network)}`));
     console.log(chalk.white(`Distributor Address: ${chalk.cyan(distributorAddress)}`));
@@ -44,7 +77,7 @@ export class UserPrompts {
       );
       console.log(
         chalk.white(
-          `Required (incl. gas): ${chalk.yellow(shannonsToAi3(balanceValidation.requiredAmount))} tokens`
+          `Required (incl. fees): ${chalk.yellow(shannonsToAi3(balanceValidation.requiredAmount))} tokens`
         )
       );
 
@@ -69,16 +102,16 @@ export class UserPrompts {
       });
     }
 
-    const { confirm } = await inquirer.prompt([
-      {
-        type: 'confirm',
-        name: 'confirm',
-        message: 'Do you want to proceed with this distribution?',
-        default: false,
-      },
-    ]);
-
-    return confirm;
+    if (validation.roundedAmounts?.length) {
+      console.log(chalk.yellow('\n🔢 Rounded Amounts:'));
+      validation.roundedAmounts.forEach(rounded => {
+        console.log(
+          chalk.yellow(
+            `   • ${rounded.location}: ${rounded.amount} → ${shannonsToAi3(rounded.roundedShannons)} AI3`
+          )
+        );
+      });
+    }
   }
 
   async askForCSVPath(): Promise<string> {
@@ -86,13 +119,13 @@ export class UserPrompts {
       {
         type: 'input',
         name: 'csvPath',
-        message: 'Enter the path to your CSV file:',
+        message: 'Enter the path to your distribution file (CSV, JSON or NDJSON):',
         validate: (input: string) => {
           if (!input.trim()) {
             return 'CSV file path is required';
           }
-          if (!input.endsWith('.csv')) {
-            return 'File must have .csv extension';
+          if (!/\.(csv|json|ndjson|jsonl)$/.test(input.trim())) {
+            return 'File must have a .csv, .json, .ndjson or .jsonl extension';
           }
           return true;
         },
@@ -103,16 +136,7 @@ export class UserPrompts {
   }
 
   async handleValidationErrors(validation: ValidationResult): Promise<'retry' | 'abort'> {
-    console.log(chalk.red('\n❌ CSV Validation Failed'));
-    console.log(chalk.red(`Found ${validation.errors.length} error(s):\n`));
-
-    validation.errors.slice(0, 10).forEach(error => {
-      console.log(chalk.red(`   • ${error}`));
-    });
-
-    if (validation.errors.length > 10) {
-      console.log(chalk.red(`   ... and ${validation.errors.length - 10} more errors`));
-    }
+    this.showValidationErrors(validation);
 
     const { action } = await inquirer.prompt([
       {
@@ -129,11 +153,25 @@ export class UserPrompts {
     return action;
   }
 
+  showValidationErrors(validation: ValidationResult): void {
+    console.log(chalk.red('\n❌ CSV Validation Failed'));
+    console.log(chalk.red(`Found ${validation.errors.length} error(s):\n`));
+
+    validation.errors.slice(0, 10).forEach(error => {
+      console.log(chalk.red(`   • ${error}`));
+    });
+
+    if (validation.errors.length > 10) {
+      console.log(chalk.red(`   ... and ${validation.errors.length - 10} more errors`));
+    }
+  }
+
   async handleTransactionFailure(
     record: DistributionRecord,
     index: number,
     error: any,
-    attempt: number
+    attempt: number,
+    decision?: RetryDecision
   ): Promise<'retry' | 'skip' | 'pause' | 'abort'> {
     console.log(chalk.red('\n❌ Transaction Failed'));
     console.log(chalk.white(`Address: ${chalk.cyan(record.address)}`));
@@ -141,6 +179,19 @@ export class UserPrompts {
     console.log(chalk.white(`Record: ${chalk.yellow(index + 1)}`));
     console.log(chalk.white(`Attempt: ${chalk.yellow(attempt)}`));
     console.log(chalk.red(`Error: ${error.message || error}`));
+    if (decision) {
+      console.log(
+        chalk.white(
+          `Reason: ${chalk.magenta(decision.reason)} (${chalk.magenta(decision.errorClass)} error)`
+        )
+      );
+      console.log(
+        chalk.white(
+          `Retry policy suggests: ${chalk.cyan(decision.action)}` +
+            (decision.backoffMs > 0 ? ` after ${decision.backoffMs / 1000}s` : '')
+        )
+      );
+    }
 
     const choices = [
       { name: 'Retry this transaction', value: 'retry' },
@@ -149,8 +200,8 @@ export class UserPrompts {
       { name: 'Abort entire distribution', value: 'abort' },
     ];
 
-    // Remove retry option after 3 attempts
-    if (attempt >= 3) {
+    // Remove retry option after 3 attempts, unless the policy still suggests it
+    if (attempt >= 3 && decision?.action !== 'retry') {
       choices.shift();
     }
 
@@ -160,6 +211,10 @@ export class UserPrompts {
         name: 'action',
         message: 'What would you like to do?',
         choices,
+        default: Math.max(
+          choices.findIndex(choice => choice.value === decision?.action),
+          0
+        ),
       },
     ]);
 
@@ -171,16 +226,9 @@ export class UserPrompts {
     available: bigint,
     shortfall: bigint,
     distributionAmount: bigint,
-    gasBuffer: bigint
+    estimatedFees: bigint
   ): Promise<'abort' | 'continue'> {
-    console.log(chalk.red('\n💰 Insufficient Balance'));
-    console.log(
-      chalk.white(`Distribution Amount: ${chalk.cyan(shannonsToAi3(distributionAmount))} tokens`)
-    );
-    console.log(chalk.white(`Gas Buffer: ${chalk.cyan(shannonsToAi3(gasBuffer))} tokens`));
-    console.log(chalk.white(`Total Required: ${chalk.yellow(shannonsToAi3(required))} tokens`));
-    console.log(chalk.white(`Available: ${chalk.yellow(shannonsToAi3(available))} tokens`));
-    console.log(chalk.red(`Shortfall: ${chalk.red(shannonsToAi3(shortfall))} tokens`));
+    this.showInsufficientBalance(required, available, shortfall, distributionAmount, estimatedFees);
 
     const { action } = await inquirer.prompt([
       {
@@ -197,25 +245,40 @@ export class UserPrompts {
     return action;
   }
 
-  async askToResumeDistribution(resumeManager: ResumeManager): Promise<{
+  showInsufficientBalance(
+    required: bigint,
+    available: bigint,
+    shortfall: bigint,
+    distributionAmount: bigint,
+    estimatedFees: bigint
+  ): void {
+    console.log(chalk.red('\n💰 Insufficient Balance'));
+    console.log(
+      chalk.white(`Distribution Amount: ${chalk.cyan(shannonsToAi3(distributionAmount))} tokens`)
+    );
+    console.log(chalk.white(`Estimated Fees: ${chalk.cyan(shannonsToAi3(estimatedFees))} tokens`));
+    console.log(chalk.white(`Total Required: ${chalk.yellow(shannonsToAi3(required))} tokens`));
+    console.log(chalk.white(`Available: ${chalk.yellow(shannonsToAi3(available))} tokens`));
+    console.log(chalk.red(`Shortfall: ${chalk.red(shannonsToAi3(shortfall))} tokens`));
+  }
+
+  /**
+   * Offer the open runs for resuming: a yes/no question for one, a pick list for several
+   */
+  async askToResumeDistribution(runs: OpenRun[]): Promise<{
     shouldResume: boolean;
     resumeData?: ResumeData;
   }> {
-    const resumeData = await resumeManager.loadLatestState();
-
-    if (!resumeData) {
+    if (runs.length === 0) {
       return { shouldResume: false };
     }
 
-    const analysis = resumeManager.analyzeProgress(resumeData);
+    if (runs.length > 1) {
+      return this.pickRunToResume(runs);
+    }
 
-    console.log(chalk.blue('\n🔄 Previous Distribution Found'));
-    console.log(chalk.white(`Timestamp: ${chalk.cyan(resumeData.timestamp.toLocaleString())}`));
-    console.log(chalk.white(`Total Records: ${chalk.yellow(resumeData.records.length)}`));
-    console.log(chalk.white(`Completed: ${chalk.green(analysis.completed)}`));
-    console.log(chalk.white(`Failed: ${chalk.red(analysis.failed)}`));
-    console.log(chalk.white(`Pending: ${chalk.yellow(analysis.pending)}`));
-    console.log(chalk.white(`Progress: ${chalk.cyan(analysis.completionPercentage.toFixed(1))}%`));
+    const [{ resumeData, progress }] = runs;
+    this.showResumeSummary(resumeData, progress);
 
     const { shouldResume } = await inquirer.prompt([
       {
@@ -229,6 +292,291 @@ export class UserPrompts {
     return { shouldResume, resumeData: shouldResume ? resumeData : undefined };
   }
 
+  private async pickRunToResume(runs: OpenRun[]): Promise<{
+    shouldResume: boolean;
+    resumeData?: ResumeData;
+  }> {
+    console.log(chalk.blue(`\n🔄 ${runs.length} Unfinished Distributions Found`));
+
+    const { choice } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'choice',
+        message: 'Which distribution would you like to resume?',
+        choices: [
+          ...runs.map((run, index) => ({ name: this.describeRun(run), value: index })),
+          { name: 'None, start a new distribution', value: -1 },
+        ],
+      },
+    ]);
+
+    if (choice < 0) {
+      return { shouldResume: false };
+    }
+
+    const { resumeData, progress } = runs[choice];
+    this.showResumeSummary(resumeData, progress);
+    return { shouldResume: true, resumeData };
+  }
+
+  private describeRun({ runId, resumeData, progress }: OpenRun): string {
+    const source = resumeData.sourceFilename || 'unknown CSV';
+    const network = resumeData.run?.network ? ` on ${resumeData.run.network}` : '';
+    return `${source}${network}: ${progress.completionPercentage.toFixed(1)}% of ${resumeData.records.length} records, ${progress.failed} failed, saved ${resumeData.timestamp.toLocaleString()} (run ${runId || 'without ID'})`;
+  }
+
+  showResumeSummary(
+    resumeData: ResumeData,
+    analysis: ReturnType<ResumeManager['analyzeProgress']>
+  ): void {
+    console.log(chalk.blue('\n🔄 Previous Distribution Found'));
+    if (resumeData.run) {
+      console.log(chalk.white(`Run: ${chalk.cyan(resumeData.run.id)} (${resumeData.run.network})`));
+    }
+    console.log(chalk.white(`Timestamp: ${chalk.cyan(resumeData.timestamp.toLocaleString())}`));
+    console.log(chalk.white(`Total Records: ${chalk.yellow(resumeData.records.length)}`));
+    console.log(chalk.white(`Completed: ${chalk.green(analysis.completed)}`));
+    console.log(chalk.white(`Failed: ${chalk.red(analysis.failed)}`));
+    console.log(chalk.white(`Pending: ${chalk.yellow(analysis.pending)}`));
+    if (analysis.inFlight > 0) {
+      console.log(chalk.white(`In flight at interruption: ${chalk.magenta(analysis.inFlight)}`));
+    }
+    console.log(chalk.white(`Progress: ${chalk.cyan(analysis.completionPercentage.toFixed(1))}%`));
+    if (resumeData.summary?.circuitBreaker) {
+      console.log(
+        chalk.red(`Paused by the circuit breaker: ${resumeData.summary.circuitBreaker.reason}`)
+      );
+    }
+  }
+
+  showReconciliationReport(report: ReconciliationReport): void {
+    console.log(chalk.blue('\n=== On-chain Reconciliation ==='));
+    console.log(
+      chalk.white(`Blocks scanned: ${chalk.cyan(`#${report.fromBlock} - #${report.toBlock}`)}`)
+    );
+    console.log(
+      chalk.white(
+        `Distributor nonce: ${chalk.cyan(report.accountNonce)} (${chalk.cyan(report.nonceDelta)} extrinsics in range)`
+      )
+    );
+    console.log(
+      chalk.white(`Found on chain (marked completed): ${chalk.green(report.matchedOnChain.length)}`)
+    );
+    console.log(
+      chalk.white(`Pending in transaction pool: ${chalk.yellow(report.pendingInPool.length)}`)
+    );
+    console.log(
+      chalk.white(`Cleared for safe resend: ${chalk.cyan(report.clearedForResend.length)}`)
+    );
+
+    if (report.unmatchedTransfers > 0) {
+      console.log(
+        chalk.yellow(
+          `⚠️  ${report.unmatchedTransfers} transfer(s) from the distributor in this range match no record`
+        )
+      );
+    }
+
+    if (report.pendingInPool.length > 0) {
+      console.log(
+        chalk.yellow(
+          '⚠️  Transfers still in the pool will not be resent; resume again once they land'
+        )
+      );
+    }
+
+    if (!report.complete) {
+      console.log(chalk.red('❌ Reconciliation incomplete - not every block could be scanned'));
+    }
+  }
+
+  showRecoveryReport(report: LogRecoveryReport): void {
+    console.log(chalk.blue('\n=== Recovery from Transaction Logs ==='));
+    console.log(chalk.white(`Logs read: ${chalk.cyan(report.logFiles.length)}`));
+    console.log(chalk.white(`Logged rows applied: ${chalk.cyan(report.loggedRows)}`));
+    console.log(chalk.white(`Completed: ${chalk.green(report.completed)}`));
+    console.log(chalk.white(`Failed: ${chalk.red(report.failed)}`));
+    console.log(chalk.white(`Pending: ${chalk.yellow(report.pending)}`));
+    console.log(
+      chalk.white(
+        `Checked on chain: ${report.checkedOnChain ? chalk.green('yes') : chalk.gray('no')}`
+      )
+    );
+
+    if (report.discrepancies.length === 0) {
+      console.log(
+        chalk.green(
+          report.checkedOnChain
+            ? '✅ The CSV file, the logs and the chain agree'
+            : '✅ The CSV file and the logs agree'
+        )
+      );
+      return;
+    }
+
+    console.log(chalk.red(`\n⚠️  ${report.discrepancies.length} discrepancy(ies):`));
+    report.discrepancies.slice(0, 20).forEach(discrepancy => {
+      console.log(chalk.red(`   • ${discrepancy.message}`));
+    });
+    if (report.discrepancies.length > 20) {
+      console.log(
+        chalk.gray(`   ... and ${report.discrepancies.length - 20} more (--json lists them all)`)
+      );
+    }
+  }
+
+  showRecipientPreflightReport(report: RecipientPreflightReport): void {
+    console.log(chalk.blue('\n=== Recipient Pre-flight ==='));
+    console.log(
+      chalk.white(
+        `Existential Deposit: ${chalk.cyan(shannonsToAi3(report.existentialDeposit))} tokens`
+      )
+    );
+    console.log(chalk.white(`Recipients checked: ${chalk.yellow(report.checkedAccounts)}`));
+    console.log(chalk.white(`New accounts: ${chalk.yellow(report.newAccounts)}`));
+
+    if (report.decisions.length === 0) {
+      console.log(chalk.green('✅ Every new account receives at least the existential deposit'));
+      return;
+    }
+
+    const color = report.blocked ? chalk.red : chalk.yellow;
+    console.log(
+      color(`\n⚠️  ${report.decisions.length} transfer(s) below the ED to a new account:`)
+    );
+    report.decisions.slice(0, 10).forEach(decision => {
+      const outcome =
+        decision.action === 'raised'
+          ? `raised to ${shannonsToAi3(decision.amount)}`
+          : decision.action;
+      console.log(
+        color(
+          `   • ${decision.address}: ${shannonsToAi3(decision.requestedAmount)} tokens - ${outcome}`
+        )
+      );
+    });
+    if (report.decisions.length > 10) {
+      console.log(chalk.gray(`   ... and ${report.decisions.length - 10} more`));
+    }
+  }
+
+  showDryRunReport(report: DryRunReport, reportPath: string): void {
+    console.log(chalk.blue('\n=== Dry Run Report ==='));
+    console.log(chalk.white(`Records: ${chalk.yellow(report.records.length)}`));
+    console.log(
+      chalk.white(`Distribution Amount: ${chalk.yellow(shannonsToAi3(report.totalAmount))} tokens`)
+    );
+    console.log(chalk.white(`Exact Fees: ${chalk.cyan(shannonsToAi3(report.totalFees))} tokens`));
+
+    if (!report.simulated) {
+      console.log(
+        chalk.yellow('⚠️  Node does not allow system_dryRun - dispatch errors were not predicted')
+      );
+    }
+
+    if (report.predictedFailures > 0) {
+      console.log(chalk.red(`\n❌ Predicted failures: ${report.predictedFailures}`));
+      report.records
+        .filter(row => !row.success)
+        .slice(0, 10)
+        .forEach(row => {
+          console.log(
+            chalk.red(
+              `   • Row ${row.sourceRowNumber || row.index + 1}: ${row.address} - ${row.error}`
+            )
+          );
+        });
+      if (report.predictedFailures > 10) {
+        console.log(chalk.gray(`   ... and ${report.predictedFailures - 10} more`));
+      }
+    } else {
+      console.log(chalk.green('✅ No failures predicted'));
+    }
+
+    console.log(chalk.white(`\nPer-row report: ${chalk.cyan(reportPath)}`));
+  }
+
+  showAllocationReport(report: AllocationReport, reportPath: string): void {
+    console.log(chalk.blue('\n=== Pool Allocation ==='));
+    console.log(chalk.white(`Weights File: ${chalk.cyan(report.weightsFile)}`));
+    console.log(chalk.white(`Pool: ${chalk.yellow(shannonsToAi3(report.pool))} tokens`));
+    console.log(chalk.white(`Total Weight: ${chalk.cyan(report.totalWeight)}`));
+    console.log(chalk.white(`Recipients: ${chalk.yellow(report.shares.length)}`));
+    console.log(
+      chalk.white(
+        `Rounded up by 1 Shannon: ${chalk.cyan(report.shares.filter(share => share.roundedUp).length)} (largest remainders)`
+      )
+    );
+
+    if (report.excluded.length > 0) {
+      console.log(chalk.yellow(`\n⚠️  ${report.excluded.length} row(s) left out:`));
+      report.excluded.slice(0, 10).forEach(row => {
+        console.log(
+          chalk.yellow(`   • Row ${row.rowNumber}: ${row.address} (weight ${row.weight}) - ${row.reason}`)
+        );
+      });
+      if (report.excluded.length > 10) {
+        console.log(chalk.gray(`   ... and ${report.excluded.length - 10} more`));
+      }
+    }
+
+    console.log(chalk.white(`\nDistribution CSV: ${chalk.cyan(report.distributionFile)}`));
+    console.log(chalk.white(`Allocation report: ${chalk.cyan(reportPath)}`));
+  }
+
+  showDistributionReport(report: DistributionReport): void {
+    console.log(chalk.blue('\n=== Distribution Report ==='));
+    if (report.sourceFilename) {
+      console.log(chalk.white(`Source: ${chalk.cyan(report.sourceFilename)}`));
+    }
+    console.log(chalk.white(`Saved: ${chalk.cyan(report.savedAt.toLocaleString())}`));
+    console.log(chalk.white(`Total Records: ${chalk.yellow(report.totalRecords)}`));
+
+    for (const [status, { count, amount }] of Object.entries(report.byStatus)) {
+      if (count > 0) {
+        console.log(
+          chalk.white(`${status}: ${chalk.yellow(count)} (${shannonsToAi3(amount)} tokens)`)
+        );
+      }
+    }
+    console.log(chalk.white(`Fees Paid: ${chalk.cyan(shannonsToAi3(report.feesPaid))} tokens`));
+
+    if (report.failures.length > 0) {
+      console.log(chalk.red(`\n❌ Failed transfers: ${report.failures.length}`));
+      report.failures.forEach(failure => {
+        console.log(
+          chalk.red(
+            `   • Row ${failure.sourceRowNumber || failure.index + 1}: ${failure.address} - ${shannonsToAi3(failure.amount)} tokens after ${failure.attempts} attempt(s): ${failure.error || 'unknown error'}`
+          )
+        );
+        if (failure.dispatchError?.docs) {
+          console.log(chalk.gray(`     ${failure.dispatchError.docs}`));
+        }
+        if (failure.metadata?.reference) {
+          console.log(chalk.gray(`     Reference: ${failure.metadata.reference}`));
+        }
+      });
+    }
+
+    this.showFailureHistogram(report.failureHistogram);
+  }
+
+  private showFailureHistogram(histogram?: FailureHistogramEntry[]): void {
+    if (!histogram || histogram.length === 0) {
+      return;
+    }
+
+    console.log(chalk.red('\nFailures by error:'));
+    const width = Math.max(...histogram.map(entry => String(entry.count).length));
+    histogram.forEach(({ error, count, amount }) => {
+      console.log(
+        chalk.red(
+          `   ${String(count).padStart(width)} × ${error} (${shannonsToAi3(amount)} tokens)`
+        )
+      );
+    });
+  }
+
   async askForDryRun(): Promise<boolean> {
     const { dryRun } = await inquirer.prompt([
       {
@@ -303,6 +651,18 @@ export class UserPrompts {
   }
 
   async showDistributionComplete(summary: any): Promise<void> {
+    this.showDistributionResult(summary);
+
+    await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'continue',
+        message: 'Press Enter to continue...',
+      },
+    ]);
+  }
+
+  showDistributionResult(summary: any): void {
     if (summary.abortedByUser) {
       console.log(chalk.yellow('\n⏹️ Distribution Aborted'));
       console.log(chalk.white('You chose to stop the distribution.'));
@@ -326,7 +686,11 @@ export class UserPrompts {
     } else if (!summary.endTime) {
       // Distribution was paused (endTime not set)
       console.log(chalk.yellow('\n⏸️ Distribution Paused'));
-      console.log(chalk.white('You chose to pause the distribution.'));
+      if (summary.circuitBreaker) {
+        console.log(chalk.red(`Circuit breaker tripped: ${summary.circuitBreaker.reason}`));
+      } else {
+        console.log(chalk.white('You chose to pause the distribution.'));
+      }
       console.log(
         chalk.white(
           `Progress before pause: ${chalk.cyan(summary.completed)}/${chalk.cyan(summary.totalRecords)} transactions`
@@ -351,6 +715,17 @@ export class UserPrompts {
       console.log(chalk.white(`Completed: ${chalk.green(summary.completed)}`));
       console.log(chalk.white(`Failed: ${chalk.red(summary.failed)}`));
       console.log(chalk.white(`Skipped: ${chalk.yellow(summary.skipped)}`));
+      console.log(chalk.white(`Fees Paid: ${chalk.cyan(shannonsToAi3(summary.feesPaid))} tokens`));
+      if (summary.existentialDepositDecisions.length > 0) {
+        const raised = summary.existentialDepositDecisions.filter(
+          (decision: ExistentialDepositDecision) => decision.action === 'raised'
+        ).length;
+        console.log(
+          chalk.white(
+            `ED decisions: ${chalk.yellow(raised)} raised, ${chalk.yellow(summary.existentialDepositDecisions.length - raised)} skipped`
+          )
+        );
+      }
       console.log(
         chalk.white(`Duration: ${this.formatDuration(summary.startTime, summary.endTime)}`)
       );
@@ -360,13 +735,7 @@ export class UserPrompts {
       }
     }
 
-    await inquirer.prompt([
-      {
-        type: 'input',
-        name: 'continue',
-        message: 'Press Enter to continue...',
-      },
-    ]);
+    this.showFailureHistogram(summary.failureHistogram);
   }
 
   private formatDuration(start: Date, end: Date): string {
@@ -1,6 +1,21 @@
 import dotenv from 'dotenv';
-import { AppConfig, LogLevel } from '../types';
-import { validateNetworkName } from './networks';
+import {
+  AmountInputConfig,
+  AmountRounding,
+  AmountUnit,
+  AppConfig,
+  CSVInputConfig,
+  DuplicatePolicy,
+  ExistentialDepositPolicy,
+  InputFormat,
+  LogLevel,
+  RetryMode,
+  StateBackend,
+  TransferBatchMode,
+  TransferMode,
+} from '../types';
+import { getNetworkRegistry, validateNetworkName } from './networks';
+import { getRetryPolicy } from './retry-policy';
 
 // Load environment variables
 dotenv.config();
@@ -29,11 +44,90 @@ function getEnvVarAsBoolean(name: string, defaultValue: boolean): boolean {
   return value.toLowerCase() === 'true';
 }
 
+/**
+ * How CSV files are read, from CSV_DELIMITER, CSV_ENCODING, CSV_HEADER and the CSV_*_COLUMN
+ * variables; anything not set is detected from each file
+ */
+function getCSVInputConfig(): CSVInputConfig {
+  const delimiters: Record<string, string> = {
+    auto: 'auto',
+    comma: ',',
+    ',': ',',
+    semicolon: ';',
+    ';': ';',
+    tab: '\t',
+    pipe: '|',
+    '|': '|',
+  };
+  const delimiterName = getEnvVar('CSV_DELIMITER', 'auto');
+  const delimiter = delimiters[delimiterName.toLowerCase()];
+  if (!delimiter) {
+    throw new Error(
+      `Invalid CSV delimiter: ${delimiterName}. Must be one of: auto, comma, semicolon, tab, pipe`
+    );
+  }
+
+  const encoding = getEnvVar('CSV_ENCODING', 'auto') as CSVInputConfig['encoding'];
+  const validEncodings: CSVInputConfig['encoding'][] = ['auto', 'utf8', 'utf16le', 'latin1'];
+  if (!validEncodings.includes(encoding)) {
+    throw new Error(
+      `Invalid CSV encoding: ${encoding}. Must be one of: ${validEncodings.join(', ')}`
+    );
+  }
+
+  const header = getEnvVar('CSV_HEADER', 'auto') as CSVInputConfig['header'];
+  const validHeaders: CSVInputConfig['header'][] = ['auto', 'yes', 'no'];
+  if (!validHeaders.includes(header)) {
+    throw new Error(`Invalid CSV header: ${header}. Must be one of: ${validHeaders.join(', ')}`);
+  }
+
+  const columns: CSVInputConfig['columns'] = {};
+  for (const column of [
+    'address',
+    'amount',
+    'unit',
+    'label',
+    'reference',
+    'category',
+    'note',
+  ] as const) {
+    const value = process.env[`CSV_${column.toUpperCase()}_COLUMN`]?.trim();
+    if (value) {
+      columns[column] = value;
+    }
+  }
+
+  return { delimiter, encoding, header, columns };
+}
+
+/**
+ * How amounts are read, from AMOUNT_UNIT and AMOUNT_ROUNDING
+ */
+function getAmountInputConfig(): AmountInputConfig {
+  const unit = getEnvVar('AMOUNT_UNIT', 'ai3').toLowerCase() as AmountUnit;
+  const validUnits: AmountUnit[] = ['ai3', 'shannon'];
+  if (!validUnits.includes(unit)) {
+    throw new Error(`Invalid amount unit: ${unit}. Must be one of: ${validUnits.join(', ')}`);
+  }
+
+  const rounding = getEnvVar('AMOUNT_ROUNDING', 'strict') as AmountRounding;
+  const validRoundings: AmountRounding[] = ['strict', 'down', 'up', 'half-up', 'half-even'];
+  if (!validRoundings.includes(rounding)) {
+    throw new Error(
+      `Invalid amount rounding: ${rounding}. Must be one of: ${validRoundings.join(', ')}`
+    );
+  }
+
+  return { unit, rounding };
+}
+
 export function loadConfig(): AppConfig {
   const network = getEnvVar('NETWORK', 'chronos');
 
   if (!validateNetworkName(network)) {
-    throw new Error(`Invalid network: ${network}. Must be one of: mainnet, chronos`);
+    throw new Error(
+      `Invalid network: ${network}. Must be one of: ${Object.keys(getNetworkRegistry()).join(', ')}`
+    );
   }
 
   const logLevel = getEnvVar('LOG_LEVEL', 'info') as LogLevel;
@@ -42,6 +136,62 @@ export function loadConfig(): AppConfig {
     throw new Error(`Invalid log level: ${logLevel}. Must be one of: ${validLogLevels.join(', ')}`);
   }
 
+  const batchMode = getEnvVar('BATCH_MODE', 'single') as TransferBatchMode;
+  const validBatchModes: TransferBatchMode[] = ['single', 'batchAll', 'forceBatch'];
+  if (!validBatchModes.includes(batchMode)) {
+    throw new Error(
+      `Invalid batch mode: ${batchMode}. Must be one of: ${validBatchModes.join(', ')}`
+    );
+  }
+
+  const transferMode = getEnvVar('TRANSFER_MODE', 'transferKeepAlive') as TransferMode;
+  const validTransferModes: TransferMode[] = ['transferKeepAlive', 'transferAllowDeath'];
+  if (!validTransferModes.includes(transferMode)) {
+    throw new Error(
+      `Invalid transfer mode: ${transferMode}. Must be one of: ${validTransferModes.join(', ')}`
+    );
+  }
+
+  const existentialDepositPolicy = getEnvVar('ED_POLICY', 'block') as ExistentialDepositPolicy;
+  const validPolicies: ExistentialDepositPolicy[] = ['block', 'skip', 'raise'];
+  if (!validPolicies.includes(existentialDepositPolicy)) {
+    throw new Error(
+      `Invalid ED policy: ${existentialDepositPolicy}. Must be one of: ${validPolicies.join(', ')}`
+    );
+  }
+
+  const duplicatePolicy = getEnvVar('DUPLICATE_POLICY', 'keep') as DuplicatePolicy;
+  const validDuplicatePolicies: DuplicatePolicy[] = ['reject', 'merge', 'keep'];
+  if (!validDuplicatePolicies.includes(duplicatePolicy)) {
+    throw new Error(
+      `Invalid duplicate policy: ${duplicatePolicy}. Must be one of: ${validDuplicatePolicies.join(', ')}`
+    );
+  }
+
+  const retryMode = getEnvVar('RETRY_MODE', 'inline') as RetryMode;
+  const validRetryModes: RetryMode[] = ['inline', 'deferred'];
+  if (!validRetryModes.includes(retryMode)) {
+    throw new Error(
+      `Invalid retry mode: ${retryMode}. Must be one of: ${validRetryModes.join(', ')}`
+    );
+  }
+
+  const stateBackend = getEnvVar('STATE_BACKEND', 'json') as StateBackend;
+  const validStateBackends: StateBackend[] = ['json', 'sqlite'];
+  if (!validStateBackends.includes(stateBackend)) {
+    throw new Error(
+      `Invalid state backend: ${stateBackend}. Must be one of: ${validStateBackends.join(', ')}`
+    );
+  }
+
+  const inputFormat = getEnvVar('INPUT_FORMAT', 'auto') as InputFormat | 'auto';
+  const validInputFormats: (InputFormat | 'auto')[] = ['auto', 'csv', 'json', 'ndjson'];
+  if (!validInputFormats.includes(inputFormat)) {
+    throw new Error(
+      `Invalid input format: ${inputFormat}. Must be one of: ${validInputFormats.join(', ')}`
+    );
+  }
+
   return {
     network,
     distributorPrivateKey: getEnvVar('DISTRIBUTOR_PRIVATE_KEY'),
@@ -49,7 +199,33 @@ export function loadConfig(): AppConfig {
     logLevel,
     logToFile: getEnvVarAsBoolean('LOG_TO_FILE', true),
     confirmationBlocks: getEnvVarAsNumber('CONFIRMATION_BLOCKS', 2),
+    confirmationTimeoutSeconds: getEnvVarAsNumber('CONFIRMATION_TIMEOUT_SECONDS', 300),
+    waitForFinality: getEnvVarAsBoolean('WAIT_FOR_FINALITY', false),
+    reconcileMaxBlocks: getEnvVarAsNumber('RECONCILE_MAX_BLOCKS', 20000),
+    rpcTimeoutSeconds: getEnvVarAsNumber('RPC_TIMEOUT_SECONDS', 30),
+    reconnectMaxBackoffSeconds: getEnvVarAsNumber('RECONNECT_MAX_BACKOFF_SECONDS', 60),
     batchSize: getEnvVarAsNumber('BATCH_SIZE', 10),
+    batchMode,
+    pipelineDepth: getEnvVarAsNumber('PIPELINE_DEPTH', 1),
+    transferMode,
+    existentialDepositPolicy,
+    duplicatePolicy,
+    retryPolicy: getRetryPolicy(),
+    retryMode,
+    deferredRetryPasses: getEnvVarAsNumber('DEFERRED_RETRY_PASSES', 3),
+    deferredRetryDelaySeconds: getEnvVarAsNumber('DEFERRED_RETRY_DELAY_SECONDS', 30),
+    circuitBreaker: {
+      maxConsecutiveFailures: getEnvVarAsNumber('CIRCUIT_BREAKER_MAX_CONSECUTIVE_FAILURES', 10),
+      maxFailureRatePercent: getEnvVarAsNumber('CIRCUIT_BREAKER_MAX_FAILURE_RATE', 50),
+      failureRateWindow: getEnvVarAsNumber('CIRCUIT_BREAKER_WINDOW', 20),
+      chainStallSeconds: getEnvVarAsNumber('CIRCUIT_BREAKER_STALL_SECONDS', 120),
+      checkBalance: getEnvVarAsBoolean('CIRCUIT_BREAKER_CHECK_BALANCE', true),
+    },
+    stateBackend,
+    streamChunkSize: getEnvVarAsNumber('STREAM_CHUNK_SIZE', 1000),
+    inputFormat,
+    csvInput: getCSVInputConfig(),
+    amountInput: getAmountInputConfig(),
     gasBufferAi3: getEnvVarAsNumber('GAS_BUFFER_AI3', 1),
   };
 }
@@ -72,7 +248,42 @@ export function validateConfig(config: AppConfig): void {
     throw new Error('CONFIRMATION_BLOCKS must be at least 1');
   }
 
+  if (config.confirmationTimeoutSeconds !== undefined && config.confirmationTimeoutSeconds < 1) {
+    throw new Error('CONFIRMATION_TIMEOUT_SECONDS must be at least 1');
+  }
+
+  if (config.rpcTimeoutSeconds !== undefined && config.rpcTimeoutSeconds < 1) {
+    throw new Error('RPC_TIMEOUT_SECONDS must be at least 1');
+  }
+
   if (config.batchSize < 1) {
     throw new Error('BATCH_SIZE must be at least 1');
   }
+
+  if (config.pipelineDepth !== undefined && config.pipelineDepth < 1) {
+    throw new Error('PIPELINE_DEPTH must be at least 1');
+  }
+
+  if (config.deferredRetryPasses !== undefined && config.deferredRetryPasses < 1) {
+    throw new Error('DEFERRED_RETRY_PASSES must be at least 1');
+  }
+
+  if (config.deferredRetryDelaySeconds !== undefined && config.deferredRetryDelaySeconds < 0) {
+    throw new Error('DEFERRED_RETRY_DELAY_SECONDS must not be negative');
+  }
+
+  if (config.streamChunkSize !== undefined && config.streamChunkSize < 1) {
+    throw new Error('STREAM_CHUNK_SIZE must be at least 1');
+  }
+
+  if (config.circuitBreaker) {
+    const { maxConsecutiveFailures, maxFailureRatePercent, failureRateWindow, chainStallSeconds } =
+      config.circuitBreaker;
+    if (maxConsecutiveFailures < 0 || failureRateWindow < 0 || chainStallSeconds < 0) {
+      throw new Error('Circuit breaker thresholds must not be negative');
+    }
+    if (maxFailureRatePercent < 0 || maxFailureRatePercent > 100) {
+      throw new Error('CIRCUIT_BREAKER_MAX_FAILURE_RATE must be between 0 and 100');
+    }
+  }
 }
@@ -1,26 +1,111 @@
+import fs from 'fs-extra';
+import Joi from 'joi';
 import { NetworkConfig } from '../types';
 
+const DEFAULT_NETWORKS_FILE = 'networks.json';
+
 export const NETWORKS: Record<string, NetworkConfig> = {
   mainnet: {
     name: 'Autonomys Mainnet',
     rpcEndpoint: 'wss://rpc.mainnet.autonomys.xyz/ws',
+    rpcEndpoints: [
+      'wss://rpc.mainnet.autonomys.xyz/ws',
+      'wss://rpc.mainnet.subspace.foundation/ws',
+    ],
+    explorerUrl: 'https://autonomys.subscan.io/extrinsic/{hash}',
+    ss58Format: 6094,
+    tokenDecimals: 18,
+    genesisHash: '0x66455a580aabff303720aa83adbe6c44502922251c03ba73686d5245da9e21bd',
   },
   chronos: {
     name: 'Chronos Testnet',
     rpcEndpoint: 'wss://rpc.chronos.autonomys.xyz/ws',
+    rpcEndpoints: ['wss://rpc.chronos.autonomys.xyz/ws'],
+    explorerUrl: 'https://autonomys-chronos.subscan.io/extrinsic/{hash}',
+    ss58Format: 6094,
+    tokenDecimals: 18,
+  },
+  local: {
+    name: 'Local Dev Node',
+    rpcEndpoint: 'ws://127.0.0.1:9944',
+    rpcEndpoints: ['ws://127.0.0.1:9944'],
+    ss58Format: 6094,
+    tokenDecimals: 18,
   },
 };
 
+// Schema for one entry of the networks file
+const networkEntrySchema = Joi.object({
+  name: Joi.string().required(),
+  rpcEndpoints: Joi.array()
+    .items(Joi.string().uri({ scheme: ['ws', 'wss'] }))
+    .min(1)
+    .required(),
+  explorerUrl: Joi.string().pattern(/\{hash\}/),
+  ss58Format: Joi.number().integer().min(0).max(16383).required(),
+  tokenDecimals: Joi.number().integer().min(0).max(36).required(),
+  genesisHash: Joi.string().pattern(/^0x[0-9a-fA-F]{64}$/),
+});
+
+let registry: Record<string, NetworkConfig> | undefined;
+
+/**
+ * Build the network registry: the built-in networks, extended or overridden by the entries
+ * of a JSON file keyed by network name. A missing file just leaves the built-ins.
+ */
+export function loadNetworkRegistry(filePath: string): Record<string, NetworkConfig> {
+  const networks: Record<string, NetworkConfig> = { ...NETWORKS };
+
+  if (!fs.pathExistsSync(filePath)) {
+    return networks;
+  }
+
+  let entries: Record<string, unknown>;
+  try {
+    entries = fs.readJsonSync(filePath);
+  } catch (error) {
+    throw new Error(
+      `Failed to read networks file ${filePath}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+
+  for (const [key, entry] of Object.entries(entries)) {
+    const { error, value } = networkEntrySchema.validate(entry);
+    if (error) {
+      throw new Error(`Invalid network "${key}" in ${filePath}: ${error.message}`);
+    }
+
+    networks[key.toLowerCase()] = {
+      ...value,
+      genesisHash: value.genesisHash?.toLowerCase(),
+      rpcEndpoint: value.rpcEndpoints[0],
+    };
+  }
+
+  return networks;
+}
+
+/**
+ * The registry used by the application, loaded once from NETWORKS_FILE (default networks.json)
+ */
+export function getNetworkRegistry(): Record<string, NetworkConfig> {
+  if (!registry) {
+    registry = loadNetworkRegistry(process.env.NETWORKS_FILE || DEFAULT_NETWORKS_FILE);
+  }
+  return registry;
+}
+
 export function getNetworkConfig(networkName: string): NetworkConfig {
-  const config = NETWORKS[networkName.toLowerCase()];
+  const networks = getNetworkRegistry();
+  const config = networks[networkName.toLowerCase()];
   if (!config) {
     throw new Error(
-      `Unknown network: ${networkName}. Available networks: ${Object.keys(NETWORKS).join(', ')}`
+      `Unknown network: ${networkName}. Available networks: ${Object.keys(networks).join(', ')}`
     );
   }
   return config;
 }
 
 export function validateNetworkName(networkName: string): boolean {
-  return Object.keys(NETWORKS).includes(networkName.toLowerCase());
+  return Object.keys(getNetworkRegistry()).includes(networkName.toLowerCase());
 }
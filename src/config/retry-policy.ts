@@ -0,0 +1,114 @@
+import fs from 'fs-extra';
+import Joi from 'joi';
+import { ErrorClass, RetryPolicy } from '../types';
+
+const DEFAULT_RETRY_POLICY_FILE = 'retry-policy.json';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  // Pausing once the retries run out leaves a resumable run instead of skipping everyone
+  transient: {
+    action: 'retry',
+    maxRetries: 5,
+    exhausted: 'pause',
+    backoffSeconds: 2,
+    maxBackoffSeconds: 60,
+  },
+  permanent: {
+    action: 'skip',
+    maxRetries: 0,
+    exhausted: 'skip',
+    backoffSeconds: 0,
+    maxBackoffSeconds: 0,
+  },
+  fatal: {
+    action: 'abort',
+    maxRetries: 0,
+    exhausted: 'abort',
+    backoffSeconds: 0,
+    maxBackoffSeconds: 0,
+  },
+  // Sending these again could pay twice; the chain has to be checked first
+  unconfirmed: {
+    action: 'pause',
+    maxRetries: 0,
+    exhausted: 'pause',
+    backoffSeconds: 0,
+    maxBackoffSeconds: 0,
+  },
+  unknown: {
+    action: 'retry',
+    maxRetries: 2,
+    exhausted: 'skip',
+    backoffSeconds: 5,
+    maxBackoffSeconds: 30,
+  },
+};
+
+const ERROR_CLASSES = Object.keys(DEFAULT_RETRY_POLICY) as ErrorClass[];
+
+// Schema for one class of the retry policy file; omitted fields keep their default
+const retryRuleSchema = Joi.object({
+  action: Joi.string().valid('retry', 'skip', 'pause', 'abort'),
+  maxRetries: Joi.number().integer().min(0),
+  exhausted: Joi.string().valid('skip', 'pause', 'abort'),
+  backoffSeconds: Joi.number().min(0),
+  maxBackoffSeconds: Joi.number().min(0),
+});
+
+const retryPolicySchema = Joi.object(
+  Object.fromEntries(ERROR_CLASSES.map(errorClass => [errorClass, retryRuleSchema]))
+);
+
+/**
+ * Build the retry policy: the defaults, with the rules of a JSON file keyed by error class
+ * laid over them. A missing file just leaves the defaults.
+ */
+export function loadRetryPolicy(filePath: string): RetryPolicy {
+  if (!fs.pathExistsSync(filePath)) {
+    return DEFAULT_RETRY_POLICY;
+  }
+
+  let overrides: unknown;
+  try {
+    overrides = fs.readJsonSync(filePath);
+  } catch (error) {
+    throw new Error(
+      `Failed to read retry policy file ${filePath}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+
+  const { error, value } = retryPolicySchema.validate(overrides);
+  if (error) {
+    throw new Error(`Invalid retry policy in ${filePath}: ${error.message}`);
+  }
+
+  const policy = Object.fromEntries(
+    ERROR_CLASSES.map(errorClass => [
+      errorClass,
+      { ...DEFAULT_RETRY_POLICY[errorClass], ...value[errorClass] },
+    ])
+  ) as RetryPolicy;
+
+  if (policy.unconfirmed.action === 'retry') {
+    throw new Error(
+      `Invalid retry policy in ${filePath}: unconfirmed transfers may already have gone through and cannot be retried`
+    );
+  }
+
+  for (const [errorClass, rule] of Object.entries(policy)) {
+    if (rule.maxBackoffSeconds < rule.backoffSeconds) {
+      throw new Error(
+        `Invalid retry policy in ${filePath}: ${errorClass}.maxBackoffSeconds is below backoffSeconds`
+      );
+    }
+  }
+
+  return policy;
+}
+
+/**
+ * The policy used by the application, read from RETRY_POLICY_FILE (default retry-policy.json)
+ */
+export function getRetryPolicy(): RetryPolicy {
+  return loadRetryPolicy(process.env.RETRY_POLICY_FILE || DEFAULT_RETRY_POLICY_FILE);
+}
@@ -0,0 +1,122 @@
+import { CircuitBreakerConfig, CircuitBreakerTrip } from '../types';
+import { shannonsToAi3 } from '@autonomys/auto-utils';
+
+export const DEFAULT_CIRCUIT_BREAKER: CircuitBreakerConfig = {
+  maxConsecutiveFailures: 10,
+  maxFailureRatePercent: 50,
+  failureRateWindow: 20,
+  chainStallSeconds: 120,
+  checkBalance: true,
+};
+
+// The chain and balance are read at most this often, however fast records settle
+const CHAIN_CHECK_INTERVAL_MS = 10_000;
+
+/**
+ * What the distributor read from the chain for a health check
+ */
+export interface ChainHealth {
+  bestBlockTimestamp: number; // Milliseconds, from timestamp.now at the best block
+  freeBalance: bigint; // Distributor free balance in Shannon
+  requiredBalance: bigint; // Amount the records still to be sent need, in Shannon
+}
+
+/**
+ * Decides when a whole distribution should be paused instead of going on record by record:
+ * too many failures in a row or in the recent window, a chain that stopped producing blocks,
+ * or a distributor that can no longer pay the remaining records. A threshold of 0 turns its
+ * check off.
+ */
+export class CircuitBreaker {
+  private config: CircuitBreakerConfig;
+  private consecutiveFailures = 0;
+  private outcomes: boolean[] = []; // Most recent last, true for a failure
+  private lastChainCheck = -Infinity; // Milliseconds
+
+  constructor(config: CircuitBreakerConfig = DEFAULT_CIRCUIT_BREAKER) {
+    this.config = config;
+  }
+
+  /**
+   * Forget the outcomes of an earlier run
+   */
+  reset(): void {
+    this.consecutiveFailures = 0;
+    this.outcomes = [];
+    this.lastChainCheck = -Infinity;
+  }
+
+  recordOutcome(success: boolean): void {
+    this.consecutiveFailures = success ? 0 : this.consecutiveFailures + 1;
+
+    this.outcomes.push(!success);
+    if (this.outcomes.length > this.config.failureRateWindow) {
+      this.outcomes.shift();
+    }
+  }
+
+  checkFailures(): CircuitBreakerTrip | undefined {
+    const { maxConsecutiveFailures, maxFailureRatePercent, failureRateWindow } = this.config;
+
+    if (maxConsecutiveFailures > 0 && this.consecutiveFailures >= maxConsecutiveFailures) {
+      return {
+        trigger: 'consecutiveFailures',
+        reason: `${this.consecutiveFailures} transfers failed in a row`,
+      };
+    }
+
+    // Only judge the rate over a full window, so a failure at the start cannot trip it
+    if (
+      maxFailureRatePercent > 0 &&
+      failureRateWindow > 0 &&
+      this.outcomes.length >= failureRateWindow
+    ) {
+      const failures = this.outcomes.filter(Boolean).length;
+      if (failures * 100 > maxFailureRatePercent * this.outcomes.length) {
+        return {
+          trigger: 'failureRate',
+          reason: `${failures} of the last ${this.outcomes.length} transfers failed`,
+        };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Whether the chain is due to be read for a health check, which takes RPC calls; once it is,
+   * the next one is only due CHAIN_CHECK_INTERVAL_MS later
+   * @param now - Current time in milliseconds
+   */
+  chainCheckDue(now: number = Date.now()): boolean {
+    if (now - this.lastChainCheck < CHAIN_CHECK_INTERVAL_MS) {
+      return false;
+    }
+    this.lastChainCheck = now;
+    return true;
+  }
+
+  /**
+   * @param now - Current time in milliseconds
+   */
+  checkChainHealth(health: ChainHealth, now: number = Date.now()): CircuitBreakerTrip | undefined {
+    const { chainStallSeconds, checkBalance } = this.config;
+
+    const blockAgeSeconds = Math.floor((now - health.bestBlockTimestamp) / 1000);
+    if (chainStallSeconds > 0 && blockAgeSeconds > chainStallSeconds) {
+      return {
+        trigger: 'chainStall',
+        reason: `No new block for ${blockAgeSeconds}s`,
+      };
+    }
+
+    if (checkBalance && health.freeBalance < health.requiredBalance) {
+      return {
+        trigger: 'lowBalance',
+        reason: `Distributor balance ${shannonsToAi3(health.freeBalance)} is below the ${shannonsToAi3(health.requiredBalance)} the remaining records need`,
+      };
+    }
+
+    return undefined;
+  }
+}
@@ -0,0 +1,209 @@
+import { ApiPromise } from '@polkadot/api';
+import Logger from '../utils/logger';
+
+export interface InclusionInfo {
+  transactionHash: string;
+  blockHash: string;
+  blockNumber: number;
+}
+
+export interface ConfirmationResult {
+  blockHash: string;
+  blockNumber: number;
+  confirmations: number;
+  finalized: boolean;
+}
+
+export interface ConfirmationOptions {
+  confirmationBlocks: number;
+  waitForFinality: boolean;
+  timeoutMs: number;
+}
+
+export class ConfirmationTimeoutError extends Error {
+  constructor(transactionHash: string, timeoutMs: number) {
+    super(`Transaction confirmation timeout after ${timeoutMs / 1000}s: ${transactionHash}`);
+    this.name = 'ConfirmationTimeoutError';
+  }
+}
+
+export class ReorgError extends Error {
+  constructor(
+    transactionHash: string,
+    public _blockNumber: number
+  ) {
+    super(
+      `Transaction ${transactionHash} was dropped from block #${_blockNumber} by a chain reorganization and has not been re-included`
+    );
+    this.name = 'ReorgError';
+  }
+}
+
+/**
+ * Tracks an included extrinsic until it is buried under enough blocks on the best chain
+ * (and optionally finalized), following it through reorgs.
+ */
+export class ConfirmationTracker {
+  private api: ApiPromise;
+  private logger: Logger;
+  private options: ConfirmationOptions;
+
+  constructor(api: ApiPromise, logger: Logger, options: ConfirmationOptions) {
+    this.api = api;
+    this.logger = logger;
+    this.options = options;
+  }
+
+  async waitForConfirmation(inclusion: InclusionInfo): Promise<ConfirmationResult> {
+    const { confirmationBlocks, waitForFinality, timeoutMs } = this.options;
+    const { transactionHash } = inclusion;
+
+    // null while the extrinsic is off the canonical chain after a reorg
+    let current: { blockHash: string; blockNumber: number } | null = {
+      blockHash: inclusion.blockHash,
+      blockNumber: inclusion.blockNumber,
+    };
+    let droppedAt = inclusion.blockNumber;
+    let scanFrom = inclusion.blockNumber;
+    let confirmations = 0;
+    let finalized = false;
+
+    this.logger.debug(`Waiting for ${confirmationBlocks} confirmations for tx ${transactionHash}`, {
+      blockHash: inclusion.blockHash,
+      blockNumber: inclusion.blockNumber,
+      waitForFinality,
+    });
+
+    return new Promise((resolve, reject) => {
+      const unsubscribers: (() => void)[] = [];
+      let settled = false;
+      let queue = Promise.resolve();
+
+      const finish = (outcome: () => void) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        unsubscribers.forEach(unsubscribe => unsubscribe());
+        outcome();
+      };
+
+      const tryResolve = () => {
+        if (current && confirmations >= confirmationBlocks && (finalized || !waitForFinality)) {
+          const confirmed = current;
+          finish(() => resolve({ ...confirmed, confirmations, finalized }));
+        }
+      };
+
+      // Head callbacks are async, so run them one at a time to keep the state consistent
+      const enqueue = (handler: () => Promise<void>) => {
+        queue = queue.then(handler).catch(error => finish(() => reject(error)));
+      };
+
+      const onBestHead = async (bestNumber: number) => {
+        if (settled) return;
+
+        if (current && bestNumber >= current.blockNumber) {
+          const canonicalHash = await this.getCanonicalHash(current.blockNumber);
+          if (canonicalHash !== current.blockHash) {
+            this.logger.warn('Chain reorganization dropped the inclusion block', {
+              transactionHash,
+              blockNumber: current.blockNumber,
+              blockHash: current.blockHash,
+              canonicalHash,
+            });
+            droppedAt = current.blockNumber;
+            scanFrom = current.blockNumber;
+            current = null;
+            confirmations = 0;
+          }
+        }
+
+        if (!current) {
+          // Look for the extrinsic on the new canonical chain
+          for (let height = scanFrom; height <= bestNumber && !current; height++) {
+            const blockHash = await this.getCanonicalHash(height);
+            if (await this.blockContainsExtrinsic(blockHash, transactionHash)) {
+              current = { blockHash, blockNumber: height };
+              this.logger.info('Transaction re-included after reorganization', {
+                transactionHash,
+                blockHash,
+                blockNumber: height,
+              });
+            }
+          }
+          scanFrom = Math.max(scanFrom, bestNumber + 1);
+        }
+
+        if (current) {
+          confirmations = Math.max(0, bestNumber - current.blockNumber + 1);
+          tryResolve();
+        }
+      };
+
+      const onFinalizedHead = async (finalizedNumber: number) => {
+        if (settled || !current || finalizedNumber < current.blockNumber) return;
+
+        const finalizedHash = await this.getCanonicalHash(current.blockNumber);
+        if (finalizedHash === current.blockHash) {
+          finalized = true;
+          tryResolve();
+        } else if (!(await this.blockContainsExtrinsic(finalizedHash, transactionHash))) {
+          // A different block was finalized at this height; the extrinsic can no longer land there
+          finish(() => reject(new ReorgError(transactionHash, current!.blockNumber)));
+        }
+      };
+
+      const timer = setTimeout(() => {
+        finish(() =>
+          reject(
+            current
+              ? new ConfirmationTimeoutError(transactionHash, timeoutMs)
+              : new ReorgError(transactionHash, droppedAt)
+          )
+        );
+      }, timeoutMs);
+
+      // Subscriptions that come back after we settled are dropped straight away
+      const track = (unsubscribe: () => void) => {
+        if (settled) {
+          unsubscribe();
+        } else {
+          unsubscribers.push(unsubscribe);
+        }
+      };
+
+      const subscribe = async () => {
+        track(
+          await this.api.rpc.chain.subscribeNewHeads(header => {
+            enqueue(() => onBestHead(header.number.toNumber()));
+          })
+        );
+
+        if (waitForFinality) {
+          track(
+            await this.api.rpc.chain.subscribeFinalizedHeads(header => {
+              enqueue(() => onFinalizedHead(header.number.toNumber()));
+            })
+          );
+        }
+      };
+
+      subscribe().catch(error => finish(() => reject(error)));
+    });
+  }
+
+  private async getCanonicalHash(blockNumber: number): Promise<string> {
+    const hash = await this.api.rpc.chain.getBlockHash(blockNumber);
+    return hash.toHex();
+  }
+
+  private async blockContainsExtrinsic(
+    blockHash: string,
+    transactionHash: string
+  ): Promise<boolean> {
+    const signedBlock = await this.api.rpc.chain.getBlock(blockHash);
+    return signedBlock.block.extrinsics.some(
+      extrinsic => extrinsic.hash.toHex() === transactionHash
+    );
+  }
+}
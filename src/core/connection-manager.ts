@@ -0,0 +1,224 @@
+import { ApiPromise, WsProvider } from '@polkadot/api';
+import { CHAIN_TYPES } from '@autonomys/auto-utils';
+import Logger from '../utils/logger';
+
+export interface ConnectionManagerOptions {
+  endpoints: string[]; // Tried in order, the first healthy one wins
+  timeoutMs: number; // Per endpoint, for connecting and the health check
+  initialBackoffMs: number;
+  maxBackoffMs: number;
+  verify?(_api: ApiPromise): void | Promise<void>; // Throwing here is fatal, not retried
+}
+
+export class ConnectionLostError extends Error {
+  constructor(endpoint: string) {
+    super(`RPC connection to ${endpoint} was lost`);
+    this.name = 'ConnectionLostError';
+  }
+}
+
+const CONNECTION_LOST = Symbol('connection lost');
+
+/**
+ * Owns the RPC connection: picks the first healthy endpoint from an ordered list, notices when
+ * the websocket drops and, when asked, reconnects with exponential backoff, cycling through
+ * the endpoints until one is back.
+ *
+ * The provider's own auto-reconnect is switched off, so a dropped connection stays down until
+ * waitUntilConnected() is called and callers can decide what to re-check once it is back.
+ */
+export class ConnectionManager {
+  private logger: Logger;
+  private options: ConnectionManagerOptions;
+  private current?: { api: ApiPromise; endpoint: string; disconnected: Promise<void> };
+  private connected = false;
+  private closing = false;
+  private reconnecting?: Promise<ApiPromise>;
+
+  constructor(logger: Logger, options: ConnectionManagerOptions) {
+    this.logger = logger;
+    this.options = options;
+  }
+
+  /**
+   * Connect to the first healthy endpoint, trying each once
+   */
+  async connect(): Promise<ApiPromise> {
+    const api = await this.connectToAny();
+    if (!api) {
+      throw new Error(`No healthy RPC endpoint available: ${this.options.endpoints.join(', ')}`);
+    }
+    return api;
+  }
+
+  /**
+   * Resolve with a live API, reconnecting first if the connection has dropped. Waits as long
+   * as it takes; concurrent callers share the same reconnection.
+   */
+  async waitUntilConnected(): Promise<ApiPromise> {
+    if (this.isConnected) {
+      return this.current!.api;
+    }
+
+    if (!this.reconnecting) {
+      this.reconnecting = this.reconnect().finally(() => {
+        this.reconnecting = undefined;
+      });
+    }
+    return this.reconnecting;
+  }
+
+  /**
+   * Settle with the operation, or reject with ConnectionLostError as soon as the connection
+   * drops, instead of waiting on subscriptions that will never fire
+   */
+  async guard<T>(operation: Promise<T>): Promise<T> {
+    if (!this.current) {
+      return operation;
+    }
+
+    const { endpoint, disconnected } = this.current;
+    const outcome = await Promise.race([
+      operation,
+      disconnected.then(() => CONNECTION_LOST as typeof CONNECTION_LOST),
+    ]);
+
+    if (outcome === CONNECTION_LOST) {
+      throw new ConnectionLostError(endpoint);
+    }
+    return outcome as T;
+  }
+
+  async disconnect(): Promise<void> {
+    this.closing = true;
+    if (this.current) {
+      await this.current.api.disconnect();
+    }
+    this.connected = false;
+  }
+
+  get api(): ApiPromise | undefined {
+    return this.current?.api;
+  }
+
+  get endpoint(): string | undefined {
+    return this.current?.endpoint;
+  }
+
+  get isConnected(): boolean {
+    return this.connected && !!this.current;
+  }
+
+  private async reconnect(): Promise<ApiPromise> {
+    const { initialBackoffMs, maxBackoffMs } = this.options;
+    const startedAt = Date.now();
+
+    for (let attempt = 0; ; attempt++) {
+      const api = await this.connectToAny();
+      if (api) {
+        this.logger.info('RPC connection re-established', {
+          endpoint: this.current!.endpoint,
+          attempts: attempt + 1,
+          downtimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+        });
+        return api;
+      }
+
+      const backoffMs = Math.min(initialBackoffMs * 2 ** attempt, maxBackoffMs);
+      this.logger.warn('No RPC endpoint reachable, retrying', {
+        attempt: attempt + 1,
+        retryInSeconds: backoffMs / 1000,
+      });
+      await new Promise(resolve => setTimeout(resolve, backoffMs));
+    }
+  }
+
+  /**
+   * @returns the API of the first endpoint that connects and passes the health check
+   */
+  private async connectToAny(): Promise<ApiPromise | undefined> {
+    if (this.current) {
+      // Drop the dead connection before replacing it
+      await this.current.api.disconnect().catch(() => undefined);
+      this.current = undefined;
+    }
+
+    for (const endpoint of this.options.endpoints) {
+      let api: ApiPromise | undefined;
+      try {
+        api = await this.open(endpoint);
+        await this.checkHealth(api);
+      } catch (error) {
+        this.logger.warn('RPC endpoint unavailable', {
+          endpoint,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        await api?.disconnect().catch(() => undefined);
+        continue;
+      }
+
+      try {
+        await this.options.verify?.(api);
+      } catch (error) {
+        await api.disconnect().catch(() => undefined);
+        throw error;
+      }
+
+      this.attach(api, endpoint);
+      return api;
+    }
+
+    return undefined;
+  }
+
+  private async open(endpoint: string): Promise<ApiPromise> {
+    const provider = new WsProvider(endpoint, false);
+    try {
+      await provider.connect();
+      await this.withTimeout(provider.isReady, `Timed out connecting to ${endpoint}`);
+      return await this.withTimeout(
+        ApiPromise.create({ provider, types: CHAIN_TYPES, noInitWarn: true }),
+        `Timed out initializing API for ${endpoint}`
+      );
+    } catch (error) {
+      await provider.disconnect().catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * A syncing node answers with stale state, so it does not count as healthy
+   */
+  private async checkHealth(api: ApiPromise): Promise<void> {
+    const health = await this.withTimeout(api.rpc.system.health(), 'Health check timed out');
+    if (health.isSyncing.isTrue) {
+      throw new Error('Node is still syncing');
+    }
+  }
+
+  private attach(api: ApiPromise, endpoint: string): void {
+    const disconnected = new Promise<void>(resolve => {
+      api.once('disconnected', () => {
+        if (this.current?.api === api) {
+          this.connected = false;
+          if (!this.closing) {
+            this.logger.warn('RPC connection lost', { endpoint });
+          }
+        }
+        resolve();
+      });
+    });
+
+    this.current = { api, endpoint, disconnected };
+    this.connected = true;
+    this.logger.info('Connected to RPC endpoint', { endpoint });
+  }
+
+  private withTimeout<T>(promise: Promise<T>, message: string): Promise<T> {
+    let timer: ReturnType<typeof setTimeout>;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(message)), this.options.timeoutMs);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+}
@@ -1,4 +1,4 @@
-import { activate, signAndSendTx, disconnect } from '@autonomys/auto-utils';
+import { signAndSendTx } from '@autonomys/auto-utils';
 import { transfer, account as getAccount, balance } from '@autonomys/auto-consensus';
 import { ApiPromise } from '@polkadot/api';
 import { Keyring } from '@polkadot/keyring';
@@ -10,28 +10,80 @@ import {
   TransactionResult,
   AppConfig,
   TransactionFailureHandler,
+  FailureAction,
+  TransferBatchMode,
+  ResumeData,
+  ReconciliationReport,
+  DryRunReport,
+  RecipientPreflightReport,
+  TransferMode,
+  DispatchErrorInfo,
+  CircuitBreakerTrip,
+  JournalEntry,
+  RunInfo,
 } from '../types';
-import { getNetworkConfig } from '../config/networks';
+import { getNetworkConfig, getNetworkRegistry } from '../config/networks';
 import Logger from '../utils/logger';
 import { ResumeManager } from './resume-manager';
 import { CSVTransactionLogger } from '../utils/csv-logger';
 import { UserPrompts } from '../cli/prompts';
 import { ai3ToShannons } from '@autonomys/auto-utils';
+import { mapBatchItemResults } from '../utils/batch-results';
+import {
+  decodeDispatchError,
+  DispatchErrorLike,
+  formatDispatchError,
+  readExtrinsicFailed,
+} from '../utils/dispatch-error';
+import { isRecordSettled } from '../utils/record-status';
+import { buildFailureHistogram, combineSummaries } from '../utils/distribution-report';
+import { readFeePaid, splitFee } from '../utils/fee-events';
+import {
+  ConfirmationTracker,
+  ConfirmationResult,
+  ConfirmationTimeoutError,
+  ReorgError,
+} from './confirmation-tracker';
+import { Reconciler } from './reconciler';
+import { NetworkVerifier } from './network-verifier';
+import { ConnectionManager } from './connection-manager';
+import { FeeEstimator } from './fee-estimator';
+import { RecipientPreflight } from './recipient-preflight';
+import { RetryPolicyEngine } from './retry-policy';
+import { CircuitBreaker, ChainHealth } from './circuit-breaker';
+import { IntentSigner, SignedIntent } from './intent-signer';
+
+interface DistributionRun {
+  records: DistributionRecord[];
+  summary: DistributionSummary;
+  csvLogger?: CSVTransactionLogger;
+  userPrompts?: UserPrompts;
+  drain?: () => Promise<void>; // Settles outstanding transfers before the run is halted
+  deferred?: number[]; // Failed records left for a later pass; only set while deferring
+  changed: Set<number>; // Records touched since the last save
+  failed: Set<number>; // Records counted in summary.failed, until a retry completes them
+}
 
 export class TokenDistributor {
   private api?: ApiPromise;
+  private connection?: ConnectionManager;
   private account?: KeyringPair;
   private config: AppConfig;
   private logger: Logger;
   private resumeManager: ResumeManager;
   private failureHandler?: TransactionFailureHandler;
+  private retryPolicy: RetryPolicyEngine;
+  private circuitBreaker: CircuitBreaker;
+  private recordIndex = new Map<DistributionRecord, number>(); // Journal keys of the current run
   private isConnected = false;
 
   constructor(config: AppConfig, logger: Logger, failureHandler?: TransactionFailureHandler) {
     this.config = config;
     this.logger = logger;
     this.failureHandler = failureHandler;
-    this.resumeManager = new ResumeManager(logger);
+    this.retryPolicy = new RetryPolicyEngine(logger, config.retryPolicy);
+    this.circuitBreaker = new CircuitBreaker(config.circuitBreaker);
+    this.resumeManager = new ResumeManager(logger, config.stateBackend);
   }
 
   async initialize(): Promise<void> {
@@ -39,24 +91,32 @@ export class TokenDistributor {
       this.logger.info('Initializing token distributor');
 
       const networkConfig = getNetworkConfig(this.config.network);
-      const rpcEndpoint = this.config.rpcEndpoint || networkConfig.rpcEndpoint;
+      const endpoints = this.config.rpcEndpoint
+        ? this.config.rpcEndpoint.split(',').map(endpoint => endpoint.trim())
+        : networkConfig.rpcEndpoints;
 
       this.logger.info('Connecting to network', {
         network: this.config.network,
-        endpoint: rpcEndpoint,
+        endpoints,
       });
 
       // Wait for crypto to be ready
       await cryptoWaitReady();
 
-      // Initialize API connection
-      const api = await activate({
-        networkId: this.config.network,
-        ...(this.config.rpcEndpoint && { rpcUrl: this.config.rpcEndpoint }),
+      // Connect to the first healthy endpoint, refusing any node that is not on the configured
+      // chain (checked again after every reconnection)
+      const connection = new ConnectionManager(this.logger, {
+        endpoints,
+        timeoutMs: (this.config.rpcTimeoutSeconds ?? 30) * 1000,
+        initialBackoffMs: 1000,
+        maxBackoffMs: (this.config.reconnectMaxBackoffSeconds ?? 60) * 1000,
+        verify: api =>
+          new NetworkVerifier(api, this.logger, getNetworkRegistry()).verify(this.config.network),
       });
+      const api = await connection.connect();
 
       // Initialize keyring and add account from private key
-      const keyring = new Keyring({ type: 'sr25519' });
+      const keyring = new Keyring({ type: 'sr25519', ss58Format: networkConfig.ss58Format });
 
       // Clean private key (remove 0x prefix if present)
       const cleanPrivateKey = this.config.distributorPrivateKey.replace(/^0x/, '');
@@ -65,10 +125,11 @@ export class TokenDistributor {
       const account = keyring.addFromUri(`0x${cleanPrivateKey}`);
 
       this.api = api;
+      this.connection = connection;
       this.account = account;
       this.isConnected = true;
 
-      this.logger.logNetworkConnection(this.config.network, rpcEndpoint);
+      this.logger.logNetworkConnection(this.config.network, connection.endpoint!);
 
       // Get account information (for future use)
       await getAccount(this.api, this.account.address);
@@ -87,16 +148,120 @@ export class TokenDistributor {
     }
   }
 
+  /**
+   * @param runInfo - Run the records belong to; its resume state is kept apart from other runs
+   */
   async distribute(
     records: DistributionRecord[],
     resumeFromIndex: number = 0,
     sourceFilename?: string,
-    userPrompts?: UserPrompts
+    userPrompts?: UserPrompts,
+    runInfo?: RunInfo
+  ): Promise<DistributionSummary> {
+    const csvLogger = await this.startDistribution(sourceFilename, runInfo);
+
+    try {
+      const summary = await this.distributeRecords(
+        records,
+        resumeFromIndex,
+        sourceFilename,
+        csvLogger,
+        userPrompts
+      );
+      if (summary.endTime) {
+        await this.finishDistribution(summary);
+      }
+      return summary;
+    } catch (error) {
+      this.logger.error('Distribution failed', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Distribute a CSV file too large to hold in memory, one chunk of records at a time. Each
+   * chunk is checked against the recipient accounts just before it is sent, and the resume
+   * state holds only the current chunk with the source row the next one starts from.
+   * @param chunks - Records in source file order, from the row the distribution continues at
+   * @param resumeData - State of a streamed run to finish the saved chunk of first
+   * @returns Totals over every chunk sent, including those of earlier sessions
+   */
+  async distributeStream(
+    chunks: AsyncIterable<DistributionRecord[]>,
+    sourceFilename: string,
+    userPrompts?: UserPrompts,
+    runInfo?: RunInfo,
+    resumeData?: ResumeData
   ): Promise<DistributionSummary> {
+    const csvLogger = await this.startDistribution(sourceFilename, runInfo);
+    let summary = resumeData?.stream?.completed;
+
+    try {
+      if (resumeData?.stream) {
+        this.resumeManager.setStreamPosition(resumeData.stream);
+        summary = combineSummaries(
+          summary,
+          await this.distributeRecords(
+            resumeData.records,
+            resumeData.lastProcessedIndex,
+            sourceFilename,
+            csvLogger,
+            userPrompts
+          )
+        );
+        if (!summary.endTime) {
+          return summary;
+        }
+      }
+
+      for await (const chunk of chunks) {
+        const preflight = await this.preflightRecipients(chunk);
+        if (preflight.blocked) {
+          const rows = preflight.decisions.map(
+            decision => chunk[decision.index].sourceRowNumber ?? decision.index + 1
+          );
+          throw new Error(
+            `Transfers below the existential deposit to new accounts on rows ${rows.join(', ')}`
+          );
+        }
+
+        const lastRow = chunk[chunk.length - 1].sourceRowNumber ?? 0;
+        this.resumeManager.setStreamPosition({ nextRow: lastRow + 1, completed: summary });
+        summary = combineSummaries(
+          summary,
+          await this.distributeRecords(chunk, 0, sourceFilename, csvLogger, userPrompts)
+        );
+        if (!summary.endTime) {
+          return summary;
+        }
+      }
+
+      if (!summary) {
+        throw new Error('No records to distribute');
+      }
+      await this.finishDistribution(summary);
+      return summary;
+    } catch (error) {
+      this.logger.error('Distribution failed', error);
+      throw error;
+    }
+  }
+
+  private async startDistribution(
+    sourceFilename?: string,
+    runInfo?: RunInfo
+  ): Promise<CSVTransactionLogger | undefined> {
     if (!this.isConnected || !this.api || !this.account) {
       throw new Error('Distributor not initialized. Call initialize() first.');
     }
 
+    if (runInfo) {
+      this.resumeManager.startRun(runInfo);
+    }
+
+    // The failure rate spans the whole distribution, not one chunk of it
+    this.circuitBreaker.reset();
+
     // Initialize CSV logger if source filename provided
     let csvLogger: CSVTransactionLogger | undefined;
     if (sourceFilename) {
@@ -104,7 +269,27 @@ export class TokenDistributor {
       await csvLogger.initialize();
       this.logger.info('CSV transaction log initialized', { logPath: csvLogger.getLogFilePath() });
     }
+    return csvLogger;
+  }
+
+  private async finishDistribution(summary: DistributionSummary): Promise<void> {
+    this.logger.logDistributionComplete(summary);
+
+    // Clean up resume state on successful completion
+    await this.resumeManager.clearState();
+  }
 
+  /**
+   * Send the records and keep their resume state
+   * @returns The summary, with an end time unless the distribution was paused or aborted
+   */
+  private async distributeRecords(
+    records: DistributionRecord[],
+    resumeFromIndex: number,
+    sourceFilename: string | undefined,
+    csvLogger: CSVTransactionLogger | undefined,
+    userPrompts: UserPrompts | undefined
+  ): Promise<DistributionSummary> {
     const summary: DistributionSummary = {
       totalRecords: records.length,
       completed: 0,
@@ -113,170 +298,804 @@ export class TokenDistributor {
       totalAmount: records.reduce((sum, record) => sum + record.amount, 0n),
       distributedAmount: 0n,
       failedAmount: 0n,
+      feesPaid: records.reduce((sum, record) => sum + (record.feePaid || 0n), 0n),
       startTime: new Date(),
       resumedFrom: resumeFromIndex > 0 ? resumeFromIndex : undefined,
+      existentialDepositDecisions: records.flatMap((record, index) =>
+        record.existentialDepositAction
+          ? [
+              {
+                index,
+                address: record.address,
+                action: record.existentialDepositAction,
+                requestedAmount: record.requestedAmount ?? record.amount,
+                amount: record.amount,
+              },
+            ]
+          : []
+      ),
     };
 
     this.logger.logDistributionStart(summary.totalRecords, summary.totalAmount);
 
+    // Transfers that were in flight when a previous run stopped must be sorted out first
+    await this.recoverInFlight(records);
+
     // Save initial state for resume capability
     await this.resumeManager.saveState(records, summary, resumeFromIndex, sourceFilename);
 
-    try {
-      for (let i = resumeFromIndex; i < records.length; i++) {
-        const record = records[i];
+    const run: DistributionRun = {
+      records,
+      summary,
+      csvLogger,
+      userPrompts,
+      changed: new Set(),
+      failed: new Set(),
+    };
+    this.recordIndex = new Map(records.map((record, index) => [record, index]));
+    if (this.config.retryMode === 'deferred') {
+      run.deferred = [];
+    }
+
+    let halted: boolean;
+    if (this.batchMode !== 'single') {
+      halted = await this.distributeInBatches(run, resumeFromIndex);
+    } else if (this.pipelineDepth > 1) {
+      halted = await this.distributePipelined(run, resumeFromIndex);
+    } else {
+      halted = await this.distributeSequentially(run, resumeFromIndex);
+    }
+
+    if (!halted && run.deferred) {
+      halted = await this.retryDeferred(run);
+    }
 
-        if (record.status === 'completed') {
-          summary.skipped++;
+    summary.failureHistogram = buildFailureHistogram(records);
+    if (summary.failureHistogram.length > 0) {
+      this.logger.warn('Failed transfers by error', {
+        failures: summary.failureHistogram.map(({ error, count, amount }) => ({
+          error,
+          count,
+          amount: amount.toString(),
+        })),
+      });
+    }
+
+    if (!halted) {
+      summary.endTime = new Date();
+    }
+    return summary;
+  }
+
+  /**
+   * Send one transfer extrinsic per record.
+   * @returns true if the distribution was paused or aborted
+   */
+  private async distributeSequentially(
+    run: DistributionRun,
+    resumeFromIndex: number
+  ): Promise<boolean> {
+    const { records } = run;
+
+    for (let i = resumeFromIndex; i < records.length; i++) {
+      const record = records[i];
+
+      if (!this.prepareRecord(run, i)) {
+        continue;
+      }
+
+      await this.ensureConnected();
+      this.logger.logTransactionStart(record.address, record.amount, i);
+
+      let failedResult: TransactionResult | undefined;
+      try {
+        // Update record status
+        record.status = 'processing';
+        record.timestamp = new Date();
+
+        // Execute transfer
+        const result = await this.executeTransfer(record);
+
+        if (result.connectionLost || result.unconfirmed) {
+          if ((await this.recoverInDoubt(run, [i])).length > 0) {
+            i--; // Never made it to the chain, send it again
+          }
           continue;
         }
 
-        // Reset failed transactions for retry on resume
-        if (record.status === 'failed') {
-          record.status = 'pending';
-          record.error = undefined;
-          // Keep attempt count for tracking
+        if (result.success) {
+          await this.markCompleted(run, i, result);
+        } else {
+          failedResult = result;
+          throw new Error(result.error || 'Transaction failed');
+        }
+      } catch (error) {
+        await this.markFailed(run, i, error, failedResult);
+
+        // Ask user what to do with failed transaction
+        const action = await this.resolveFailure(run, i, error);
+        if (action === 'retry') {
+          i--; // Retry current transaction
+        } else if (action === 'halt') {
+          return true;
+        }
+      }
+
+      // Update resume state periodically
+      if (i % this.config.batchSize === 0) {
+        await this.saveRun(run, this.resumeIndex(run, i + 1));
+      }
+
+      if (await this.checkCircuitBreaker(run, i + 1)) {
+        return true;
+      }
+
+      // Add small delay between transactions to avoid overwhelming the network
+      await this.delay(1000);
+    }
+
+    return false;
+  }
+
+  /**
+   * Pack up to batchSize records into a single utility batch extrinsic.
+   * Failed items are offered to the failure handler individually; retries are sent as
+   * plain transfers so one bad recipient does not drag the rest of the batch down again.
+   * @returns true if the distribution was paused or aborted
+   */
+  private async distributeInBatches(
+    run: DistributionRun,
+    resumeFromIndex: number
+  ): Promise<boolean> {
+    const { records } = run;
+    const resend: number[] = []; // Lost with the connection and not found on chain
+    let i = resumeFromIndex;
+
+    while (i < records.length || resend.length > 0) {
+      const indices = resend.splice(0, this.config.batchSize);
+      while (i < records.length && indices.length < this.config.batchSize) {
+        if (this.prepareRecord(run, i)) {
+          indices.push(i);
+        }
+        i++;
+      }
+
+      if (indices.length === 0) {
+        continue;
+      }
+
+      await this.ensureConnected();
+      const batchRecords = indices.map(index => records[index]);
+      batchRecords.forEach((record, k) => {
+        this.logger.logTransactionStart(record.address, record.amount, indices[k]);
+        record.status = 'processing';
+        record.timestamp = new Date();
+      });
+
+      const results = await this.executeBatch(batchRecords);
+
+      if (results.some(result => result.connectionLost || result.unconfirmed)) {
+        resend.push(...(await this.recoverInDoubt(run, indices)));
+        continue;
+      }
+
+      const failures: { index: number; error: Error }[] = [];
+      for (let k = 0; k < indices.length; k++) {
+        const result = results[k];
+        if (result.success) {
+          await this.markCompleted(run, indices[k], result);
+        } else {
+          const error = new Error(result.error || 'Transaction failed');
+          await this.markFailed(run, indices[k], error, result);
+          failures.push({ index: indices[k], error });
         }
+      }
 
-        this.logger.logTransactionStart(record.address, record.amount, i);
+      for (const failure of failures) {
+        let error = failure.error;
+        let action = await this.resolveFailure(run, failure.index, error);
 
-        try {
-          // Update record status
+        while (action === 'retry') {
+          const record = records[failure.index];
+          this.logger.logTransactionStart(record.address, record.amount, failure.index);
           record.status = 'processing';
           record.timestamp = new Date();
 
-          // Execute transfer
           const result = await this.executeTransfer(record);
-
+          if (result.connectionLost || result.unconfirmed) {
+            if ((await this.recoverInDoubt(run, [failure.index])).length > 0) {
+              continue;
+            }
+            break;
+          }
           if (result.success) {
-            record.status = 'completed';
-            record.transactionHash = result.transactionHash;
-            record.blockHash = result.blockHash;
-            record.blockNumber = result.blockNumber;
+            await this.markCompleted(run, failure.index, result);
+            break;
+          }
 
-            summary.completed++;
-            summary.distributedAmount += record.amount;
+          error = new Error(result.error || 'Transaction failed');
+          await this.markFailed(run, failure.index, error, result);
+          action = await this.resolveFailure(run, failure.index, error);
+        }
 
-            this.logger.logTransactionSuccess(
-              record.address,
-              record.amount,
-              result.transactionHash!,
-              result.blockNumber,
-              result.blockHash
-            );
-
-            // Display transaction success through UI layer
-            if (userPrompts) {
-              userPrompts.displayTransactionSuccess(record, i, records.length);
-            }
+        if (action === 'halt') {
+          return true;
+        }
+      }
 
-            // Log to CSV if logger is available
-            if (csvLogger) {
-              await csvLogger.logTransaction(record);
-            }
-          } else {
-            throw new Error(result.error || 'Transaction failed');
+      // Every batch is a natural checkpoint for resume state
+      await this.saveRun(run, this.resumeIndex(run, i));
+      if (await this.checkCircuitBreaker(run, i)) {
+        return true;
+      }
+
+      // Add small delay between batches to avoid overwhelming the network
+      await this.delay(1000);
+    }
+
+    return false;
+  }
+
+  /**
+   * Keep up to pipelineDepth transfers in flight, each signed with an explicitly assigned
+   * nonce. The journal has every record as 'processing' with its nonce before it is sent, so
+   * the in-flight set can be recovered after a crash.
+   * @returns true if the distribution was paused or aborted
+   */
+  private async distributePipelined(
+    run: DistributionRun,
+    resumeFromIndex: number
+  ): Promise<boolean> {
+    const { records, summary } = run;
+    const inFlight = new Map<number, Promise<{ index: number; result: TransactionResult }>>();
+    const retryQueue: number[] = [];
+    let nextNonce = await this.fetchNextNonce();
+    let i = resumeFromIndex;
+
+    const lowestUnsettledIndex = (): number =>
+      this.resumeIndex(run, Math.min(i, ...inFlight.keys(), ...retryQueue));
+
+    const settle = async (index: number, result: TransactionResult): Promise<Error | null> => {
+      if (result.unconfirmed) {
+        // It was included once, so only the chain can say whether to send it again
+        const nonce = records[index].nonce!;
+        if ((await this.recoverInDoubt(run, [index])).length > 0) {
+          await this.fillNonceGap(nonce);
+          retryQueue.push(index);
+        }
+        return null;
+      }
+      if (result.success) {
+        await this.markCompleted(run, index, result);
+        return null;
+      }
+
+      const error = new Error(result.error || 'Transaction failed');
+      await this.markFailed(run, index, error, result);
+      await this.fillNonceGap(records[index].nonce!);
+      return error;
+    };
+
+    run.drain = async () => {
+      while (inFlight.size > 0) {
+        const { index, result } = await Promise.race(inFlight.values());
+        inFlight.delete(index);
+        await settle(index, result);
+      }
+    };
+
+    while (i < records.length || retryQueue.length > 0 || inFlight.size > 0) {
+      const submissions: number[] = [];
+
+      while (inFlight.size + submissions.length < this.pipelineDepth) {
+        let index: number;
+        if (retryQueue.length > 0) {
+          index = retryQueue.shift()!;
+        } else if (i < records.length) {
+          index = i++;
+          if (!this.prepareRecord(run, index)) {
+            continue;
           }
-        } catch (error) {
-          record.status = 'failed';
-          record.error = error instanceof Error ? error.message : String(error);
-          record.attempts = (record.attempts || 0) + 1;
-
-          summary.failed++;
-          summary.failedAmount += record.amount;
-
-          this.logger.logTransactionFailure(
-            record.address,
-            record.amount,
-            record.error,
-            record.attempts
+        } else {
+          break;
+        }
+
+        const record = records[index];
+        record.status = 'processing';
+        record.timestamp = new Date();
+        record.nonce = nextNonce++;
+        submissions.push(index);
+      }
+
+      if (submissions.length > 0) {
+        if (inFlight.size === 0) {
+          await this.ensureConnected();
+        }
+
+        for (const index of submissions) {
+          const record = records[index];
+          this.logger.logTransactionStart(record.address, record.amount, index);
+          inFlight.set(
+            index,
+            this.executeTransfer(record, record.nonce).then(result => ({ index, result }))
           );
+        }
+      }
 
-          // Display transaction failure through UI layer
-          if (userPrompts) {
-            userPrompts.displayTransactionFailure(record, i, records.length);
-          }
+      if (inFlight.size === 0) {
+        continue;
+      }
 
-          // Log to CSV if logger is available
-          if (csvLogger) {
-            await csvLogger.logTransaction(record);
+      const { index, result } = await Promise.race(inFlight.values());
+      inFlight.delete(index);
+
+      if (result.connectionLost) {
+        // Let everything else in flight come back before looking at the chain
+        const lost = [index];
+        while (inFlight.size > 0) {
+          const other = await Promise.race(inFlight.values());
+          inFlight.delete(other.index);
+          if (other.result.success) {
+            await settle(other.index, other.result);
+          } else {
+            lost.push(other.index);
           }
+        }
 
-          // Ask user what to do with failed transaction
-          const action = await this.handleTransactionFailure(
-            record,
-            i,
-            error,
-            record.attempts || 1
-          );
+        retryQueue.push(...(await this.recoverInDoubt(run, lost)));
+        nextNonce = await this.resyncNonce(records);
+        await this.saveRun(run, lowestUnsettledIndex());
+        continue;
+      }
+
+      const error = await settle(index, result);
+      if (error) {
+        const action = await this.resolveFailure(run, index, error);
+        if (action === 'retry') {
+          retryQueue.push(index);
+        } else if (action === 'halt') {
+          return true;
+        }
+      }
+
+      if (summary.completed % this.config.batchSize === 0) {
+        await this.saveRun(run, lowestUnsettledIndex());
+      }
+
+      if (await this.checkCircuitBreaker(run, lowestUnsettledIndex())) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Get a record ready for (re)sending.
+   * @returns false if the record is already completed and should be skipped
+   */
+  private prepareRecord(run: DistributionRun, index: number): boolean {
+    const { summary } = run;
+    const record = run.records[index];
+    run.changed.add(index);
+
+    if (isRecordSettled(record) || record.status === 'skipped') {
+      summary.skipped++;
+      return false;
+    }
+
+    // A transfer left in flight by a previous run may still land; never send it twice
+    if (record.status === 'processing' && record.nonce !== undefined) {
+      summary.skipped++;
+      this.logger.warn('Skipping unresolved in-flight transfer', {
+        address: record.address,
+        amount: record.amount.toString(),
+        nonce: record.nonce,
+      });
+      return false;
+    }
+
+    // Reset failed transactions for retry on resume
+    if (record.status === 'failed') {
+      record.status = 'pending';
+      record.error = undefined;
+      record.dispatchError = undefined;
+      record.nonce = undefined;
+      // Keep attempt count for tracking
+    }
+
+    return true;
+  }
+
+  private async markCompleted(
+    run: DistributionRun,
+    index: number,
+    result: TransactionResult
+  ): Promise<void> {
+    const record = run.records[index];
+    run.changed.add(index);
+
+    record.status = result.finalized ? 'finalized' : 'completed';
+    this.circuitBreaker.recordOutcome(true);
+    record.transactionHash = result.transactionHash;
+    record.blockHash = result.blockHash;
+    record.blockNumber = result.blockNumber;
+    await this.journal({
+      type: 'included',
+      index,
+      transactionHash: record.transactionHash,
+      blockHash: record.blockHash,
+      blockNumber: record.blockNumber,
+      finalized: record.status === 'finalized',
+      feePaid: result.feePaid,
+      tipPaid: result.tipPaid,
+    });
+    this.recordFeePaid(run, record, result);
+
+    run.summary.completed++;
+    run.summary.distributedAmount += record.amount;
+    this.clearFailure(run, index);
+
+    this.logger.logTransactionSuccess(
+      record.address,
+      record.amount,
+      result.transactionHash!,
+      result.blockNumber,
+      result.blockHash
+    );
+
+    // Display transaction success through UI layer
+    if (run.userPrompts) {
+      run.userPrompts.displayTransactionSuccess(record, index, run.records.length);
+    }
+
+    // Log to CSV if logger is available
+    if (run.csvLogger) {
+      await run.csvLogger.logTransaction(record);
+    }
+  }
+
+  private async markFailed(
+    run: DistributionRun,
+    index: number,
+    error: unknown,
+    result?: TransactionResult
+  ): Promise<void> {
+    const record = run.records[index];
+    run.changed.add(index);
+
+    record.status = 'failed';
+    record.error = error instanceof Error ? error.message : String(error);
+    record.dispatchError = result?.dispatchError;
+    record.attempts = (record.attempts || 0) + 1;
+    this.circuitBreaker.recordOutcome(false);
+    await this.journal({
+      type: 'failed',
+      index,
+      error: record.error,
+      dispatchError: record.dispatchError,
+      feePaid: result?.feePaid,
+      tipPaid: result?.tipPaid,
+    });
+    if (result) {
+      // A dispatched extrinsic is charged even when the transfer inside it fails
+      this.recordFeePaid(run, record, result);
+    }
+
+    // Counted once, however many of its attempts fail
+    if (!run.failed.has(index)) {
+      run.failed.add(index);
+      run.summary.failed++;
+      run.summary.failedAmount += record.amount;
+    }
+
+    this.logger.logTransactionFailure(record.address, record.amount, record.error, record.attempts);
+
+    // Display transaction failure through UI layer
+    if (run.userPrompts) {
+      run.userPrompts.displayTransactionFailure(record, index, run.records.length);
+    }
+
+    // Log to CSV if logger is available
+    if (run.csvLogger) {
+      await run.csvLogger.logTransaction(record);
+    }
+  }
+
+  /**
+   * A failed record that completes after all no longer counts as failed
+   */
+  private clearFailure(run: DistributionRun, index: number): void {
+    if (run.failed.delete(index)) {
+      run.summary.failed--;
+      run.summary.failedAmount -= run.records[index].amount;
+    }
+  }
+
+  /**
+   * Fees accumulate over attempts, so a retried record carries everything it cost
+   */
+  private recordFeePaid(
+    run: DistributionRun,
+    record: DistributionRecord,
+    result: TransactionResult
+  ): void {
+    if (result.feePaid === undefined) {
+      return;
+    }
+
+    record.feePaid = (record.feePaid || 0n) + result.feePaid;
+    record.tipPaid = (record.tipPaid || 0n) + (result.tipPaid || 0n);
+    run.summary.feesPaid += result.feePaid;
+  }
+
+  /**
+   * Ask the failure handler what to do with a failed record and carry out pause/abort.
+   * @returns 'halt' when the distribution has been paused or aborted
+   */
+  private async resolveFailure(
+    run: DistributionRun,
+    index: number,
+    error: any
+  ): Promise<'retry' | 'skip' | 'halt'> {
+    const { records, summary } = run;
+    const record = records[index];
+
+    const attempts = record.attempts || 1;
+
+    if (await this.checkCircuitBreaker(run, index)) {
+      return 'halt';
+    }
+
+    // Leave it for a later pass instead of holding up the records behind it
+    if (run.deferred && this.retryPolicy.isRetryable(error)) {
+      run.deferred.push(index);
+      this.logger.info('Deferring failed transfer to a later pass', {
+        index,
+        address: record.address,
+        attempts,
+      });
+      return 'skip';
+    }
+
+    const action = await this.handleTransactionFailure(record, index, error, attempts);
+
+    switch (action) {
+      case 'retry': {
+        const backoffMs = this.retryPolicy.backoffMs(error, attempts);
+        if (backoffMs > 0) {
+          this.logger.info('Backing off before retrying transfer', {
+            index,
+            address: record.address,
+            attempts,
+            backoffSeconds: backoffMs / 1000,
+          });
+          await this.delay(backoffMs);
+        }
+        return action;
+      }
+      case 'skip':
+        return action;
+      case 'pause':
+        await run.drain?.();
+        await this.pauseDistribution(records, summary, this.resumeIndex(run, index));
+        return 'halt';
+      case 'abort':
+        await run.drain?.();
+        summary.abortedByUser = true;
+        summary.endTime = new Date();
+        await this.saveRun(run, this.resumeIndex(run, index + 1));
+        this.logger.info('Distribution aborted by user', {
+          completedRecords: summary.completed,
+          failedRecords: summary.failed,
+          skippedRecords: summary.skipped,
+          totalRecords: summary.totalRecords,
+        });
+        return 'halt';
+    }
+  }
+
+  /**
+   * Send the records deferred by the main pass again, one plain transfer at a time, in up to
+   * deferredRetryPasses passes with a doubling delay before each. Records that fail again are
+   * deferred to the next pass; only the failures of the last pass reach the failure handler.
+   * Records that were signed and sent before they failed are first looked for on chain, like
+   * transfers in doubt, and sent again only if they are nowhere to be found.
+   * @returns true if the distribution was paused or aborted
+   */
+  private async retryDeferred(run: DistributionRun): Promise<boolean> {
+    const { records } = run;
+    const passes = this.config.deferredRetryPasses ?? 3;
+    const delaySeconds = this.config.deferredRetryDelaySeconds ?? 30;
+
+    for (let pass = 1; pass <= passes && run.deferred && run.deferred.length > 0; pass++) {
+      // In index order, so a pause leaves every unsent record at or after the resume index
+      let indices = run.deferred.sort((a, b) => a - b);
+      run.deferred = pass < passes ? [] : undefined;
+
+      const passDelaySeconds = delaySeconds * 2 ** (pass - 1);
+      this.logger.info('Starting deferred retry pass', {
+        pass,
+        passes,
+        records: indices.length,
+        delaySeconds: passDelaySeconds,
+      });
+      await this.delay(passDelaySeconds * 1000);
+
+      const sent = indices.filter(index => {
+        const record = records[index];
+        return (
+          record.status === 'failed' &&
+          (record.transactionHash !== undefined || record.nonce !== undefined)
+        );
+      });
+      if (sent.length > 0) {
+        await this.ensureConnected();
+        sent.forEach(index => {
+          records[index].status = 'processing';
+          records[index].error = undefined;
+          records[index].dispatchError = undefined;
+        });
+        const resend = await this.recoverInDoubt(run, sent);
+        indices = indices.filter(index => !sent.includes(index) || resend.includes(index));
+      }
+
+      for (let k = 0; k < indices.length; k++) {
+        const index = indices[k];
+        const record = records[index];
+        if (!this.prepareRecord(run, index)) {
+          continue;
+        }
+
+        await this.ensureConnected();
+        this.logger.logTransactionStart(record.address, record.amount, index);
+        record.status = 'processing';
+        record.timestamp = new Date();
 
-          switch (action) {
-            case 'retry':
-              i--; // Retry current transaction
-              break;
-            case 'skip':
-              break; // Continue with next transaction
-            case 'pause':
-              await this.pauseDistribution(records, summary, i);
-              return summary;
-            case 'abort':
-              summary.abortedByUser = true;
-              summary.endTime = new Date();
-              await this.resumeManager.saveState(records, summary, i + 1);
-              this.logger.info('Distribution aborted by user', {
-                completedRecords: summary.completed,
-                failedRecords: summary.failed,
-                skippedRecords: summary.skipped,
-                totalRecords: summary.totalRecords,
-              });
-              return summary;
+        const result = await this.executeTransfer(record);
+        if (result.connectionLost || result.unconfirmed) {
+          if ((await this.recoverInDoubt(run, [index])).length > 0) {
+            k--; // Never made it to the chain, send it again
           }
+          continue;
         }
 
-        // Update resume state periodically
-        if (i % this.config.batchSize === 0) {
-          await this.resumeManager.saveState(records, summary, i + 1);
+        if (result.success) {
+          await this.markCompleted(run, index, result);
+        } else {
+          const error = new Error(result.error || 'Transaction failed');
+          await this.markFailed(run, index, error, result);
+
+          const action = await this.resolveFailure(run, index, error);
+          if (action === 'retry') {
+            k--;
+          } else if (action === 'halt') {
+            return true;
+          }
         }
 
-        // Add small delay between transactions to avoid overwhelming the network
         await this.delay(1000);
       }
 
-      summary.endTime = new Date();
-      this.logger.logDistributionComplete(summary);
+      await this.saveRun(run, this.resumeIndex(run, records.length));
+    }
 
-      // Clean up resume state on successful completion
-      await this.resumeManager.clearState();
+    return false;
+  }
 
-      return summary;
+  /**
+   * Where a resumed run has to start so it does not pass over deferred records
+   */
+  private resumeIndex(run: DistributionRun, index: number): number {
+    return Math.min(index, ...(run.deferred ?? []));
+  }
+
+  /**
+   * Pause the whole distribution if the circuit breaker trips, so the operator is not asked
+   * about every record while the node is stalled or the funds have run out
+   * @param index - Where a resumed run should pick up
+   * @returns true when the distribution has been paused
+   */
+  private async checkCircuitBreaker(run: DistributionRun, index: number): Promise<boolean> {
+    const trip =
+      this.circuitBreaker.checkFailures() ??
+      (this.circuitBreaker.chainCheckDue() ? await this.checkChainHealth(run) : undefined);
+    if (!trip) {
+      return false;
+    }
+
+    this.logger.warn('Circuit breaker tripped, pausing distribution', { ...trip });
+    await run.drain?.();
+    run.summary.circuitBreaker = trip;
+    await this.pauseDistribution(
+      run.records,
+      run.summary,
+      this.resumeIndex(run, index),
+      `Circuit breaker: ${trip.reason}`
+    );
+    return true;
+  }
+
+  private async checkChainHealth(run: DistributionRun): Promise<CircuitBreakerTrip | undefined> {
+    let health: ChainHealth;
+    try {
+      health = await this.whileConnected(async () => {
+        const now: any = await this.api!.query.timestamp.now();
+        const { free } = await balance(this.api!, this.account!.address);
+        return {
+          bestBlockTimestamp: Number(now.toString()),
+          freeBalance: BigInt(free.toString()),
+          // Failed records count as well, since a resumed run sends them again
+          requiredBalance: run.records
+            .filter(record => record.status === 'pending' || record.status === 'failed')
+            .reduce((sum, record) => sum + record.amount, 0n),
+        };
+      });
     } catch (error) {
-      this.logger.error('Distribution failed', error);
-      throw error;
+      // An unreachable node is handled as a lost connection, not by the breaker
+      this.logger.debug('Could not read chain health for the circuit breaker', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
     }
+
+    return this.circuitBreaker.checkChainHealth(health);
   }
 
-  private async executeTransfer(record: DistributionRecord): Promise<TransactionResult> {
+  private async executeTransfer(
+    record: DistributionRecord,
+    nonce?: number
+  ): Promise<TransactionResult> {
     if (!this.api || !this.account) {
       throw new Error('API or account not initialized');
     }
 
+    let tx: Awaited<ReturnType<typeof transfer>> | undefined;
     try {
-      // Create transfer transaction - Auto SDK expects string amount
-      const tx = await transfer(this.api, record.address, record.amount.toString());
-
-      // Sign and send transaction using Auto SDK
-      const result = await signAndSendTx(this.account, tx);
+      const { result, confirmation } = await this.whileConnected(async () => {
+        // Create transfer transaction - Auto SDK expects string amount
+        tx = await transfer(
+          this.api!,
+          record.address,
+          record.amount.toString(),
+          this.transferMode === 'transferAllowDeath'
+        );
+
+        // Sign and send transaction using Auto SDK (the node picks the nonce unless given one).
+        // No expected events: a failed extrinsic comes back with its receipt, read below
+        const signer = this.intentSigner(tx, [record]);
+        const sent = await signAndSendTx(
+          this.account!.address,
+          tx,
+          { signer, ...(nonce !== undefined && { nonce }) },
+          []
+        );
+        if (readExtrinsicFailed(sent.receipt.events)) {
+          return { result: sent };
+        }
 
-      // Wait for confirmation
-      await this.waitForConfirmation(result.identifier || 'unknown');
+        // Wait for confirmation on the canonical chain
+        return { result: sent, confirmation: await this.waitForConfirmation(sent) };
+      });
+      const feePaid = readFeePaid(result.receipt.events);
+
+      if (!confirmation) {
+        const dispatchError = readExtrinsicFailed(result.receipt.events);
+        return {
+          ...this.failedItemResult(String(dispatchError), dispatchError),
+          feePaid: feePaid?.fee,
+          tipPaid: feePaid?.tip,
+        };
+      }
 
       return {
         success: true,
         transactionHash: result.txHash,
-        blockHash: result.receipt.status.isInBlock
-          ? result.receipt.status.asInBlock.toString()
-          : undefined,
-        blockNumber: result.receipt.blockNumber ? result.receipt.blockNumber.toNumber() : undefined,
+        blockHash: confirmation.blockHash,
+        blockNumber: confirmation.blockNumber,
+        finalized: confirmation.finalized,
+        feePaid: feePaid?.fee,
+        tipPaid: feePaid?.tip,
       };
     } catch (error) {
       this.logger.error('Transaction execution failed', {
@@ -285,44 +1104,556 @@ export class TokenDistributor {
         error,
       });
 
+      // Already in a block once: the record keeps its hash and nonce for the chain to be checked
+      if (error instanceof ConfirmationTimeoutError || error instanceof ReorgError) {
+        return { success: false, error: error.message, unconfirmed: true };
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      const dispatchError = await this.lookupDispatchError(message, tx?.hash.toHex());
       return {
         success: false,
-        error: error instanceof Error ? error.message : String(error),
+        error: dispatchError ? formatDispatchError(dispatchError) : message,
+        ...(dispatchError && { dispatchError }),
+        ...(this.isConnectionLost() && { connectionLost: true }),
       };
     }
   }
 
-  private async waitForConfirmation(txHash: string): Promise<void> {
+  private async executeBatch(records: DistributionRecord[]): Promise<TransactionResult[]> {
+    if (!this.api || !this.account) {
+      throw new Error('API or account not initialized');
+    }
+
+    let tx: ReturnType<ApiPromise['tx']['utility']['batchAll']> | undefined;
+    try {
+      const { result, confirmation } = await this.whileConnected(async () => {
+        const calls = await Promise.all(
+          records.map(record =>
+            transfer(
+              this.api!,
+              record.address,
+              record.amount.toString(),
+              this.transferMode === 'transferAllowDeath'
+            )
+          )
+        );
+        tx =
+          this.batchMode === 'forceBatch'
+            ? this.api!.tx.utility.forceBatch(calls)
+            : this.api!.tx.utility.batchAll(calls);
+
+        // No expected events: item outcomes are read from the utility events below
+        const signer = this.intentSigner(tx, records);
+        const sent = await signAndSendTx(this.account!.address, tx, { signer }, []);
+        return { result: sent, confirmation: await this.waitForConfirmation(sent) };
+      });
+      const { blockHash, blockNumber, finalized } = confirmation;
+
+      // One fee for the whole extrinsic, shared across its records
+      const feePaid = readFeePaid(result.receipt.events);
+      const feeShares = feePaid ? splitFee(feePaid.fee, records.length) : [];
+      const tipShares = feePaid ? splitFee(feePaid.tip, records.length) : [];
+
+      // A failed batchAll leaves no item events, only the error that reverted it
+      const batchError = readExtrinsicFailed(result.receipt.events);
+      const items = batchError
+        ? records.map(() => ({
+            success: false,
+            error: String(batchError),
+            dispatchError: batchError,
+          }))
+        : mapBatchItemResults(result.receipt.events, records.length);
+
+      return items.map((item, k) => ({
+        ...(item.success
+          ? { success: true, transactionHash: result.txHash, blockHash, blockNumber, finalized }
+          : this.failedItemResult(item.error, item.dispatchError)),
+        feePaid: feeShares[k],
+        tipPaid: tipShares[k],
+      }));
+    } catch (error) {
+      this.logger.error('Batch execution failed', {
+        batchMode: this.batchMode,
+        recordCount: records.length,
+        error,
+      });
+
+      if (error instanceof ConfirmationTimeoutError || error instanceof ReorgError) {
+        return records.map(() => ({ success: false, error: error.message, unconfirmed: true }));
+      }
+
+      // A failed batchAll reverts every call, so they all share the error that stopped it
+      const message = error instanceof Error ? error.message : String(error);
+      const dispatchError = await this.lookupDispatchError(message, tx?.hash.toHex());
+      const connectionLost = this.isConnectionLost();
+      return records.map(() => ({
+        success: false,
+        error: dispatchError ? formatDispatchError(dispatchError) : message,
+        ...(dispatchError && { dispatchError }),
+        ...(connectionLost && { connectionLost }),
+      }));
+    }
+  }
+
+  /**
+   * Sign for the records carried by tx, journaling the intent to send them before it is sent
+   */
+  private intentSigner(
+    tx: ConstructorParameters<typeof IntentSigner>[1],
+    records: DistributionRecord[]
+  ): IntentSigner {
+    return new IntentSigner(this.account!, tx, {
+      onSigned: async (intent: SignedIntent) => {
+        records.forEach(record => {
+          record.nonce = intent.nonce;
+          record.transactionHash = intent.transactionHash;
+        });
+        await this.journal(
+          ...records.map(record => ({
+            type: 'intent' as const,
+            index: this.recordIndex.get(record)!,
+            ...intent,
+          }))
+        );
+      },
+      onSubmitted: () => {
+        // Informational only: a failed write is logged and must not stop the transfer
+        this.journal(
+          ...records.map(record => ({
+            type: 'submitted' as const,
+            index: this.recordIndex.get(record)!,
+            transactionHash: record.transactionHash,
+          }))
+        ).catch(() => undefined);
+      },
+    });
+  }
+
+  private journal(...entries: Omit<JournalEntry, 'at'>[]): Promise<void> {
+    const at = new Date();
+    return this.resumeManager.appendJournal(entries.map(entry => ({ ...entry, at })));
+  }
+
+  /**
+   * Result of a failed extrinsic, or of a call that failed inside a forceBatch, with its
+   * dispatch error decoded
+   */
+  private failedItemResult(error?: string, dispatchError?: unknown): TransactionResult {
+    if (!this.api || typeof dispatchError !== 'object' || dispatchError === null) {
+      return { success: false, error };
+    }
+
+    const decoded = decodeDispatchError(this.api.registry, dispatchError as DispatchErrorLike);
+    return { success: false, error: formatDispatchError(decoded), dispatchError: decoded };
+  }
+
+  /**
+   * The SDK may reject a failed extrinsic with just the error name and the block it landed in.
+   * Read the ExtrinsicFailed event of the extrinsic from that block to get the full dispatch
+   * error, decoded against the metadata of the runtime at that block.
+   * @returns undefined when the error did not come from a dispatched extrinsic
+   */
+  private async lookupDispatchError(
+    message: string,
+    txHash?: string
+  ): Promise<DispatchErrorInfo | undefined> {
+    const blockHash = /in block #(0x[0-9a-f]{64})/i.exec(message)?.[1];
+    if (!this.api || !blockHash || !txHash) {
+      return undefined;
+    }
+
+    try {
+      const signedBlock = await this.api.rpc.chain.getBlock(blockHash);
+      const extrinsicIndex = signedBlock.block.extrinsics.findIndex(
+        extrinsic => extrinsic.hash.toHex() === txHash
+      );
+      if (extrinsicIndex < 0) {
+        return undefined;
+      }
+
+      const apiAt = await this.api.at(blockHash);
+      const events: any = await apiAt.query.system.events();
+      const failed = events.find(
+        ({ phase, event }: any) =>
+          phase.isApplyExtrinsic &&
+          phase.asApplyExtrinsic.eqn(extrinsicIndex) &&
+          event.section === 'system' &&
+          event.method === 'ExtrinsicFailed'
+      );
+
+      return failed ? decodeDispatchError(apiAt.registry, failed.event.data[0]) : undefined;
+    } catch (lookupError) {
+      this.logger.warn('Could not read the dispatch error of a failed extrinsic', {
+        blockHash,
+        txHash,
+        error: lookupError instanceof Error ? lookupError.message : String(lookupError),
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Run an RPC operation, cutting it short with ConnectionLostError if the connection drops
+   */
+  private whileConnected<T>(operation: () => Promise<T>): Promise<T> {
+    return this.connection ? this.connection.guard(operation()) : operation();
+  }
+
+  private isConnectionLost(): boolean {
+    return this.connection !== undefined && !this.connection.isConnected;
+  }
+
+  /**
+   * Block while the connection is down instead of sending into a dead socket
+   */
+  private async ensureConnected(): Promise<void> {
+    if (!this.isConnectionLost()) {
+      return;
+    }
+
+    this.logger.warn('RPC connection is down, distribution paused until it is back');
+    this.api = await this.connection!.waitUntilConnected();
+  }
+
+  /**
+   * Transfers whose outcome is in doubt - lost with the connection, included in a block but
+   * not confirmed before a timeout or reorg, or sent before they failed and were deferred - are
+   * neither failed nor retried blindly. Once connected, the chain and transaction pool are
+   * checked for them (see Reconciler):
+   * - found on chain: marked completed
+   * - still in the pool: left 'processing' with their nonce and skipped (never sent twice)
+   * - nowhere: returned to be sent again
+   * @returns the indices to send again
+   */
+  private async recoverInDoubt(run: DistributionRun, indices: number[]): Promise<number[]> {
+    if (this.isConnectionLost()) {
+      this.logger.warn('RPC connection lost with transfers in flight, distribution paused', {
+        inFlight: indices.length,
+      });
+      this.api = await this.connection!.waitUntilConnected();
+    } else {
+      this.logger.warn('Transfers may have reached the chain, checking it for them', {
+        inDoubt: indices.length,
+      });
+    }
+
+    const affected = indices.map(index => run.records[index]);
+    indices.forEach(index => run.changed.add(index));
+    const feesBefore = affected.map(record => record.feePaid || 0n);
+
+    // Settled records are passed along so their transfers are not matched again
+    const reconciler = new Reconciler(this.api!, this.logger, this.account!.address, {
+      maxBlocks: this.config.reconcileMaxBlocks ?? 20000,
+      lookbackBlocks: 10,
+    });
+    await reconciler.reconcile(
+      run.records.filter(record => isRecordSettled(record) || affected.includes(record)),
+      new Date()
+    );
+
+    const resend: number[] = [];
+    for (const [k, index] of indices.entries()) {
+      const record = affected[k];
+
+      if (isRecordSettled(record)) {
+        run.summary.completed++;
+        run.summary.distributedAmount += record.amount;
+        this.clearFailure(run, index);
+        run.summary.feesPaid += (record.feePaid || 0n) - feesBefore[k];
+        this.logger.logTransactionSuccess(
+          record.address,
+          record.amount,
+          record.transactionHash!,
+          record.blockNumber,
+          record.blockHash
+        );
+        run.userPrompts?.displayTransactionSuccess(record, index, run.records.length);
+        await run.csvLogger?.logTransaction(record);
+      } else if (record.status === 'pending') {
+        resend.push(index);
+      } else {
+        run.summary.skipped++;
+        this.logger.warn('Transfer outcome still unknown after checking the chain, not resending', {
+          address: record.address,
+          amount: record.amount.toString(),
+          nonce: record.nonce,
+        });
+      }
+    }
+
+    this.logger.info('Resuming distribution after checking the chain', {
+      recovered: indices.length - resend.length,
+      resending: resend.length,
+    });
+
+    return resend;
+  }
+
+  /**
+   * After a reconnect, continue from the account's next nonce, stepping over nonces held by
+   * transfers still in the pool and filling the gaps between them so those can land
+   */
+  private async resyncNonce(records: DistributionRecord[]): Promise<number> {
+    const held = new Set(
+      records
+        .filter(record => record.status === 'processing' && record.nonce !== undefined)
+        .map(record => record.nonce!)
+    );
+
+    const accountNonce = await this.fetchNextNonce();
+    const nextNonce = Math.max(accountNonce, ...[...held].map(nonce => nonce + 1));
+    for (let nonce = accountNonce; nonce < nextNonce; nonce++) {
+      if (!held.has(nonce)) {
+        await this.fillNonceGap(nonce);
+      }
+    }
+
+    return nextNonce;
+  }
+
+  /**
+   * Next nonce for the distributor account, including transactions already in the pool
+   */
+  private async fetchNextNonce(): Promise<number> {
+    if (!this.api || !this.account) {
+      throw new Error('API or account not initialized');
+    }
+
+    const nextIndex = await this.api.rpc.system.accountNextIndex(this.account.address);
+    return nextIndex.toNumber();
+  }
+
+  /**
+   * A transfer that failed before inclusion leaves its nonce unused, which would hold every
+   * later transfer in the future queue. Occupy the nonce with a no-op remark so they can land;
+   * the failed record itself is re-signed with a fresh nonce if it is retried.
+   */
+  private async fillNonceGap(nonce: number): Promise<void> {
+    if (!this.api || !this.account) {
+      throw new Error('API or account not initialized');
+    }
+
+    try {
+      if ((await this.fetchNextNonce()) > nonce) {
+        return; // The nonce was consumed (e.g. included with a dispatch error)
+      }
+
+      this.logger.warn('Filling nonce gap left by failed transfer', { nonce });
+      await signAndSendTx(this.account, this.api.tx.system.remark('0x'), { nonce }, []);
+    } catch (error) {
+      this.logger.error('Failed to fill nonce gap', { nonce, error });
+    }
+  }
+
+  /**
+   * Sort out transfers that a previous run left in flight. Anything whose nonce is still
+   * unused (neither on chain nor in the pool) was never sent and is safe to send again;
+   * the rest stay 'processing' and are skipped rather than risking a double payment.
+   */
+  private async recoverInFlight(records: DistributionRecord[]): Promise<void> {
+    const inFlight = this.resumeManager.getInFlightRecords(records);
+    if (inFlight.length === 0) {
+      return;
+    }
+
+    const nextNonce = await this.fetchNextNonce();
+    let released = 0;
+
+    for (const record of inFlight) {
+      if (record.nonce! >= nextNonce) {
+        record.status = 'pending';
+        record.nonce = undefined;
+        released++;
+      }
+    }
+
+    this.logger.info('Recovered in-flight transfers', {
+      inFlight: inFlight.length,
+      released,
+      unresolved: inFlight.length - released,
+      nextNonce,
+    });
+  }
+
+  /**
+   * Track a sent extrinsic from its inclusion block until it has CONFIRMATION_BLOCKS on the
+   * best chain (and, with WAIT_FOR_FINALITY, until that block is finalized)
+   */
+  private async waitForConfirmation(
+    sent: Awaited<ReturnType<typeof signAndSendTx>>
+  ): Promise<ConfirmationResult> {
     if (!this.api) {
       throw new Error('API not initialized');
     }
 
-    let confirmations = 0;
-    const targetConfirmations = this.config.confirmationBlocks;
+    const { receipt } = sent;
+    const blockHash = receipt.status.isInBlock
+      ? receipt.status.asInBlock.toHex()
+      : receipt.status.asFinalized.toHex();
+    const blockNumber = receipt.blockNumber
+      ? receipt.blockNumber.toNumber()
+      : (await this.api.rpc.chain.getHeader(blockHash)).number.toNumber();
+
+    const tracker = new ConfirmationTracker(this.api, this.logger, {
+      confirmationBlocks: this.config.confirmationBlocks,
+      waitForFinality: this.config.waitForFinality ?? false,
+      timeoutMs: (this.config.confirmationTimeoutSeconds ?? 300) * 1000,
+    });
 
-    this.logger.debug(`Waiting for ${targetConfirmations} confirmations for tx ${txHash}`);
+    return tracker.waitForConfirmation({
+      transactionHash: sent.txHash || receipt.txHash.toHex(),
+      blockHash,
+      blockNumber,
+    });
+  }
 
-    return new Promise((resolve, reject) => {
-      this.api!.rpc.chain.subscribeNewHeads(async _header => {
-        try {
-          confirmations++;
+  /**
+   * Check the chain for the outcome of records a previous run may have sent without saving it.
+   * Must run before resuming; see Reconciler for the matching rules.
+   */
+  async reconcile(resumeData: ResumeData): Promise<ReconciliationReport> {
+    return this.reconcileRecords(resumeData.records, new Date(resumeData.timestamp));
+  }
 
-          if (confirmations >= targetConfirmations) {
-            resolve();
-          }
-        } catch (error) {
-          reject(error);
-        }
-      })
-        .then(unsubscribe => {
-          // Timeout after 5 minutes
-          setTimeout(() => {
-            unsubscribe();
-            reject(new Error('Transaction confirmation timeout'));
-          }, 300000);
-        })
-        .catch(reject);
+  /**
+   * Match unsettled records against the distributor's transfers on chain since the given time
+   */
+  async reconcileRecords(
+    records: DistributionRecord[],
+    since: Date
+  ): Promise<ReconciliationReport> {
+    if (!this.api || !this.account) {
+      throw new Error('Distributor not initialized. Call initialize() first.');
+    }
+
+    const reconciler = new Reconciler(this.api, this.logger, this.account.address, {
+      maxBlocks: this.config.reconcileMaxBlocks ?? 20000,
+      lookbackBlocks: 10,
     });
+
+    return reconciler.reconcile(records, since);
+  }
+
+  /**
+   * Check that every settled record's inclusion block is still the canonical block at its height
+   * @returns Indices of settled records whose block has been replaced by a reorg
+   */
+  async findNonCanonicalRecords(records: DistributionRecord[]): Promise<number[]> {
+    if (!this.api) {
+      throw new Error('Distributor not initialized. Call initialize() first.');
+    }
+
+    const nonCanonical: number[] = [];
+    for (const [index, record] of records.entries()) {
+      if (!isRecordSettled(record) || record.blockNumber === undefined || !record.blockHash) {
+        continue;
+      }
+
+      const canonicalHash = (await this.api.rpc.chain.getBlockHash(record.blockNumber)).toHex();
+      if (canonicalHash !== record.blockHash) {
+        this.logger.warn('Settled transfer is no longer in the canonical chain', {
+          index,
+          address: record.address,
+          transactionHash: record.transactionHash,
+          blockNumber: record.blockNumber,
+          blockHash: record.blockHash,
+          canonicalHash,
+        });
+        nonCanonical.push(index);
+      }
+    }
+
+    return nonCanonical;
+  }
+
+  /**
+   * Exact fees for every record as it would be sent in the configured batch mode. With
+   * `simulate`, every transfer is also dry-run to predict dispatch errors.
+   */
+  async estimateFees(records: DistributionRecord[], simulate: boolean): Promise<DryRunReport> {
+    if (!this.api || !this.account) {
+      throw new Error('Distributor not initialized. Call initialize() first.');
+    }
+
+    // Records skipped by the recipient pre-flight are never sent
+    const sendable = records.filter(record => record.status !== 'skipped');
+
+    const estimator = new FeeEstimator(this.api, this.logger, this.account);
+    return estimator.estimate(sendable, {
+      batchMode: this.batchMode,
+      batchSize: this.config.batchSize,
+      allowDeath: this.transferMode === 'transferAllowDeath',
+      simulate,
+    });
+  }
+
+  /**
+   * Look up every recipient and apply ED_POLICY to transfers that would create a new account
+   * below the existential deposit. Skipped and raised records are updated in place.
+   */
+  async preflightRecipients(records: DistributionRecord[]): Promise<RecipientPreflightReport> {
+    if (!this.api) {
+      throw new Error('Distributor not initialized. Call initialize() first.');
+    }
+
+    const preflight = new RecipientPreflight(this.api, this.logger);
+    return preflight.check(records, this.config.existentialDepositPolicy || 'block');
+  }
+
+  /**
+   * Pre-flight and price a file read in chunks, as preflightRecipients and estimateFees do for
+   * one held in memory. Record indexes count from the start of the stream; only the transfers
+   * predicted to fail are kept in the fee report.
+   */
+  async planStream(
+    chunks: AsyncIterable<DistributionRecord[]>,
+    simulate: boolean
+  ): Promise<{ preflight: RecipientPreflightReport; fees: DryRunReport }> {
+    let preflight: RecipientPreflightReport | undefined;
+    const fees: DryRunReport = {
+      records: [],
+      totalAmount: 0n,
+      totalFees: 0n,
+      predictedFailures: 0,
+      simulated: true,
+    };
+
+    let offset = 0;
+    for await (const chunk of chunks) {
+      const chunkPreflight = await this.preflightRecipients(chunk);
+      const decisions = chunkPreflight.decisions.map(decision => ({
+        ...decision,
+        index: offset + decision.index,
+      }));
+      preflight = preflight
+        ? {
+            ...preflight,
+            checkedAccounts: preflight.checkedAccounts + chunkPreflight.checkedAccounts,
+            newAccounts: preflight.newAccounts + chunkPreflight.newAccounts,
+            decisions: [...preflight.decisions, ...decisions],
+            blocked: preflight.blocked || chunkPreflight.blocked,
+          }
+        : { ...chunkPreflight, decisions };
+
+      const chunkFees = await this.estimateFees(chunk, simulate);
+      fees.records.push(
+        ...chunkFees.records
+          .filter(result => !result.success)
+          .map(result => ({ ...result, index: offset + result.index }))
+      );
+      fees.totalAmount += chunkFees.totalAmount;
+      fees.totalFees += chunkFees.totalFees;
+      fees.predictedFailures += chunkFees.predictedFailures;
+      fees.simulated = fees.simulated && chunkFees.simulated;
+
+      offset += chunk.length;
+    }
+
+    if (!preflight) {
+      throw new Error('No records to distribute');
+    }
+    return { preflight, fees };
   }
 
   private async handleTransactionFailure(
@@ -330,33 +1661,33 @@ export class TokenDistributor {
     index: number,
     error: any,
     attempts: number
-  ): Promise<'retry' | 'skip' | 'pause' | 'abort'> {
-    // Use injected failure handler if available
-    if (this.failureHandler) {
-      return await this.failureHandler.handleFailure(record, index, error, attempts);
-    }
-
-    // Fallback to default strategy
-    this.logger.warn('Transaction failed, using default retry strategy', {
-      address: record.address,
-      amount: record.amount,
-      error: error.message,
-      attempts,
-    });
+  ): Promise<FailureAction> {
+    // Use injected failure handler if available, the configured retry policy otherwise
+    const handler = this.failureHandler || this.retryPolicy;
+    return await handler.handleFailure(record, index, error, attempts);
+  }
 
-    if (attempts < 3) {
-      return 'retry';
-    } else {
-      return 'skip';
-    }
+  /**
+   * Save the run, writing only the records touched since the last save
+   */
+  private async saveRun(run: DistributionRun, lastProcessedIndex: number): Promise<void> {
+    await this.resumeManager.saveState(
+      run.records,
+      run.summary,
+      lastProcessedIndex,
+      undefined,
+      run.changed
+    );
+    run.changed.clear();
   }
 
   private async pauseDistribution(
     records: DistributionRecord[],
     summary: DistributionSummary,
-    currentIndex: number
+    currentIndex: number,
+    reason: string = 'User requested pause'
   ): Promise<void> {
-    this.logger.logDistributionPaused(currentIndex, 'User requested pause');
+    this.logger.logDistributionPaused(currentIndex, reason);
     // Save the current index so we can retry the failed transaction on resume
     await this.resumeManager.saveState(records, summary, currentIndex);
   }
@@ -374,7 +1705,14 @@ export class TokenDistributor {
     return balanceInfo.free.toString();
   }
 
-  async validateSufficientBalance(totalAmount: bigint): Promise<{
+  /**
+   * Pass the exact fee total from estimateFees(); GAS_BUFFER_AI3 is only a fallback for when
+   * fees were not estimated.
+   */
+  async validateSufficientBalance(
+    totalAmount: bigint,
+    estimatedFees?: bigint
+  ): Promise<{
     sufficient: boolean;
     currentBalance: bigint;
     requiredAmount: bigint;
@@ -383,9 +1721,8 @@ export class TokenDistributor {
     const currentBalanceString = await this.checkDistributorBalance();
     const currentBalance = BigInt(currentBalanceString);
 
-    // Add configurable AI3 tokens in Shannon for gas fees
-    const gasBuffer = ai3ToShannons(this.config.gasBufferAi3.toString());
-    const requiredAmount = totalAmount + gasBuffer;
+    const fees = estimatedFees ?? ai3ToShannons(this.config.gasBufferAi3.toString());
+    const requiredAmount = totalAmount + fees;
 
     const sufficient = currentBalance >= requiredAmount;
 
@@ -399,7 +1736,9 @@ export class TokenDistributor {
     this.logger.info('Balance validation completed', {
       currentBalance: currentBalance.toString(),
       totalDistributionAmount: totalAmount.toString(),
-      gasBuffer: gasBuffer.toString(),
+      ...(estimatedFees !== undefined
+        ? { estimatedFees: fees.toString() }
+        : { gasBuffer: fees.toString() }),
       requiredAmount: requiredAmount.toString(),
       sufficient,
       ...(result.shortfall && { shortfall: result.shortfall.toString() }),
@@ -409,8 +1748,8 @@ export class TokenDistributor {
   }
 
   async disconnect(): Promise<void> {
-    if (this.api && this.isConnected) {
-      await disconnect(this.api);
+    if (this.connection && this.isConnected) {
+      await this.connection.disconnect();
       this.isConnected = false;
       this.logger.info('Disconnected from network');
     }
@@ -421,6 +1760,18 @@ export class TokenDistributor {
     return this.account?.address;
   }
 
+  get batchMode(): TransferBatchMode {
+    return this.config.batchMode || 'single';
+  }
+
+  get transferMode(): TransferMode {
+    return this.config.transferMode || 'transferKeepAlive';
+  }
+
+  get pipelineDepth(): number {
+    return this.config.pipelineDepth || 1;
+  }
+
   get networkName(): string {
     return this.config.network;
   }
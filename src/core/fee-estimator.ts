@@ -0,0 +1,194 @@
+import { transfer, balance } from '@autonomys/auto-consensus';
+import { ApiPromise } from '@polkadot/api';
+import { KeyringPair } from '@polkadot/keyring/types';
+import { DistributionRecord, DryRunRecordResult, DryRunReport, TransferBatchMode } from '../types';
+import Logger from '../utils/logger';
+import { splitFee } from '../utils/fee-events';
+
+export interface FeeEstimatorOptions {
+  batchMode: TransferBatchMode;
+  batchSize: number;
+  allowDeath: boolean; // transferAllowDeath instead of transferKeepAlive
+  simulate: boolean; // Also dry-run every transfer to predict dispatch errors
+}
+
+/**
+ * Builds the real extrinsics for a distribution and asks the node what they would cost
+ * (paymentInfo) and, when simulating, whether they would succeed (system_dryRun).
+ *
+ * Each transfer is dry-run on its own against the current state, so the cumulative drain on
+ * the distributor balance is checked separately by walking the rows in order.
+ */
+export class FeeEstimator {
+  private api: ApiPromise;
+  private logger: Logger;
+  private account: KeyringPair;
+
+  constructor(api: ApiPromise, logger: Logger, account: KeyringPair) {
+    this.api = api;
+    this.logger = logger;
+    this.account = account;
+  }
+
+  async estimate(
+    records: DistributionRecord[],
+    options: FeeEstimatorOptions
+  ): Promise<DryRunReport> {
+    const results: DryRunRecordResult[] = records.map((record, index) => ({
+      index,
+      address: record.address,
+      amount: record.amount,
+      fee: 0n,
+      success: true,
+      sourceRowNumber: record.sourceRowNumber,
+      metadata: record.metadata,
+    }));
+
+    if (options.batchMode === 'single') {
+      await this.estimateTransferFees(records, results, options.allowDeath);
+    } else {
+      await this.estimateBatchFees(records, results, options);
+    }
+
+    const simulated = options.simulate
+      ? await this.simulateTransfers(records, results, options.allowDeath)
+      : false;
+
+    const balanceInfo = await balance(this.api, this.account.address);
+    this.checkCumulativeBalance(results, BigInt(balanceInfo.free.toString()));
+
+    const report: DryRunReport = {
+      records: results,
+      totalAmount: results.reduce((sum, result) => sum + result.amount, 0n),
+      totalFees: results.reduce((sum, result) => sum + result.fee, 0n),
+      predictedFailures: results.filter(result => !result.success).length,
+      simulated,
+    };
+
+    this.logger.info('Fee estimation completed', {
+      recordCount: results.length,
+      batchMode: options.batchMode,
+      totalFees: report.totalFees.toString(),
+      predictedFailures: report.predictedFailures,
+      simulated,
+    });
+
+    return report;
+  }
+
+  private async estimateTransferFees(
+    records: DistributionRecord[],
+    results: DryRunRecordResult[],
+    allowDeath: boolean
+  ): Promise<void> {
+    for (let i = 0; i < records.length; i++) {
+      const tx = await this.buildTransfer(records[i], allowDeath);
+      const info = await tx.paymentInfo(this.account);
+      results[i].fee = info.partialFee.toBigInt();
+    }
+  }
+
+  /**
+   * One fee per batch extrinsic, shared across its rows (any remainder goes to the first row)
+   */
+  private async estimateBatchFees(
+    records: DistributionRecord[],
+    results: DryRunRecordResult[],
+    options: FeeEstimatorOptions
+  ): Promise<void> {
+    for (let start = 0; start < records.length; start += options.batchSize) {
+      const chunk = records.slice(start, start + options.batchSize);
+      const calls = await Promise.all(
+        chunk.map(record => this.buildTransfer(record, options.allowDeath))
+      );
+      const tx =
+        options.batchMode === 'forceBatch'
+          ? this.api.tx.utility.forceBatch(calls)
+          : this.api.tx.utility.batchAll(calls);
+
+      const info = await tx.paymentInfo(this.account);
+      splitFee(info.partialFee.toBigInt(), chunk.length).forEach((fee, offset) => {
+        results[start + offset].fee = fee;
+      });
+    }
+  }
+
+  /**
+   * Returns false if the node does not allow system_dryRun (it is an unsafe RPC)
+   */
+  private async simulateTransfers(
+    records: DistributionRecord[],
+    results: DryRunRecordResult[],
+    allowDeath: boolean
+  ): Promise<boolean> {
+    const nextIndex = await this.api.rpc.system.accountNextIndex(this.account.address);
+    const nonce = nextIndex.toNumber();
+
+    for (let i = 0; i < records.length; i++) {
+      const tx = await this.buildTransfer(records[i], allowDeath);
+      await tx.signAsync(this.account, { nonce });
+
+      let applyResult;
+      try {
+        applyResult = await this.api.rpc.system.dryRun(tx.toHex());
+      } catch (error) {
+        if (i > 0) {
+          throw error;
+        }
+        this.logger.warn('system_dryRun is not available on this node; reporting fees only', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return false;
+      }
+
+      if (applyResult.isErr) {
+        results[i].success = false;
+        results[i].error = `Invalid transaction: ${applyResult.asErr.toString()}`;
+        continue;
+      }
+
+      const outcome = applyResult.asOk;
+      if (outcome.isErr) {
+        const dispatchError = outcome.asErr;
+        results[i].success = false;
+
+        if (dispatchError.isModule) {
+          const { section, name, docs } = this.api.registry.findMetaError(dispatchError.asModule);
+          results[i].error = `${section}.${name}${docs.length > 0 ? `: ${docs.join(' ')}` : ''}`;
+        } else {
+          results[i].error = dispatchError.toString();
+        }
+      }
+    }
+
+    return true;
+  }
+
+  private buildTransfer(record: DistributionRecord, allowDeath: boolean) {
+    return transfer(this.api, record.address, record.amount.toString(), allowDeath);
+  }
+
+  /**
+   * Walk the rows in order and fail the ones the distributor can no longer pay for
+   */
+  private checkCumulativeBalance(results: DryRunRecordResult[], freeBalance: bigint): void {
+    let remaining = freeBalance;
+
+    for (const result of results) {
+      if (!result.success) {
+        // Fees are still charged when the dispatch fails
+        remaining -= result.fee;
+        continue;
+      }
+
+      const cost = result.amount + result.fee;
+      if (cost > remaining) {
+        result.success = false;
+        result.error = 'Insufficient balance: distributor funds run out before this row';
+        continue;
+      }
+
+      remaining -= cost;
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import { KeyringPair } from '@polkadot/keyring/types';
+import { Signer, SignerResult, SubmittableExtrinsic } from '@polkadot/api/types';
+
+type SignerPayload = Parameters<NonNullable<Signer['signPayload']>>[0];
+
+/**
+ * A transaction once it is signed, before it is sent
+ */
+export interface SignedIntent {
+  transactionHash: string;
+  nonce: number;
+}
+
+export interface IntentSignerHooks {
+  onSigned(_intent: SignedIntent): Promise<void>; // The transaction is only sent once this resolves
+  onSubmitted?(): void; // First status update from the node
+}
+
+let nextRequestId = 0;
+
+/**
+ * Signs with the distributor key like signing with the KeyringPair itself does, but hands
+ * over the hash and nonce of the signed extrinsic before it is sent. sr25519 signatures
+ * are randomized, so the hash cannot be known any earlier.
+ *
+ * Pass the account address as the sender and this as options.signer; the api adds the
+ * returned signature to the extrinsic unchanged, so it is sent with the hash reported here.
+ */
+export class IntentSigner implements Signer {
+  private pair: KeyringPair;
+  private tx: SubmittableExtrinsic<'promise'>;
+  private hooks: IntentSignerHooks;
+  private submitted = false;
+
+  constructor(pair: KeyringPair, tx: SubmittableExtrinsic<'promise'>, hooks: IntentSignerHooks) {
+    this.pair = pair;
+    this.tx = tx;
+    this.hooks = hooks;
+  }
+
+  async signPayload(payload: SignerPayload): Promise<SignerResult> {
+    const { registry } = this.tx;
+    const { signature } = registry
+      .createType('ExtrinsicPayload', payload, { version: payload.version })
+      .sign(this.pair);
+
+    // The signed extrinsic as the api is going to build it
+    const signed = registry.createType('Extrinsic', this.tx.toHex());
+    signed.addSignature(payload.address, signature, payload);
+
+    await this.hooks.onSigned({
+      transactionHash: signed.hash.toHex(),
+      nonce: Number(BigInt(payload.nonce)),
+    });
+
+    return { id: ++nextRequestId, signature };
+  }
+
+  update(_id: number, _status: unknown): void {
+    if (!this.submitted) {
+      this.submitted = true;
+      this.hooks.onSubmitted?.();
+    }
+  }
+}
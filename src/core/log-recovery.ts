@@ -0,0 +1,248 @@
+import { shannonsToAi3 } from '@autonomys/auto-utils';
+import {
+  DistributionRecord,
+  DistributionSummary,
+  LogRecoveryReport,
+  ReconciliationReport,
+  ResumeData,
+  RunInfo,
+} from '../types';
+import Logger from '../utils/logger';
+import { isRecordSettled } from '../utils/record-status';
+import { LoggedTransaction, TransactionLog } from '../utils/transaction-log';
+
+/**
+ * Rebuilds the resume state of a distribution from its CSV file and the transaction logs its
+ * sessions wrote, for when .resume/ is gone or the run was made on another machine.
+ *
+ * The logs are applied oldest first, so each record ends up as its last log line left it;
+ * records never logged are pending. Optionally the chain is scanned from the first session on,
+ * through the reconciler, for the transfers the logs claim and for ones they missed.
+ * Everything the CSV, the logs and the chain disagree on is reported as a discrepancy.
+ */
+export class LogRecovery {
+  private records: DistributionRecord[];
+  private logger: Logger;
+  private byRow: Map<number, number>; // Record index by source row
+  private startedAt?: Date;
+  private report: LogRecoveryReport;
+
+  /**
+   * @param records - The validated records of the CSV file, with their source row numbers
+   */
+  constructor(records: DistributionRecord[], logger: Logger) {
+    this.records = records;
+    this.logger = logger;
+    this.byRow = new Map(records.map((record, index) => [record.sourceRowNumber!, index]));
+    this.report = {
+      logFiles: [],
+      loggedRows: 0,
+      completed: 0,
+      failed: 0,
+      pending: 0,
+      checkedOnChain: false,
+      discrepancies: [],
+    };
+  }
+
+  applyLogs(logs: TransactionLog[]): LogRecoveryReport {
+    const ordered = [...logs].sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+
+    for (const log of ordered) {
+      this.report.logFiles.push(log.filePath);
+      if (!this.startedAt || log.startedAt < this.startedAt) {
+        this.startedAt = log.startedAt;
+      }
+
+      for (const line of log.unreadableLines) {
+        this.discrepancy(undefined, `${log.filePath} line ${line} could not be read`);
+      }
+      for (const entry of log.entries) {
+        this.applyEntry(log.filePath, entry);
+      }
+    }
+
+    this.logger.info('Transaction logs applied', {
+      logFiles: this.report.logFiles.length,
+      loggedRows: this.report.loggedRows,
+      discrepancies: this.report.discrepancies.length,
+    });
+    return this.countRecords();
+  }
+
+  /**
+   * Scan the chain from the first session on and compare it with the logs. Transfers found
+   * for records the logs left unsettled are taken as completed; logged transfers that are not
+   * found stay completed, but are reported.
+   * @param reconcile - Matches unsettled records against the distributor's transfers on chain
+   */
+  async checkOnChain(
+    reconcile: (_records: DistributionRecord[], _since: Date) => Promise<ReconciliationReport>
+  ): Promise<LogRecoveryReport> {
+    // The reconciler only matches unsettled records, so the logged ones are unsettled for now
+    const logged = new Map<number, DistributionRecord>();
+    this.records.forEach((record, index) => {
+      if (isRecordSettled(record)) {
+        logged.set(index, { ...record });
+        record.status = 'processing';
+      }
+    });
+
+    const reconciliation = await reconcile(this.records, this.startedAt ?? new Date());
+    this.report.checkedOnChain = true;
+    if (!reconciliation.complete) {
+      this.discrepancy(
+        undefined,
+        `The chain could not be scanned from the first session on (blocks #${reconciliation.fromBlock} - #${reconciliation.toBlock}); raise RECONCILE_MAX_BLOCKS`
+      );
+    }
+
+    const matched = new Set(reconciliation.matchedOnChain);
+    this.records.forEach((record, index) => {
+      const row = record.sourceRowNumber;
+      const loggedRecord = logged.get(index);
+
+      if (!loggedRecord) {
+        if (matched.has(index)) {
+          this.discrepancy(
+            row,
+            `sent on chain in ${record.transactionHash ?? `block #${record.blockNumber}`} but not logged as completed; marked completed`
+          );
+        }
+        return;
+      }
+
+      if (!matched.has(index)) {
+        this.records[index] = Object.assign(record, loggedRecord);
+        if (reconciliation.complete) {
+          this.discrepancy(
+            row,
+            `logged as completed in ${loggedRecord.transactionHash ?? 'an unknown transaction'}, but no such transfer was found on chain`
+          );
+        }
+        return;
+      }
+
+      const chainHash = record.transactionHash;
+      record.status = loggedRecord.status;
+      record.feePaid = loggedRecord.feePaid ?? record.feePaid; // The log has it over all attempts
+      if (loggedRecord.transactionHash && chainHash && loggedRecord.transactionHash !== chainHash) {
+        this.discrepancy(
+          row,
+          `logged as completed in ${loggedRecord.transactionHash}, but the transfer on chain is ${chainHash}`
+        );
+      }
+    });
+
+    return this.countRecords();
+  }
+
+  /**
+   * Resume state for the rebuilt records, to continue from the first record not settled
+   */
+  buildResumeData(sourceFilename: string, run: RunInfo): ResumeData {
+    const settled = this.records.filter(isRecordSettled);
+    const failed = this.records.filter(record => record.status === 'failed');
+    const sum = (records: DistributionRecord[]) =>
+      records.reduce((total, record) => total + record.amount, 0n);
+
+    const summary: DistributionSummary = {
+      totalRecords: this.records.length,
+      completed: settled.length,
+      failed: failed.length,
+      skipped: 0,
+      totalAmount: sum(this.records),
+      distributedAmount: sum(settled),
+      failedAmount: sum(failed),
+      feesPaid: this.records.reduce((total, record) => total + (record.feePaid || 0n), 0n),
+      startTime: this.startedAt ?? new Date(),
+      existentialDepositDecisions: [],
+    };
+
+    return {
+      records: this.records,
+      summary,
+      lastProcessedIndex: 0,
+      timestamp: new Date(),
+      sourceFilename,
+      run,
+    };
+  }
+
+  private applyEntry(filePath: string, entry: LoggedTransaction): void {
+    const row = entry.sourceRowNumber;
+    const index = this.byRow.get(row);
+    if (index === undefined) {
+      this.discrepancy(row, `logged in ${filePath}, but the CSV has no record on this row`);
+      return;
+    }
+
+    const record = this.records[index];
+    if (entry.address !== record.address) {
+      this.discrepancy(
+        row,
+        `logged in ${filePath} for ${entry.address}, but the CSV has ${record.address}; not applied`
+      );
+      return;
+    }
+
+    // The amount sent is what counts from now on, e.g. when raised to the existential deposit
+    if (entry.amount !== record.amount) {
+      this.discrepancy(
+        row,
+        `logged with ${shannonsToAi3(entry.amount)} AI3, the CSV has ${shannonsToAi3(record.amount)} AI3`
+      );
+      record.requestedAmount = record.requestedAmount ?? record.amount;
+      record.amount = entry.amount;
+    }
+
+    if (entry.status === 'completed' || entry.status === 'finalized') {
+      if (
+        isRecordSettled(record) &&
+        record.transactionHash &&
+        record.transactionHash !== entry.transactionHash
+      ) {
+        this.discrepancy(
+          row,
+          `logged as completed twice, in ${record.transactionHash} and ${entry.transactionHash}; the recipient may have been paid twice`
+        );
+      }
+      record.status = entry.status;
+      record.transactionHash = entry.transactionHash ?? record.transactionHash;
+      record.error = undefined;
+      record.dispatchError = undefined;
+    } else if (entry.status === 'failed') {
+      if (isRecordSettled(record)) {
+        this.discrepancy(row, `logged as failed in ${filePath} after it completed; kept completed`);
+        return;
+      }
+      record.status = 'failed';
+      record.transactionHash = entry.transactionHash;
+      record.error = entry.error;
+      record.dispatchError = entry.dispatchError;
+      record.attempts = (record.attempts ?? 0) + 1;
+    } else {
+      this.discrepancy(row, `logged in ${filePath} with unknown status ${entry.status}`);
+      return;
+    }
+
+    if (entry.feePaid !== undefined) {
+      record.feePaid = entry.feePaid;
+    }
+    this.report.loggedRows++;
+  }
+
+  private countRecords(): LogRecoveryReport {
+    this.report.completed = this.records.filter(isRecordSettled).length;
+    this.report.failed = this.records.filter(record => record.status === 'failed').length;
+    this.report.pending = this.records.filter(record => record.status === 'pending').length;
+    return this.report;
+  }
+
+  private discrepancy(sourceRowNumber: number | undefined, message: string): void {
+    this.report.discrepancies.push({
+      sourceRowNumber,
+      message: sourceRowNumber !== undefined ? `Row ${sourceRowNumber}: ${message}` : message,
+    });
+  }
+}
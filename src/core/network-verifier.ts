@@ -0,0 +1,71 @@
+import { ApiPromise } from '@polkadot/api';
+import { NetworkConfig } from '../types';
+import Logger from '../utils/logger';
+
+/**
+ * Checks that the node we connected to is the chain the configured network describes,
+ * so that a mistyped RPC_ENDPOINT can never send funds on the wrong chain.
+ *
+ * The genesis hash identifies a chain. A network with a pinned genesis hash only accepts that
+ * chain; a network without one still refuses any chain pinned by another registry entry
+ * (e.g. NETWORK=chronos pointed at a mainnet node).
+ */
+export class NetworkVerifier {
+  private api: ApiPromise;
+  private logger: Logger;
+  private registry: Record<string, NetworkConfig>;
+
+  constructor(api: ApiPromise, logger: Logger, registry: Record<string, NetworkConfig>) {
+    this.api = api;
+    this.logger = logger;
+    this.registry = registry;
+  }
+
+  verify(networkName: string): void {
+    const key = networkName.toLowerCase();
+    const network = this.registry[key];
+    if (!network) {
+      throw new Error(`Unknown network: ${networkName}`);
+    }
+
+    const genesisHash = this.api.genesisHash.toHex().toLowerCase();
+
+    if (network.genesisHash) {
+      if (network.genesisHash.toLowerCase() !== genesisHash) {
+        throw new Error(
+          `Genesis hash mismatch for ${network.name}: expected ${network.genesisHash}, ` +
+            `but the connected node reports ${genesisHash}. Check RPC_ENDPOINT.`
+        );
+      }
+    } else {
+      const other = Object.entries(this.registry).find(
+        ([otherKey, config]) =>
+          otherKey !== key && config.genesisHash?.toLowerCase() === genesisHash
+      );
+      if (other) {
+        throw new Error(
+          `The connected node is on ${other[1].name}, not ${network.name}. Check RPC_ENDPOINT.`
+        );
+      }
+
+      this.logger.warn('No genesis hash configured for network, chain identity not pinned', {
+        network: networkName,
+        genesisHash,
+      });
+    }
+
+    const chainDecimals = this.api.registry.chainDecimals[0];
+    if (chainDecimals !== undefined && chainDecimals !== network.tokenDecimals) {
+      throw new Error(
+        `Token decimals mismatch for ${network.name}: expected ${network.tokenDecimals}, ` +
+          `but the chain reports ${chainDecimals}`
+      );
+    }
+
+    this.logger.info('Network identity verified', {
+      network: networkName,
+      genesisHash,
+      tokenDecimals: network.tokenDecimals,
+    });
+  }
+}
@@ -0,0 +1,108 @@
+import { ApiPromise } from '@polkadot/api';
+import {
+  DistributionRecord,
+  ExistentialDepositDecision,
+  ExistentialDepositPolicy,
+  RecipientPreflightReport,
+} from '../types';
+import Logger from '../utils/logger';
+
+const ACCOUNT_QUERY_CHUNK = 256;
+
+/**
+ * Looks up every recipient before anything is sent and applies the existential deposit policy
+ * to transfers that would create a new account with less than the ED (the chain rejects those).
+ *
+ * Records are walked in order: once a transfer of at least the ED has created an account,
+ * later transfers to the same address are fine whatever their amount.
+ */
+export class RecipientPreflight {
+  private api: ApiPromise;
+  private logger: Logger;
+
+  constructor(api: ApiPromise, logger: Logger) {
+    this.api = api;
+    this.logger = logger;
+  }
+
+  async check(
+    records: DistributionRecord[],
+    policy: ExistentialDepositPolicy
+  ): Promise<RecipientPreflightReport> {
+    const existentialDeposit = BigInt(this.api.consts.balances.existentialDeposit.toString());
+    const addresses = [...new Set(records.map(record => record.address))];
+    const existing = await this.findExistingAccounts(addresses);
+
+    const funded = new Set(existing);
+    const decisions: ExistentialDepositDecision[] = [];
+
+    records.forEach((record, index) => {
+      if (record.status !== 'pending' || funded.has(record.address)) {
+        return;
+      }
+
+      if (record.amount >= existentialDeposit) {
+        funded.add(record.address);
+        return;
+      }
+
+      const decision: ExistentialDepositDecision = {
+        index,
+        address: record.address,
+        action: policy === 'raise' ? 'raised' : policy === 'skip' ? 'skipped' : 'blocked',
+        requestedAmount: record.amount,
+        amount: policy === 'raise' ? existentialDeposit : record.amount,
+      };
+      decisions.push(decision);
+
+      if (policy === 'skip') {
+        record.status = 'skipped';
+        record.error = 'Amount is below the existential deposit for a new account';
+        record.existentialDepositAction = 'skipped';
+      } else if (policy === 'raise') {
+        record.requestedAmount = record.amount;
+        record.amount = existentialDeposit;
+        record.existentialDepositAction = 'raised';
+        funded.add(record.address);
+      }
+    });
+
+    const report: RecipientPreflightReport = {
+      existentialDeposit,
+      checkedAccounts: addresses.length,
+      newAccounts: addresses.length - existing.size,
+      decisions,
+      blocked: policy === 'block' && decisions.length > 0,
+    };
+
+    this.logger.info('Recipient pre-flight completed', {
+      policy,
+      existentialDeposit: existentialDeposit.toString(),
+      checkedAccounts: report.checkedAccounts,
+      newAccounts: report.newAccounts,
+      belowExistentialDeposit: decisions.length,
+    });
+
+    return report;
+  }
+
+  /**
+   * An account exists while it has a provider or sufficient reference
+   */
+  private async findExistingAccounts(addresses: string[]): Promise<Set<string>> {
+    const existing = new Set<string>();
+
+    for (let start = 0; start < addresses.length; start += ACCOUNT_QUERY_CHUNK) {
+      const chunk = addresses.slice(start, start + ACCOUNT_QUERY_CHUNK);
+      const accounts: any[] = await this.api.query.system.account.multi(chunk);
+
+      accounts.forEach((accountInfo, k) => {
+        if (accountInfo.providers.toNumber() > 0 || accountInfo.sufficients.toNumber() > 0) {
+          existing.add(chunk[k]);
+        }
+      });
+    }
+
+    return existing;
+  }
+}
@@ -0,0 +1,393 @@
+import { ApiPromise } from '@polkadot/api';
+import { decodeAddress } from '@polkadot/util-crypto';
+import { DistributionRecord, ReconciliationReport } from '../types';
+import Logger from '../utils/logger';
+import { isRecordSettled } from '../utils/record-status';
+import { splitFee } from '../utils/fee-events';
+
+export interface ReconcilerOptions {
+  maxBlocks: number; // Refuse to call the scan complete beyond this many blocks
+  lookbackBlocks: number; // Extra blocks scanned before the start timestamp for clock skew
+}
+
+interface TransferEvent {
+  to: string; // Public key hex
+  amount: bigint;
+  blockHash: string;
+  blockNumber: number;
+  extrinsicIndex?: number;
+  hash?: string; // Of the extrinsic that made the transfer
+  feePaid?: bigint; // From the TransactionFeePaid event of the same extrinsic
+  tipPaid?: bigint;
+}
+
+interface PooledTransfer {
+  to: string; // Public key hex
+  amount: bigint;
+  nonce: number;
+  hash: string; // Of the extrinsic, shared by every transfer of a batch
+}
+
+const TRANSFER_CALLS = ['transfer', 'transferKeepAlive', 'transferAllowDeath'];
+const BATCH_CALLS = ['batch', 'batchAll', 'forceBatch'];
+
+/**
+ * Works out what actually happened on chain to records that a previous run may have sent
+ * without saving the outcome, so that resuming never pays a recipient twice.
+ *
+ * Every unsettled record is matched, in record order, against:
+ *  1. balances.Transfer events from the distributor in the blocks since the run was last saved
+ *     -> marked completed with the transaction hash and block
+ *  2. transfers from the distributor still waiting in the transaction pool, on their own or
+ *     inside a utility batch
+ *     -> kept 'processing' with the pool nonce, so they are not sent again
+ * Records that carry the hash or nonce they were signed with are matched by it first; the
+ * rest, and those it does not find, by recipient and amount.
+ *
+ * Records left 'processing' without a match are cleared to 'pending' for a safe resend, but
+ * only when the whole block range could be scanned, or when their nonce is still unused on
+ * chain. Blocks are only scanned when the distributor's nonce moved in the range: nothing it
+ * signed was included otherwise.
+ */
+export class Reconciler {
+  private api: ApiPromise;
+  private logger: Logger;
+  private distributorAddress: string;
+  private options: ReconcilerOptions;
+
+  constructor(
+    api: ApiPromise,
+    logger: Logger,
+    distributorAddress: string,
+    options: ReconcilerOptions
+  ) {
+    this.api = api;
+    this.logger = logger;
+    this.distributorAddress = distributorAddress;
+    this.options = options;
+  }
+
+  async reconcile(records: DistributionRecord[], since: Date): Promise<ReconciliationReport> {
+    const distributorKey = toPublicKey(this.distributorAddress);
+    const report: ReconciliationReport = {
+      complete: false,
+      fromBlock: 0,
+      toBlock: 0,
+      accountNonce: 0,
+      nonceDelta: 0,
+      matchedOnChain: [],
+      pendingInPool: [],
+      clearedForResend: [],
+      unmatchedTransfers: 0,
+    };
+
+    const candidates = records
+      .map((record, index) => ({ record, index }))
+      .filter(({ record }) => !isRecordSettled(record) && record.status !== 'skipped');
+
+    // The earliest point anything unsettled could have been sent
+    const startTime = candidates.reduce(
+      (earliest, { record }) =>
+        record.timestamp && new Date(record.timestamp) < earliest
+          ? new Date(record.timestamp)
+          : earliest,
+      since
+    );
+
+    const bestHeader = await this.api.rpc.chain.getHeader();
+    report.toBlock = bestHeader.number.toNumber();
+
+    let transfers: TransferEvent[] = [];
+    try {
+      const firstBlock = await this.findFirstBlockAtOrAfter(startTime.getTime(), report.toBlock);
+      report.fromBlock = Math.max(0, firstBlock - this.options.lookbackBlocks);
+
+      // The nonce before the first block of the range, and after the last
+      const [startNonce, currentNonce] = await Promise.all([
+        this.nonceAt(Math.max(0, report.fromBlock - 1)),
+        this.nonceAt(report.toBlock),
+      ]);
+      report.accountNonce = currentNonce;
+      report.nonceDelta = currentNonce - startNonce;
+
+      if (report.nonceDelta === 0) {
+        report.complete = true;
+      } else if (report.toBlock - report.fromBlock + 1 > this.options.maxBlocks) {
+        this.logger.warn('Reconciliation range exceeds the block limit', {
+          fromBlock: report.fromBlock,
+          toBlock: report.toBlock,
+          maxBlocks: this.options.maxBlocks,
+        });
+      } else {
+        transfers = await this.scanTransfers(distributorKey, report.fromBlock, report.toBlock);
+        report.complete = true;
+      }
+    } catch (error) {
+      this.logger.error('Failed to scan blocks for reconciliation', error);
+    }
+
+    // Transfers already accounted for by settled records must not be matched again
+    for (const record of records) {
+      if (!isRecordSettled(record) || !record.blockHash) continue;
+
+      const key = toPublicKey(record.address);
+      const matchIndex = transfers.findIndex(
+        t => t.to === key && t.amount === record.amount && t.blockHash === record.blockHash
+      );
+      if (matchIndex !== -1) {
+        transfers.splice(matchIndex, 1);
+      }
+    }
+
+    // 1. Transfers that landed on chain
+    const matchOnChain = (
+      { record, index }: { record: DistributionRecord; index: number },
+      byHash: boolean
+    ) => {
+      const key = toPublicKey(record.address);
+      const matchIndex = transfers.findIndex(
+        t =>
+          t.to === key &&
+          t.amount === record.amount &&
+          (!byHash || t.hash === record.transactionHash)
+      );
+      if (matchIndex === -1) return;
+
+      const [transfer] = transfers.splice(matchIndex, 1);
+      record.status = 'completed';
+      record.error = undefined;
+      record.nonce = undefined;
+      record.blockHash = transfer.blockHash;
+      record.blockNumber = transfer.blockNumber;
+      record.transactionHash = transfer.hash;
+      if (transfer.feePaid !== undefined) {
+        record.feePaid = (record.feePaid || 0n) + transfer.feePaid;
+        record.tipPaid = (record.tipPaid || 0n) + (transfer.tipPaid || 0n);
+      }
+      report.matchedOnChain.push(index);
+    };
+    for (const candidate of candidates) {
+      if (candidate.record.transactionHash) {
+        matchOnChain(candidate, true);
+      }
+    }
+    for (const candidate of candidates) {
+      if (!isRecordSettled(candidate.record)) {
+        matchOnChain(candidate, false);
+      }
+    }
+    report.matchedOnChain.sort((a, b) => a - b);
+    report.unmatchedTransfers = transfers.length;
+
+    // 2. Transfers still waiting in the pool
+    const pooled = await this.pendingTransfers(distributorKey);
+    const matchInPool = (
+      { record, index }: { record: DistributionRecord; index: number },
+      bySignature: boolean
+    ) => {
+      const key = toPublicKey(record.address);
+      const matchIndex = pooled.findIndex(
+        p =>
+          p.to === key &&
+          p.amount === record.amount &&
+          (!bySignature || p.hash === record.transactionHash || p.nonce === record.nonce)
+      );
+      if (matchIndex === -1) return;
+
+      const [pending] = pooled.splice(matchIndex, 1);
+      record.status = 'processing';
+      record.nonce = pending.nonce;
+      record.transactionHash = pending.hash;
+      report.pendingInPool.push(index);
+    };
+    const unsettled = candidates.filter(({ record }) => !isRecordSettled(record));
+    for (const candidate of unsettled) {
+      if (candidate.record.transactionHash || candidate.record.nonce !== undefined) {
+        matchInPool(candidate, true);
+      }
+    }
+    for (const candidate of unsettled) {
+      if (!report.pendingInPool.includes(candidate.index)) {
+        matchInPool(candidate, false);
+      }
+    }
+    report.pendingInPool.sort((a, b) => a - b);
+
+    // 3. Nothing on chain or in the pool: safe to send again, if we looked everywhere or the
+    //    nonce it was signed with is still unused
+    for (const { record, index } of candidates) {
+      if (record.status !== 'processing' || report.pendingInPool.includes(index)) continue;
+      const nonceUnused = record.nonce !== undefined && record.nonce >= report.accountNonce;
+      if (!report.complete && !nonceUnused) continue;
+
+      record.status = 'pending';
+      record.nonce = undefined;
+      record.transactionHash = undefined;
+      report.clearedForResend.push(index);
+    }
+
+    this.logger.info('Reconciliation completed', {
+      complete: report.complete,
+      fromBlock: report.fromBlock,
+      toBlock: report.toBlock,
+      nonceDelta: report.nonceDelta,
+      matchedOnChain: report.matchedOnChain.length,
+      pendingInPool: report.pendingInPool.length,
+      clearedForResend: report.clearedForResend.length,
+      unmatchedTransfers: report.unmatchedTransfers,
+    });
+
+    return report;
+  }
+
+  /**
+   * Binary search for the first block whose timestamp is at or after the given time
+   */
+  private async findFirstBlockAtOrAfter(timestampMs: number, bestNumber: number): Promise<number> {
+    let low = 0;
+    let high = bestNumber;
+
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      if ((await this.timestampAt(mid)) < timestampMs) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    return low;
+  }
+
+  private async apiAt(blockNumber: number) {
+    const hash = await this.api.rpc.chain.getBlockHash(blockNumber);
+    return { hash: hash.toHex(), api: await this.api.at(hash) };
+  }
+
+  private async timestampAt(blockNumber: number): Promise<number> {
+    const { api } = await this.apiAt(blockNumber);
+    const now = await api.query.timestamp.now();
+    return Number(now.toString());
+  }
+
+  private async nonceAt(blockNumber: number): Promise<number> {
+    const { api } = await this.apiAt(blockNumber);
+    const accountInfo: any = await api.query.system.account(this.distributorAddress);
+    return accountInfo.nonce.toNumber();
+  }
+
+  private async scanTransfers(
+    distributorKey: string,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<TransferEvent[]> {
+    const transfers: TransferEvent[] = [];
+
+    for (let blockNumber = fromBlock; blockNumber <= toBlock; blockNumber++) {
+      const { hash, api } = await this.apiAt(blockNumber);
+      const events: any = await api.query.system.events();
+      const fees = new Map<number, { fee: bigint; tip: bigint }>();
+      const blockTransfers: TransferEvent[] = [];
+
+      for (const { event, phase } of events) {
+        const extrinsicIndex = phase.isApplyExtrinsic
+          ? phase.asApplyExtrinsic.toNumber()
+          : undefined;
+
+        if (
+          event.section === 'transactionPayment' &&
+          event.method === 'TransactionFeePaid' &&
+          extrinsicIndex !== undefined
+        ) {
+          const [, actualFee, tip] = event.data;
+          fees.set(extrinsicIndex, {
+            fee: BigInt(actualFee.toString()),
+            tip: BigInt(tip.toString()),
+          });
+          continue;
+        }
+
+        if (event.section !== 'balances' || event.method !== 'Transfer') continue;
+
+        const [from, to, amount] = event.data;
+        if (toHex(from.toU8a()) !== distributorKey) continue;
+
+        blockTransfers.push({
+          to: toHex(to.toU8a()),
+          amount: BigInt(amount.toString()),
+          blockHash: hash,
+          blockNumber,
+          extrinsicIndex,
+        });
+      }
+
+      if (blockTransfers.length > 0) {
+        const signedBlock = await this.api.rpc.chain.getBlock(hash);
+        blockTransfers.forEach(transfer => {
+          if (transfer.extrinsicIndex !== undefined) {
+            transfer.hash = signedBlock.block.extrinsics[transfer.extrinsicIndex]?.hash.toHex();
+          }
+        });
+      }
+
+      // A batch pays one fee for all of its transfers; share it the way the distributor does
+      for (const [extrinsicIndex, fee] of fees) {
+        const sameExtrinsic = blockTransfers.filter(t => t.extrinsicIndex === extrinsicIndex);
+        if (sameExtrinsic.length === 0) continue;
+
+        const feeShares = splitFee(fee.fee, sameExtrinsic.length);
+        const tipShares = splitFee(fee.tip, sameExtrinsic.length);
+        sameExtrinsic.forEach((transfer, k) => {
+          transfer.feePaid = feeShares[k];
+          transfer.tipPaid = tipShares[k];
+        });
+      }
+      transfers.push(...blockTransfers);
+    }
+
+    return transfers;
+  }
+
+  /**
+   * Transfers signed by the distributor waiting in the pool, including every transfer inside
+   * a utility batch
+   */
+  private async pendingTransfers(distributorKey: string): Promise<PooledTransfer[]> {
+    const extrinsics = await this.api.rpc.author.pendingExtrinsics();
+    const pooled: PooledTransfer[] = [];
+
+    for (const extrinsic of extrinsics) {
+      if (!extrinsic.isSigned || toPublicKey(extrinsic.signer.toString()) !== distributorKey) {
+        continue;
+      }
+
+      const { section, method, args } = extrinsic.method;
+      const calls: { section: string; method: string; args: { toString(): string }[] }[] =
+        section === 'utility' && BATCH_CALLS.includes(method)
+          ? [...(args[0] as unknown as Iterable<(typeof calls)[number]>)]
+          : [extrinsic.method];
+
+      for (const call of calls) {
+        if (call.section !== 'balances' || !TRANSFER_CALLS.includes(call.method)) continue;
+
+        const [dest, value] = call.args;
+        pooled.push({
+          to: toPublicKey(dest.toString()),
+          amount: BigInt(value.toString()),
+          nonce: extrinsic.nonce.toNumber(),
+          hash: extrinsic.hash.toHex(),
+        });
+      }
+    }
+
+    return pooled;
+  }
+}
+
+function toHex(bytes: Uint8Array): string {
+  return `0x${Buffer.from(bytes).toString('hex')}`;
+}
+
+function toPublicKey(address: string): string {
+  return toHex(decodeAddress(address));
+}
@@ -0,0 +1,148 @@
+import fs from 'fs-extra';
+import { DistributionRecord, DistributionSummary, JournalEntry, ResumeData } from '../types';
+import { stringifyWithBigInt, convertDistributionStringsToBigInt } from '../utils/bigint-json';
+import { appendFileDurable, writeFileAtomic } from '../utils/durable-file';
+
+export interface JournalContents {
+  snapshot: string; // Resume snapshot file the entries follow on from
+  entries: JournalEntry[];
+  truncated: boolean; // A line could not be read; entries stop before it
+}
+
+/**
+ * Append-only log of transfer steps since the last resume snapshot, one JSON object per line.
+ * The first line names the snapshot the entries follow on from, so they are never replayed
+ * onto another one; every new snapshot starts a new journal.
+ */
+export class ResumeJournal {
+  private filepath: string;
+
+  constructor(filepath: string) {
+    this.filepath = filepath;
+  }
+
+  async start(snapshot: string): Promise<void> {
+    await writeFileAtomic(this.filepath, JSON.stringify({ snapshot }) + '\n');
+  }
+
+  /**
+   * Returns once the entries are on disk
+   */
+  async append(entries: JournalEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    const lines = entries.map(entry => stringifyWithBigInt(entry) + '\n').join('');
+    await appendFileDurable(this.filepath, lines);
+  }
+
+  async read(): Promise<JournalContents | null> {
+    if (!(await fs.pathExists(this.filepath))) {
+      return null;
+    }
+
+    const lines = (await fs.readFile(this.filepath, 'utf8')).split('\n').filter(Boolean);
+    if (lines.length === 0) {
+      return null;
+    }
+
+    const { snapshot } = JSON.parse(lines[0]);
+    const entries: JournalEntry[] = [];
+    let truncated = false;
+
+    for (const line of lines.slice(1)) {
+      try {
+        const entry = JSON.parse(line);
+        entry.at = new Date(entry.at);
+        convertDistributionStringsToBigInt(entry);
+        entries.push(entry);
+      } catch {
+        // A crash in the middle of an append leaves a partial last line
+        truncated = true;
+        break;
+      }
+    }
+
+    return { snapshot, entries, truncated };
+  }
+
+  async remove(): Promise<void> {
+    await fs.remove(this.filepath);
+  }
+}
+
+/**
+ * Bring a snapshot up to date with the journal written after it, changing each record
+ * the way the distributor did when it wrote the entry
+ */
+export function applyJournal(resumeData: ResumeData, entries: JournalEntry[]): void {
+  for (const entry of entries) {
+    const record = resumeData.records[entry.index];
+    if (record) {
+      applyJournalEntry(record, resumeData.summary, entry);
+    }
+  }
+}
+
+/**
+ * Apply one entry to the record it is about
+ */
+export function applyJournalEntry(
+  record: DistributionRecord,
+  summary: DistributionSummary,
+  entry: JournalEntry
+): void {
+  switch (entry.type) {
+    case 'intent':
+      // Sent again, so no longer failed
+      clearFailure(record, summary);
+      record.status = 'processing';
+      record.nonce = entry.nonce;
+      record.transactionHash = entry.transactionHash;
+      record.timestamp = entry.at;
+      break;
+
+    case 'submitted':
+      // Still in flight; the entry only tells that the node accepted it
+      break;
+
+    case 'included':
+      clearFailure(record, summary);
+      record.status = entry.finalized ? 'finalized' : 'completed';
+      record.transactionHash = entry.transactionHash;
+      record.blockHash = entry.blockHash;
+      record.blockNumber = entry.blockNumber;
+      summary.completed++;
+      summary.distributedAmount += record.amount;
+      break;
+
+    case 'failed':
+      // Counted once, however many of its attempts fail
+      if (record.status !== 'failed') {
+        summary.failed++;
+        summary.failedAmount += record.amount;
+      }
+      record.status = 'failed';
+      record.error = entry.error;
+      record.dispatchError = entry.dispatchError;
+      record.attempts = (record.attempts || 0) + 1;
+      break;
+  }
+
+  if (entry.feePaid !== undefined) {
+    record.feePaid = (record.feePaid || 0n) + entry.feePaid;
+    record.tipPaid = (record.tipPaid || 0n) + (entry.tipPaid || 0n);
+    summary.feesPaid += entry.feePaid;
+  }
+}
+
+/**
+ * A failed record counts in summary.failed until it is sent again or completes
+ */
+function clearFailure(record: DistributionRecord, summary: DistributionSummary): void {
+  if (record.status === 'failed') {
+    summary.failed--;
+    summary.failedAmount -= record.amount;
+  }
+}
@@ -1,102 +1,227 @@
 import fs from 'fs-extra';
 import path from 'path';
-import { DistributionRecord, DistributionSummary, ResumeData } from '../types';
+import {
+  DistributionRecord,
+  DistributionSummary,
+  JournalEntry,
+  ResumeData,
+  RunInfo,
+  StateBackend,
+  StreamPosition,
+} from '../types';
 import Logger from '../utils/logger';
-import { stringifyWithBigInt, convertDistributionStringsToBigInt } from '../utils/bigint-json';
+import { stringifyWithBigInt } from '../utils/bigint-json';
+import { isRecordSettled } from '../utils/record-status';
+import { SnapshotStore, isSnapshotFile } from './snapshot-store';
+import { SQLITE_STATE_FILE, SqliteStore } from './sqlite-store';
+import { RecordQuery, StateStore, StoredRecord } from './state-store';
+import { ResumeStateError } from './resume-schema';
+
+/**
+ * A distribution with saved state, as offered for resuming
+ */
+export interface OpenRun {
+  runId?: string; // Not set for state saved before runs had identifiers
+  resumeData: ResumeData;
+  progress: ReturnType<ResumeManager['analyzeProgress']>;
+}
 
+/**
+ * Keeps the distribution state on disk so an interrupted run can be resumed.
+ *
+ * The state goes to a StateStore: JSON snapshots with a write-ahead journal, or a SQLite
+ * database that is updated record by record. A run keeps the backend it was started with;
+ * the configured one applies to runs without saved state. Snapshots stay readable, and
+ * writable through exportResumeData, with either.
+ *
+ * Each run keeps its state in its own directory, .resume/<run id>/, so runs are resumed and
+ * cleared independently. State saved before runs had identifiers stays in .resume/ itself and
+ * is what the manager works on until a run is opened.
+ */
 export class ResumeManager {
   private resumeDir: string;
+  private runDir: string;
+  private runId?: string;
+  private run?: RunInfo;
+  private stream?: StreamPosition;
+  private sourceFilename?: string; // Given with the first save of a run, kept for the later ones
   private logger: Logger;
+  private backend: StateBackend;
+  private snapshots: SnapshotStore;
+  private store: StateStore;
+  private writes: Promise<unknown> = Promise.resolve(); // State writes, in order
 
-  constructor(logger: Logger) {
+  constructor(logger: Logger, backend: StateBackend = 'json') {
     this.logger = logger;
+    this.backend = backend;
     this.resumeDir = path.join(process.cwd(), '.resume');
+    this.runDir = this.resumeDir;
+    this.snapshots = new SnapshotStore(this.runDir, logger);
+    this.store = this.openStore();
   }
 
-  async saveState(
-    records: DistributionRecord[],
-    summary: DistributionSummary,
-    lastProcessedIndex: number,
-    sourceFilename?: string
-  ): Promise<void> {
-    try {
-      await fs.ensureDir(this.resumeDir);
-
-      const resumeData: ResumeData = {
-        records,
-        summary,
-        lastProcessedIndex,
-        timestamp: new Date(),
-        sourceFilename,
-      };
+  /**
+   * Work on the state of one run from now on
+   * @param runId - undefined for the state saved before runs had identifiers
+   */
+  openRun(runId?: string): void {
+    this.store.close();
+    this.runId = runId;
+    this.runDir = runId ? path.join(this.resumeDir, runId) : this.resumeDir;
+    this.snapshots = new SnapshotStore(this.runDir, this.logger);
+    this.store = this.openStore();
+    this.run = undefined;
+    this.stream = undefined;
+    this.sourceFilename = undefined;
+  }
 
-      const filename = this.generateResumeFilename();
-      const filepath = path.join(this.resumeDir, filename);
+  /**
+   * Open a run to save state for; every snapshot records what it belongs to
+   */
+  startRun(run: RunInfo): void {
+    this.openRun(run.id);
+    this.run = run;
+  }
 
-      // Use centralized BigInt serialization
-      const serializedData = stringifyWithBigInt(resumeData, 2);
-      await fs.writeFile(filepath, serializedData);
+  /**
+   * The records saved from now on are one chunk of a streamed file, positioned as given
+   */
+  setStreamPosition(stream: StreamPosition): void {
+    this.stream = stream;
+  }
 
-      this.logger.debug('Resume state saved', {
-        filepath,
-        lastProcessedIndex,
-        totalRecords: records.length,
-      });
-    } catch (error) {
-      this.logger.error('Failed to save resume state', error);
+  async hasRun(runId: string): Promise<boolean> {
+    const manager = new ResumeManager(this.logger, this.backend);
+    manager.openRun(runId);
+    try {
+      return await manager.store.exists();
+    } finally {
+      manager.close();
     }
   }
 
-  async loadLatestState(): Promise<ResumeData | null> {
+  /**
+   * Every run with saved state, most recently saved first
+   */
+  async listRuns(): Promise<OpenRun[]> {
     try {
       if (!(await fs.pathExists(this.resumeDir))) {
-        return null;
+        return [];
       }
 
-      const files = await fs.readdir(this.resumeDir);
-      const resumeFiles = files
-        .filter(file => file.startsWith('resume-') && file.endsWith('.json'))
-        .sort()
-        .reverse(); // Get latest first
-
-      if (resumeFiles.length === 0) {
-        return null;
+      const entries = await fs.readdir(this.resumeDir, { withFileTypes: true });
+      const runIds: (string | undefined)[] = entries
+        .filter(entry => entry.isDirectory())
+        .map(entry => entry.name);
+      if (entries.some(entry => entry.isFile() && this.isStateFile(entry.name))) {
+        runIds.push(undefined);
       }
 
-      const latestFile = resumeFiles[0];
-      const filepath = path.join(this.resumeDir, latestFile);
+      const runs: OpenRun[] = [];
+      for (const runId of runIds) {
+        const manager = new ResumeManager(this.logger, this.backend);
+        manager.openRun(runId);
 
-      const resumeData = (await fs.readJSON(filepath)) as ResumeData;
+        const resumeData = await manager.loadLatestState();
+        manager.close();
+        if (resumeData) {
+          runs.push({ runId, resumeData, progress: this.analyzeProgress(resumeData) });
+        }
+      }
 
-      // Convert timestamp back to Date object and BigInt strings back to BigInt
-      resumeData.timestamp = new Date(resumeData.timestamp);
-      convertDistributionStringsToBigInt(resumeData);
+      return runs.sort(
+        (a, b) => b.resumeData.timestamp.getTime() - a.resumeData.timestamp.getTime()
+      );
+    } catch (error) {
+      this.logger.error('Failed to list runs', error);
+      if (error instanceof ResumeStateError) {
+        throw error;
+      }
+      return [];
+    }
+  }
 
-      this.logger.info('Resume state loaded', {
-        filepath,
-        lastProcessedIndex: resumeData.lastProcessedIndex,
-        totalRecords: resumeData.records.length,
-        timestamp: resumeData.timestamp,
+  /**
+   * Save the state as it is now; with snapshots this also starts a new journal after it.
+   * Throws if the state could not be written.
+   * @param changed - Indexes of the only records changed since the last save; stores that
+   * keep a row per record write just those
+   */
+  async saveState(
+    records: DistributionRecord[],
+    summary: DistributionSummary,
+    lastProcessedIndex: number,
+    sourceFilename?: string,
+    changed?: ReadonlySet<number>
+  ): Promise<void> {
+    try {
+      await this.serialize(() => {
+        this.sourceFilename = sourceFilename ?? this.sourceFilename;
+
+        return this.store.save(
+          {
+            records,
+            summary,
+            lastProcessedIndex,
+            timestamp: new Date(),
+            sourceFilename: this.sourceFilename,
+            run: this.run,
+            stream: this.stream,
+          },
+          changed
+        );
       });
+    } catch (error) {
+      this.logger.error('Failed to save resume state', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record transfer steps ahead of acting on them.
+   * Returns once they are on disk; throws if they could not be written.
+   */
+  async appendJournal(entries: JournalEntry[]): Promise<void> {
+    try {
+      await this.serialize(() => this.store.append(entries));
+    } catch (error) {
+      this.logger.error('Failed to write resume journal', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Records of the open run by status and/or address, with their positions
+   */
+  async findRecords(query: RecordQuery): Promise<StoredRecord[]> {
+    try {
+      return await this.serialize(() => this.store.findRecords(query));
+    } catch (error) {
+      this.logger.error('Failed to query resume state', error);
+      throw error;
+    }
+  }
 
-      return resumeData;
+  /**
+   * Load the saved state of the open run with every step recorded since.
+   * With snapshots, a corrupt one is skipped in favour of the one before it.
+   * Throws ResumeStateError for state that is invalid or cannot be migrated.
+   */
+  async loadLatestState(): Promise<ResumeData | null> {
+    try {
+      return await this.serialize(() => this.store.load());
     } catch (error) {
       this.logger.error('Failed to load resume state', error);
+      if (error instanceof ResumeStateError) {
+        throw error;
+      }
       return null;
     }
   }
 
   async listResumeFiles(): Promise<string[]> {
     try {
-      if (!(await fs.pathExists(this.resumeDir))) {
-        return [];
-      }
-
-      const files = await fs.readdir(this.resumeDir);
-      return files
-        .filter(file => file.startsWith('resume-') && file.endsWith('.json'))
-        .sort()
-        .reverse();
+      return await this.snapshots.listSnapshots();
     } catch (error) {
       this.logger.error('Failed to list resume files', error);
       return [];
@@ -105,29 +230,42 @@ export class ResumeManager {
 
   async loadSpecificState(filename: string): Promise<ResumeData | null> {
     try {
-      const filepath = path.join(this.resumeDir, filename);
+      const filepath = path.join(this.runDir, filename);
 
       if (!(await fs.pathExists(filepath))) {
         return null;
       }
 
-      const resumeData = (await fs.readJSON(filepath)) as ResumeData;
-      resumeData.timestamp = new Date(resumeData.timestamp);
-      convertDistributionStringsToBigInt(resumeData);
-
-      return resumeData;
+      return await this.snapshots.loadSnapshot(filename);
     } catch (error) {
       this.logger.error('Failed to load specific resume state', error);
+      if (error instanceof ResumeStateError) {
+        throw error;
+      }
       return null;
     }
   }
 
+  /**
+   * Remove the state of the open run, leaving other runs alone
+   */
   async clearState(): Promise<void> {
     try {
-      if (await fs.pathExists(this.resumeDir)) {
-        await fs.remove(this.resumeDir);
-        this.logger.info('Resume state cleared');
+      this.store.close();
+      if (!(await fs.pathExists(this.runDir))) {
+        return;
+      }
+
+      if (this.runId) {
+        await fs.remove(this.runDir);
+      } else {
+        // The directories of other runs live here too
+        const files = await fs.readdir(this.runDir, { withFileTypes: true });
+        for (const file of files.filter(entry => entry.isFile())) {
+          await fs.remove(path.join(this.runDir, file.name));
+        }
       }
+      this.logger.info('Resume state cleared', { runId: this.runId });
     } catch (error) {
       this.logger.error('Failed to clear resume state', error);
     }
@@ -144,7 +282,7 @@ export class ResumeManager {
       const filesToDelete = files.slice(keepCount);
 
       for (const file of filesToDelete) {
-        const filepath = path.join(this.resumeDir, file);
+        const filepath = path.join(this.runDir, file);
         await fs.remove(filepath);
       }
 
@@ -157,13 +295,39 @@ export class ResumeManager {
     }
   }
 
-  private generateResumeFilename(): string {
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    return `resume-${timestamp}.json`;
+  /**
+   * Release the open run's store; the manager can still open another run afterwards
+   */
+  close(): void {
+    this.store.close();
+  }
+
+  /**
+   * The store the open run was saved with, or the configured one if it has no state yet
+   */
+  private openStore(): StateStore {
+    const hasDatabase = fs.pathExistsSync(path.join(this.runDir, SQLITE_STATE_FILE));
+    const hasSnapshots =
+      fs.pathExistsSync(this.runDir) && fs.readdirSync(this.runDir).some(isSnapshotFile);
+
+    if (hasDatabase || (this.backend === 'sqlite' && !hasSnapshots)) {
+      return new SqliteStore(this.runDir, this.logger);
+    }
+    return this.snapshots;
+  }
+
+  private serialize<T>(write: () => Promise<T>): Promise<T> {
+    const result = this.writes.then(write);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+
+  private isStateFile(file: string): boolean {
+    return isSnapshotFile(file) || file === SQLITE_STATE_FILE;
   }
 
   getResumeDir(): string {
-    return this.resumeDir;
+    return this.runDir;
   }
 
   async getResumeStats(): Promise<{
@@ -185,7 +349,7 @@ export class ResumeManager {
 
       let totalSize = 0;
       for (const file of files) {
-        const filepath = path.join(this.resumeDir, file);
+        const filepath = path.join(this.runDir, file);
         const stats = await fs.stat(filepath);
         totalSize += stats.size;
       }
@@ -208,23 +372,31 @@ export class ResumeManager {
     }
   }
 
+  // Records that were signed with a nonce but not settled when the state was saved
+  getInFlightRecords(records: DistributionRecord[]): DistributionRecord[] {
+    return records.filter(r => r.status === 'processing' && r.nonce !== undefined);
+  }
+
   // Helper method to analyze distribution progress from resume data
   analyzeProgress(resumeData: ResumeData): {
     completed: number;
     failed: number;
     pending: number;
+    inFlight: number;
     completionPercentage: number;
     failureRate: number;
   } {
-    const completed = resumeData.records.filter(r => r.status === 'completed').length;
+    const completed = resumeData.records.filter(isRecordSettled).length;
     const failed = resumeData.records.filter(r => r.status === 'failed').length;
     const pending = resumeData.records.filter(r => r.status === 'pending').length;
+    const inFlight = this.getInFlightRecords(resumeData.records).length;
     const total = resumeData.records.length;
 
     return {
       completed,
       failed,
       pending,
+      inFlight,
       completionPercentage: total > 0 ? (completed / total) * 100 : 0,
       failureRate: completed + failed > 0 ? (failed / (completed + failed)) * 100 : 0,
     };
@@ -0,0 +1,179 @@
+import Joi from 'joi';
+import { ResumeData } from '../types';
+
+/**
+ * Version of the resume data written now. Saved state without a version is version 1, the
+ * format from before versioning.
+ */
+export const RESUME_DATA_VERSION = 3;
+
+/**
+ * Saved resume data that cannot be used: it is malformed, or from a version that cannot be
+ * migrated. Unlike a torn write, an earlier snapshot is no way around it.
+ */
+export class ResumeStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResumeStateError';
+  }
+}
+
+type Migration = (_state: any) => any;
+
+/**
+ * Migrations by the version they upgrade from, each to the next version
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  // Summaries gained the fees paid and the recipient pre-flight decisions
+  1: state => ({
+    ...state,
+    summary: {
+      ...state.summary,
+      feesPaid:
+        state.summary?.feesPaid ??
+        (Array.isArray(state.records) ? state.records : [])
+          .reduce((sum: bigint, record: any) => sum + BigInt(record?.feePaid ?? 0), 0n)
+          .toString(),
+      existentialDepositDecisions: state.summary?.existentialDepositDecisions ?? [],
+    },
+  }),
+  // Records gained the metadata columns of their source row, which older state never had
+  2: state => state,
+};
+
+// Shannon amounts are saved as decimal strings
+const shannons = Joi.string()
+  .pattern(/^\d+$/)
+  .custom(value => BigInt(value));
+
+const dispatchErrorSchema = Joi.object({
+  pallet: Joi.string().required(),
+  error: Joi.string().required(),
+  docs: Joi.string().allow('').required(),
+  raw: Joi.string().required(),
+});
+
+const recordSchema = Joi.object({
+  address: Joi.string().required(),
+  amount: shannons.required(),
+  status: Joi.string()
+    .valid('pending', 'processing', 'completed', 'finalized', 'failed', 'skipped')
+    .required(),
+  transactionHash: Joi.string(),
+  blockHash: Joi.string(),
+  blockNumber: Joi.number().integer().min(0),
+  error: Joi.string().allow(''),
+  attempts: Joi.number().integer().min(0),
+  timestamp: Joi.date(),
+  sourceRowNumber: Joi.number().integer().min(1),
+  nonce: Joi.number().integer().min(0),
+  feePaid: shannons,
+  tipPaid: shannons,
+  existentialDepositAction: Joi.string().valid('blocked', 'skipped', 'raised'),
+  requestedAmount: shannons,
+  mergedRows: Joi.array().items(Joi.number().integer().min(1)),
+  dispatchError: dispatchErrorSchema,
+  metadata: Joi.object({
+    label: Joi.string(),
+    reference: Joi.string(),
+    category: Joi.string(),
+    note: Joi.string(),
+  }),
+});
+
+const summarySchema = Joi.object({
+  totalRecords: Joi.number().integer().min(0).required(),
+  completed: Joi.number().integer().min(0).required(),
+  failed: Joi.number().integer().min(0).required(),
+  skipped: Joi.number().integer().min(0).required(),
+  totalAmount: shannons.required(),
+  distributedAmount: shannons.required(),
+  failedAmount: shannons.required(),
+  feesPaid: shannons.required(),
+  startTime: Joi.date().required(),
+  endTime: Joi.date(),
+  resumedFrom: Joi.number().integer().min(0),
+  abortedByUser: Joi.boolean(),
+  existentialDepositDecisions: Joi.array()
+    .items(
+      Joi.object({
+        index: Joi.number().integer().min(0).required(),
+        address: Joi.string().required(),
+        action: Joi.string().valid('blocked', 'skipped', 'raised').required(),
+        requestedAmount: shannons.required(),
+        amount: shannons.required(),
+      })
+    )
+    .required(),
+  failureHistogram: Joi.array().items(
+    Joi.object({
+      error: Joi.string().allow('').required(),
+      count: Joi.number().integer().min(0).required(),
+      amount: shannons.required(),
+    })
+  ),
+  circuitBreaker: Joi.object({
+    trigger: Joi.string()
+      .valid('consecutiveFailures', 'failureRate', 'chainStall', 'lowBalance')
+      .required(),
+    reason: Joi.string().required(),
+  }),
+});
+
+const resumeDataSchema = Joi.object({
+  records: Joi.array().items(recordSchema).required(),
+  summary: summarySchema.required(),
+  lastProcessedIndex: Joi.number().integer().min(0).required(),
+  timestamp: Joi.date().required(),
+  sourceFilename: Joi.string(),
+  run: Joi.object({
+    id: Joi.string().required(),
+    csvHash: Joi.string().required(),
+    network: Joi.string().required(),
+    distributorAddress: Joi.string().required(),
+  }),
+  stream: Joi.object({
+    nextRow: Joi.number().integer().min(1).required(),
+    completed: summarySchema,
+  }),
+});
+
+/**
+ * Bring saved resume data up to the current version, one migration at a time, and check it
+ * against the schema. Amounts come back as bigints and times as dates.
+ * @param source - Where the state was read from, for the error message
+ * @throws ResumeStateError if the state is malformed or cannot be migrated
+ */
+export function parseResumeData(saved: unknown, source: string): ResumeData {
+  if (!saved || typeof saved !== 'object' || Array.isArray(saved)) {
+    throw new ResumeStateError(`Resume state ${source} is not an object`);
+  }
+
+  let { version = 1, ...state } = saved as { version?: unknown; [field: string]: unknown };
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new ResumeStateError(`Resume state ${source} has an invalid version: ${version}`);
+  }
+  if (version > RESUME_DATA_VERSION) {
+    throw new ResumeStateError(
+      `Resume state ${source} is version ${version}, written by a newer distributor (this one reads up to version ${RESUME_DATA_VERSION}); upgrade to resume it`
+    );
+  }
+
+  for (; version < RESUME_DATA_VERSION; version++) {
+    try {
+      state = MIGRATIONS[version](state);
+    } catch (error) {
+      throw new ResumeStateError(
+        `Resume state ${source} could not be migrated from version ${version}: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+  }
+
+  const { error, value } = resumeDataSchema.validate(state);
+  if (error) {
+    throw new ResumeStateError(`Resume state ${source} is invalid: ${error.message}`);
+  }
+  return value;
+}
@@ -0,0 +1,156 @@
+import { DEFAULT_RETRY_POLICY } from '../config/retry-policy';
+import {
+  DistributionRecord,
+  ErrorClass,
+  FailureAction,
+  RetryDecision,
+  RetryPolicy,
+  TransactionFailureHandler,
+} from '../types';
+import Logger from '../utils/logger';
+
+interface ClassificationRule {
+  pattern: RegExp;
+  errorClass: ErrorClass;
+  reason: string;
+}
+
+/**
+ * Matched in order against the error message: node RPC errors ("1014: Priority is too low"),
+ * dispatch errors ("Extrinsic failed: InsufficientBalance ...") and our own connection errors.
+ * Fatal rules come first, since a wrong chain can also show up as a bad signature, then
+ * unconfirmed ones, since their messages carry no cause of their own.
+ */
+const CLASSIFICATION_RULES: ClassificationRule[] = [
+  {
+    pattern: /Genesis hash mismatch|The connected node is on|Token decimals mismatch/i,
+    errorClass: 'fatal',
+    reason: 'wrong chain',
+  },
+  { pattern: /bad signature|BadProof|BadSigner/i, errorClass: 'fatal', reason: 'bad signature' },
+  { pattern: /chain reorganization/i, errorClass: 'unconfirmed', reason: 'reorg' },
+  {
+    pattern: /confirmation timeout/i,
+    errorClass: 'unconfirmed',
+    reason: 'confirmation timeout',
+  },
+  {
+    pattern: /InsufficientBalance|Inability to pay some fees|FundsUnavailable/i,
+    errorClass: 'permanent',
+    reason: 'insufficient balance',
+  },
+  {
+    pattern: /ExistentialDeposit|KeepAlive|BelowMinimum|NotExpendable|Expendability/i,
+    errorClass: 'permanent',
+    reason: 'existential deposit',
+  },
+  {
+    pattern: /Invalid (decoded )?address|bad base58|Expected a valid key|Invalid recipient/i,
+    errorClass: 'permanent',
+    reason: 'invalid address',
+  },
+  {
+    pattern: /couldn't enter the pool|Immediately Dropped|pool is full|temporarily banned/i,
+    errorClass: 'transient',
+    reason: 'pool full',
+  },
+  { pattern: /Priority is too low/i, errorClass: 'transient', reason: 'priority too low' },
+  {
+    pattern: /Transaction is outdated|Stale|ancient birth block/i,
+    errorClass: 'transient',
+    reason: 'stale transaction',
+  },
+  {
+    pattern:
+      /connection|disconnected|WebSocket|ECONNREFUSED|ECONNRESET|ETIMEDOUT|socket hang up|Timed out connecting|Abnormal Closure|No healthy RPC endpoint/i,
+    errorClass: 'transient',
+    reason: 'connection',
+  },
+];
+
+/**
+ * Sort a transfer error into a class by its message
+ */
+export function classifyError(error: unknown): { errorClass: ErrorClass; reason: string } {
+  const message = error instanceof Error ? error.message : String(error);
+  const rule = CLASSIFICATION_RULES.find(candidate => candidate.pattern.test(message));
+  return rule
+    ? { errorClass: rule.errorClass, reason: rule.reason }
+    : { errorClass: 'unknown', reason: 'unrecognized error' };
+}
+
+/**
+ * Decides what to do with a failed transfer from its error class: each class has its own
+ * action, retry limit and exponential backoff (see RetryPolicy). Usable directly as the
+ * failure handler of unattended runs.
+ */
+export class RetryPolicyEngine implements TransactionFailureHandler {
+  private logger: Logger;
+  private policy: RetryPolicy;
+
+  constructor(logger: Logger, policy: RetryPolicy = DEFAULT_RETRY_POLICY) {
+    this.logger = logger;
+    this.policy = policy;
+  }
+
+  /**
+   * @param attempts Failed attempts so far, including this one
+   */
+  decide(error: unknown, attempts: number): RetryDecision {
+    const { errorClass, reason } = classifyError(error);
+    const rule = this.policy[errorClass];
+
+    let action = rule.action;
+    if (action === 'retry' && attempts > rule.maxRetries) {
+      action = rule.exhausted;
+    }
+
+    return {
+      errorClass,
+      reason,
+      action,
+      backoffMs: action === 'retry' ? this.backoffMs(error, attempts) : 0,
+    };
+  }
+
+  /**
+   * Whether the policy retries this kind of error at all, however many attempts it took
+   */
+  isRetryable(error: unknown): boolean {
+    return this.policy[classifyError(error).errorClass].action === 'retry';
+  }
+
+  /**
+   * Wait before sending a failed transfer again, whoever decided to retry it: the class's
+   * backoff, doubled for every earlier retry, up to its maximum
+   */
+  backoffMs(error: unknown, attempts: number): number {
+    const rule = this.policy[classifyError(error).errorClass];
+    const seconds = Math.min(
+      rule.backoffSeconds * 2 ** Math.max(attempts - 1, 0),
+      rule.maxBackoffSeconds
+    );
+    return seconds * 1000;
+  }
+
+  async handleFailure(
+    record: DistributionRecord,
+    index: number,
+    error: any,
+    attempts: number
+  ): Promise<FailureAction> {
+    const decision = this.decide(error, attempts);
+
+    this.logger.info('Retry policy decision', {
+      index,
+      address: record.address,
+      attempts,
+      errorClass: decision.errorClass,
+      reason: decision.reason,
+      action: decision.action,
+      backoffSeconds: decision.backoffMs / 1000,
+    });
+
+    return decision.action;
+  }
+}
@@ -0,0 +1,197 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { createHash } from 'crypto';
+import { JournalEntry, ResumeData } from '../types';
+import Logger from '../utils/logger';
+import { stringifyWithBigInt } from '../utils/bigint-json';
+import { writeFileAtomic } from '../utils/durable-file';
+import { ResumeJournal, applyJournal } from './resume-journal';
+import { RESUME_DATA_VERSION, ResumeStateError, parseResumeData } from './resume-schema';
+import { RecordQuery, StateStore, StoredRecord } from './state-store';
+
+/**
+ * A snapshot on disk: the resume data with the SHA-256 of its compact JSON
+ */
+interface SnapshotFile {
+  checksum: string;
+  state: any;
+}
+
+export function isSnapshotFile(file: string): boolean {
+  return file.startsWith('resume-') && file.endsWith('.json');
+}
+
+/**
+ * Resume state as JSON snapshots of the whole run, written atomically and checksummed. Between
+ * snapshots every transfer step goes to a write-ahead journal, so loading gets each record
+ * exactly as it was: the latest intact snapshot with the journal that follows it replayed on top.
+ */
+export class SnapshotStore implements StateStore {
+  private dir: string;
+  private logger: Logger;
+  private journal: ResumeJournal;
+
+  constructor(dir: string, logger: Logger) {
+    this.dir = dir;
+    this.logger = logger;
+    this.journal = new ResumeJournal(path.join(dir, 'journal.ndjson'));
+  }
+
+  async exists(): Promise<boolean> {
+    return (await this.listSnapshots()).length > 0;
+  }
+
+  /**
+   * Write a snapshot and start a new journal after it
+   */
+  async save(resumeData: ResumeData): Promise<void> {
+    await fs.ensureDir(this.dir);
+
+    const filename = this.generateFilename();
+    const filepath = path.join(this.dir, filename);
+
+    // Use centralized BigInt serialization
+    const state = stringifyWithBigInt({ version: RESUME_DATA_VERSION, ...resumeData });
+    const snapshot: SnapshotFile = { checksum: this.checksum(state), state: JSON.parse(state) };
+    await writeFileAtomic(filepath, JSON.stringify(snapshot, null, 2));
+
+    // Everything journaled so far is in the snapshot
+    await this.journal.start(filename);
+
+    this.logger.debug('Resume state saved', {
+      filepath,
+      lastProcessedIndex: resumeData.lastProcessedIndex,
+      totalRecords: resumeData.records.length,
+    });
+  }
+
+  async append(entries: JournalEntry[]): Promise<void> {
+    await this.journal.append(entries);
+  }
+
+  /**
+   * The latest snapshot that passes its checksum, brought up to date with the journal.
+   * A corrupt snapshot is skipped in favour of the one before it.
+   */
+  async load(): Promise<ResumeData | null> {
+    for (const file of await this.listSnapshots()) {
+      const filepath = path.join(this.dir, file);
+
+      let resumeData: ResumeData;
+      try {
+        resumeData = await this.loadSnapshot(file);
+      } catch (error) {
+        // An earlier snapshot of the same run would fail the same way
+        if (error instanceof ResumeStateError) {
+          throw error;
+        }
+        this.logger.error('Skipping unreadable resume state', {
+          filepath,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        continue;
+      }
+
+      this.logger.info('Resume state loaded', {
+        filepath,
+        lastProcessedIndex: resumeData.lastProcessedIndex,
+        totalRecords: resumeData.records.length,
+        timestamp: resumeData.timestamp,
+      });
+
+      return resumeData;
+    }
+
+    return null;
+  }
+
+  async findRecords(query: RecordQuery): Promise<StoredRecord[]> {
+    const resumeData = await this.load();
+    if (!resumeData) {
+      return [];
+    }
+
+    return resumeData.records
+      .map((record, index) => ({ index, record }))
+      .filter(
+        ({ record }) =>
+          (query.status === undefined || record.status === query.status) &&
+          (query.address === undefined || record.address === query.address)
+      );
+  }
+
+  close(): void {
+    // Nothing is held open between writes
+  }
+
+  /**
+   * Snapshot file names, latest first
+   */
+  async listSnapshots(): Promise<string[]> {
+    if (!(await fs.pathExists(this.dir))) {
+      return [];
+    }
+
+    const files = await fs.readdir(this.dir);
+    return files.filter(isSnapshotFile).sort().reverse();
+  }
+
+  /**
+   * Read, verify and migrate a snapshot, then replay the journal written after it
+   */
+  async loadSnapshot(filename: string): Promise<ResumeData> {
+    const data = await fs.readJSON(path.join(this.dir, filename));
+
+    let state: unknown;
+    if (typeof data.checksum === 'string' && data.state) {
+      if (this.checksum(JSON.stringify(data.state)) !== data.checksum) {
+        throw new Error(`Checksum mismatch in resume state ${filename}`);
+      }
+      state = data.state;
+    } else {
+      // Written before snapshots were checksummed
+      this.logger.warn('Resume state has no checksum, loading it unverified', { filename });
+      state = data;
+    }
+
+    const resumeData = parseResumeData(state, filename);
+
+    await this.replayJournal(filename, resumeData);
+    return resumeData;
+  }
+
+  private async replayJournal(filename: string, resumeData: ResumeData): Promise<void> {
+    const journal = await this.journal.read();
+    if (!journal || journal.entries.length === 0) {
+      return;
+    }
+
+    // The journal follows a later snapshot; its entries cannot be applied to this one
+    if (journal.snapshot !== filename) {
+      this.logger.warn('Resume journal belongs to another snapshot, not replayed', {
+        filename,
+        journalSnapshot: journal.snapshot,
+      });
+      return;
+    }
+
+    applyJournal(resumeData, journal.entries);
+
+    this.logger.info('Resume journal replayed', {
+      filename,
+      entries: journal.entries.length,
+    });
+    if (journal.truncated) {
+      this.logger.warn('Resume journal ends in an incomplete entry, replayed up to it');
+    }
+  }
+
+  private checksum(state: string): string {
+    return createHash('sha256').update(state).digest('hex');
+  }
+
+  private generateFilename(): string {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    return `resume-${timestamp}.json`;
+  }
+}
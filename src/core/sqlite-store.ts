@@ -0,0 +1,347 @@
+import Database from 'better-sqlite3';
+import fs from 'fs-extra';
+import path from 'path';
+import { DistributionRecord, DistributionSummary, JournalEntry, ResumeData } from '../types';
+import Logger from '../utils/logger';
+import { stringifyWithBigInt, convertDistributionStringsToBigInt } from '../utils/bigint-json';
+import { applyJournalEntry } from './resume-journal';
+import { RESUME_DATA_VERSION, parseResumeData } from './resume-schema';
+import { RecordQuery, StateStore, StoredRecord } from './state-store';
+
+export const SQLITE_STATE_FILE = 'state.sqlite';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS run (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    summary TEXT NOT NULL,
+    last_processed_index INTEGER NOT NULL,
+    saved_at TEXT NOT NULL,
+    source_filename TEXT,
+    run_info TEXT,
+    stream TEXT,
+    version INTEGER
+  );
+
+  CREATE TABLE IF NOT EXISTS records (
+    idx INTEGER PRIMARY KEY,
+    address TEXT NOT NULL,
+    status TEXT NOT NULL,
+    transaction_hash TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS records_status ON records (status);
+  CREATE INDEX IF NOT EXISTS records_address ON records (address);
+
+  CREATE TABLE IF NOT EXISTS attempts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    record_idx INTEGER NOT NULL,
+    source_row INTEGER,
+    nonce INTEGER,
+    transaction_hash TEXT,
+    started_at TEXT NOT NULL,
+    outcome TEXT,
+    error TEXT,
+    block_number INTEGER,
+    fee_paid TEXT,
+    finished_at TEXT
+  );
+  CREATE INDEX IF NOT EXISTS attempts_record ON attempts (record_idx);
+
+  CREATE TABLE IF NOT EXISTS events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    record_idx INTEGER NOT NULL,
+    source_row INTEGER,
+    type TEXT NOT NULL,
+    at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS events_record ON events (record_idx);
+`;
+
+interface RunRow {
+  summary: string;
+  last_processed_index: number;
+  saved_at: string;
+  source_filename: string | null;
+  run_info: string | null;
+  stream: string | null;
+  version: number | null;
+}
+
+interface RecordRow {
+  idx: number;
+  data: string;
+}
+
+/**
+ * Resume state in a SQLite database, one row per record. A journal entry updates its record
+ * in place and a save told which records changed rewrites only those, so the cost of keeping
+ * state follows the transfers made rather than the size of the run.
+ *
+ * Every transfer attempt gets a row in attempts, from intent to outcome, and every journal
+ * entry a row in events. Commits are synced to disk before they return.
+ */
+export class SqliteStore implements StateStore {
+  private filepath: string;
+  private logger: Logger;
+  private db?: Database.Database;
+
+  constructor(dir: string, logger: Logger) {
+    this.filepath = path.join(dir, SQLITE_STATE_FILE);
+    this.logger = logger;
+  }
+
+  async exists(): Promise<boolean> {
+    return fs.pathExists(this.filepath);
+  }
+
+  /**
+   * @param changed - Indexes of the only records to write; every record when left out
+   */
+  async save(resumeData: ResumeData, changed?: ReadonlySet<number>): Promise<void> {
+    const db = await this.open();
+    const upsertRecord = db.prepare(
+      `INSERT INTO records (idx, address, status, transaction_hash, data) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (idx) DO UPDATE SET address = excluded.address, status = excluded.status,
+         transaction_hash = excluded.transaction_hash, data = excluded.data`
+    );
+
+    const { records } = resumeData;
+    const indexes = changed
+      ? [...changed].filter(index => index < records.length)
+      : records.map((_record, index) => index);
+
+    db.transaction(() => {
+      this.writeRun(db, resumeData);
+
+      // A streamed run replaces one chunk with the next, which may be shorter
+      db.prepare('DELETE FROM records WHERE idx >= ?').run(records.length);
+
+      for (const index of indexes) {
+        const record = records[index];
+        upsertRecord.run(
+          index,
+          record.address,
+          record.status,
+          record.transactionHash ?? null,
+          stringifyWithBigInt(record)
+        );
+      }
+    })();
+
+    this.logger.debug('Resume state saved', {
+      filepath: this.filepath,
+      lastProcessedIndex: resumeData.lastProcessedIndex,
+      totalRecords: records.length,
+      changedRecords: indexes.length,
+    });
+  }
+
+  async append(entries: JournalEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    const db = await this.open();
+    db.transaction(() => {
+      const run = db.prepare('SELECT summary FROM run WHERE id = 1').get() as RunRow | undefined;
+      if (!run) {
+        throw new Error('No resume state saved to append to');
+      }
+      const summary: DistributionSummary = JSON.parse(run.summary);
+      convertDistributionStringsToBigInt(summary);
+
+      for (const entry of entries) {
+        this.appendEntry(db, summary, entry);
+      }
+
+      db.prepare('UPDATE run SET summary = ? WHERE id = 1').run(stringifyWithBigInt(summary));
+    })();
+  }
+
+  async load(): Promise<ResumeData | null> {
+    if (!(await this.exists())) {
+      return null;
+    }
+
+    const db = await this.open();
+    const run = db.prepare('SELECT * FROM run WHERE id = 1').get() as RunRow | undefined;
+    if (!run) {
+      return null;
+    }
+
+    const rows = db.prepare('SELECT idx, data FROM records ORDER BY idx').all() as RecordRow[];
+
+    const resumeData = parseResumeData(
+      {
+        version: run.version ?? undefined,
+        records: rows.map(row => JSON.parse(row.data)),
+        summary: JSON.parse(run.summary),
+        lastProcessedIndex: run.last_processed_index,
+        timestamp: run.saved_at,
+        sourceFilename: run.source_filename ?? undefined,
+        run: run.run_info ? JSON.parse(run.run_info) : undefined,
+        stream: run.stream ? JSON.parse(run.stream) : undefined,
+      },
+      this.filepath
+    );
+
+    this.logger.info('Resume state loaded', {
+      filepath: this.filepath,
+      lastProcessedIndex: resumeData.lastProcessedIndex,
+      totalRecords: resumeData.records.length,
+      timestamp: resumeData.timestamp,
+    });
+
+    return resumeData;
+  }
+
+  /**
+   * Look records up through the status and address indexes, without loading the run
+   */
+  async findRecords(query: RecordQuery): Promise<StoredRecord[]> {
+    if (!(await this.exists())) {
+      return [];
+    }
+
+    const conditions: string[] = [];
+    const params: string[] = [];
+    if (query.status !== undefined) {
+      conditions.push('status = ?');
+      params.push(query.status);
+    }
+    if (query.address !== undefined) {
+      conditions.push('address = ?');
+      params.push(query.address);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const db = await this.open();
+    const rows = db
+      .prepare(`SELECT idx, data FROM records ${where} ORDER BY idx`)
+      .all(...params) as RecordRow[];
+
+    return rows.map(row => {
+      const record: DistributionRecord = JSON.parse(row.data);
+      convertDistributionStringsToBigInt(record);
+      return { index: row.idx, record };
+    });
+  }
+
+  close(): void {
+    this.db?.close();
+    this.db = undefined;
+  }
+
+  private async open(): Promise<Database.Database> {
+    if (!this.db) {
+      await fs.ensureDir(path.dirname(this.filepath));
+      const db = new Database(this.filepath);
+      db.pragma('journal_mode = WAL');
+      db.pragma('synchronous = FULL'); // A commit is on disk once it returns
+      db.exec(SCHEMA);
+      this.db = db;
+    }
+    return this.db;
+  }
+
+  private writeRun(db: Database.Database, resumeData: ResumeData): void {
+    db.prepare(
+      `INSERT INTO run
+         (id, summary, last_processed_index, saved_at, source_filename, run_info, stream, version)
+       VALUES (1, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET summary = excluded.summary,
+         last_processed_index = excluded.last_processed_index, saved_at = excluded.saved_at,
+         source_filename = excluded.source_filename, run_info = excluded.run_info,
+         stream = excluded.stream, version = excluded.version`
+    ).run(
+      stringifyWithBigInt(resumeData.summary),
+      resumeData.lastProcessedIndex,
+      resumeData.timestamp.toISOString(),
+      resumeData.sourceFilename ?? null,
+      resumeData.run ? JSON.stringify(resumeData.run) : null,
+      resumeData.stream ? stringifyWithBigInt(resumeData.stream) : null,
+      RESUME_DATA_VERSION
+    );
+  }
+
+  /**
+   * Record the entry and change its record the way replaying a journal does
+   */
+  private appendEntry(
+    db: Database.Database,
+    summary: DistributionSummary,
+    entry: JournalEntry
+  ): void {
+    const at = entry.at.toISOString();
+    const row = db.prepare('SELECT idx, data FROM records WHERE idx = ?').get(entry.index) as
+      RecordRow | undefined;
+    const record: DistributionRecord | undefined = row && JSON.parse(row.data);
+
+    // Indexes are reused by the next chunk of a streamed run; source rows are not
+    const sourceRow = record?.sourceRowNumber ?? null;
+    db.prepare(
+      'INSERT INTO events (record_idx, source_row, type, at, data) VALUES (?, ?, ?, ?, ?)'
+    ).run(entry.index, sourceRow, entry.type, at, stringifyWithBigInt(entry));
+
+    if (!record) {
+      return;
+    }
+
+    convertDistributionStringsToBigInt(record);
+    applyJournalEntry(record, summary, entry);
+
+    db.prepare('UPDATE records SET status = ?, transaction_hash = ?, data = ? WHERE idx = ?').run(
+      record.status,
+      record.transactionHash ?? null,
+      stringifyWithBigInt(record),
+      entry.index
+    );
+
+    this.recordAttempt(db, entry, sourceRow, at);
+  }
+
+  private recordAttempt(
+    db: Database.Database,
+    entry: JournalEntry,
+    sourceRow: number | null,
+    at: string
+  ): void {
+    if (entry.type === 'intent') {
+      db.prepare(
+        `INSERT INTO attempts (record_idx, source_row, nonce, transaction_hash, started_at)
+         VALUES (?, ?, ?, ?, ?)`
+      ).run(entry.index, sourceRow, entry.nonce ?? null, entry.transactionHash ?? null, at);
+      return;
+    }
+
+    if (entry.type !== 'included' && entry.type !== 'failed') {
+      return;
+    }
+
+    const outcome = [
+      entry.type,
+      entry.error ?? null,
+      entry.blockNumber ?? null,
+      entry.feePaid?.toString() ?? null,
+      at,
+    ];
+    const closed = db
+      .prepare(
+        `UPDATE attempts SET outcome = ?, error = ?, block_number = ?, fee_paid = ?, finished_at = ?
+         WHERE id = (SELECT MAX(id) FROM attempts
+                     WHERE record_idx = ? AND source_row IS ? AND outcome IS NULL)`
+      )
+      .run(...outcome, entry.index, sourceRow);
+
+    // Failed before it was signed
+    if (closed.changes === 0) {
+      db.prepare(
+        `INSERT INTO attempts
+           (record_idx, source_row, transaction_hash, started_at, outcome, error, block_number,
+            fee_paid, finished_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      ).run(entry.index, sourceRow, entry.transactionHash ?? null, at, ...outcome);
+    }
+  }
+}
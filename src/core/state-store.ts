@@ -0,0 +1,42 @@
+import { DistributionRecord, JournalEntry, ResumeData } from '../types';
+
+export interface RecordQuery {
+  status?: DistributionRecord['status'];
+  address?: string;
+}
+
+/**
+ * A record with its position in the run, which journal entries refer to
+ */
+export interface StoredRecord {
+  index: number;
+  record: DistributionRecord;
+}
+
+/**
+ * Keeps the resume state of one run. The ResumeManager serializes the calls, so a store
+ * never sees two writes at once.
+ */
+export interface StateStore {
+  exists(): Promise<boolean>;
+
+  /**
+   * Write the state as it is now; throws if it could not be written
+   * @param _changed - Indexes of the only records changed since the last save, if known
+   */
+  save(_resumeData: ResumeData, _changed?: ReadonlySet<number>): Promise<void>;
+
+  /**
+   * Record transfer steps since the last save; returns once they are on disk
+   */
+  append(_entries: JournalEntry[]): Promise<void>;
+
+  /**
+   * The saved state with every step appended since, or null if there is none
+   */
+  load(): Promise<ResumeData | null>;
+
+  findRecords(_query: RecordQuery): Promise<StoredRecord[]>;
+
+  close(): void;
+}
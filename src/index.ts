@@ -1,183 +1,457 @@
 #!/usr/bin/env node
 
 import { loadConfig, validateConfig } from './config';
+import { getNetworkConfig } from './config/networks';
 import { CSVValidator } from './utils/validation';
-import { ai3ToShannons } from '@autonomys/auto-utils';
 import { TokenDistributor } from './core/distributor';
 import { ResumeManager } from './core/resume-manager';
+import { LogRecovery } from './core/log-recovery';
+import { RetryPolicyEngine } from './core/retry-policy';
 import { UserPrompts } from './cli/prompts';
-import { InteractiveFailureHandler } from './cli/failure-handler';
+import { AutomatedPrompts } from './cli/automated-prompts';
+import { InteractiveFailureHandler, PolicyFailureHandler } from './cli/failure-handler';
+import { parseCliArgs, USAGE } from './cli/args';
+import { CliError, ExitCode, summaryExitCode } from './cli/exit-codes';
 import Logger from './utils/logger';
+import { isRecordSettled } from './utils/record-status';
+import { writeDryRunReport } from './utils/dry-run-report';
+import { buildDistributionReport } from './utils/distribution-report';
+import { stringifyWithBigInt } from './utils/bigint-json';
+import { createRunInfo, hashFile } from './utils/run-id';
+import { readChunks } from './utils/csv-stream';
+import { DuplicateIndex } from './utils/duplicate-index';
+import { readTransactionLog } from './utils/transaction-log';
+import { AmountFormatError, parseAmount } from './utils/amount';
+import {
+  allocatePool,
+  defaultAllocationPath,
+  readWeights,
+  writeAllocation,
+} from './utils/allocation';
+import {
+  AllocationReport,
+  CliCommand,
+  CliOptions,
+  DistributionRecord,
+  DistributionSummary,
+  DryRunReport,
+  RecipientPreflightReport,
+  ResumeData,
+  RunInfo,
+  TransactionFailureHandler,
+  ValidationResult,
+} from './types';
 import chalk from 'chalk';
 import fs from 'fs-extra';
+import path from 'path';
+import { shannonsToAi3 } from '@autonomys/auto-utils';
+
+interface CommandResult {
+  exitCode: number; // One of ExitCode
+  data: Record<string, unknown>; // Body of the --json document
+}
 
 class TokenDistributorApp {
+  private options: CliOptions;
   private config: any;
   private logger: Logger;
   private validator: CSVValidator;
   private distributor: TokenDistributor;
   private resumeManager: ResumeManager;
   private prompts: UserPrompts;
-  private failureHandler: InteractiveFailureHandler;
+  private failureHandler: TransactionFailureHandler;
+
+  constructor(options: CliOptions) {
+    this.options = options;
 
-  constructor() {
     try {
       // Load and validate configuration
       this.config = loadConfig();
       validateConfig(this.config);
 
       // Initialize components
-      this.logger = new Logger(this.config);
-      this.validator = new CSVValidator(this.logger);
-      this.prompts = new UserPrompts(this.logger);
-      this.failureHandler = new InteractiveFailureHandler(this.prompts);
+      this.logger = new Logger(this.config, { consoleToStderr: options.json });
+      this.validator = new CSVValidator(this.logger, {
+        duplicatePolicy: this.config.duplicatePolicy,
+        ss58Format: getNetworkConfig(this.config.network).ss58Format,
+        format: this.config.inputFormat,
+        input: this.config.csvInput,
+        amounts: this.config.amountInput,
+      });
+
+      // Subcommands take every answer from the flags; the interactive flow asks
+      const retryPolicy = new RetryPolicyEngine(this.logger, this.config.retryPolicy);
+      if (options.command) {
+        this.prompts = new AutomatedPrompts(this.logger, options);
+        this.failureHandler =
+          options.onFailure === 'policy'
+            ? retryPolicy
+            : new PolicyFailureHandler(options.onFailure, options.maxRetries);
+      } else {
+        this.prompts = new UserPrompts(this.logger);
+        this.failureHandler = new InteractiveFailureHandler(this.prompts, retryPolicy);
+      }
+
       this.distributor = new TokenDistributor(this.config, this.logger, this.failureHandler);
-      this.resumeManager = new ResumeManager(this.logger);
+      this.resumeManager = new ResumeManager(this.logger, this.config.stateBackend);
     } catch (error) {
-      console.error('❌ Configuration Error:', error instanceof Error ? error.message : error);
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('❌ Configuration Error:', message);
       console.error('\n💡 Please check your .env file and ensure all required values are set.');
       console.error('📖 See README.md for configuration instructions.');
-      process.exit(1);
+      throw new CliError(`Configuration Error: ${message}`, ExitCode.Error);
     }
   }
 
-  async run(): Promise<void> {
+  async run(): Promise<number> {
+    let result: CommandResult;
+
     try {
       this.prompts.displayBanner();
-      
-      this.logger.info('Starting Autonomys Token Distributor');
+
+      this.logger.info('Starting Autonomys Token Distributor', { command: this.options.command });
       this.logger.info('Configuration loaded', {
         network: this.config.network,
         batchSize: this.config.batchSize,
+        batchMode: this.config.batchMode,
+        transferMode: this.config.transferMode,
+        existentialDepositPolicy: this.config.existentialDepositPolicy,
         confirmationBlocks: this.config.confirmationBlocks
       });
 
-      // Check for existing resume data
-      const resumeStats = await this.resumeManager.getResumeStats();
-      
-      if (resumeStats.hasResumeData) {
-        const resumeChoice = await this.prompts.askToResumeDistribution(this.resumeManager);
-        
-        if (resumeChoice.shouldResume && resumeChoice.resumeData) {
-          await this.resumeDistribution(resumeChoice.resumeData);
-          console.log(chalk.green('\n✅ Application completed successfully.'));
-          process.exit(0);
-        }
+      result = this.options.command
+        ? await this.runCommand(this.options.command)
+        : await this.runInteractive();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error('Application error', error);
+      if (!this.options.json) {
+        console.error(chalk.red('\n❌ Application Error:'), message);
       }
+      result = {
+        exitCode: error instanceof CliError ? error._exitCode : ExitCode.Error,
+        data: { error: message },
+      };
+    }
+
+    if (this.options.json) {
+      writeJson({ command: this.options.command, exitCode: result.exitCode, ...result.data });
+    }
+    return result.exitCode;
+  }
 
-      // Start new distribution
-      await this.startNewDistribution();
-      console.log(chalk.green('\n✅ Application completed successfully.'));
-      process.exit(0);
+  private async runInteractive(): Promise<CommandResult> {
+    // Check for unfinished distributions
+    const runs = await this.resumeManager.listRuns();
 
-    } catch (error) {
-      this.logger.error('Application error', error);
-      console.error(chalk.red('\n❌ Application Error:'), error instanceof Error ? error.message : error);
-      process.exit(1);
+    let result: CommandResult | undefined;
+    if (runs.length > 0) {
+      const resumeChoice = await this.prompts.askToResumeDistribution(runs);
+
+      if (resumeChoice.shouldResume && resumeChoice.resumeData) {
+        result = await this.resumeDistribution(resumeChoice.resumeData);
+      }
+    }
+
+    // Start new distribution
+    result = result || (await this.startNewDistribution());
+    console.log(chalk.green('\n✅ Application completed successfully.'));
+    return result;
+  }
+
+  private async runCommand(command: CliCommand): Promise<CommandResult> {
+    switch (command) {
+      case 'validate':
+        return this.validateOnly();
+      case 'plan':
+        return this.startNewDistribution(true);
+      case 'distribute':
+        return this.startNewDistribution();
+      case 'resume':
+        return this.resumeSaved();
+      case 'status':
+        return this.showStatus();
+      case 'verify':
+        return this.verifySaved();
+      case 'report':
+        return this.showReport();
+      case 'recover':
+        return this.recoverFromLogs();
+      case 'allocate':
+        return this.allocateFromWeights();
     }
   }
 
-  private async startNewDistribution(): Promise<void> {
+  private async validateOnly(): Promise<CommandResult> {
+    const csvPath = await this.prompts.askForCSVPath();
+
+    if (!await fs.pathExists(csvPath)) {
+      return this.fail(ExitCode.ValidationFailed, `CSV file not found: ${csvPath}`, { csvPath });
+    }
+
+    const validation = this.options.stream
+      ? await this.validator.validateCSVStream(csvPath)
+      : await this.validator.validateCSV(csvPath);
+    const data = { csvPath, validation };
+
+    if (!validation.isValid) {
+      this.prompts.showValidationErrors(validation);
+      return this.fail(ExitCode.ValidationFailed, 'The CSV file is invalid.', data);
+    }
+
+    this.print(
+      chalk.green(`\n✅ CSV file is valid: ${validation.recordCount} records, ${validation.warnings.length} warning(s)`)
+    );
+    validation.warnings.forEach(warning => this.print(chalk.yellow(`   • ${warning}`)));
+    validation.roundedAmounts?.forEach(rounded =>
+      this.print(
+        chalk.yellow(
+          `   • ${rounded.location}: ${rounded.amount} → ${shannonsToAi3(rounded.roundedShannons)} AI3`
+        )
+      )
+    );
+    return { exitCode: ExitCode.Success, data };
+  }
+
+  /**
+   * Validate, check and price a CSV file, then send it once confirmed
+   * @param planOnly Stop before confirming and sending (the plan command)
+   */
+  private async startNewDistribution(planOnly = false): Promise<CommandResult> {
+    // With --stream the file is never held in memory; duplicates are found through this index
+    const duplicates = this.options.stream ? new DuplicateIndex() : undefined;
+
     try {
       // Get CSV file path
       const csvPath = await this.prompts.askForCSVPath();
+      const data: Record<string, unknown> = { csvPath };
 
       if (!await fs.pathExists(csvPath)) {
-        console.error(chalk.red(`CSV file not found: ${csvPath}`));
-        return;
+        return this.fail(ExitCode.ValidationFailed, `CSV file not found: ${csvPath}`, data);
       }
 
       // Validate CSV
-      console.log(chalk.blue('\n📋 Validating CSV file...'));
-      const validation = await this.validator.validateCSV(csvPath);
+      this.print(chalk.blue('\n📋 Validating CSV file...'));
+      const validation = duplicates
+        ? await this.validator.validateCSVStream(csvPath, duplicates)
+        : await this.validator.validateCSV(csvPath);
+      data.validation = validation;
 
       if (!validation.isValid) {
         const action = await this.prompts.handleValidationErrors(validation);
         if (action === 'retry') {
-          await this.startNewDistribution();
-          return;
-        } else {
-          console.log(chalk.yellow('Distribution aborted.'));
-          return;
+          return this.startNewDistribution(planOnly);
         }
+        return this.fail(ExitCode.ValidationFailed, 'Distribution aborted.', data);
       }
 
       // Ask for dry run
       const dryRun = await this.prompts.askForDryRun();
 
       // Initialize distributor
-      console.log(chalk.blue('\n🔗 Connecting to Autonomys Network...'));
+      this.print(chalk.blue('\n🔗 Connecting to Autonomys Network...'));
       await this.distributor.initialize();
 
       if (!this.distributor.distributorAddress) {
         throw new Error('Failed to get distributor address');
       }
 
+      let records: DistributionRecord[] = [];
+      let preflight: RecipientPreflightReport;
+      let feeReport: DryRunReport | undefined;
+      if (duplicates) {
+        // Checked and priced a chunk at a time; the file is read again to send it
+        this.print(
+          chalk.blue(
+            dryRun
+              ? '\n🧪 Checking recipient accounts and simulating every transfer...'
+              : '\n🔎 Checking recipient accounts and estimating fees...'
+          )
+        );
+        ({ preflight, fees: feeReport } = await this.distributor.planStream(
+          this.streamRecords(csvPath, duplicates),
+          dryRun
+        ));
+      } else {
+        records = await this.validator.parseValidatedCSV(csvPath);
+
+        // New accounts must receive at least the existential deposit
+        this.print(chalk.blue('\n🔎 Checking recipient accounts...'));
+        preflight = await this.distributor.preflightRecipients(records);
+      }
+      this.prompts.showRecipientPreflightReport(preflight);
+      data.preflight = preflight;
+
+      if (preflight.blocked) {
+        return this.fail(
+          ExitCode.PreflightFailed,
+          'Distribution blocked: fix these amounts in the CSV, or set ED_POLICY to skip or raise.',
+          data
+        );
+      }
+
+      // Exact fees for every record; a dry run also simulates each transfer
+      if (!feeReport) {
+        this.print(
+          chalk.blue(dryRun ? '\n🧪 Simulating every transfer...' : '\n💸 Estimating fees...')
+        );
+        feeReport = await this.distributor.estimateFees(records, dryRun);
+      }
+
+      // Skipped or raised transfers change what will actually be sent
+      const plan: ValidationResult = { ...validation, totalAmount: feeReport.totalAmount };
+      data.fees = {
+        totalAmount: plan.totalAmount,
+        totalFees: feeReport.totalFees,
+        simulated: dryRun && feeReport.simulated,
+        predictedFailures: feeReport.predictedFailures,
+      };
+
       // Check balance
-      const balanceValidation = await this.distributor.validateSufficientBalance(validation.totalAmount);
+      const balanceValidation = await this.distributor.validateSufficientBalance(
+        plan.totalAmount,
+        feeReport.totalFees
+      );
+      data.balance = balanceValidation;
 
       if (!balanceValidation.sufficient) {
-        const gasBuffer = ai3ToShannons(this.config.gasBufferAi3.toString());
         const action = await this.prompts.askForInsufficientBalance(
           balanceValidation.requiredAmount,
           balanceValidation.currentBalance,
           balanceValidation.shortfall!,
-          validation.totalAmount,
-          gasBuffer
+          plan.totalAmount,
+          feeReport.totalFees
         );
         if (action === 'abort') {
-          console.log(chalk.yellow('Distribution aborted due to insufficient balance.'));
-          return;
+          return this.fail(
+            ExitCode.InsufficientBalance,
+            'Distribution aborted due to insufficient balance.',
+            data
+          );
+        }
+      }
+
+      if (dryRun) {
+        const reportPath = await writeDryRunReport(feeReport, csvPath);
+        this.logger.info('Dry run report written', {
+          reportPath,
+          predictedFailures: feeReport.predictedFailures,
+          totalFees: feeReport.totalFees.toString(),
+        });
+        this.prompts.showDryRunReport(feeReport, reportPath);
+        data.dryRunReport = reportPath;
+
+        // Unattended runs never send a distribution the dry run expects to fail
+        if (this.options.command && feeReport.predictedFailures > 0) {
+          return this.fail(
+            ExitCode.PreflightFailed,
+            `The dry run predicts ${feeReport.predictedFailures} failed transfer(s); see ${reportPath}`,
+            data
+          );
         }
       }
 
+      if (planOnly) {
+        this.prompts.showDistributionSummary(
+          plan,
+          this.distributor.distributorAddress,
+          this.distributor.networkName,
+          balanceValidation
+        );
+        return { exitCode: ExitCode.Success, data };
+      }
+
+      // The same CSV, network and account are the same run; never start it over its saved state
+      const run = await createRunInfo(csvPath, this.config.network, this.distributor.distributorAddress);
+      data.runId = run.id;
+      if (await this.resumeManager.hasRun(run.id)) {
+        return this.fail(
+          ExitCode.RunAlreadyOpen,
+          `This CSV already has an unfinished distribution on ${this.config.network} (run ${run.id}). Resume it, or delete .resume/${run.id} to start over.`,
+          data
+        );
+      }
+
       // Confirm distribution
       const confirmed = await this.prompts.confirmDistribution(
-        validation,
+        plan,
         this.distributor.distributorAddress,
         this.distributor.networkName,
         balanceValidation
       );
 
       if (!confirmed) {
-        console.log(chalk.yellow('Distribution cancelled by user.'));
-        return;
+        return this.fail(
+          ExitCode.NotConfirmed,
+          this.options.command
+            ? 'Not confirmed: pass --yes to send the transfers.'
+            : 'Distribution cancelled by user.',
+          data
+        );
       }
 
-      // Parse records and execute distribution
-      const records = await this.validator.parseValidatedCSV(csvPath);
-
-      if (dryRun) {
-        await this.executeDryRun(records, csvPath);
-      } else {
-        await this.executeDistribution(records, csvPath);
-      }
+      const summary = duplicates
+        ? await this.executeStreamedDistribution(this.streamRecords(csvPath, duplicates), csvPath, run)
+        : await this.executeDistribution(records, csvPath, run);
+      return this.summaryResult(summary, data);
 
     } catch (error) {
       this.logger.error('Distribution error', error);
       throw error;
     } finally {
+      duplicates?.close();
       await this.distributor.disconnect();
     }
   }
 
-  private async resumeDistribution(resumeData: any): Promise<void> {
+  private async resumeSaved(): Promise<CommandResult> {
+    const resumeData = await this.loadResumeData();
+    this.prompts.showResumeSummary(resumeData, this.resumeManager.analyzeProgress(resumeData));
+
+    if (!this.options.yes) {
+      return this.fail(
+        ExitCode.NotConfirmed,
+        'Not confirmed: pass --yes to resume the distribution.',
+        { sourceFilename: resumeData.sourceFilename }
+      );
+    }
+
+    return this.resumeDistribution(resumeData);
+  }
+
+  private async resumeDistribution(resumeData: ResumeData): Promise<CommandResult> {
     try {
-      console.log(chalk.blue('\n🔗 Connecting to Autonomys Network...'));
+      this.print(chalk.blue('\n🔗 Connecting to Autonomys Network...'));
       await this.distributor.initialize();
 
+      // Find out what happened on chain to anything that may have been sent but not saved
+      this.print(chalk.blue('\n🔍 Reconciling with on-chain state...'));
+      const reconciliation = await this.distributor.reconcile(resumeData);
+      this.prompts.showReconciliationReport(reconciliation);
+
+      if (!reconciliation.complete) {
+        throw new CliError(
+          'Reconciliation could not scan every block since the last save. Resuming now could pay recipients twice; check the transaction logs or raise RECONCILE_MAX_BLOCKS.',
+          ExitCode.VerificationFailed
+        );
+      }
+
       this.logger.logDistributionResumed(resumeData.lastProcessedIndex);
 
-      console.log(chalk.blue('\n▶️  Resuming distribution...'));
-      
-      const summary = await this.distributor.distribute(
-        resumeData.records, 
-        resumeData.lastProcessedIndex,
-        resumeData.sourceFilename,
-        this.prompts
-      );
+      this.print(chalk.blue('\n▶️  Resuming distribution...'));
+
+      const summary = resumeData.stream
+        ? await this.resumeStreamedDistribution(resumeData)
+        : await this.distributor.distribute(
+          resumeData.records,
+          resumeData.lastProcessedIndex,
+          resumeData.sourceFilename,
+          this.prompts,
+          resumeData.run
+        );
 
       await this.prompts.showDistributionComplete(summary);
+      return this.summaryResult(summary, { sourceFilename: resumeData.sourceFilename, reconciliation });
 
     } catch (error) {
       this.logger.error('Resume distribution error', error);
@@ -187,49 +461,308 @@ class TokenDistributorApp {
     }
   }
 
-  private async executeDryRun(records: any[], sourceFilename?: string): Promise<void> {
-    console.log(chalk.blue('\n🧪 Executing Dry Run...'));
-    console.log(chalk.gray('(No actual transactions will be sent)\n'));
-
-    for (let i = 0; i < Math.min(records.length, 5); i++) {
-      const record = records[i];
-      this.prompts.displayProgress(i + 1, Math.min(records.length, 5), record.address);
-      
-      // Simulate processing time
-      await this.delay(1000);
-      
-      this.logger.info('Dry run transaction', {
-        address: record.address,
-        amount: record.amount.toString(),
-        index: i
-      });
+  private async showStatus(): Promise<CommandResult> {
+    const resumeData = await this.loadResumeData();
+    const analysis = this.resumeManager.analyzeProgress(resumeData);
+    this.prompts.showResumeSummary(resumeData, analysis);
+
+    const openRuns = (await this.resumeManager.listRuns()).map(open => ({
+      runId: open.runId,
+      sourceFilename: open.resumeData.sourceFilename,
+      network: open.resumeData.run?.network,
+      savedAt: open.resumeData.timestamp,
+      completionPercentage: open.progress.completionPercentage,
+    }));
+
+    return {
+      exitCode: ExitCode.Success,
+      data: {
+        runId: resumeData.run?.id,
+        sourceFilename: resumeData.sourceFilename,
+        savedAt: resumeData.timestamp,
+        lastProcessedIndex: resumeData.lastProcessedIndex,
+        totalRecords: resumeData.records.length,
+        circuitBreaker: resumeData.summary?.circuitBreaker,
+        stream: resumeData.stream,
+        ...analysis,
+        openRuns,
+      },
+    };
+  }
+
+  private async showReport(): Promise<CommandResult> {
+    const report = buildDistributionReport(await this.loadResumeData());
+    this.prompts.showDistributionReport(report);
+    return { exitCode: ExitCode.Success, data: { report } };
+  }
+
+  /**
+   * Check the saved state against the chain without sending anything: settled transfers must
+   * still be in canonical blocks, and unsettled ones must be accounted for by reconciliation
+   */
+  private async verifySaved(): Promise<CommandResult> {
+    const resumeData = await this.loadResumeData();
+
+    try {
+      this.print(chalk.blue('\n🔗 Connecting to Autonomys Network...'));
+      await this.distributor.initialize();
+
+      this.print(chalk.blue('\n🔍 Checking settled transfers against the canonical chain...'));
+      const nonCanonical = await this.distributor.findNonCanonicalRecords(resumeData.records);
+      const settled = resumeData.records.filter(isRecordSettled).length;
+
+      if (nonCanonical.length > 0) {
+        this.print(
+          chalk.red(`❌ ${nonCanonical.length} of ${settled} settled transfer(s) are no longer on the canonical chain:`)
+        );
+        nonCanonical.forEach(index => {
+          const record = resumeData.records[index];
+          this.print(
+            chalk.red(`   • Row ${record.sourceRowNumber || index + 1}: ${record.address} - ${record.transactionHash} in block #${record.blockNumber}`)
+          );
+        });
+      } else {
+        this.print(chalk.green(`✅ All ${settled} settled transfer(s) are on the canonical chain`));
+      }
+
+      // Records only change in memory here; nothing is saved
+      this.print(chalk.blue('\n🔍 Reconciling unsettled records with on-chain state...'));
+      const reconciliation = await this.distributor.reconcile(resumeData);
+      this.prompts.showReconciliationReport(reconciliation);
+
+      const data = { sourceFilename: resumeData.sourceFilename, settled, nonCanonical, reconciliation };
+      if (nonCanonical.length > 0 || !reconciliation.complete) {
+        return this.fail(ExitCode.VerificationFailed, 'Verification failed.', data);
+      }
+      return { exitCode: ExitCode.Success, data };
+
+    } finally {
+      await this.distributor.disconnect();
+    }
+  }
+
+  /**
+   * Rebuild the resume state of a run from its CSV file and transaction logs, optionally checked
+   * against the chain. Nothing is saved while there are unaccepted discrepancies.
+   */
+  private async recoverFromLogs(): Promise<CommandResult> {
+    const csvPath = await this.prompts.askForCSVPath();
+    const data: Record<string, unknown> = { csvPath };
+
+    if (!await fs.pathExists(csvPath)) {
+      return this.fail(ExitCode.ValidationFailed, `CSV file not found: ${csvPath}`, data);
     }
 
-    console.log(chalk.green('\n✅ Dry run completed successfully!'));
-    
-    if (records.length > 5) {
-      console.log(chalk.gray(`Note: Only processed first 5 records in dry run. Total: ${records.length}`));
+    const validation = await this.validator.validateCSV(csvPath);
+    if (!validation.isValid) {
+      this.prompts.showValidationErrors(validation);
+      return this.fail(ExitCode.ValidationFailed, 'The CSV file is invalid.', { ...data, validation });
     }
 
-      const proceedWithReal = await this.prompts.confirmDistribution(
-        { recordCount: records.length, totalAmount: 0n, isValid: true, errors: [], warnings: [], duplicates: [] },
-        this.distributor.distributorAddress!,
-        this.distributor.networkName
+    for (const logFile of this.options.logFiles) {
+      if (!await fs.pathExists(logFile)) {
+        return this.fail(ExitCode.ValidationFailed, `Transaction log not found: ${logFile}`, data);
+      }
+    }
+
+    try {
+      this.print(chalk.blue('\n📜 Reading transaction logs...'));
+      const records = await this.validator.parseValidatedCSV(csvPath);
+      const recovery = new LogRecovery(records, this.logger);
+      let report = recovery.applyLogs(await Promise.all(this.options.logFiles.map(readTransactionLog)));
+
+      this.print(chalk.blue('\n🔗 Connecting to Autonomys Network...'));
+      await this.distributor.initialize();
+
+      if (!this.distributor.distributorAddress) {
+        throw new Error('Failed to get distributor address');
+      }
+
+      const run = await createRunInfo(csvPath, this.config.network, this.distributor.distributorAddress);
+      data.runId = run.id;
+      if (await this.resumeManager.hasRun(run.id)) {
+        return this.fail(
+          ExitCode.RunAlreadyOpen,
+          `This CSV already has saved state on ${this.config.network} (run ${run.id}); resume it instead.`,
+          data
+        );
+      }
+
+      if (this.options.checkChain) {
+        this.print(chalk.blue('\n🔍 Checking the logged transfers against the chain...'));
+        report = await recovery.checkOnChain((unsettled, since) =>
+          this.distributor.reconcileRecords(unsettled, since)
+        );
+      }
+      this.prompts.showRecoveryReport(report);
+      data.recovery = report;
+
+      if (report.discrepancies.length > 0 && !this.options.acceptDiscrepancies) {
+        return this.fail(
+          ExitCode.VerificationFailed,
+          'Nothing saved: review the discrepancies, then pass --accept-discrepancies to save the recovered state.',
+          data
+        );
+      }
+      if (!this.options.yes) {
+        return this.fail(ExitCode.NotConfirmed, 'Not confirmed: pass --yes to save the recovered state.', data);
+      }
+
+      const resumeData = recovery.buildResumeData(csvPath, run);
+      this.resumeManager.startRun(run);
+      await this.resumeManager.saveState(
+        resumeData.records,
+        resumeData.summary,
+        resumeData.lastProcessedIndex,
+        resumeData.sourceFilename
+      );
+
+      this.print(chalk.green(`\n✅ Resume state rebuilt for run ${run.id}; continue it with resume --run ${run.id}`));
+      return { exitCode: ExitCode.Success, data };
+
+    } finally {
+      await this.distributor.disconnect();
+    }
+  }
+
+  /**
+   * Split --pool across the recipients of a weights file in proportion to their weights, then
+   * write the distribution CSV with its allocation report beside it and validate it
+   */
+  private async allocateFromWeights(): Promise<CommandResult> {
+    const weightsPath = this.options.csvPath!;
+    const distributionFile = this.options.outPath ?? defaultAllocationPath(weightsPath);
+    const data: Record<string, unknown> = { weightsPath, distributionFile };
+
+    if (path.resolve(distributionFile) === path.resolve(weightsPath)) {
+      throw new CliError('--out must not be the weights file', ExitCode.Usage);
+    }
+
+    let pool: bigint;
+    try {
+      pool = parseAmount(this.options.pool!, this.config.amountInput).shannons;
+    } catch (error) {
+      if (error instanceof AmountFormatError) {
+        throw new CliError(`Invalid --pool: ${error.message}`, ExitCode.Usage);
+      }
+      throw error;
+    }
+
+    if (!await fs.pathExists(weightsPath)) {
+      return this.fail(ExitCode.ValidationFailed, `Weights file not found: ${weightsPath}`, data);
+    }
+    if (await fs.pathExists(distributionFile) && !this.options.yes) {
+      return this.fail(
+        ExitCode.NotConfirmed,
+        `${distributionFile} already exists: pass --yes to overwrite it, or pick another file with --out.`,
+        data
       );
+    }
 
-      if (proceedWithReal) {
-        await this.executeDistribution(records, sourceFilename);
+    this.print(chalk.blue('\n⚖️  Reading weights...'));
+    const weights = await readWeights(weightsPath, {
+      format: this.config.inputFormat,
+      csv: this.config.csvInput,
+    });
+    if (weights.errors.length > 0) {
+      weights.errors.slice(0, 20).forEach(error => this.print(chalk.red(`   • ${error}`)));
+      if (weights.errors.length > 20) {
+        this.print(chalk.gray(`   ... and ${weights.errors.length - 20} more (--json lists them all)`));
       }
+      return this.fail(ExitCode.ValidationFailed, 'The weights file is invalid.', {
+        ...data,
+        errors: weights.errors,
+      });
+    }
+
+    let split: ReturnType<typeof allocatePool>;
+    try {
+      split = allocatePool(pool, weights.entries);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return this.fail(ExitCode.ValidationFailed, message, data);
+    }
+
+    const report: AllocationReport = {
+      weightsFile: weightsPath,
+      distributionFile,
+      createdAt: new Date(),
+      ...split,
+    };
+    const reportPath = await writeAllocation(report);
+    this.logger.info('Pool allocated', {
+      weightsPath,
+      distributionFile,
+      reportPath,
+      recipients: report.shares.length,
+      excluded: report.excluded.length,
+    });
+    this.prompts.showAllocationReport(report, reportPath);
+    data.reportPath = reportPath;
+    data.allocation = report;
+
+    // The written file goes through the same checks as any other distribution file
+    const validation = await this.validator.validateCSV(distributionFile);
+    data.validation = validation;
+    if (!validation.isValid) {
+      this.prompts.showValidationErrors(validation);
+      return this.fail(ExitCode.ValidationFailed, 'The allocated distribution CSV is invalid.', data);
+    }
+
+    this.print(
+      chalk.green(
+        `\n✅ ${validation.recordCount} shares totalling ${shannonsToAi3(validation.totalAmount)} AI3; send them with: distribute ${distributionFile}`
+      )
+    );
+    return { exitCode: ExitCode.Success, data };
+  }
+
+  /**
+   * State of the run picked with --run, or of the one saved most recently
+   */
+  private async loadResumeData(): Promise<ResumeData> {
+    const { runId, resumeFile } = this.options;
+    const runs = await this.resumeManager.listRuns();
+    const run = runId ? runs.find(open => open.runId === runId) : runs[0];
+
+    if (!run) {
+      throw new CliError(
+        runId
+          ? `No unfinished run ${runId} found in .resume/`
+          : 'No saved distribution state found in .resume/',
+        ExitCode.NoResumeData
+      );
+    }
+    if (!runId && runs.length > 1) {
+      this.print(
+        chalk.yellow(`${runs.length} unfinished runs; using the latest${run.runId ? ` (${run.runId})` : ''}. Pick another with --run.`)
+      );
+    }
+
+    if (!resumeFile) {
+      return run.resumeData;
+    }
+
+    this.resumeManager.openRun(run.runId);
+    const resumeData = await this.resumeManager.loadSpecificState(resumeFile);
+    if (!resumeData) {
+      throw new CliError(`Resume file not found: ${resumeFile}`, ExitCode.NoResumeData);
+    }
+    return resumeData;
   }
 
-  private async executeDistribution(records: any[], sourceFilename?: string): Promise<void> {
-    console.log(chalk.blue('\n🚀 Starting token distribution...'));
+  private async executeDistribution(
+    records: DistributionRecord[],
+    sourceFilename: string,
+    run: RunInfo
+  ): Promise<DistributionSummary> {
+    this.print(chalk.blue('\n🚀 Starting token distribution...'));
 
     let lastProgress = 0;
-    
+
     // Create a progress tracking wrapper
     const progressTracker = setInterval(() => {
-      const completed = records.filter(r => r.status === 'completed').length;
+      const completed = records.filter(isRecordSettled).length;
       if (completed !== lastProgress) {
         this.prompts.displayProgress(completed, records.length);
         lastProgress = completed;
@@ -237,12 +770,19 @@ class TokenDistributorApp {
     }, 1000);
 
     try {
-      const summary = await this.distributor.distribute(records, 0, sourceFilename, this.prompts);
-      
+      const summary = await this.distributor.distribute(
+        records,
+        0,
+        sourceFilename,
+        this.prompts,
+        run
+      );
+
       clearInterval(progressTracker);
-      console.log('\n'); // New line after progress bar
-      
+      this.print('\n'); // New line after progress bar
+
       await this.prompts.showDistributionComplete(summary);
+      return summary;
 
     } catch (error) {
       clearInterval(progressTracker);
@@ -250,40 +790,156 @@ class TokenDistributorApp {
     }
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  /**
+   * Send the rest of a streamed run: the chunk it was saved with, then the file from the row
+   * after it. The file must be the one the run started with, as rows are found by number.
+   */
+  private async resumeStreamedDistribution(resumeData: ResumeData): Promise<DistributionSummary> {
+    const csvPath = resumeData.sourceFilename;
+    if (!csvPath || !await fs.pathExists(csvPath)) {
+      throw new CliError(
+        `A streamed run reads its CSV file again to resume, but it was not found: ${csvPath}`,
+        ExitCode.ValidationFailed
+      );
+    }
+    if (resumeData.run && (await hashFile(csvPath)) !== resumeData.run.csvHash) {
+      throw new CliError(
+        `${csvPath} has changed since the streamed run started; resuming would send the wrong rows.`,
+        ExitCode.ValidationFailed
+      );
+    }
+
+    const duplicates = new DuplicateIndex();
+    try {
+      // Merged recipients need the totals over the whole file
+      if (this.config.duplicatePolicy === 'merge') {
+        await this.validator.validateCSVStream(csvPath, duplicates);
+      }
+
+      const chunks = this.streamRecords(csvPath, duplicates, resumeData.stream!.nextRow);
+      return await this.distributor.distributeStream(
+        chunks,
+        csvPath,
+        this.prompts,
+        resumeData.run,
+        resumeData
+      );
+    } finally {
+      duplicates.close();
+    }
+  }
+
+  /**
+   * The validated records of a CSV file in chunks of STREAM_CHUNK_SIZE
+   */
+  private streamRecords(
+    csvPath: string,
+    duplicates: DuplicateIndex,
+    fromRow?: number
+  ): AsyncIterable<DistributionRecord[]> {
+    return readChunks(
+      this.validator.streamValidatedCSV(csvPath, { fromRow, duplicates }),
+      this.config.streamChunkSize
+    );
+  }
+
+  private async executeStreamedDistribution(
+    chunks: AsyncIterable<DistributionRecord[]>,
+    sourceFilename: string,
+    run: RunInfo
+  ): Promise<DistributionSummary> {
+    this.print(chalk.blue('\n🚀 Starting token distribution...'));
+
+    const summary = await this.distributor.distributeStream(chunks, sourceFilename, this.prompts, run);
+    await this.prompts.showDistributionComplete(summary);
+    return summary;
+  }
+
+  private summaryResult(summary: DistributionSummary, data: Record<string, unknown>): CommandResult {
+    return { exitCode: summaryExitCode(summary), data: { ...data, summary } };
+  }
+
+  private fail(exitCode: number, message: string, data: Record<string, unknown>): CommandResult {
+    this.print(exitCode === ExitCode.NotConfirmed ? chalk.yellow(message) : chalk.red(message));
+    return { exitCode, data: { ...data, error: message } };
+  }
+
+  // Human-readable output; stdout belongs to the JSON document with --json
+  private print(message: string): void {
+    if (!this.options.json) {
+      console.log(message);
+    }
   }
 }
 
+function writeJson(document: Record<string, unknown>): void {
+  process.stdout.write(`${stringifyWithBigInt(document, 2)}\n`);
+}
+
+async function main(): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseCliArgs(process.argv.slice(2), !!process.stdin.isTTY);
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : error));
+    console.error('Run with --help for usage.');
+    return error instanceof CliError ? error._exitCode : ExitCode.Usage;
+  }
+
+  if (options.help) {
+    console.log(USAGE);
+    return ExitCode.Success;
+  }
+
+  let app: TokenDistributorApp;
+  try {
+    app = new TokenDistributorApp(options);
+  } catch (error) {
+    const exitCode = error instanceof CliError ? error._exitCode : ExitCode.Error;
+    if (options.json) {
+      writeJson({
+        command: options.command,
+        exitCode,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    return exitCode;
+  }
+
+  return app.run();
+}
+
 // Handle unhandled promise rejections
 process.on('unhandledRejection', (reason, promise) => {
   console.error('Unhandled Rejection at:', promise, 'reason:', reason);
-  process.exit(1);
+  process.exit(ExitCode.Error);
 });
 
 // Handle uncaught exceptions
 process.on('uncaughtException', (error) => {
   console.error('Uncaught Exception:', error);
-  process.exit(1);
+  process.exit(ExitCode.Error);
 });
 
 // Graceful shutdown
 process.on('SIGINT', () => {
-  console.log(chalk.yellow('\n\n⏸️  Distribution interrupted by user.'));
-  console.log(chalk.blue('Resume data has been saved. You can resume later by running the application again.'));
-  process.exit(0);
+  console.error(chalk.yellow('\n\n⏸️  Distribution interrupted by user.'));
+  console.error(chalk.blue('Resume data has been saved. You can resume later by running the application again.'));
+  process.exit(ExitCode.Halted);
 });
 
 process.on('SIGTERM', () => {
-  console.log(chalk.yellow('\n\n⏸️  Distribution terminated.'));
-  process.exit(0);
+  console.error(chalk.yellow('\n\n⏸️  Distribution terminated.'));
+  process.exit(ExitCode.Halted);
 });
 
 // Main execution
 if (require.main === module) {
-  const app = new TokenDistributorApp();
-  app.run().catch((error) => {
-    console.error(chalk.red('Fatal error:'), error);
-    process.exit(1);
-  });
+  main().then(
+    exitCode => process.exit(exitCode),
+    (error) => {
+      console.error(chalk.red('Fatal error:'), error);
+      process.exit(ExitCode.Error);
+    }
+  );
 }
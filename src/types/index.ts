@@ -1,7 +1,7 @@
 export interface DistributionRecord {
   address: string;
   amount: bigint; // Shannon amount as bigint for internal processing
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'skipped';
+  status: 'pending' | 'processing' | 'completed' | 'finalized' | 'failed' | 'skipped';
   transactionHash?: string;
   blockHash?: string;
   blockNumber?: number;
@@ -9,36 +9,219 @@ export interface DistributionRecord {
   attempts?: number;
   timestamp?: Date;
   sourceRowNumber?: number; // Row number from original CSV file
+  nonce?: number; // Account nonce the transfer was signed with
+  feePaid?: bigint; // Actual fee paid in Shannon over all attempts, tip included
+  tipPaid?: bigint; // Tip part of feePaid in Shannon
+  existentialDepositAction?: ExistentialDepositAction; // Set by the recipient pre-flight
+  requestedAmount?: bigint; // Amount from the source file, when the pre-flight raised it
+  mergedRows?: number[]; // Source rows summed into this record by the merge duplicate policy
+  dispatchError?: DispatchErrorInfo; // Decoded runtime error of the last failed attempt
+  metadata?: RecordMetadata; // Extra columns of the source row, if the file has any
+}
+
+/**
+ * Descriptive columns of a CSV row, carried through to the transaction log and the reports
+ */
+export interface RecordMetadata {
+  label?: string;
+  reference?: string; // e.g. the invoice a payment settles
+  category?: string;
+  note?: string;
+}
+
+/**
+ * A runtime dispatch error decoded against the metadata, e.g. balances.InsufficientBalance
+ */
+export interface DispatchErrorInfo {
+  pallet: string; // Pallet (module) that raised the error, or token/arithmetic/system
+  error: string; // Error variant name
+  docs: string; // Doc comment of the error from the metadata, if any
+  raw: string; // The dispatch error as JSON, as found in the event
+}
+
+/**
+ * Failed records grouped by error: "balances.InsufficientBalance" for decoded dispatch
+ * errors, the error message otherwise
+ */
+export interface FailureHistogramEntry {
+  error: string;
+  count: number;
+  amount: bigint; // Shannon amount as bigint
 }
 
 export interface DistributionSummary {
   totalRecords: number;
   completed: number;
-  failed: number;
+  failed: number; // Records left failed, not failed attempts: a retry that completes leaves it
   skipped: number;
   totalAmount: bigint; // Shannon amount as bigint
   distributedAmount: bigint; // Shannon amount as bigint
   failedAmount: bigint; // Shannon amount as bigint
+  feesPaid: bigint; // Actual fees paid in Shannon, incl. those recorded by earlier runs
   startTime: Date;
   endTime?: Date;
   resumedFrom?: number;
   abortedByUser?: boolean; // Indicates user chose to abort distribution
+  existentialDepositDecisions: ExistentialDepositDecision[]; // Recipient pre-flight outcomes
+  failureHistogram?: FailureHistogramEntry[]; // Records still failed at the end of the run
+  circuitBreaker?: CircuitBreakerTrip; // Why the circuit breaker paused the run
 }
 
 export interface NetworkConfig {
   name: string;
-  rpcEndpoint: string;
-  chainId?: string;
+  rpcEndpoint: string; // Primary endpoint, same as rpcEndpoints[0]
+  rpcEndpoints: string[];
+  explorerUrl?: string; // Extrinsic link template, "{hash}" is replaced by the transaction hash
+  ss58Format: number; // Address encoding used for output (reports, logs, resume state)
+  tokenDecimals: number;
+  genesisHash?: string; // When set, connecting to a node with any other genesis is refused
+}
+
+export type TransferBatchMode = 'single' | 'batchAll' | 'forceBatch';
+
+/**
+ * What to do with rows that pay the same public key, in whatever SS58 encoding
+ */
+export type DuplicatePolicy = 'reject' | 'merge' | 'keep';
+
+export type TransferMode = 'transferKeepAlive' | 'transferAllowDeath';
+
+/**
+ * Columns a CSV file can map: address and amount are required; unit is the unit of the amount,
+ * the rest are RecordMetadata
+ */
+export type CSVColumn = 'address' | 'amount' | 'unit' | keyof RecordMetadata;
+
+export type CSVEncoding = 'utf8' | 'utf16le' | 'latin1';
+
+/**
+ * Layout of a distribution file: CSV, a JSON array of entries, or one JSON entry per line
+ */
+export type InputFormat = 'csv' | 'json' | 'ndjson';
+
+/**
+ * Unit of an amount in the source file: decimal AI3, or integer Shannon (10^-18 AI3)
+ */
+export type AmountUnit = 'ai3' | 'shannon';
+
+/**
+ * What to do with an amount more precise than its unit (over 18 decimals in AI3, or a fraction
+ * of a Shannon): strict rejects the row, the others round it to a whole Shannon.
+ * half-up rounds halves up, half-even to the even Shannon.
+ */
+export type AmountRounding = 'strict' | 'down' | 'up' | 'half-up' | 'half-even';
+
+/**
+ * How amounts are read
+ */
+export interface AmountInputConfig {
+  unit: AmountUnit; // For amounts with neither a unit column nor a suffix
+  rounding: AmountRounding;
+}
+
+/**
+ * An amount rounded to a whole Shannon under the rounding policy
+ */
+export interface RoundedAmount {
+  rowNumber: number;
+  location: string; // As validation messages name the row
+  amount: string; // As written in the file
+  roundedShannons: bigint;
+}
+
+/**
+ * How CSV files are read; 'auto' settings are detected from the start of each file
+ */
+export interface CSVInputConfig {
+  delimiter: string | 'auto';
+  encoding: CSVEncoding | 'auto';
+  header: 'auto' | 'yes' | 'no'; // Whether the first row names the columns
+  columns: Partial<Record<CSVColumn, string>>; // Header name or 1-based column number
+}
+
+/**
+ * When retryable failures are sent again:
+ * inline   - right away, before moving on to the next record
+ * deferred - in later passes over the failed records, once the main pass is done
+ */
+export type RetryMode = 'inline' | 'deferred';
+
+/**
+ * Where resume state is kept: json snapshots with a journal, or one SQLite database per run
+ * that is updated record by record
+ */
+export type StateBackend = 'json' | 'sqlite';
+
+/**
+ * Thresholds of the circuit breaker that pauses a whole distribution; 0 turns a check off
+ */
+export interface CircuitBreakerConfig {
+  maxConsecutiveFailures: number;
+  maxFailureRatePercent: number; // Over the last failureRateWindow transfers
+  failureRateWindow: number;
+  chainStallSeconds: number; // Longest acceptable age of the best block
+  checkBalance: boolean; // Pause once the free balance cannot cover the remaining records
+}
+
+export type CircuitBreakerTrigger =
+  'consecutiveFailures' | 'failureRate' | 'chainStall' | 'lowBalance';
+
+export interface CircuitBreakerTrip {
+  trigger: CircuitBreakerTrigger;
+  reason: string;
+}
+
+/**
+ * What to do with a transfer that would create a new account below the existential deposit
+ */
+export type ExistentialDepositPolicy = 'block' | 'skip' | 'raise';
+
+export type ExistentialDepositAction = 'blocked' | 'skipped' | 'raised';
+
+export interface ExistentialDepositDecision {
+  index: number;
+  address: string;
+  action: ExistentialDepositAction;
+  requestedAmount: bigint; // Amount from the source file in Shannon
+  amount: bigint; // Amount that will be sent in Shannon (the ED when raised)
+}
+
+export interface RecipientPreflightReport {
+  existentialDeposit: bigint;
+  checkedAccounts: number;
+  newAccounts: number;
+  decisions: ExistentialDepositDecision[];
+  blocked: boolean; // The block policy found transfers that cannot be sent as they are
 }
 
 export interface AppConfig {
   network: string;
   distributorPrivateKey: string;
-  rpcEndpoint?: string;
+  rpcEndpoint?: string; // Comma-separated endpoints override the network's list, tried in order
   logLevel: string;
   logToFile: boolean;
   confirmationBlocks: number;
+  confirmationTimeoutSeconds?: number; // Give up waiting for confirmations after this (default: 300)
+  waitForFinality?: boolean; // Also wait for the inclusion block to be finalized (default: false)
+  reconcileMaxBlocks?: number; // Most blocks scanned when reconciling before resume (default: 20000)
+  rpcTimeoutSeconds?: number; // Per endpoint, for connecting and health checks (default: 30)
+  reconnectMaxBackoffSeconds?: number; // Longest wait between reconnection rounds (default: 60)
   batchSize: number;
+  batchMode?: TransferBatchMode; // How records are packed into extrinsics (default: single)
+  pipelineDepth?: number; // Max transfers in flight at once in single mode (default: 1)
+  transferMode?: TransferMode; // Balances call used for transfers (default: transferKeepAlive)
+  existentialDepositPolicy?: ExistentialDepositPolicy; // (default: block)
+  duplicatePolicy?: DuplicatePolicy; // (default: keep)
+  retryPolicy?: RetryPolicy; // Per error class failure handling (default: DEFAULT_RETRY_POLICY)
+  retryMode?: RetryMode; // (default: inline)
+  deferredRetryPasses?: number; // Later passes over deferred failures (default: 3)
+  deferredRetryDelaySeconds?: number; // Wait before the first of them, then doubled (default: 30)
+  circuitBreaker?: CircuitBreakerConfig; // (default: DEFAULT_CIRCUIT_BREAKER)
+  stateBackend?: StateBackend; // For new runs; a saved run keeps its own (default: json)
+  streamChunkSize?: number; // Records held in memory at once when streaming (default: 1000)
+  inputFormat?: InputFormat | 'auto'; // auto picks it by file extension (default: auto)
+  csvInput?: CSVInputConfig; // (default: DEFAULT_CSV_INPUT, everything detected)
+  amountInput?: AmountInputConfig; // (default: DEFAULT_AMOUNT_INPUT, AI3 and strict)
   gasBufferAi3: number;
 }
 
@@ -46,21 +229,157 @@ export interface ValidationResult {
   isValid: boolean;
   errors: string[];
   warnings: string[];
-  duplicates: { address: string; indices: number[] }[];
+  duplicates: { address: string; indices: number[] }[]; // Canonical address and source lines
   totalAmount: bigint; // Shannon amount as bigint
   recordCount: number;
+  roundedAmounts?: RoundedAmount[]; // Amounts the rounding policy changed
   addressStats?: {
     autonomysCount: number;
     substrateCount: number;
   };
 }
 
+/**
+ * One step of a transfer in the resume journal, keyed by the record's position in the run.
+ * intent is written once the extrinsic is signed and before it is sent; submitted when the
+ * node accepted it; included and failed carry the outcome as markCompleted/markFailed see it.
+ */
+export type JournalEntryType = 'intent' | 'submitted' | 'included' | 'failed';
+
+export interface JournalEntry {
+  type: JournalEntryType;
+  index: number; // Position of the record in the distribution
+  at: Date;
+  transactionHash?: string;
+  nonce?: number;
+  blockHash?: string;
+  blockNumber?: number;
+  finalized?: boolean;
+  feePaid?: bigint; // Fee of this attempt only, added to the record's total on replay
+  tipPaid?: bigint;
+  error?: string;
+  dispatchError?: DispatchErrorInfo;
+}
+
+/**
+ * Identifies a distribution: the same CSV file sent on the same network from the same account
+ * is the same run, however often it is paused and resumed
+ */
+export interface RunInfo {
+  id: string; // Derived from csvHash, network and distributorAddress; names the run's state
+  csvHash: string; // SHA-256 of the CSV file
+  network: string;
+  distributorAddress: string;
+}
+
 export interface ResumeData {
   records: DistributionRecord[];
   summary: DistributionSummary;
   lastProcessedIndex: number;
   timestamp: Date;
   sourceFilename?: string; // Original CSV filename for logging
+  run?: RunInfo; // Not set in state saved before runs had identifiers
+  stream?: StreamPosition; // Set when the records are one chunk of a streamed CSV file
+}
+
+/**
+ * Where a streamed distribution stands: the records of the resume state are one chunk of the
+ * CSV file, every chunk before it is done and the file continues at nextRow
+ */
+export interface StreamPosition {
+  nextRow: number; // Source row the next chunk starts from
+  completed?: DistributionSummary; // Totals of the chunks before this one
+}
+
+export interface ReconciliationReport {
+  complete: boolean; // false if the block range could not be fully scanned
+  fromBlock: number;
+  toBlock: number;
+  accountNonce: number; // Distributor nonce at toBlock
+  nonceDelta: number; // Extrinsics sent by the distributor between fromBlock and toBlock
+  matchedOnChain: number[]; // Record indices found in balances.Transfer events
+  pendingInPool: number[]; // Record indices still waiting in the transaction pool
+  clearedForResend: number[]; // Record indices confirmed unsent
+  unmatchedTransfers: number; // Transfers from the distributor that match no record
+}
+
+/**
+ * Something the transaction logs, the CSV and the chain disagree on when rebuilding state
+ */
+export interface RecoveryDiscrepancy {
+  sourceRowNumber?: number; // Not set for a problem with a whole log file or the chain scan
+  message: string;
+}
+
+export interface LogRecoveryReport {
+  logFiles: string[]; // In the order they were applied, oldest first
+  loggedRows: number; // Log lines applied to records
+  completed: number; // Records settled, by the logs or found on chain
+  failed: number;
+  pending: number; // Never logged: to be sent on resume
+  checkedOnChain: boolean;
+  discrepancies: RecoveryDiscrepancy[];
+}
+
+export interface DryRunRecordResult {
+  index: number;
+  address: string;
+  amount: bigint; // Amount in Shannon
+  fee: bigint; // Exact fee in Shannon (share of the batch fee in batch modes)
+  success: boolean; // false if the transfer is predicted to fail
+  error?: string;
+  sourceRowNumber?: number;
+  metadata?: RecordMetadata;
+}
+
+export interface DryRunReport {
+  records: DryRunRecordResult[];
+  totalAmount: bigint;
+  totalFees: bigint;
+  predictedFailures: number;
+  simulated: boolean; // false if the node does not expose system_dryRun (fees only)
+}
+
+/**
+ * One recipient's part of a pool split by weight
+ */
+export interface AllocationShare {
+  rowNumber: number; // Row of the weights file
+  address: string;
+  weight: string; // As written in the weights file
+  share: bigint; // Amount in Shannon
+  roundedUp: boolean; // Got one of the Shannon left over after every share was rounded down
+  metadata?: RecordMetadata;
+}
+
+export interface AllocationReport {
+  weightsFile: string;
+  distributionFile: string; // The CSV file written for validate and distribute
+  createdAt: Date;
+  method: 'largest-remainder';
+  pool: bigint; // Amount in Shannon; the shares add up to exactly this
+  totalWeight: string;
+  shares: AllocationShare[];
+  excluded: { rowNumber: number; address: string; weight: string; reason: string }[];
+}
+
+export interface DistributionReport {
+  sourceFilename?: string;
+  savedAt: Date;
+  totalRecords: number;
+  byStatus: Record<DistributionRecord['status'], { count: number; amount: bigint }>;
+  feesPaid: bigint; // Actual fees recorded on the records, in Shannon
+  failures: {
+    index: number;
+    sourceRowNumber?: number;
+    address: string;
+    amount: bigint;
+    attempts: number;
+    error?: string;
+    dispatchError?: DispatchErrorInfo;
+    metadata?: RecordMetadata;
+  }[];
+  failureHistogram: FailureHistogramEntry[];
 }
 
 export type LogLevel = 'error' | 'warn' | 'info' | 'verbose' | 'debug';
@@ -70,8 +389,73 @@ export interface TransactionResult {
   transactionHash?: string;
   blockHash?: string;
   blockNumber?: number;
+  finalized?: boolean; // Inclusion block has been finalized
   error?: string;
-  gasUsed?: string;
+  dispatchError?: DispatchErrorInfo; // Decoded when the runtime rejected the transfer
+  feePaid?: bigint; // From TransactionFeePaid; a share of the batch fee in batch modes
+  tipPaid?: bigint;
+  connectionLost?: boolean; // The RPC connection dropped before the outcome was known
+  unconfirmed?: boolean; // Included, but a timeout or reorg cut its confirmation short
+}
+
+export type FailureAction = 'retry' | 'skip' | 'pause' | 'abort';
+
+/**
+ * transient: may succeed if sent again later (connection, pool full, priority too low)
+ * permanent: will fail the same way for this record (insufficient balance, invalid address)
+ * fatal: will fail for every record (bad signature, wrong chain)
+ * unconfirmed: was included once, so it may have gone through (confirmation timeout, reorg)
+ */
+export type ErrorClass = 'transient' | 'permanent' | 'fatal' | 'unconfirmed' | 'unknown';
+
+export interface RetryRule {
+  action: FailureAction;
+  maxRetries: number; // With action retry: retries before `exhausted` applies
+  exhausted: Exclude<FailureAction, 'retry'>;
+  backoffSeconds: number; // Wait before the first retry, doubled for each one after it
+  maxBackoffSeconds: number;
+}
+
+export type RetryPolicy = Record<ErrorClass, RetryRule>;
+
+export interface RetryDecision {
+  errorClass: ErrorClass;
+  reason: string; // What the error was recognized as, e.g. "pool full"
+  action: FailureAction;
+  backoffMs: number; // Wait before sending again, 0 unless action is retry
+}
+
+export type CliCommand =
+  | 'validate'
+  | 'plan'
+  | 'distribute'
+  | 'resume'
+  | 'status'
+  | 'verify'
+  | 'report'
+  | 'recover'
+  | 'allocate';
+
+/**
+ * Parsed command line. Without a command the interactive flow runs and the flags are ignored.
+ */
+export interface CliOptions {
+  command?: CliCommand;
+  csvPath?: string;
+  dryRun: boolean; // Simulate every transfer before sending (plan, distribute)
+  onFailure: FailureAction | 'policy'; // Answer to a failed transfer, replacing the prompt
+  maxRetries: number; // With onFailure retry: retries before the transfer is skipped
+  yes: boolean; // Confirm sending without asking (distribute, resume)
+  json: boolean; // One JSON document on stdout, logs on stderr
+  runId?: string; // Open run to work on (default: the one saved most recently)
+  resumeFile?: string; // File name in the run's resume directory (default: the latest)
+  stream: boolean; // Read the CSV in chunks instead of into memory (validate, plan, distribute)
+  logFiles: string[]; // Transaction logs to rebuild the resume state from (recover)
+  checkChain: boolean; // Check the logged transfers against the chain (recover)
+  acceptDiscrepancies: boolean; // Save recovered state despite reported discrepancies (recover)
+  pool?: string; // Total to split by weight, as an amount (allocate)
+  outPath?: string; // Distribution CSV to write (allocate; default: next to the weights file)
+  help: boolean;
 }
 
 export interface TransactionFailureHandler {
@@ -80,5 +464,5 @@ export interface TransactionFailureHandler {
     _index: number,
     _error: any,
     _attempts: number
-  ): Promise<'retry' | 'skip' | 'pause' | 'abort'>;
+  ): Promise<FailureAction>;
 }
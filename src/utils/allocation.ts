@@ -0,0 +1,229 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { shannonsToAi3 } from '@autonomys/auto-utils';
+import { AllocationReport, AllocationShare, RecordMetadata } from '../types';
+import { InputFormatError, InputSourceOptions, openInputSource } from './input-source';
+import { isValidAutonomysAddress } from './validation';
+import { stringifyWithBigInt } from './bigint-json';
+
+// Header names and JSON fields a weight is found by, besides those of an amount
+export const WEIGHT_ALIASES = ['weight', 'weights', 'points', 'score', 'shares'];
+
+/**
+ * One row of a weights file
+ */
+export interface WeightEntry {
+  rowNumber: number;
+  address: string;
+  weight: string;
+  metadata?: RecordMetadata;
+}
+
+// What the split itself decides, before it is written anywhere
+type PoolSplit = Pick<AllocationReport, 'method' | 'pool' | 'totalWeight' | 'shares' | 'excluded'>;
+
+/**
+ * Read the recipients and their weights. Weights are numbers of 0 or more, with as many decimal
+ * places as needed; only their proportions matter.
+ * @returns The entries, or the errors of every row that cannot be read
+ */
+export async function readWeights(
+  filePath: string,
+  options: InputSourceOptions = {}
+): Promise<{ entries: WeightEntry[]; errors: string[] }> {
+  const entries: WeightEntry[] = [];
+  const errors: string[] = [];
+
+  let source;
+  try {
+    source = await openInputSource(filePath, { ...options, amountAliases: WEIGHT_ALIASES });
+  } catch (error) {
+    if (error instanceof InputFormatError) {
+      return { entries, errors: [error.message] };
+    }
+    throw error;
+  }
+
+  for await (const row of source.rows()) {
+    const location = source.locate(row.rowNumber);
+    const { address, amount: weight } = row;
+
+    if (row.error) {
+      errors.push(`${location}: ${row.error}`);
+    } else if (!address) {
+      errors.push(`${location}: Address is required`);
+    } else if (!isValidAutonomysAddress(address)) {
+      errors.push(`${location}: Invalid SS58 address format: ${address}`);
+    } else if (!weight) {
+      errors.push(`${location}: Weight is required`);
+    } else if (parseWeight(weight) === undefined) {
+      errors.push(
+        `${location}: Invalid weight: ${weight}; write a number of 0 or more, such as 12 or 0.5`
+      );
+    } else {
+      const entry: WeightEntry = { rowNumber: row.rowNumber, address, weight };
+      if (row.metadata) {
+        entry.metadata = row.metadata;
+      }
+      entries.push(entry);
+    }
+  }
+
+  if (errors.length === 0 && entries.length === 0) {
+    errors.push('The weights file has no entries');
+  }
+  return { entries, errors };
+}
+
+/**
+ * Split a pool across the entries in proportion to their weights, exactly in Shannon. Every
+ * share is first rounded down; the Shannon left over then go one each to the largest remainders,
+ * earlier rows first on a tie, so the shares add up to exactly the pool. Entries whose share
+ * is zero are excluded.
+ * @param pool - Amount in Shannon
+ * @throws Error if a weight cannot be read or the weights add up to zero
+ */
+export function allocatePool(pool: bigint, entries: WeightEntry[]): PoolSplit {
+  const parsed = entries.map(entry => {
+    const weight = parseWeight(entry.weight);
+    if (weight === undefined) {
+      throw new Error(`Invalid weight: ${entry.weight}`);
+    }
+    return weight;
+  });
+
+  // Scale every weight to whole units of the finest decimal place used
+  const decimals = parsed.reduce((most, weight) => Math.max(most, weight.fraction.length), 0);
+  const scaled = parsed.map(weight => BigInt(weight.whole + weight.fraction.padEnd(decimals, '0')));
+  const totalWeight = scaled.reduce((sum, weight) => sum + weight, 0n);
+  if (totalWeight === 0n) {
+    throw new Error('The weights add up to zero; there is nothing to split the pool by');
+  }
+
+  const shares = entries.map((entry, index) => ({
+    share: (pool * scaled[index]) / totalWeight,
+    remainder: (pool * scaled[index]) % totalWeight,
+    roundedUp: false,
+  }));
+
+  let leftover = pool - shares.reduce((sum, { share }) => sum + share, 0n);
+  const byRemainder = shares
+    .map((_share, index) => index)
+    .filter(index => shares[index].remainder > 0n)
+    .sort((a, b) => {
+      const difference = shares[b].remainder - shares[a].remainder;
+      if (difference !== 0n) {
+        return difference > 0n ? 1 : -1;
+      }
+      return entries[a].rowNumber - entries[b].rowNumber;
+    });
+  // Fewer Shannon are left over than there are remainders, as the remainders add up to
+  // leftover × totalWeight
+  for (const index of byRemainder) {
+    if (leftover === 0n) {
+      break;
+    }
+    shares[index].share++;
+    shares[index].roundedUp = true;
+    leftover--;
+  }
+
+  const split: PoolSplit = {
+    method: 'largest-remainder',
+    pool,
+    totalWeight: formatWeight(totalWeight, decimals),
+    shares: [],
+    excluded: [],
+  };
+  entries.forEach((entry, index) => {
+    const { share, roundedUp } = shares[index];
+    if (share === 0n) {
+      split.excluded.push({
+        rowNumber: entry.rowNumber,
+        address: entry.address,
+        weight: entry.weight,
+        reason: scaled[index] === 0n ? 'Zero weight' : 'Share rounds to zero Shannon',
+      });
+      return;
+    }
+
+    const allocation: AllocationShare = {
+      rowNumber: entry.rowNumber,
+      address: entry.address,
+      weight: entry.weight,
+      share,
+      roundedUp,
+    };
+    if (entry.metadata) {
+      allocation.metadata = entry.metadata;
+    }
+    split.shares.push(allocation);
+  });
+  return split;
+}
+
+/**
+ * Write the shares as a distribution CSV, with its allocation report beside it as
+ * `<name>-report.json`
+ * @returns Path of the written report
+ */
+export async function writeAllocation(report: AllocationReport): Promise<string> {
+  const lines = ['address,amount,unit,label,reference,category,note'];
+  for (const allocation of report.shares) {
+    lines.push(
+      [
+        allocation.address,
+        shannonsToAi3(allocation.share),
+        'AI3',
+        escapeCSVField(allocation.metadata?.label || ''),
+        escapeCSVField(allocation.metadata?.reference || ''),
+        escapeCSVField(allocation.metadata?.category || ''),
+        escapeCSVField(allocation.metadata?.note || ''),
+      ].join(',')
+    );
+  }
+
+  const { dir, name } = path.parse(report.distributionFile);
+  const reportPath = path.join(dir, `${name}-report.json`);
+
+  await fs.ensureDir(path.dirname(report.distributionFile));
+  await fs.writeFile(report.distributionFile, `${lines.join('\n')}\n`);
+  await fs.writeFile(reportPath, `${stringifyWithBigInt(report, 2)}\n`);
+
+  return reportPath;
+}
+
+/**
+ * Where the distribution CSV goes by default: beside the weights file, as `<name>-allocation.csv`
+ */
+export function defaultAllocationPath(weightsFile: string): string {
+  const { dir, name } = path.parse(weightsFile);
+  return path.join(dir, `${name}-allocation.csv`);
+}
+
+/**
+ * A weight as digits, with thousands separated by commas if at all
+ */
+function parseWeight(text: string): { whole: string; fraction: string } | undefined {
+  const trimmed = text.trim();
+  const plain = /^\d{1,3}(,\d{3})+(\.\d+)?$/.test(trimmed) ? trimmed.replace(/,/g, '') : trimmed;
+  const match = plain.match(/^(\d+)(?:\.(\d+))?$/);
+  return match ? { whole: match[1], fraction: match[2] ?? '' } : undefined;
+}
+
+function formatWeight(weight: bigint, decimals: number): string {
+  if (decimals === 0) {
+    return weight.toString();
+  }
+  const digits = weight.toString().padStart(decimals + 1, '0');
+  const fraction = digits.slice(-decimals).replace(/0+$/, '');
+  const whole = digits.slice(0, -decimals);
+  return fraction ? `${whole}.${fraction}` : whole;
+}
+
+function escapeCSVField(field: string): string {
+  if (field.includes(',') || field.includes('"') || field.includes('\n')) {
+    return `"${field.replace(/"/g, '""')}"`;
+  }
+  return field;
+}
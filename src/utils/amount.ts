@@ -0,0 +1,146 @@
+import { AmountInputConfig, AmountRounding, AmountUnit } from '../types';
+
+export const DEFAULT_AMOUNT_INPUT: AmountInputConfig = {
+  unit: 'ai3',
+  rounding: 'strict',
+};
+
+// Decimal places of each unit, in whole Shannon
+const DECIMALS: Record<AmountUnit, number> = { ai3: 18, shannon: 0 };
+
+const UNIT_NAMES: Record<string, AmountUnit> = {
+  ai3: 'ai3',
+  shannon: 'shannon',
+  shannons: 'shannon',
+};
+
+/**
+ * An amount as written in a distribution file, read exactly
+ */
+export interface ParsedAmount {
+  shannons: bigint;
+  unit: AmountUnit;
+  rounded: boolean; // Digits beyond a whole Shannon were rounded away
+  grouped: boolean; // Thousands separators were removed
+}
+
+/**
+ * An amount that cannot be read; the message says why
+ */
+export class AmountFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AmountFormatError';
+  }
+}
+
+/**
+ * The unit named in a unit column or suffix, in any case
+ * @throws AmountFormatError for anything but AI3 and Shannon
+ */
+export function parseAmountUnit(name: string): AmountUnit {
+  const unit = UNIT_NAMES[name.trim().toLowerCase()];
+  if (!unit) {
+    throw new AmountFormatError(`Unknown amount unit "${name}"; use AI3 or Shannon`);
+  }
+  return unit;
+}
+
+/**
+ * Read an amount exactly into Shannon. The unit comes from a suffix ("1.5 AI3", "500 shannon"),
+ * else from the row's unit column, else from the configuration. Thousands separators (",", "_"
+ * or a space, between groups of three digits) are accepted; scientific notation is not.
+ * Precision beyond a whole Shannon is rounded by the configured policy, or refused when strict.
+ * @param unitName - Unit column of the row, if it has one
+ * @throws AmountFormatError if the amount cannot be read or is not above zero
+ */
+export function parseAmount(
+  text: string,
+  options: AmountInputConfig = DEFAULT_AMOUNT_INPUT,
+  unitName?: string
+): ParsedAmount {
+  const trimmed = text.trim();
+  const suffix = trimmed.match(/^(.*?)\s*(ai3|shannons?)$/i);
+  const unit = resolveUnit(trimmed, suffix?.[2], unitName, options.unit);
+  const number = suffix ? suffix[1] : trimmed;
+
+  if (/^[+-]?[\d.,_ ]*\d[\d.,_ ]*e[+-]?\d+$/i.test(number)) {
+    throw new AmountFormatError(
+      `Scientific notation is not accepted: ${trimmed}; write the amount out in full`
+    );
+  }
+
+  const grouping = number.match(/^\d{1,3}([,_ ])\d{3}(?:\1\d{3})*(\.\d+)?$/);
+  if (!grouping && /^\d[\d,_ ]*[,_ ][\d,_ ]*(\.\d+)?$/.test(number)) {
+    throw new AmountFormatError(
+      `Misplaced thousands separator in ${trimmed}; digits must be grouped in threes, and a decimal point used for fractions`
+    );
+  }
+  const plain = grouping ? number.split(grouping[1]).join('') : number;
+
+  if (!/^\d+(\.\d+)?$/.test(plain)) {
+    throw new AmountFormatError(`Invalid amount format: ${trimmed}`);
+  }
+
+  const [whole, fraction = ''] = plain.split('.');
+  const decimals = DECIMALS[unit];
+  const dropped = fraction.slice(decimals);
+  const rounded = /[1-9]/.test(dropped);
+
+  if (rounded && options.rounding === 'strict') {
+    throw new AmountFormatError(
+      unit === 'shannon'
+        ? `Shannon amounts must be whole numbers: ${trimmed}; set AMOUNT_ROUNDING to round it`
+        : `Amount ${trimmed} has ${fraction.length} decimal places, more than the 18 of AI3; set AMOUNT_ROUNDING to round it`
+    );
+  }
+
+  const kept = BigInt(whole + fraction.slice(0, decimals).padEnd(decimals, '0'));
+  const shannons = rounded ? round(kept, dropped, options.rounding) : kept;
+  if (shannons === 0n) {
+    throw new AmountFormatError(
+      rounded ? `Amount ${trimmed} rounds to zero Shannon` : `Invalid amount format: ${trimmed}`
+    );
+  }
+
+  return { shannons, unit, rounded, grouped: !!grouping };
+}
+
+function resolveUnit(
+  amount: string,
+  suffix: string | undefined,
+  unitName: string | undefined,
+  configured: AmountUnit
+): AmountUnit {
+  const fromColumn = unitName?.trim() ? parseAmountUnit(unitName) : undefined;
+  const fromSuffix = suffix ? parseAmountUnit(suffix) : undefined;
+
+  if (fromColumn && fromSuffix && fromColumn !== fromSuffix) {
+    throw new AmountFormatError(`Amount ${amount} does not match its unit column (${unitName})`);
+  }
+  return fromSuffix ?? fromColumn ?? configured;
+}
+
+/**
+ * Round a Shannon amount whose further digits are `dropped`, which are not all zero
+ */
+function round(kept: bigint, dropped: string, rounding: AmountRounding): bigint {
+  const half = '5'.padEnd(dropped.length, '0');
+
+  switch (rounding) {
+    case 'down':
+      return kept;
+    case 'up':
+      return kept + 1n;
+    case 'half-up':
+      return dropped >= half ? kept + 1n : kept;
+    case 'half-even':
+      if (dropped === half) {
+        return kept % 2n === 0n ? kept : kept + 1n;
+      }
+      return dropped > half ? kept + 1n : kept;
+    default:
+      // strict refuses the amount before it gets here
+      return kept;
+  }
+}
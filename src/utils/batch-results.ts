@@ -0,0 +1,83 @@
+/**
+ * Utilities for interpreting the events emitted by utility.batchAll / utility.forceBatch
+ * so that each call inside a batch can be mapped back onto its DistributionRecord
+ */
+
+/**
+ * Minimal shape of an event record as found in SubmittableResult.events
+ */
+export interface BatchEventRecord {
+  event: {
+    section: string;
+    method: string;
+    data: any;
+  };
+}
+
+export interface BatchItemResult {
+  success: boolean;
+  error?: string;
+  dispatchError?: any; // DispatchError codec of a failed call, for decoding against metadata
+}
+
+/**
+ * Map utility batch events onto the calls of the batch, in submission order.
+ *
+ * The utility pallet emits one ItemCompleted or ItemFailed event per dispatched call,
+ * in the same order as the calls were passed to the batch. forceBatch keeps going after
+ * a failed call, while batchAll reverts the whole batch (and then no item events survive).
+ * Any call without a matching item event is reported as failed.
+ *
+ * @param events - Events belonging to the batch extrinsic
+ * @param itemCount - Number of calls that were packed into the batch
+ * @returns One result per call, in submission order
+ */
+export function mapBatchItemResults(
+  events: BatchEventRecord[],
+  itemCount: number
+): BatchItemResult[] {
+  const results: BatchItemResult[] = [];
+  let interrupted: any;
+
+  for (const { event } of events) {
+    if (event.section !== 'utility') {
+      continue;
+    }
+
+    if (event.method === 'ItemCompleted') {
+      results.push({ success: true });
+    } else if (event.method === 'ItemFailed') {
+      results.push(failedItem(event.data?.[0]));
+    } else if (event.method === 'BatchInterrupted') {
+      // BatchInterrupted carries (index, error) for the call that stopped the batch
+      interrupted = event.data?.[1];
+    }
+  }
+
+  while (results.length < itemCount) {
+    results.push(
+      interrupted
+        ? failedItem(interrupted)
+        : { success: false, error: 'Batch item was not executed' }
+    );
+  }
+
+  return results.slice(0, itemCount);
+}
+
+function failedItem(dispatchError: any): BatchItemResult {
+  return {
+    success: false,
+    error: describeDispatchError(dispatchError),
+    ...(dispatchError && { dispatchError }),
+  };
+}
+
+function describeDispatchError(dispatchError: any): string {
+  if (!dispatchError) {
+    return 'Unknown dispatch error';
+  }
+  return typeof dispatchError.toString === 'function'
+    ? dispatchError.toString()
+    : String(dispatchError);
+}
@@ -53,6 +53,20 @@ export function convertDistributionStringsToBigInt(obj: any): void {
       obj.failedAmount = BigInt(obj.failedAmount);
     }
 
+    // Convert fee amounts
+    if (obj.feePaid && typeof obj.feePaid === 'string') {
+      obj.feePaid = BigInt(obj.feePaid);
+    }
+    if (obj.tipPaid && typeof obj.tipPaid === 'string') {
+      obj.tipPaid = BigInt(obj.tipPaid);
+    }
+    if (obj.feesPaid && typeof obj.feesPaid === 'string') {
+      obj.feesPaid = BigInt(obj.feesPaid);
+    }
+    if (obj.requestedAmount && typeof obj.requestedAmount === 'string') {
+      obj.requestedAmount = BigInt(obj.requestedAmount);
+    }
+
     // Recursively handle nested objects
     Object.values(obj).forEach(value => {
       if (value && typeof value === 'object') {
@@ -0,0 +1,297 @@
+import fs from 'fs-extra';
+import { Options as CSVParserOptions } from 'csv-parser';
+import { isAddress } from '@autonomys/auto-utils';
+import { CSVColumn, CSVEncoding, CSVInputConfig, RecordMetadata } from '../types';
+
+export const DEFAULT_CSV_INPUT: CSVInputConfig = {
+  delimiter: 'auto',
+  encoding: 'auto',
+  header: 'auto',
+  columns: {},
+};
+
+export const METADATA_COLUMNS: (keyof RecordMetadata)[] = [
+  'label',
+  'reference',
+  'category',
+  'note',
+];
+
+// Header names each column is found by when it is not configured, compared without case,
+// spaces or punctuation
+const COLUMN_ALIASES: Record<CSVColumn, string[]> = {
+  address: ['address', 'recipient', 'wallet', 'account', 'recipientaddress', 'walletaddress'],
+  amount: ['amount', 'value', 'tokens', 'ai3', 'amountai3', 'quantity'],
+  unit: ['unit', 'units', 'currency', 'denomination'],
+  label: ['label', 'name', 'recipientname'],
+  reference: ['reference', 'referenceid', 'ref', 'invoice', 'invoiceid', 'invoicereference'],
+  category: ['category', 'type'],
+  note: ['note', 'notes', 'memo', 'comment', 'description'],
+};
+
+const DELIMITERS = [',', ';', '\t', '|'];
+const SAMPLE_BYTES = 64 * 1024;
+
+/**
+ * How a particular CSV file is laid out, as configured or detected
+ */
+export interface CSVFormat {
+  encoding: CSVEncoding;
+  bomLength: number; // Bytes of byte order mark to skip
+  delimiter: string;
+  hasHeader: boolean;
+  columns: Partial<Record<CSVColumn, number>>; // 0-based position of each mapped column
+  header?: string[]; // Column names from the header row
+}
+
+/**
+ * The file cannot be read as configured: a column is missing, or its encoding is not supported
+ */
+export class CSVFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CSVFormatError';
+  }
+}
+
+/**
+ * Work out the encoding, delimiter, header row and column positions of a CSV file from its
+ * first bytes. Settings given in `input` are used as they are; the rest are detected.
+ * @param amountAliases - Further header names the amount column is found by
+ * @throws CSVFormatError if the configured columns cannot be found
+ */
+export async function detectCSVFormat(
+  filePath: string,
+  input: CSVInputConfig = DEFAULT_CSV_INPUT,
+  amountAliases: string[] = []
+): Promise<CSVFormat> {
+  const sample = await readSample(filePath);
+  const { encoding, bomLength } = detectEncoding(sample, input.encoding);
+  const text = sample.subarray(bomLength).toString(encoding);
+  const firstLine = text.split(/\r?\n/)[0];
+
+  const delimiter = input.delimiter === 'auto' ? detectDelimiter(firstLine) : input.delimiter;
+  const firstRow = splitLine(firstLine, delimiter).map(cell => cell.trim());
+
+  const hasHeader = input.header === 'auto' ? looksLikeHeader(firstRow) : input.header === 'yes';
+  const header = hasHeader ? firstRow : undefined;
+
+  return {
+    encoding,
+    bomLength,
+    delimiter,
+    hasHeader,
+    columns: mapColumns(input.columns, header, amountAliases),
+    header,
+  };
+}
+
+/**
+ * csv-parser options that key each row by the columns it maps to and skip the header row
+ */
+export function csvParserOptions(format: CSVFormat): CSVParserOptions {
+  const width = Math.max(...Object.values(format.columns)) + 1;
+  const headers: (string | null)[] = new Array(width).fill(null); // null columns are dropped
+  for (const [column, position] of Object.entries(format.columns)) {
+    headers[position] = column;
+  }
+
+  return {
+    headers: headers as string[],
+    separator: format.delimiter,
+    skipLines: format.hasHeader ? 1 : 0,
+  };
+}
+
+/**
+ * fs.createReadStream options that decode the file and skip its byte order mark
+ */
+export function readStreamOptions(format: CSVFormat): { encoding: CSVEncoding; start: number } {
+  return { encoding: format.encoding, start: format.bomLength };
+}
+
+/**
+ * One line about the detected format, for the logs and the validation warnings
+ */
+export function describeCSVFormat(format: CSVFormat): string {
+  const delimiter = format.delimiter === '\t' ? 'tab' : `"${format.delimiter}"`;
+  const columns = Object.entries(format.columns)
+    .map(([column, position]) =>
+      format.header ? `${column}="${format.header[position]}"` : `${column}=${position + 1}`
+    )
+    .join(', ');
+  return `${format.encoding}, delimiter ${delimiter}, ${format.hasHeader ? 'header row' : 'no header row'}, columns ${columns}`;
+}
+
+async function readSample(filePath: string): Promise<Buffer> {
+  const fd = await fs.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(SAMPLE_BYTES);
+    const { bytesRead } = await fs.read(fd, buffer, 0, SAMPLE_BYTES, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await fs.close(fd);
+  }
+}
+
+function detectEncoding(
+  sample: Buffer,
+  configured: CSVInputConfig['encoding']
+): { encoding: CSVEncoding; bomLength: number } {
+  const utf8Bom = sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf;
+  const utf16leBom = sample[0] === 0xff && sample[1] === 0xfe;
+
+  if (configured !== 'auto') {
+    const bomLength =
+      configured === 'utf8' && utf8Bom ? 3 : configured === 'utf16le' && utf16leBom ? 2 : 0;
+    return { encoding: configured, bomLength };
+  }
+
+  if (utf8Bom) {
+    return { encoding: 'utf8', bomLength: 3 };
+  }
+  if (utf16leBom) {
+    return { encoding: 'utf16le', bomLength: 2 };
+  }
+  if (sample[0] === 0xfe && sample[1] === 0xff) {
+    throw new CSVFormatError('UTF-16 big-endian files are not supported; save the file as UTF-8');
+  }
+
+  // Spreadsheet exports that are not UTF-8 are most often Windows-1252, read here as Latin-1
+  return { encoding: isUtf8(sample) ? 'utf8' : 'latin1', bomLength: 0 };
+}
+
+function isUtf8(sample: Buffer): boolean {
+  // The sample may end in the middle of a character
+  const end = sample.length === SAMPLE_BYTES ? sample.lastIndexOf(0x0a) + 1 : sample.length;
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(sample.subarray(0, end));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The candidate that splits the first line into the most cells
+ */
+function detectDelimiter(line: string): string {
+  let best = ',';
+  let bestCells = 1;
+  for (const delimiter of DELIMITERS) {
+    const cells = splitLine(line, delimiter).length;
+    if (cells > bestCells) {
+      best = delimiter;
+      bestCells = cells;
+    }
+  }
+  return best;
+}
+
+/**
+ * Split one line into cells, honouring double-quoted cells
+ */
+function splitLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === delimiter && !quoted) {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells;
+}
+
+/**
+ * A first row with neither an address nor an amount in it names the columns
+ */
+function looksLikeHeader(row: string[]): boolean {
+  return !row.some(cell => /^\d+(\.\d+)?$/.test(cell) || isAddress(cell));
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function mapColumns(
+  configured: CSVInputConfig['columns'],
+  header: string[] | undefined,
+  amountAliases: string[]
+): Partial<Record<CSVColumn, number>> {
+  const columns: Partial<Record<CSVColumn, number>> = {};
+  const names = header?.map(normalizeName);
+  const aliases = { ...COLUMN_ALIASES, amount: [...amountAliases, ...COLUMN_ALIASES.amount] };
+
+  for (const column of Object.keys(COLUMN_ALIASES) as CSVColumn[]) {
+    const spec = configured[column]?.trim();
+
+    if (spec && /^\d+$/.test(spec)) {
+      if (Number(spec) < 1) {
+        throw new CSVFormatError(`The ${column} column number must be 1 or more`);
+      }
+      columns[column] = Number(spec) - 1;
+    } else if (spec) {
+      if (!names) {
+        throw new CSVFormatError(
+          `The ${column} column is named "${spec}", but the file has no header row; give its number instead`
+        );
+      }
+      const position = names.indexOf(normalizeName(spec));
+      if (position === -1) {
+        throw new CSVFormatError(
+          `No ${column} column named "${spec}"; the header has: ${header!.join(', ')}`
+        );
+      }
+      columns[column] = position;
+    } else if (names) {
+      const position = names.findIndex(name => aliases[column].includes(name));
+      if (position !== -1) {
+        columns[column] = position;
+      }
+    }
+  }
+
+  // Without a header, the first two columns are the address and the amount
+  if (!header) {
+    columns.address = columns.address ?? 0;
+    columns.amount = columns.amount ?? 1;
+  }
+
+  for (const column of ['address', 'amount'] as CSVColumn[]) {
+    if (columns[column] === undefined) {
+      throw new CSVFormatError(
+        `No ${column} column found in the header (${header!.join(', ')}); set CSV_${column.toUpperCase()}_COLUMN`
+      );
+    }
+  }
+
+  const byPosition = new Map<number, CSVColumn>();
+  for (const column of Object.keys(COLUMN_ALIASES) as CSVColumn[]) {
+    const position = columns[column];
+    if (position === undefined) {
+      continue;
+    }
+    const other = byPosition.get(position);
+    if (other) {
+      throw new CSVFormatError(
+        `The ${other} and ${column} columns are both column ${position + 1}`
+      );
+    }
+    byPosition.set(position, column);
+  }
+  return columns;
+}
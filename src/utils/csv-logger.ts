@@ -2,14 +2,7 @@ import fs from 'fs-extra';
 import path from 'path';
 import { DistributionRecord } from '../types';
 import { shannonsToAi3 } from '@autonomys/auto-utils';
-
-// Explorer base URLs for different networks
-const EXPLORER_URLS = {
-  mainnet: 'https://autonomys.subscan.io',
-  chronos: 'https://autonomys-chronos.subscan.io'
-} as const;
-
-type NetworkName = keyof typeof EXPLORER_URLS;
+import { getNetworkRegistry } from '../config/networks';
 
 export class CSVTransactionLogger {
   private logFilePath: string;
@@ -34,7 +27,9 @@ export class CSVTransactionLogger {
     await fs.ensureDir(path.dirname(this.logFilePath));
 
     // Write CSV header
-    const header = 'SourceFileRowNumber,Address,Amount,Status,TransactionHash,ExplorerLink\n';
+    const header =
+      'SourceFileRowNumber,Address,Amount,Status,Fee,TransactionHash,ExplorerLink,' +
+      'Error,ErrorPallet,ErrorName,ErrorDocs,ErrorRaw,Label,Reference,Category,Note\n';
     await fs.writeFile(this.logFilePath, header);
 
     this.isInitialized = true;
@@ -47,6 +42,7 @@ export class CSVTransactionLogger {
 
     const rowNumber = record.sourceRowNumber || 0;
     const amount = shannonsToAi3(record.amount);
+    const fee = record.feePaid !== undefined ? shannonsToAi3(record.feePaid) : '';
     const transactionHash = record.transactionHash || '';
     const explorerLink = this.generateExplorerLink(transactionHash);
 
@@ -56,7 +52,26 @@ export class CSVTransactionLogger {
     const hash = this.escapeCSVField(transactionHash);
     const link = this.escapeCSVField(explorerLink);
 
-    const csvLine = `${rowNumber},${address},${amount},${status},${hash},${link}\n`;
+    // Decoded dispatch error, if the runtime rejected the transfer
+    const dispatchError = record.dispatchError;
+    const errorColumns = [
+      record.status === 'failed' ? record.error || '' : '',
+      dispatchError?.pallet || '',
+      dispatchError?.error || '',
+      dispatchError?.docs || '',
+      dispatchError?.raw || '',
+    ].map(field => this.escapeCSVField(field)).join(',');
+
+    // Extra columns of the source row, passed through as they were
+    const metadata = record.metadata;
+    const metadataColumns = [
+      metadata?.label || '',
+      metadata?.reference || '',
+      metadata?.category || '',
+      metadata?.note || '',
+    ].map(field => this.escapeCSVField(field)).join(',');
+
+    const csvLine = `${rowNumber},${address},${amount},${status},${fee},${hash},${link},${errorColumns},${metadataColumns}\n`;
 
     // Append to file
     await fs.appendFile(this.logFilePath, csvLine);
@@ -80,15 +95,14 @@ export class CSVTransactionLogger {
       return '';
     }
 
-    const networkKey = this.networkName as NetworkName;
-    const baseUrl = EXPLORER_URLS[networkKey];
-    
-    if (!baseUrl) {
-      // Return empty string for unsupported networks rather than throwing
+    const explorerUrl = getNetworkRegistry()[this.networkName]?.explorerUrl;
+
+    if (!explorerUrl) {
+      // Return empty string for networks without an explorer rather than throwing
       return '';
     }
 
-    return `${baseUrl}/extrinsic/${transactionHash}`;
+    return explorerUrl.replace('{hash}', transactionHash);
   }
 
   getLogFilePath(): string {
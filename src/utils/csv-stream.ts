@@ -0,0 +1,82 @@
+import fs from 'fs-extra';
+import csv from 'csv-parser';
+import { RecordMetadata } from '../types';
+import {
+  CSVFormat,
+  METADATA_COLUMNS,
+  csvParserOptions,
+  detectCSVFormat,
+  readStreamOptions,
+} from './csv-format';
+
+/**
+ * A CSV row as read, numbered from 1 like the validation messages; a header row is row 1
+ */
+export interface CSVRow {
+  rowNumber: number;
+  address?: string;
+  amount?: string;
+  unit?: string; // Unit of the amount, as written; the configured unit without it
+  metadata?: RecordMetadata; // Only the metadata columns the row fills in
+}
+
+/**
+ * Read a CSV file row by row. The file is never held in memory: reading waits for the
+ * consumer, so a slow consumer keeps only a small read buffer around.
+ * @param fromRow - First row to yield; the rows before it are read past, but not yielded
+ * @param format - Layout of the file; detected from its first bytes without it
+ */
+export async function* readCSVRows(
+  filePath: string,
+  fromRow = 1,
+  format?: CSVFormat
+): AsyncGenerator<CSVRow> {
+  const csvFormat = format ?? (await detectCSVFormat(filePath));
+  const stream = fs
+    .createReadStream(filePath, readStreamOptions(csvFormat))
+    .pipe(csv(csvParserOptions(csvFormat)));
+
+  let rowNumber = csvFormat.hasHeader ? 1 : 0;
+  for await (const row of stream) {
+    rowNumber++;
+    if (rowNumber >= fromRow) {
+      yield toCSVRow(row, rowNumber);
+    }
+  }
+}
+
+/**
+ * A row from csv-parser, keyed as csvParserOptions sets it up
+ */
+export function toCSVRow(row: Record<string, string | undefined>, rowNumber: number): CSVRow {
+  const csvRow: CSVRow = { rowNumber, address: row.address?.trim(), amount: row.amount?.trim() };
+  const unit = row.unit?.trim();
+  if (unit) {
+    csvRow.unit = unit;
+  }
+
+  for (const column of METADATA_COLUMNS) {
+    const value = row[column]?.trim();
+    if (value) {
+      csvRow.metadata = { ...csvRow.metadata, [column]: value };
+    }
+  }
+  return csvRow;
+}
+
+/**
+ * Group items into arrays of up to `size`, holding no more than one group at a time
+ */
+export async function* readChunks<T>(source: AsyncIterable<T>, size: number): AsyncGenerator<T[]> {
+  let chunk: T[] = [];
+  for await (const item of source) {
+    chunk.push(item);
+    if (chunk.length >= size) {
+      yield chunk;
+      chunk = [];
+    }
+  }
+  if (chunk.length > 0) {
+    yield chunk;
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Decoding of runtime dispatch errors into something an operator can read
+ */
+
+import { ApiPromise } from '@polkadot/api';
+import { DispatchErrorInfo } from '../types';
+import { BatchEventRecord } from './batch-results';
+
+/**
+ * Minimal shape of a DispatchError codec, as carried by ExtrinsicFailed, ItemFailed and
+ * BatchInterrupted events
+ */
+export interface DispatchErrorLike {
+  isModule?: boolean;
+  asModule?: any;
+  type?: string;
+  toString(): string;
+}
+
+// Variants that wrap an inner enum naming the actual error
+const NESTED_VARIANTS = ['Token', 'Arithmetic', 'Transactional'];
+
+/**
+ * Decode a dispatch error into pallet, error name and docs.
+ *
+ * Module errors are looked up in the runtime metadata (balances.InsufficientBalance);
+ * Token, Arithmetic and Transactional errors are named after their variant
+ * (token.BelowMinimum); the remaining variants belong to the system (system.BadOrigin).
+ *
+ * @param registry - Type registry of the runtime the error was raised in
+ * @param dispatchError - DispatchError codec from the failure event
+ */
+export function decodeDispatchError(
+  registry: Pick<ApiPromise['registry'], 'findMetaError'>,
+  dispatchError: DispatchErrorLike
+): DispatchErrorInfo {
+  const raw = dispatchError.toString();
+
+  if (dispatchError.isModule) {
+    try {
+      const { section, name, docs } = registry.findMetaError(dispatchError.asModule);
+      return { pallet: section, error: name, docs: docs.join(' ').trim(), raw };
+    } catch {
+      // Unknown to this metadata (e.g. a runtime upgrade in between); keep the raw value
+      return { pallet: 'unknown', error: 'Module', docs: '', raw };
+    }
+  }
+
+  const variant = dispatchError.type || 'Other';
+  if (NESTED_VARIANTS.includes(variant)) {
+    const inner = (dispatchError as any)[`as${variant}`];
+    return {
+      pallet: variant.toLowerCase(),
+      error: inner?.type || String(inner),
+      docs: '',
+      raw,
+    };
+  }
+
+  return { pallet: 'system', error: variant, docs: '', raw };
+}
+
+/**
+ * Read the dispatch error from the system.ExtrinsicFailed event of an extrinsic
+ *
+ * @param events - Events belonging to the extrinsic
+ * @returns The DispatchError codec, or undefined if the extrinsic did not fail
+ */
+export function readExtrinsicFailed(events: BatchEventRecord[]): DispatchErrorLike | undefined {
+  const failed = events.find(
+    ({ event }) => event.section === 'system' && event.method === 'ExtrinsicFailed'
+  );
+  return failed?.event.data[0];
+}
+
+/**
+ * The short form stored as record.error, e.g. "balances.InsufficientBalance"
+ */
+export function formatDispatchError(info: DispatchErrorInfo): string {
+  return `${info.pallet}.${info.error}`;
+}
@@ -0,0 +1,124 @@
+import {
+  DistributionRecord,
+  DistributionReport,
+  DistributionSummary,
+  FailureHistogramEntry,
+  ResumeData,
+} from '../types';
+import { formatDispatchError } from './dispatch-error';
+
+const STATUSES: DistributionRecord['status'][] = [
+  'pending',
+  'processing',
+  'completed',
+  'finalized',
+  'failed',
+  'skipped',
+];
+
+/**
+ * Break a saved distribution down by record status, with every failed record listed
+ */
+export function buildDistributionReport(resumeData: ResumeData): DistributionReport {
+  const byStatus = Object.fromEntries(
+    STATUSES.map(status => [status, { count: 0, amount: 0n }])
+  ) as DistributionReport['byStatus'];
+
+  let feesPaid = 0n;
+  const failures: DistributionReport['failures'] = [];
+
+  resumeData.records.forEach((record, index) => {
+    byStatus[record.status].count++;
+    byStatus[record.status].amount += record.amount;
+    feesPaid += record.feePaid || 0n;
+
+    if (record.status === 'failed') {
+      failures.push({
+        index,
+        sourceRowNumber: record.sourceRowNumber,
+        address: record.address,
+        amount: record.amount,
+        attempts: record.attempts || 0,
+        error: record.error,
+        dispatchError: record.dispatchError,
+        metadata: record.metadata,
+      });
+    }
+  });
+
+  return {
+    sourceFilename: resumeData.sourceFilename,
+    savedAt: resumeData.timestamp,
+    totalRecords: resumeData.records.length,
+    byStatus,
+    feesPaid,
+    failures,
+    failureHistogram: buildFailureHistogram(resumeData.records),
+  };
+}
+
+/**
+ * Group the failed records by error, most frequent first
+ */
+export function buildFailureHistogram(records: DistributionRecord[]): FailureHistogramEntry[] {
+  const entries = new Map<string, FailureHistogramEntry>();
+
+  for (const record of records) {
+    if (record.status !== 'failed') {
+      continue;
+    }
+
+    const error = record.dispatchError
+      ? formatDispatchError(record.dispatchError)
+      : record.error || 'Unknown error';
+    const entry = entries.get(error) || { error, count: 0, amount: 0n };
+    entry.count++;
+    entry.amount += record.amount;
+    entries.set(error, entry);
+  }
+
+  return [...entries.values()].sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Totals of a streamed distribution so far, from those of its earlier chunks and the latest.
+ * The outcome (end time, abort, circuit breaker) is the latest chunk's.
+ */
+export function combineSummaries(
+  earlier: DistributionSummary | undefined,
+  latest: DistributionSummary
+): DistributionSummary {
+  if (!earlier) {
+    return latest;
+  }
+
+  const histogram = new Map<string, FailureHistogramEntry>();
+  for (const entry of [...(earlier.failureHistogram ?? []), ...(latest.failureHistogram ?? [])]) {
+    const combined = histogram.get(entry.error) || { error: entry.error, count: 0, amount: 0n };
+    combined.count += entry.count;
+    combined.amount += entry.amount;
+    histogram.set(entry.error, combined);
+  }
+
+  return {
+    totalRecords: earlier.totalRecords + latest.totalRecords,
+    completed: earlier.completed + latest.completed,
+    failed: earlier.failed + latest.failed,
+    skipped: earlier.skipped + latest.skipped,
+    totalAmount: earlier.totalAmount + latest.totalAmount,
+    distributedAmount: earlier.distributedAmount + latest.distributedAmount,
+    failedAmount: earlier.failedAmount + latest.failedAmount,
+    feesPaid: earlier.feesPaid + latest.feesPaid,
+    startTime: earlier.startTime,
+    endTime: latest.endTime,
+    resumedFrom: earlier.resumedFrom,
+    abortedByUser: latest.abortedByUser,
+    existentialDepositDecisions: [
+      ...earlier.existentialDepositDecisions,
+      ...latest.existentialDepositDecisions,
+    ],
+    failureHistogram:
+      histogram.size > 0 ? [...histogram.values()].sort((a, b) => b.count - a.count) : undefined,
+    circuitBreaker: latest.circuitBreaker,
+  };
+}
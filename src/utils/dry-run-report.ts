@@ -0,0 +1,49 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { shannonsToAi3 } from '@autonomys/auto-utils';
+import { DryRunReport } from '../types';
+
+/**
+ * Write the per-row dry run report next to the transaction logs
+ * @returns Path of the written CSV file
+ */
+export async function writeDryRunReport(
+  report: DryRunReport,
+  sourceFilename: string
+): Promise<string> {
+  const baseName = path.basename(sourceFilename, path.extname(sourceFilename));
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const reportPath = path.join('logs', `${baseName}-dry-run-${timestamp}.csv`);
+
+  const lines = [
+    'SourceFileRowNumber,Address,Amount,Fee,Result,Error,Label,Reference,Category,Note',
+  ];
+  for (const row of report.records) {
+    lines.push(
+      [
+        row.sourceRowNumber || 0,
+        escapeCSVField(row.address),
+        shannonsToAi3(row.amount),
+        shannonsToAi3(row.fee),
+        row.success ? 'ok' : 'fail',
+        escapeCSVField(row.error || ''),
+        escapeCSVField(row.metadata?.label || ''),
+        escapeCSVField(row.metadata?.reference || ''),
+        escapeCSVField(row.metadata?.category || ''),
+        escapeCSVField(row.metadata?.note || ''),
+      ].join(',')
+    );
+  }
+
+  await fs.ensureDir(path.dirname(reportPath));
+  await fs.writeFile(reportPath, `${lines.join('\n')}\n`);
+
+  return reportPath;
+}
+
+function escapeCSVField(field: string): string {
+  if (field.includes(',') || field.includes('"') || field.includes('\n')) {
+    return `"${field.replace(/"/g, '""')}"`;
+  }
+  return field;
+}
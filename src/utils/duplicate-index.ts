@@ -0,0 +1,136 @@
+import Database from 'better-sqlite3';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Every source row for one recipient, with their amounts summed
+ */
+export interface RecipientRows {
+  address: string;
+  rows: number[]; // In file order; the first is where a merged record is sent from
+  total: bigint; // Shannon amount as bigint
+}
+
+interface RecipientRow {
+  address: string;
+  row_count: number;
+  total: string;
+  rows: string;
+}
+
+const WRITES_PER_TRANSACTION = 10000;
+
+/**
+ * Recipients seen in a CSV file, kept in a temporary SQLite database rather than in memory so
+ * that duplicates are found exactly in files of millions of rows. Addresses must be canonical,
+ * so the same account written in different SS58 encodings is one recipient.
+ *
+ * Nothing here needs to survive a crash: the index is rebuilt from the file whenever it is
+ * needed, and its directory is removed on close.
+ */
+export class DuplicateIndex {
+  private dir: string;
+  private db: Database.Database;
+  private findRecipient: Database.Statement<[string], RecipientRow>;
+  private insertRecipient: Database.Statement<[string, number, string, string]>;
+  private updateRecipient: Database.Statement<[string, string, string]>;
+  private pendingWrites = 0;
+
+  constructor() {
+    this.dir = fs.mkdtempSync(path.join(os.tmpdir(), 'duplicate-index-'));
+    this.db = new Database(path.join(this.dir, 'recipients.sqlite'));
+    this.db.pragma('journal_mode = OFF');
+    this.db.pragma('synchronous = OFF');
+    this.db.exec(`
+      CREATE TABLE recipients (
+        address TEXT PRIMARY KEY,
+        first_row INTEGER NOT NULL,
+        row_count INTEGER NOT NULL,
+        total TEXT NOT NULL,
+        rows TEXT NOT NULL
+      )
+    `);
+
+    this.findRecipient = this.db.prepare('SELECT * FROM recipients WHERE address = ?');
+    this.insertRecipient = this.db.prepare(
+      'INSERT INTO recipients (address, first_row, row_count, total, rows) VALUES (?, ?, 1, ?, ?)'
+    );
+    this.updateRecipient = this.db.prepare(
+      'UPDATE recipients SET row_count = row_count + 1, total = ?, rows = ? WHERE address = ?'
+    );
+  }
+
+  /**
+   * @returns true if the recipient was already on an earlier row
+   */
+  add(address: string, rowNumber: number, amount: bigint): boolean {
+    if (this.pendingWrites === 0) {
+      this.db.exec('BEGIN');
+    }
+
+    const existing = this.findRecipient.get(address);
+    if (existing) {
+      const total = (BigInt(existing.total) + amount).toString();
+      this.updateRecipient.run(total, `${existing.rows},${rowNumber}`, address);
+    } else {
+      this.insertRecipient.run(address, rowNumber, amount.toString(), String(rowNumber));
+    }
+
+    if (++this.pendingWrites >= WRITES_PER_TRANSACTION) {
+      this.flush();
+    }
+    return existing !== undefined;
+  }
+
+  lookup(address: string): RecipientRows | undefined {
+    this.flush();
+    const row = this.findRecipient.get(address);
+    return row && this.toRecipientRows(row);
+  }
+
+  /**
+   * Recipients on more than one row, in the order they first appear
+   * @param limit - Most to return; countDuplicates has them all
+   */
+  duplicates(limit = Number.MAX_SAFE_INTEGER): RecipientRows[] {
+    this.flush();
+    const rows = this.db
+      .prepare('SELECT * FROM recipients WHERE row_count > 1 ORDER BY first_row LIMIT ?')
+      .all(limit) as RecipientRow[];
+    return rows.map(row => this.toRecipientRows(row));
+  }
+
+  /**
+   * Recipients on more than one row, and the rows beyond the first of each
+   */
+  countDuplicates(): { recipients: number; extraRows: number } {
+    this.flush();
+    return this.db
+      .prepare(
+        `SELECT COUNT(*) AS recipients, COALESCE(SUM(row_count - 1), 0) AS extraRows
+         FROM recipients WHERE row_count > 1`
+      )
+      .get() as { recipients: number; extraRows: number };
+  }
+
+  close(): void {
+    this.db.close();
+    fs.removeSync(this.dir);
+  }
+
+  private flush(): void {
+    if (this.pendingWrites > 0) {
+      this.db.exec('COMMIT');
+      this.pendingWrites = 0;
+    }
+  }
+
+  private toRecipientRows(row: RecipientRow): RecipientRows {
+    return {
+      address: row.address,
+      rows: row.rows.split(',').map(Number),
+      total: BigInt(row.total),
+    };
+  }
+}
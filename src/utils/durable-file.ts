@@ -0,0 +1,55 @@
+/**
+ * File writes that survive a crash or power loss at any point
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+
+/**
+ * Replace a file so that readers see either the old or the new content in full, never a
+ * partial write: the data goes to a temporary file that is fsynced and then renamed over
+ * the target.
+ */
+export async function writeFileAtomic(filepath: string, data: string): Promise<void> {
+  const tempPath = `${filepath}.tmp`;
+
+  const fd = await fs.open(tempPath, 'w');
+  try {
+    await fs.write(fd, data);
+    await fs.fsync(fd);
+  } finally {
+    await fs.close(fd);
+  }
+
+  await fs.rename(tempPath, filepath);
+  await syncDirectory(path.dirname(filepath));
+}
+
+/**
+ * Append to a file and wait until the data is on disk
+ */
+export async function appendFileDurable(filepath: string, data: string): Promise<void> {
+  const fd = await fs.open(filepath, 'a');
+  try {
+    await fs.write(fd, data);
+    await fs.fsync(fd);
+  } finally {
+    await fs.close(fd);
+  }
+}
+
+// Make the rename itself durable. Not every platform can fsync a directory (Windows cannot),
+// where the rename is as durable as the OS makes it.
+async function syncDirectory(directory: string): Promise<void> {
+  let fd: number | undefined;
+  try {
+    fd = await fs.open(directory, 'r');
+    await fs.fsync(fd);
+  } catch {
+    // Best effort
+  } finally {
+    if (fd !== undefined) {
+      await fs.close(fd);
+    }
+  }
+}
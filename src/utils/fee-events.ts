@@ -0,0 +1,38 @@
+import { BatchEventRecord } from './batch-results';
+
+export interface FeePaid {
+  fee: bigint; // Actual fee charged in Shannon, tip included
+  tip: bigint; // Tip part of the fee in Shannon
+}
+
+/**
+ * Read the actual fee from the transactionPayment.TransactionFeePaid event of an extrinsic.
+ * The event carries (who, actualFee, tip) and is emitted for successful and failed dispatches.
+ *
+ * @param events - Events belonging to the extrinsic
+ * @returns The fee paid, or undefined if the event is missing
+ */
+export function readFeePaid(events: BatchEventRecord[]): FeePaid | undefined {
+  const feeEvent = events.find(
+    ({ event }) => event.section === 'transactionPayment' && event.method === 'TransactionFeePaid'
+  );
+
+  if (!feeEvent) {
+    return undefined;
+  }
+
+  const [, actualFee, tip] = feeEvent.event.data;
+  return {
+    fee: BigInt(actualFee.toString()),
+    tip: BigInt(tip.toString()),
+  };
+}
+
+/**
+ * Split the fee of a batch extrinsic across its calls; any remainder goes to the first call
+ * so the shares always add up to the fee actually paid.
+ */
+export function splitFee(fee: bigint, itemCount: number): bigint[] {
+  const count = BigInt(itemCount);
+  return Array.from({ length: itemCount }, (_, i) => fee / count + (i === 0 ? fee % count : 0n));
+}
@@ -0,0 +1,354 @@
+import fs from 'fs-extra';
+import path from 'path';
+import readline from 'readline';
+import csv from 'csv-parser';
+import { CSVInputConfig, InputFormat, RecordMetadata } from '../types';
+import {
+  CSVFormat,
+  CSVFormatError,
+  DEFAULT_CSV_INPUT,
+  METADATA_COLUMNS,
+  csvParserOptions,
+  describeCSVFormat,
+  detectCSVFormat,
+  readStreamOptions,
+} from './csv-format';
+import { CSVRow, readCSVRows, toCSVRow } from './csv-stream';
+
+/**
+ * A distribution entry as read from any input file, before it is validated
+ */
+export interface InputRow extends CSVRow {
+  error?: string; // Why the entry could not be read at all
+}
+
+/**
+ * A distribution file, read the same way whatever its format. Rows are numbered from 1: by
+ * line in CSV and NDJSON files, by position in a JSON array.
+ */
+export interface InputSource {
+  readonly format: InputFormat;
+
+  /**
+   * One line about how the file is read, for the logs
+   */
+  describe(): string;
+
+  /**
+   * Things about the detected layout worth a validation warning
+   */
+  notes(): string[];
+
+  /**
+   * Where a row is in the file, as validation messages start
+   */
+  locate(_rowNumber: number): string;
+
+  /**
+   * Every row in order; resolves once the whole file is read
+   */
+  forEachRow(_onRow: (_row: InputRow) => void): Promise<void>;
+
+  /**
+   * The rows one at a time, reading only as fast as the consumer takes them
+   */
+  rows(_fromRow?: number): AsyncGenerator<InputRow>;
+}
+
+export interface InputSourceOptions {
+  format?: InputFormat | 'auto'; // default auto, by file extension
+  csv?: CSVInputConfig; // default DEFAULT_CSV_INPUT
+  amountAliases?: string[]; // Further header names and JSON fields the amount is read from
+}
+
+/**
+ * The file cannot be read as a distribution file of its format
+ */
+export class InputFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InputFormatError';
+  }
+}
+
+/**
+ * The format of a file: as configured, or else by extension (.json, .ndjson or .jsonl; CSV
+ * otherwise)
+ */
+export function detectInputFormat(
+  filePath: string,
+  configured: InputFormat | 'auto' = 'auto'
+): InputFormat {
+  if (configured !== 'auto') {
+    return configured;
+  }
+
+  const extension = path.extname(filePath).toLowerCase();
+  if (extension === '.json') {
+    return 'json';
+  }
+  if (extension === '.ndjson' || extension === '.jsonl') {
+    return 'ndjson';
+  }
+  return 'csv';
+}
+
+/**
+ * Open a distribution file for reading
+ * @throws InputFormatError if the file cannot be read as its format
+ */
+export async function openInputSource(
+  filePath: string,
+  options: InputSourceOptions = {}
+): Promise<InputSource> {
+  const format = detectInputFormat(filePath, options.format);
+  const amountAliases = options.amountAliases ?? [];
+
+  if (format === 'json') {
+    return JSONArraySource.open(filePath, amountAliases);
+  }
+  if (format === 'ndjson') {
+    return new NDJSONSource(filePath, amountAliases);
+  }
+
+  const input = options.csv ?? DEFAULT_CSV_INPUT;
+  try {
+    return new CSVSource(filePath, await detectCSVFormat(filePath, input, amountAliases), input);
+  } catch (error) {
+    if (error instanceof CSVFormatError) {
+      throw new InputFormatError(error.message);
+    }
+    throw error;
+  }
+}
+
+class CSVSource implements InputSource {
+  readonly format = 'csv';
+
+  constructor(
+    private _filePath: string,
+    private _csvFormat: CSVFormat,
+    private _input: CSVInputConfig
+  ) {}
+
+  describe(): string {
+    return `CSV, ${describeCSVFormat(this._csvFormat)}`;
+  }
+
+  notes(): string[] {
+    // Make sure a data row was not taken for the header
+    return this._csvFormat.hasHeader && this._input.header === 'auto'
+      ? [`Line 1 read as a header row: ${describeCSVFormat(this._csvFormat)}`]
+      : [];
+  }
+
+  locate(rowNumber: number): string {
+    return `Line ${rowNumber}`;
+  }
+
+  forEachRow(onRow: (_row: InputRow) => void): Promise<void> {
+    let rowNumber = this._csvFormat.hasHeader ? 1 : 0;
+
+    return new Promise((resolve, reject) => {
+      const stream = fs
+        .createReadStream(this._filePath, readStreamOptions(this._csvFormat))
+        .pipe(csv(csvParserOptions(this._csvFormat)));
+
+      stream.on('data', (row: any) => {
+        rowNumber++;
+        onRow(toCSVRow(row, rowNumber));
+      });
+      stream.on('end', () => resolve());
+      stream.on('error', reject);
+    });
+  }
+
+  rows(fromRow = 1): AsyncGenerator<InputRow> {
+    return readCSVRows(this._filePath, fromRow, this._csvFormat);
+  }
+}
+
+/**
+ * A JSON array of entries. The whole file is parsed at once, so very large distributions are
+ * better written as NDJSON.
+ */
+class JSONArraySource implements InputSource {
+  readonly format = 'json';
+
+  private constructor(
+    private _entries: unknown[],
+    private _amountAliases: string[]
+  ) {}
+
+  static async open(filePath: string, amountAliases: string[] = []): Promise<JSONArraySource> {
+    const text = stripBom(await fs.readFile(filePath, 'utf8'));
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      throw new InputFormatError(
+        `Not a valid JSON file: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    if (!Array.isArray(parsed)) {
+      throw new InputFormatError('A JSON distribution file must hold an array of entries');
+    }
+    return new JSONArraySource(parsed, amountAliases);
+  }
+
+  describe(): string {
+    return `JSON array of ${this._entries.length} entries`;
+  }
+
+  notes(): string[] {
+    return [];
+  }
+
+  locate(rowNumber: number): string {
+    return `Item ${rowNumber} (/${rowNumber - 1})`;
+  }
+
+  async forEachRow(onRow: (_row: InputRow) => void): Promise<void> {
+    this._entries.forEach((entry, index) =>
+      onRow(toInputRow(entry, index + 1, this._amountAliases))
+    );
+  }
+
+  async *rows(fromRow = 1): AsyncGenerator<InputRow> {
+    for (let index = fromRow - 1; index < this._entries.length; index++) {
+      yield toInputRow(this._entries[index], index + 1, this._amountAliases);
+    }
+  }
+}
+
+/**
+ * One JSON entry per line. Blank lines are skipped, but still counted.
+ */
+class NDJSONSource implements InputSource {
+  readonly format = 'ndjson';
+
+  constructor(
+    private _filePath: string,
+    private _amountAliases: string[] = []
+  ) {}
+
+  describe(): string {
+    return 'NDJSON, one entry per line';
+  }
+
+  notes(): string[] {
+    return [];
+  }
+
+  locate(rowNumber: number): string {
+    return `Line ${rowNumber}`;
+  }
+
+  async forEachRow(onRow: (_row: InputRow) => void): Promise<void> {
+    for await (const row of this.rows()) {
+      onRow(row);
+    }
+  }
+
+  async *rows(fromRow = 1): AsyncGenerator<InputRow> {
+    const lines = readline.createInterface({
+      input: fs.createReadStream(this._filePath, { encoding: 'utf8' }),
+      crlfDelay: Infinity,
+    });
+
+    let rowNumber = 0;
+    for await (const line of lines) {
+      rowNumber++;
+      const text = rowNumber === 1 ? stripBom(line).trim() : line.trim();
+      if (rowNumber < fromRow || !text) {
+        continue;
+      }
+
+      let entry: unknown;
+      try {
+        entry = JSON.parse(text);
+      } catch (error) {
+        yield {
+          rowNumber,
+          error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+        };
+        continue;
+      }
+      yield toInputRow(entry, rowNumber, this._amountAliases);
+    }
+  }
+}
+
+function stripBom(text: string): string {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+/**
+ * Read one JSON entry: `address`, and `amount` as a decimal string in `unit` (AI3 by default)
+ * or `amountShannons` as an integer Shannon string, with the optional metadata fields. Amounts
+ * given as JSON numbers are refused, as they may already have lost precision. Without an
+ * `amount` field, the first of `amountAliases` present is read instead, and may be a whole number.
+ */
+function toInputRow(entry: unknown, rowNumber: number, amountAliases: string[] = []): InputRow {
+  if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+    return { rowNumber, error: 'Entry must be an object with an address and an amount' };
+  }
+  const fields = entry as Record<string, unknown>;
+
+  const address = fields.address;
+  if (address !== undefined && typeof address !== 'string') {
+    return { rowNumber, error: 'Address must be a string' };
+  }
+  if (fields.amount !== undefined && fields.amountShannons !== undefined) {
+    return { rowNumber, error: 'Give either amount or amountShannons, not both' };
+  }
+
+  const inShannons = fields.amountShannons !== undefined;
+  const alias = amountAliases.find(field => fields[field] !== undefined);
+  const name = inShannons
+    ? 'amountShannons'
+    : fields.amount === undefined && alias
+      ? alias
+      : 'amount';
+  // A whole number within the safe range is exact in JSON, so a weight may be given as one
+  const value = fields[name];
+  const amount = name === alias && Number.isSafeInteger(value) ? String(value) : value;
+  if (typeof amount === 'number') {
+    return {
+      rowNumber,
+      error: `The ${name} must be a string, as JSON numbers can lose precision: write "${amount}"`,
+    };
+  }
+  if (amount !== undefined && typeof amount !== 'string') {
+    return { rowNumber, error: `The ${name} must be a string` };
+  }
+  const unit = fields.unit;
+  if (unit !== undefined && (typeof unit !== 'string' || inShannons)) {
+    return { rowNumber, error: 'The unit must be a string, and amountShannons takes none' };
+  }
+
+  const row: InputRow = {
+    rowNumber,
+    address: address?.trim(),
+    amount: amount?.trim(),
+  };
+  if (inShannons) {
+    row.unit = 'shannon';
+  } else if (unit?.trim()) {
+    row.unit = unit.trim();
+  }
+
+  for (const column of METADATA_COLUMNS) {
+    const value = fields[column];
+    if (typeof value === 'string' || typeof value === 'number') {
+      const text = String(value).trim();
+      if (text) {
+        row.metadata = { ...row.metadata, [column]: text } as RecordMetadata;
+      }
+    } else if (value !== undefined && value !== null) {
+      return { rowNumber, error: `The ${column} must be a string` };
+    }
+  }
+  return row;
+}
@@ -4,16 +4,20 @@ import fs from 'fs-extra';
 import { AppConfig } from '../types';
 import { bigIntReplacer } from './bigint-json';
 
+export interface LoggerOptions {
+  consoleToStderr?: boolean; // Keep stdout free for machine-readable output (--json)
+}
+
 class Logger {
   private winston!: winston.Logger;
   private logDir: string;
 
-  constructor(config: AppConfig) {
+  constructor(config: AppConfig, options: LoggerOptions = {}) {
     this.logDir = path.join(process.cwd(), 'logs');
-    this.setupLogger(config);
+    this.setupLogger(config, options);
   }
 
-  private setupLogger(config: AppConfig): void {
+  private setupLogger(config: AppConfig, options: LoggerOptions): void {
     // Ensure logs directory exists synchronously if needed
     if (config.logToFile) {
       try {
@@ -27,6 +31,9 @@ class Logger {
 
     const transports: winston.transport[] = [
       new winston.transports.Console({
+        stderrLevels: options.consoleToStderr
+          ? ['error', 'warn', 'info', 'verbose', 'debug']
+          : undefined,
         format: winston.format.combine(
           winston.format.colorize(),
           winston.format.timestamp({ format: 'YYYY-MM-DD HH:mm:ss' }),
@@ -0,0 +1,9 @@
+import { DistributionRecord } from '../types';
+
+/**
+ * Whether a record's transfer has landed on chain ('completed') or is final ('finalized').
+ * Settled records are never sent again.
+ */
+export function isRecordSettled(record: DistributionRecord): boolean {
+  return record.status === 'completed' || record.status === 'finalized';
+}
@@ -0,0 +1,45 @@
+/**
+ * Run identifiers, which keep the saved state of different distributions apart
+ */
+
+import { createHash } from 'crypto';
+import fs from 'fs-extra';
+import { RunInfo } from '../types';
+
+const RUN_ID_LENGTH = 16; // Hex digits
+
+/**
+ * SHA-256 of the file, streamed through the hash so memory use does not grow with its size
+ */
+export async function hashFile(filepath: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of fs.createReadStream(filepath)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * The same CSV contents sent on the same network from the same account always get the same
+ * ID, whatever the file is called; changing any of them starts a different run.
+ */
+export function computeRunId(csvHash: string, network: string, distributorAddress: string): string {
+  return createHash('sha256')
+    .update(`${csvHash}:${network}:${distributorAddress}`)
+    .digest('hex')
+    .slice(0, RUN_ID_LENGTH);
+}
+
+export async function createRunInfo(
+  csvPath: string,
+  network: string,
+  distributorAddress: string
+): Promise<RunInfo> {
+  const csvHash = await hashFile(csvPath);
+  return {
+    id: computeRunId(csvHash, network, distributorAddress),
+    csvHash,
+    network,
+    distributorAddress,
+  };
+}
@@ -0,0 +1,91 @@
+import fs from 'fs-extra';
+import path from 'path';
+import csv from 'csv-parser';
+import { ai3ToShannons } from '@autonomys/auto-utils';
+import { DispatchErrorInfo } from '../types';
+
+/**
+ * One line of a transaction log written by CSVTransactionLogger
+ */
+export interface LoggedTransaction {
+  line: number; // Line in the log file, the header being line 1
+  sourceRowNumber: number;
+  address: string;
+  amount: bigint; // Shannon amount as bigint
+  status: string;
+  feePaid?: bigint; // Over all attempts so far, in Shannon
+  transactionHash?: string;
+  error?: string;
+  dispatchError?: DispatchErrorInfo;
+}
+
+export interface TransactionLog {
+  filePath: string;
+  startedAt: Date; // When the distribution session that wrote it started
+  entries: LoggedTransaction[];
+  unreadableLines: number[]; // Skipped; a crash can leave the last line half written
+}
+
+/**
+ * Read a `<csv name>-transactions-<time>.csv` log back into its entries
+ */
+export async function readTransactionLog(filePath: string): Promise<TransactionLog> {
+  const entries: LoggedTransaction[] = [];
+  const unreadableLines: number[] = [];
+
+  const rows = fs.createReadStream(filePath).pipe(csv());
+  let line = 1;
+  for await (const row of rows) {
+    line++;
+    try {
+      entries.push(parseLogRow(row, line));
+    } catch {
+      unreadableLines.push(line);
+    }
+  }
+
+  return {
+    filePath,
+    startedAt: logStartTime(filePath) ?? (await fs.stat(filePath)).mtime,
+    entries,
+    unreadableLines,
+  };
+}
+
+/**
+ * The session start CSVTransactionLogger put in the file name, if it is still there
+ */
+export function logStartTime(filePath: string): Date | undefined {
+  const match = path
+    .basename(filePath)
+    .match(/-transactions-(\d{4}-\d{2}-\d{2}T\d{2})-(\d{2})-(\d{2})-(\d{3})Z\.csv$/);
+  return match ? new Date(`${match[1]}:${match[2]}:${match[3]}.${match[4]}Z`) : undefined;
+}
+
+function parseLogRow(row: Record<string, string>, line: number): LoggedTransaction {
+  const sourceRowNumber = Number(row.SourceFileRowNumber);
+  if (!Number.isInteger(sourceRowNumber) || sourceRowNumber < 1 || !row.Address || !row.Status) {
+    throw new Error(`Unreadable log line ${line}`);
+  }
+
+  const entry: LoggedTransaction = {
+    line,
+    sourceRowNumber,
+    address: row.Address,
+    amount: ai3ToShannons(row.Amount),
+    status: row.Status,
+    feePaid: row.Fee ? ai3ToShannons(row.Fee) : undefined,
+    transactionHash:
+      row.TransactionHash && row.TransactionHash !== 'unknown' ? row.TransactionHash : undefined,
+    error: row.Error || undefined,
+  };
+  if (row.ErrorPallet) {
+    entry.dispatchError = {
+      pallet: row.ErrorPallet,
+      error: row.ErrorName,
+      docs: row.ErrorDocs || '',
+      raw: row.ErrorRaw || '',
+    };
+  }
+  return entry;
+}
@@ -1,5 +1,4 @@
 import fs from 'fs-extra';
-import csv from 'csv-parser';
 import Joi from 'joi';
 import { decodeAddress, encodeAddress } from '@polkadot/util-crypto';
 import { 
@@ -9,8 +8,20 @@ import {
   meetsConsensusExistentialDepositAi3,
   DEFAULT_CONSENSUS_EXISTENTIAL_DEPOSIT_SHANNONS
 } from '@autonomys/auto-utils';
-import { DistributionRecord, ValidationResult } from '../types';
+import {
+  AmountInputConfig,
+  CSVInputConfig,
+  DistributionRecord,
+  DuplicatePolicy,
+  InputFormat,
+  RoundedAmount,
+  ValidationResult,
+} from '../types';
 import Logger from './logger';
+import { DEFAULT_CSV_INPUT } from './csv-format';
+import { AmountFormatError, DEFAULT_AMOUNT_INPUT, ParsedAmount, parseAmount } from './amount';
+import { InputFormatError, InputRow, InputSource, openInputSource } from './input-source';
+import { DuplicateIndex } from './duplicate-index';
 
 export class ValidationError extends Error {
   constructor(
@@ -98,27 +109,28 @@ function getAddressNetworkInfo(address: string): { prefix: number; network: stri
   }
 }
 
+/**
+ * Re-encode an address with the network's SS58 prefix.
+ * The same account written as "su..." or "5..." comes out identical.
+ */
+function toCanonicalAddress(address: string, ss58Format: number): string {
+  return encodeAddress(decodeAddress(address), ss58Format);
+}
+
+/**
+ * A positive amount in AI3 with at most 18 decimals, as parseAmount reads it by default
+ */
 function isValidAmount(amount: string): boolean {
   if (!amount || typeof amount !== 'string') {
     return false;
   }
 
-  amount = amount.trim();
-
-  // Check if it's a valid decimal number
-  const numberRegex = /^\d+(\.\d+)?$/;
-  if (!numberRegex.test(amount)) {
+  try {
+    parseAmount(amount);
+    return true;
+  } catch (error) {
     return false;
   }
-
-  // Validate that it represents a positive number
-  // Check for zero (all zeros with optional decimal point and trailing zeros)
-  if (/^0+(\.0+)?$/.test(amount)) {
-    return false; // Zero is not valid
-  }
-
-  // For valid non-zero numbers, the regex already ensures it's a valid decimal format
-  return true;
 }
 
 /**
@@ -132,11 +144,68 @@ function meetsExistentialDeposit(amount: string): boolean {
     return meetsConsensusExistentialDepositAi3(amount);
 }
 
+export interface CSVValidatorOptions {
+  duplicatePolicy?: DuplicatePolicy; // default keep
+  ss58Format?: number; // default 6094 (Autonomys)
+  format?: InputFormat | 'auto'; // default auto, by file extension
+  input?: CSVInputConfig; // CSV files only; default DEFAULT_CSV_INPUT, everything detected
+  amounts?: AmountInputConfig; // default DEFAULT_AMOUNT_INPUT, AI3 and strict
+}
+
+// Most errors, warnings and duplicates a streamed validation keeps; the rest are counted
+const MAX_STREAMED_MESSAGES = 100;
+
+/**
+ * Validation messages, keeping up to `limit` and counting the rest
+ */
+class MessageLog {
+  private messages: string[] = [];
+  private count = 0;
+
+  constructor(private _limit = Number.MAX_SAFE_INTEGER) {}
+
+  push(message: string): void {
+    this.count++;
+    if (this.messages.length < this._limit) {
+      this.messages.push(message);
+    }
+  }
+
+  get total(): number {
+    return this.count;
+  }
+
+  list(kind: string): string[] {
+    const omitted = this.count - this.messages.length;
+    return omitted > 0 ? [...this.messages, `... and ${omitted} more ${kind}`] : this.messages;
+  }
+}
+
+interface RowChecks {
+  errors: MessageLog;
+  warnings: MessageLog;
+  rounded: RoundedAmount[];
+  roundedCount: number;
+  roundedLimit: number;
+  autonomysCount: number;
+  substrateCount: number;
+}
+
 export class CSVValidator {
   private logger: Logger;
+  private duplicatePolicy: DuplicatePolicy;
+  private ss58Format: number;
+  private format: InputFormat | 'auto';
+  private input: CSVInputConfig;
+  private amounts: AmountInputConfig;
 
-  constructor(logger: Logger) {
+  constructor(logger: Logger, options: CSVValidatorOptions = {}) {
     this.logger = logger;
+    this.duplicatePolicy = options.duplicatePolicy || 'keep';
+    this.ss58Format = options.ss58Format ?? 6094;
+    this.format = options.format ?? 'auto';
+    this.input = options.input ?? DEFAULT_CSV_INPUT;
+    this.amounts = options.amounts ?? DEFAULT_AMOUNT_INPUT;
   }
 
   async validateCSV(filePath: string): Promise<ValidationResult> {
@@ -146,202 +215,467 @@ export class CSVValidator {
       throw new ValidationError('CSV file does not exist', [filePath]);
     }
 
-    const errors: string[] = [];
-    const warnings: string[] = [];
-    const records: DistributionRecord[] = [];
+    const checks: RowChecks = {
+      errors: new MessageLog(),
+      warnings: new MessageLog(),
+      rounded: [],
+      roundedCount: 0,
+      roundedLimit: Number.MAX_SAFE_INTEGER,
+      autonomysCount: 0,
+      substrateCount: 0,
+    };
+    const source = await this.checkSource(filePath, checks);
+    if (!source) {
+      return this.finishValidation(checks, [], 0, 0n);
+    }
+
     const addressMap = new Map<string, number[]>();
+    let recordCount = 0;
     let totalAmountShannon = BigInt(0);
-    let currentLineNumber = 0;
-    let autonomysCount = 0;
-    let substrateCount = 0;
-
-    return new Promise((resolve, reject) => {
-      const stream = fs.createReadStream(filePath).pipe(
-        csv({
-          headers: ['address', 'amount'],
-        })
-      );
 
-      stream.on('data', (row: any) => {
-        currentLineNumber++;
-
-        try {
-          const address = row.address?.trim();
-          const amount = row.amount?.trim();
+    try {
+      await source.forEachRow(row => {
+        const record = this.checkRow(row, source, checks);
+        if (!record) {
+          return;
+        }
 
-          // Validate required fields
-          if (!address) {
-            errors.push(`Line ${currentLineNumber}: Address is required`);
-            return;
-          }
+        // Track duplicate recipients by canonical address, so that the same account
+        // written in different SS58 encodings is caught too
+        if (addressMap.has(record.address)) {
+          addressMap.get(record.address)!.push(row.rowNumber);
+        } else {
+          addressMap.set(record.address, [row.rowNumber]);
+        }
 
-          if (!amount) {
-            errors.push(`Line ${currentLineNumber}: Amount is required`);
-            return;
-          }
+        recordCount++;
+        totalAmountShannon += record.amount;
+      });
+    } catch (error) {
+      this.logger.error('Error reading CSV file', error);
+      throw new ValidationError('Failed to read CSV file', [
+        error instanceof Error ? error.message : String(error),
+      ]);
+    }
 
-          // Validate address format with detailed validation
-          if (!isValidAutonomysAddress(address)) {
-            errors.push(`Line ${currentLineNumber}: Invalid SS58 address format: ${address}`);
-            return;
-          }
+    // Check for duplicate addresses
+    const duplicates = [...addressMap.entries()]
+      .filter(([, indices]) => indices.length > 1)
+      .map(([address, indices]) => ({ address, indices }));
+    const mergedAway = this.reportDuplicates(duplicates, checks);
 
-          // Get network info and track address types
-          const networkInfo = getAddressNetworkInfo(address);
-          if (networkInfo) {
-            if (networkInfo.network === 'Autonomys') {
-              autonomysCount++;
-            } else if (networkInfo.network === 'Substrate') {
-              substrateCount++;
-            }
-          }
+    return this.finishValidation(checks, duplicates, recordCount - mergedAway, totalAmountShannon);
+  }
 
-          // Validate amount format
-          if (!isValidAmount(amount)) {
-            errors.push(`Line ${currentLineNumber}: Invalid amount format: ${amount}`);
-            return;
-          }
+  /**
+   * Validate a CSV file of any size in bounded memory. Duplicates are found exactly through
+   * the on-disk index; only the first MAX_STREAMED_MESSAGES errors, warnings and duplicates
+   * are kept in the result, the rest are counted.
+   * @param duplicates - Index to fill, so it can be used again to merge duplicates while
+   * streaming the records; a temporary one is used without it
+   */
+  async validateCSVStream(
+    filePath: string,
+    duplicates?: DuplicateIndex
+  ): Promise<ValidationResult> {
+    this.logger.info('Starting streamed CSV validation', { filePath });
 
-          // Warn about amounts below existential deposit
-          if (!meetsExistentialDeposit(amount)) {
-            warnings.push(
-              `Line ${currentLineNumber}: Amount ${amount} AI3 is below existential deposit (${shannonsToAi3(DEFAULT_CONSENSUS_EXISTENTIAL_DEPOSIT_SHANNONS)} AI3). This may fail for new accounts or accounts with insufficient balance.`
-            );
-          }
+    if (!(await fs.pathExists(filePath))) {
+      throw new ValidationError('CSV file does not exist', [filePath]);
+    }
 
-          // Convert to Shannon for precise arithmetic
-          const shannonAmount = ai3ToShannons(amount);
+    const checks: RowChecks = {
+      errors: new MessageLog(MAX_STREAMED_MESSAGES),
+      warnings: new MessageLog(MAX_STREAMED_MESSAGES),
+      rounded: [],
+      roundedCount: 0,
+      roundedLimit: MAX_STREAMED_MESSAGES,
+      autonomysCount: 0,
+      substrateCount: 0,
+    };
+    const source = await this.checkSource(filePath, checks);
+    if (!source) {
+      return this.finishValidation(checks, [], 0, 0n);
+    }
 
-          // Check for very small amounts (less than 1000 Shannon)
-          if (shannonAmount < 1000n) {
-            warnings.push(
-              `Line ${currentLineNumber}: Very small amount (${amount} AI3 = ${shannonAmount} Shannon) - verify precision`
-            );
-          }
+    const index = duplicates ?? new DuplicateIndex();
+    let recordCount = 0;
+    let totalAmountShannon = 0n;
+
+    try {
+      for await (const row of source.rows()) {
+        const record = this.checkRow(row, source, checks);
+        if (record) {
+          index.add(record.address, row.rowNumber, record.amount);
+          recordCount++;
+          totalAmountShannon += record.amount;
+        }
+      }
 
-          // Check for very large amounts (> 1M AI3 in Shannon)
-          const millionAI3InShannon = ai3ToShannons('1000000');
-          if (shannonAmount > millionAI3InShannon) {
-            warnings.push(
-              `Line ${currentLineNumber}: Large amount (${amount}) - please verify this is correct`
-            );
-          }
+      const reported = index
+        .duplicates(MAX_STREAMED_MESSAGES)
+        .map(({ address, rows }) => ({ address, indices: rows }));
+      const counts = index.countDuplicates();
+      this.reportDuplicates(reported, checks);
+      if (counts.recipients > reported.length) {
+        const more = `${counts.recipients - reported.length} more duplicate recipient(s)`;
+        if (this.duplicatePolicy === 'reject') {
+          checks.errors.push(`... and ${more}`);
+        } else {
+          checks.warnings.push(`... and ${more}`);
+        }
+      }
+      const mergedAway = this.duplicatePolicy === 'merge' ? counts.extraRows : 0;
 
-          // Track duplicate addresses
-          if (addressMap.has(address)) {
-            addressMap.get(address)!.push(currentLineNumber);
-          } else {
-            addressMap.set(address, [currentLineNumber]);
-          }
+      return this.finishValidation(
+        checks,
+        reported,
+        recordCount - mergedAway,
+        totalAmountShannon
+      );
+    } catch (error) {
+      this.logger.error('Error reading CSV file', error);
+      throw new ValidationError('Failed to read CSV file', [
+        error instanceof Error ? error.message : String(error),
+      ]);
+    } finally {
+      if (!duplicates) {
+        index.close();
+      }
+    }
+  }
 
-          // Add to records
-          records.push({
-            address,
-            amount: shannonAmount,
-            status: 'pending',
-          });
+  /**
+   * The records of a validated CSV file, one at a time, for files too large to parse into
+   * memory. Rows keep their source row numbers.
+   * @param options.fromRow - First source row to read, to resume part way through the file
+   * @param options.duplicates - Index filled by validateCSVStream; needed to merge duplicates
+   */
+  async *streamValidatedCSV(
+    filePath: string,
+    options: { fromRow?: number; duplicates?: DuplicateIndex } = {}
+  ): AsyncGenerator<DistributionRecord> {
+    const merge = this.duplicatePolicy === 'merge';
+    if (merge && !options.duplicates) {
+      throw new Error('Merging duplicates while streaming needs the index built by validation');
+    }
 
-          totalAmountShannon += shannonAmount;
-        } catch (error) {
-          errors.push(`Line ${currentLineNumber}: Parsing error - ${error}`);
-        }
-      });
+    const source = await this.openSource(filePath);
+    for await (const row of source.rows(options.fromRow)) {
+      const { rowNumber } = row;
+      const record = this.toRecord(row);
+      if (!record) {
+        continue;
+      }
 
-      stream.on('end', () => {
-        // Check for duplicate addresses
-        const duplicates: { address: string; indices: number[] }[] = [];
-        for (const [address, indices] of addressMap.entries()) {
-          if (indices.length > 1) {
-            duplicates.push({ address, indices });
-            warnings.push(`Duplicate address found: ${address} on lines ${indices.join(', ')}`);
+      if (merge) {
+        // Later rows for a recipient were added to its first row
+        const recipient = options.duplicates!.lookup(record.address);
+        if (recipient && recipient.rows.length > 1) {
+          if (recipient.rows[0] !== rowNumber) {
+            continue;
           }
+          record.amount = recipient.total;
+          record.mergedRows = recipient.rows;
         }
+      }
 
-        // Additional validations
-        if (records.length === 0) {
-          errors.push('No valid records found in CSV file');
-        }
+      yield record;
+    }
+  }
+
+  private openSource(filePath: string): Promise<InputSource> {
+    return openInputSource(filePath, { format: this.format, csv: this.input });
+  }
+
+  /**
+   * Open the file, recording why it cannot be read if it cannot
+   * @returns The source, or undefined if the file cannot be read as configured
+   */
+  private async checkSource(filePath: string, checks: RowChecks): Promise<InputSource | undefined> {
+    let source: InputSource;
+    try {
+      source = await this.openSource(filePath);
+    } catch (error) {
+      if (error instanceof InputFormatError) {
+        checks.errors.push(error.message);
+        return undefined;
+      }
+      this.logger.error('Error reading CSV file', error);
+      throw new ValidationError('Failed to read CSV file', [
+        error instanceof Error ? error.message : String(error),
+      ]);
+    }
+
+    this.logger.info('Input format', { filePath, format: source.describe() });
+    source.notes().forEach(note => checks.warnings.push(note));
+    return source;
+  }
+
+  /**
+   * The record to send for a row, or undefined if the row is invalid
+   */
+  private toRecord(row: InputRow): DistributionRecord | undefined {
+    const { rowNumber, address, amount, metadata } = row;
+    if (row.error || !address || !amount || !isValidAutonomysAddress(address)) {
+      return undefined;
+    }
+
+    let parsed: ParsedAmount;
+    try {
+      parsed = parseAmount(amount, this.amounts, row.unit);
+    } catch (error) {
+      return undefined;
+    }
+
+    const record: DistributionRecord = {
+      address: toCanonicalAddress(address, this.ss58Format),
+      amount: parsed.shannons,
+      status: 'pending',
+      sourceRowNumber: rowNumber,
+    };
+    if (metadata) {
+      record.metadata = metadata;
+    }
+    return record;
+  }
+
+  /**
+   * Check one row, recording its errors and warnings
+   * @returns The record to send, or undefined if the row is invalid
+   */
+  private checkRow(
+    row: InputRow,
+    source: InputSource,
+    checks: RowChecks
+  ): { address: string; amount: bigint } | undefined {
+    const { errors, warnings } = checks;
+    const { address, amount } = row;
+    const location = source.locate(row.rowNumber);
+
+    try {
+      if (row.error) {
+        errors.push(`${location}: ${row.error}`);
+        return undefined;
+      }
 
-        if (totalAmountShannon === 0n) {
-          errors.push('Total distribution amount is zero');
+      // Validate required fields
+      if (!address) {
+        errors.push(`${location}: Address is required`);
+        return undefined;
+      }
+
+      if (!amount) {
+        errors.push(`${location}: Amount is required`);
+        return undefined;
+      }
+
+      // Validate address format with detailed validation
+      if (!isValidAutonomysAddress(address)) {
+        errors.push(`${location}: Invalid SS58 address format: ${address}`);
+        return undefined;
+      }
+
+      // Get network info and track address types
+      const networkInfo = getAddressNetworkInfo(address);
+      if (networkInfo) {
+        if (networkInfo.network === 'Autonomys') {
+          checks.autonomysCount++;
+        } else if (networkInfo.network === 'Substrate') {
+          checks.substrateCount++;
         }
+      }
 
-        const result: ValidationResult = {
-          isValid: errors.length === 0,
-          errors,
-          warnings,
-          duplicates,
-          totalAmount: totalAmountShannon,
-          recordCount: records.length,
-          addressStats: {
-            autonomysCount,
-            substrateCount,
-          },
-        };
-
-        this.logger.logValidationResults(result);
-
-        if (result.isValid) {
-          this.logger.info('CSV validation passed', {
-            recordCount: result.recordCount,
-            totalAmount: totalAmountShannon,
-            warningCount: warnings.length,
-          });
-        } else {
-          this.logger.error('CSV validation failed', {
-            errorCount: errors.length,
-            errors: errors.slice(0, 10), // Log first 10 errors
+      // Validate amount format, unit and precision
+      let parsed: ParsedAmount;
+      try {
+        parsed = parseAmount(amount, this.amounts, row.unit);
+      } catch (error) {
+        if (error instanceof AmountFormatError) {
+          errors.push(`${location}: ${error.message}`);
+          return undefined;
+        }
+        throw error;
+      }
+      const shannonAmount = parsed.shannons;
+      const ai3Amount = shannonsToAi3(shannonAmount);
+
+      if (parsed.rounded) {
+        checks.roundedCount++;
+        if (checks.rounded.length < checks.roundedLimit) {
+          checks.rounded.push({
+            rowNumber: row.rowNumber,
+            location,
+            amount,
+            roundedShannons: shannonAmount,
           });
         }
+      }
 
-        resolve(result);
-      });
+      // Warn about amounts below existential deposit
+      if (!meetsExistentialDeposit(ai3Amount)) {
+        warnings.push(
+          `${location}: Amount ${ai3Amount} AI3 is below existential deposit (${shannonsToAi3(DEFAULT_CONSENSUS_EXISTENTIAL_DEPOSIT_SHANNONS)} AI3). This may fail for new accounts or accounts with insufficient balance.`
+        );
+      }
+
+      // Check for very small amounts (less than 1000 Shannon)
+      if (shannonAmount < 1000n) {
+        warnings.push(
+          `${location}: Very small amount (${ai3Amount} AI3 = ${shannonAmount} Shannon) - verify precision`
+        );
+      }
+
+      // Check for very large amounts (> 1M AI3 in Shannon)
+      const millionAI3InShannon = ai3ToShannons('1000000');
+      if (shannonAmount > millionAI3InShannon) {
+        warnings.push(
+          `${location}: Large amount (${ai3Amount}) - please verify this is correct`
+        );
+      }
 
-      stream.on('error', error => {
-        this.logger.error('Error reading CSV file', error);
-        reject(new ValidationError('Failed to read CSV file', [error.message]));
+      return { address: toCanonicalAddress(address, this.ss58Format), amount: shannonAmount };
+    } catch (error) {
+      errors.push(`${location}: Parsing error - ${error}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Apply the duplicate policy to the recipients found on more than one row
+   * @returns Rows that merging folds into an earlier one
+   */
+  private reportDuplicates(
+    duplicates: { address: string; indices: number[] }[],
+    checks: RowChecks
+  ): number {
+    let mergedAway = 0;
+    for (const { address, indices } of duplicates) {
+      const lines = indices.join(', ');
+      if (this.duplicatePolicy === 'reject') {
+        checks.errors.push(`Duplicate recipient ${address} on lines ${lines}`);
+      } else if (this.duplicatePolicy === 'merge') {
+        checks.warnings.push(
+          `Duplicate recipient ${address} on lines ${lines} will be merged into line ${indices[0]}`
+        );
+        mergedAway += indices.length - 1;
+      } else {
+        checks.warnings.push(`Duplicate address found: ${address} on lines ${lines}`);
+      }
+    }
+    return mergedAway;
+  }
+
+  private finishValidation(
+    checks: RowChecks,
+    duplicates: { address: string; indices: number[] }[],
+    recordCount: number,
+    totalAmountShannon: bigint
+  ): ValidationResult {
+    // Additional validations
+    if (recordCount === 0) {
+      checks.errors.push('No valid records found in CSV file');
+    }
+
+    if (totalAmountShannon === 0n) {
+      checks.errors.push('Total distribution amount is zero');
+    }
+
+    if (checks.roundedCount > 0) {
+      checks.warnings.push(
+        `${checks.roundedCount} amount(s) rounded to a whole Shannon (AMOUNT_ROUNDING=${this.amounts.rounding}); see the rounded amounts`
+      );
+    }
+
+    const errors = checks.errors.list('errors');
+    const warnings = checks.warnings.list('warnings');
+
+    const result: ValidationResult = {
+      isValid: errors.length === 0,
+      errors,
+      warnings,
+      duplicates,
+      totalAmount: totalAmountShannon,
+      recordCount,
+      roundedAmounts: checks.rounded,
+      addressStats: {
+        autonomysCount: checks.autonomysCount,
+        substrateCount: checks.substrateCount,
+      },
+    };
+
+    this.logger.logValidationResults(result);
+
+    if (result.isValid) {
+      this.logger.info('CSV validation passed', {
+        recordCount: result.recordCount,
+        totalAmount: totalAmountShannon,
+        warningCount: checks.warnings.total,
       });
-    });
+    } else {
+      this.logger.error('CSV validation failed', {
+        errorCount: checks.errors.total,
+        errors: errors.slice(0, 10), // Log first 10 errors
+      });
+    }
+
+    return result;
   }
 
   async parseValidatedCSV(filePath: string): Promise<DistributionRecord[]> {
     this.logger.info('Parsing validated CSV file', { filePath });
 
+    const source = await this.openSource(filePath);
     const records: DistributionRecord[] = [];
-    let currentRowNumber = 0;
-
-    return new Promise((resolve, reject) => {
-      const stream = fs.createReadStream(filePath).pipe(
-        csv({
-          headers: ['address', 'amount'],
-        })
-      );
 
-      stream.on('data', (row: any) => {
-        currentRowNumber++;
-        const address = row.address?.trim();
-        const amount = row.amount?.trim();
-
-        if (address && amount && isValidAutonomysAddress(address) && isValidAmount(amount)) {
-          records.push({
-            address,
-            amount: ai3ToShannons(amount),
-            status: 'pending',
-            sourceRowNumber: currentRowNumber,
-          });
+    try {
+      await source.forEachRow(row => {
+        const record = this.toRecord(row);
+        if (record) {
+          records.push(record);
         }
       });
+    } catch (error) {
+      this.logger.error('Error parsing CSV file', error);
+      throw error;
+    }
 
-      stream.on('end', () => {
-        this.logger.info('CSV parsing completed', { recordCount: records.length });
-        resolve(records);
-      });
+    const parsed = this.duplicatePolicy === 'merge' ? this.mergeDuplicates(records) : records;
+    this.logger.info('CSV parsing completed', { recordCount: parsed.length });
+    return parsed;
+  }
+
+  /**
+   * Fold every later row for the same recipient into its first row.
+   * The first row keeps its position and records all the source rows it now covers.
+   */
+  private mergeDuplicates(records: DistributionRecord[]): DistributionRecord[] {
+    const firstByAddress = new Map<string, DistributionRecord>();
+    const merged: DistributionRecord[] = [];
+
+    for (const record of records) {
+      const first = firstByAddress.get(record.address);
+      if (!first) {
+        firstByAddress.set(record.address, record);
+        merged.push(record);
+        continue;
+      }
 
-      stream.on('error', error => {
-        this.logger.error('Error parsing CSV file', error);
-        reject(error);
+      first.amount += record.amount;
+      first.mergedRows = [
+        ...(first.mergedRows || [first.sourceRowNumber!]),
+        record.sourceRowNumber!,
+      ];
+    }
+
+    if (merged.length < records.length) {
+      this.logger.info('Merged duplicate recipients', {
+        rows: records.length,
+        recipients: merged.length,
       });
-    });
+    }
+
+    return merged;
   }
 
   // Validate individual record (useful for interactive corrections)
@@ -383,6 +717,7 @@ export {
   isValidAutonomysAddress,
   isValidAmount,
   getAddressNetworkInfo,
+  toCanonicalAddress,
   AddressValidationResult,
   meetsExistentialDeposit,
 };
@@ -0,0 +1,151 @@
+import { parseCliArgs } from '../../src/cli/args';
+import { CliError, ExitCode } from '../../src/cli/exit-codes';
+
+describe('parseCliArgs', () => {
+  const expectUsageError = (argv: string[], message: string, isInteractive = false) => {
+    try {
+      parseCliArgs(argv, isInteractive);
+      throw new Error('expected a usage error');
+    } catch (error) {
+      expect(error).toBeInstanceOf(CliError);
+      expect((error as CliError)._exitCode).toBe(ExitCode.Usage);
+      expect((error as CliError).message).toContain(message);
+    }
+  };
+
+  test('should run the interactive flow without a command on a terminal', () => {
+    const options = parseCliArgs([], true);
+
+    expect(options.command).toBeUndefined();
+    expect(options.onFailure).toBe('policy');
+    expect(options.maxRetries).toBe(3);
+    expect(options.yes).toBe(false);
+  });
+
+  test('should require a command when stdin is not a terminal', () => {
+    expectUsageError([], 'stdin is not a terminal');
+  });
+
+  test('should answer every prompt from the flags', () => {
+    const options = parseCliArgs(
+      [
+        'distribute',
+        'payouts.csv',
+        '--dry-run',
+        '--on-failure',
+        'retry',
+        '--max-retries',
+        '5',
+        '-y',
+        '--json',
+      ],
+      false
+    );
+
+    expect(options).toEqual({
+      command: 'distribute',
+      csvPath: 'payouts.csv',
+      dryRun: true,
+      onFailure: 'retry',
+      maxRetries: 5,
+      yes: true,
+      json: true,
+      resumeFile: undefined,
+      stream: false,
+      logFiles: [],
+      checkChain: false,
+      acceptDiscrepancies: false,
+      help: false,
+    });
+  });
+
+  test('should take the CSV file from --csv', () => {
+    expect(parseCliArgs(['plan', '--csv', 'payouts.csv'], false).csvPath).toBe('payouts.csv');
+  });
+
+  test('should take the resume file for commands on saved state', () => {
+    const options = parseCliArgs(['report', '--resume-file', 'resume-1.json'], false);
+
+    expect(options.command).toBe('report');
+    expect(options.resumeFile).toBe('resume-1.json');
+  });
+
+  test('should take the run for commands on saved state', () => {
+    const options = parseCliArgs(['resume', '--run', '3f2a9c0e5b7d4e18', '-y'], false);
+
+    expect(options.command).toBe('resume');
+    expect(options.runId).toBe('3f2a9c0e5b7d4e18');
+  });
+
+  test('should stream only commands that read a CSV file', () => {
+    expect(parseCliArgs(['distribute', 'airdrop.csv', '--stream'], false).stream).toBe(true);
+    expectUsageError(['resume', '--stream'], '--stream applies to reading a CSV file');
+  });
+
+  test('should take every transaction log to recover from', () => {
+    const options = parseCliArgs(
+      [
+        'recover',
+        'airdrop.csv',
+        '--log',
+        'airdrop-transactions-1.csv',
+        '--log',
+        'airdrop-transactions-2.csv',
+        '--check-chain',
+      ],
+      false
+    );
+
+    expect(options.command).toBe('recover');
+    expect(options.csvPath).toBe('airdrop.csv');
+    expect(options.logFiles).toEqual(['airdrop-transactions-1.csv', 'airdrop-transactions-2.csv']);
+    expect(options.checkChain).toBe(true);
+    expect(options.acceptDiscrepancies).toBe(false);
+  });
+
+  test('should check the recover flags against the command', () => {
+    expectUsageError(['recover', 'airdrop.csv'], 'recover needs the transaction logs');
+    expectUsageError(['recover', '--log', 'a.csv'], 'recover needs a CSV file');
+    expectUsageError(['resume', '--check-chain'], 'apply to recover only');
+    expectUsageError(['recover', 'a.csv', '--log', 'b.csv', '--stream'], '--stream applies');
+  });
+
+  test('should take the pool and output file to allocate', () => {
+    const options = parseCliArgs(
+      ['allocate', 'points.csv', '--pool', '500,000 AI3', '--out', 'airdrop.csv'],
+      false
+    );
+
+    expect(options.command).toBe('allocate');
+    expect(options.csvPath).toBe('points.csv');
+    expect(options.pool).toBe('500,000 AI3');
+    expect(options.outPath).toBe('airdrop.csv');
+
+    expectUsageError(['allocate', 'points.csv'], 'allocate needs the total to split');
+    expectUsageError(['distribute', 'a.csv', '--pool', '100'], 'apply to allocate only');
+  });
+
+  test('should reject unknown commands and options', () => {
+    expectUsageError(['send'], 'Unknown command: send');
+    expectUsageError(['validate', 'a.csv', '--force'], "Unknown option '--force'");
+  });
+
+  test('should reject invalid flag values', () => {
+    expectUsageError(['distribute', 'a.csv', '--on-failure', 'ignore'], 'Invalid --on-failure');
+    expectUsageError(['distribute', 'a.csv', '--max-retries', 'many'], 'Invalid --max-retries');
+  });
+
+  test('should check the CSV file against the command', () => {
+    expectUsageError(['validate'], 'validate needs a CSV file');
+    expectUsageError(['status', 'a.csv'], 'takes no CSV file');
+    expectUsageError(['plan', 'a.csv', 'b.csv'], 'Unexpected argument: b.csv');
+  });
+
+  test('should refuse --json in interactive mode', () => {
+    expectUsageError(['--json'], '--json needs a command', true);
+  });
+
+  test('should skip checks when asking for help', () => {
+    expect(parseCliArgs(['validate', '--help'], false).help).toBe(true);
+  });
+});
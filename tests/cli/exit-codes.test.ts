@@ -0,0 +1,34 @@
+import { ExitCode, summaryExitCode } from '../../src/cli/exit-codes';
+import { DistributionSummary } from '../../src/types';
+
+describe('summaryExitCode', () => {
+  const summary = (overrides: Partial<DistributionSummary> = {}): DistributionSummary => ({
+    totalRecords: 2,
+    completed: 2,
+    failed: 0,
+    skipped: 0,
+    totalAmount: 200n,
+    distributedAmount: 200n,
+    failedAmount: 0n,
+    feesPaid: 0n,
+    startTime: new Date(),
+    endTime: new Date(),
+    existentialDepositDecisions: [],
+    ...overrides,
+  });
+
+  test('should succeed when every record completed', () => {
+    expect(summaryExitCode(summary())).toBe(ExitCode.Success);
+  });
+
+  test('should report records left failed at the end', () => {
+    expect(summaryExitCode(summary({ completed: 1, failed: 1, failedAmount: 100n }))).toBe(
+      ExitCode.TransfersFailed
+    );
+  });
+
+  test('should report a paused or aborted run as halted', () => {
+    expect(summaryExitCode(summary({ endTime: undefined }))).toBe(ExitCode.Halted);
+    expect(summaryExitCode(summary({ abortedByUser: true, failed: 1 }))).toBe(ExitCode.Halted);
+  });
+});
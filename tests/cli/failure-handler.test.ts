@@ -0,0 +1,22 @@
+import { PolicyFailureHandler } from '../../src/cli/failure-handler';
+import { DistributionRecord } from '../../src/types';
+
+describe('PolicyFailureHandler', () => {
+  const record: DistributionRecord = { address: 'su-test', amount: 1n, status: 'failed' };
+  const error = new Error('Inability to pay some fees');
+
+  test('should retry up to the retry limit, then skip', async () => {
+    const handler = new PolicyFailureHandler('retry', 2);
+
+    expect(await handler.handleFailure(record, 0, error, 1)).toBe('retry');
+    expect(await handler.handleFailure(record, 0, error, 2)).toBe('retry');
+    expect(await handler.handleFailure(record, 0, error, 3)).toBe('skip');
+  });
+
+  test.each(['skip', 'pause', 'abort'] as const)('should always %s', async action => {
+    const handler = new PolicyFailureHandler(action, 3);
+
+    expect(await handler.handleFailure(record, 0, error, 1)).toBe(action);
+    expect(await handler.handleFailure(record, 0, error, 10)).toBe(action);
+  });
+});
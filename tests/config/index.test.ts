@@ -28,7 +28,29 @@ describe('Configuration', () => {
       expect(config.logLevel).toBe('info');
       expect(config.logToFile).toBe(true);
       expect(config.confirmationBlocks).toBe(2);
+      expect(config.confirmationTimeoutSeconds).toBe(300);
+      expect(config.waitForFinality).toBe(false);
+      expect(config.reconcileMaxBlocks).toBe(20000);
+      expect(config.rpcTimeoutSeconds).toBe(30);
+      expect(config.reconnectMaxBackoffSeconds).toBe(60);
       expect(config.batchSize).toBe(10);
+      expect(config.batchMode).toBe('single');
+      expect(config.pipelineDepth).toBe(1);
+      expect(config.transferMode).toBe('transferKeepAlive');
+      expect(config.existentialDepositPolicy).toBe('block');
+      expect(config.duplicatePolicy).toBe('keep');
+      expect(config.retryMode).toBe('inline');
+      expect(config.stateBackend).toBe('json');
+      expect(config.streamChunkSize).toBe(1000);
+      expect(config.deferredRetryPasses).toBe(3);
+      expect(config.deferredRetryDelaySeconds).toBe(30);
+      expect(config.circuitBreaker).toEqual({
+        maxConsecutiveFailures: 10,
+        maxFailureRatePercent: 50,
+        failureRateWindow: 20,
+        chainStallSeconds: 120,
+        checkBalance: true,
+      });
       expect(config.gasBufferAi3).toBe(1);
     });
 
@@ -40,7 +62,18 @@ describe('Configuration', () => {
       process.env.LOG_LEVEL = 'debug';
       process.env.LOG_TO_FILE = 'false';
       process.env.CONFIRMATION_BLOCKS = '5';
+      process.env.CONFIRMATION_TIMEOUT_SECONDS = '600';
+      process.env.WAIT_FOR_FINALITY = 'true';
       process.env.BATCH_SIZE = '25';
+      process.env.BATCH_MODE = 'forceBatch';
+      process.env.TRANSFER_MODE = 'transferAllowDeath';
+      process.env.ED_POLICY = 'raise';
+      process.env.DUPLICATE_POLICY = 'merge';
+      process.env.RETRY_MODE = 'deferred';
+      process.env.DEFERRED_RETRY_PASSES = '5';
+      process.env.DEFERRED_RETRY_DELAY_SECONDS = '60';
+      process.env.STATE_BACKEND = 'sqlite';
+      process.env.STREAM_CHUNK_SIZE = '5000';
 
       const config = loadConfig();
 
@@ -52,7 +85,18 @@ describe('Configuration', () => {
       expect(config.logLevel).toBe('debug');
       expect(config.logToFile).toBe(false);
       expect(config.confirmationBlocks).toBe(5);
+      expect(config.confirmationTimeoutSeconds).toBe(600);
+      expect(config.waitForFinality).toBe(true);
       expect(config.batchSize).toBe(25);
+      expect(config.batchMode).toBe('forceBatch');
+      expect(config.transferMode).toBe('transferAllowDeath');
+      expect(config.existentialDepositPolicy).toBe('raise');
+      expect(config.duplicatePolicy).toBe('merge');
+      expect(config.retryMode).toBe('deferred');
+      expect(config.deferredRetryPasses).toBe(5);
+      expect(config.deferredRetryDelaySeconds).toBe(60);
+      expect(config.stateBackend).toBe('sqlite');
+      expect(config.streamChunkSize).toBe(5000);
     });
 
     test('should throw error for invalid network', () => {
@@ -71,6 +115,76 @@ describe('Configuration', () => {
       expect(() => loadConfig()).toThrow('Invalid log level: invalid-level');
     });
 
+    test('should throw error for invalid batch mode', () => {
+      process.env.BATCH_MODE = 'batch';
+      process.env.DISTRIBUTOR_PRIVATE_KEY =
+        '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+
+      expect(() => loadConfig()).toThrow('Invalid batch mode: batch');
+    });
+
+    test('should throw error for invalid transfer mode', () => {
+      process.env.TRANSFER_MODE = 'transferAll';
+      process.env.DISTRIBUTOR_PRIVATE_KEY =
+        '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+
+      expect(() => loadConfig()).toThrow('Invalid transfer mode: transferAll');
+    });
+
+    test('should throw error for invalid ED policy', () => {
+      process.env.ED_POLICY = 'ignore';
+      process.env.DISTRIBUTOR_PRIVATE_KEY =
+        '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+
+      expect(() => loadConfig()).toThrow('Invalid ED policy: ignore');
+    });
+
+    test('should throw error for invalid duplicate policy', () => {
+      process.env.DUPLICATE_POLICY = 'drop';
+      process.env.DISTRIBUTOR_PRIVATE_KEY =
+        '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+
+      expect(() => loadConfig()).toThrow('Invalid duplicate policy: drop');
+    });
+
+    test('should throw error for invalid state backend', () => {
+      process.env.STATE_BACKEND = 'postgres';
+      process.env.DISTRIBUTOR_PRIVATE_KEY =
+        '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+
+      expect(() => loadConfig()).toThrow('Invalid state backend: postgres');
+    });
+
+    test('should read the amount unit and rounding policy', () => {
+      process.env.DISTRIBUTOR_PRIVATE_KEY =
+        '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+
+      expect(loadConfig().amountInput).toEqual({ unit: 'ai3', rounding: 'strict' });
+
+      process.env.AMOUNT_UNIT = 'Shannon';
+      process.env.AMOUNT_ROUNDING = 'half-even';
+      expect(loadConfig().amountInput).toEqual({ unit: 'shannon', rounding: 'half-even' });
+
+      process.env.AMOUNT_ROUNDING = 'nearest';
+      expect(() => loadConfig()).toThrow('Invalid amount rounding: nearest');
+    });
+
+    test('should throw error for invalid input format', () => {
+      process.env.INPUT_FORMAT = 'xml';
+      process.env.DISTRIBUTOR_PRIVATE_KEY =
+        '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+
+      expect(() => loadConfig()).toThrow('Invalid input format: xml');
+    });
+
+    test('should throw error for invalid retry mode', () => {
+      process.env.RETRY_MODE = 'later';
+      process.env.DISTRIBUTOR_PRIVATE_KEY =
+        '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+
+      expect(() => loadConfig()).toThrow('Invalid retry mode: later');
+    });
+
     test('should throw error for missing private key', () => {
       delete process.env.DISTRIBUTOR_PRIVATE_KEY;
 
@@ -193,6 +307,43 @@ describe('Configuration', () => {
       expect(() => validateConfig({ ...baseConfig, batchSize: 0 })).toThrow(
         'BATCH_SIZE must be at least 1'
       );
+
+      // Test pipeline depth
+      expect(() => validateConfig({ ...baseConfig, pipelineDepth: 0 })).toThrow(
+        'PIPELINE_DEPTH must be at least 1'
+      );
+
+      // Test deferred retries
+      expect(() => validateConfig({ ...baseConfig, deferredRetryPasses: 0 })).toThrow(
+        'DEFERRED_RETRY_PASSES must be at least 1'
+      );
+      expect(() => validateConfig({ ...baseConfig, deferredRetryDelaySeconds: -1 })).toThrow(
+        'DEFERRED_RETRY_DELAY_SECONDS must not be negative'
+      );
+      expect(() => validateConfig({ ...baseConfig, streamChunkSize: 0 })).toThrow(
+        'STREAM_CHUNK_SIZE must be at least 1'
+      );
+
+      // Test circuit breaker
+      const circuitBreaker = {
+        maxConsecutiveFailures: 10,
+        maxFailureRatePercent: 50,
+        failureRateWindow: 20,
+        chainStallSeconds: 120,
+        checkBalance: true,
+      };
+      expect(() =>
+        validateConfig({
+          ...baseConfig,
+          circuitBreaker: { ...circuitBreaker, chainStallSeconds: -1 },
+        })
+      ).toThrow('Circuit breaker thresholds must not be negative');
+      expect(() =>
+        validateConfig({
+          ...baseConfig,
+          circuitBreaker: { ...circuitBreaker, maxFailureRatePercent: 150 },
+        })
+      ).toThrow('CIRCUIT_BREAKER_MAX_FAILURE_RATE must be between 0 and 100');
     });
   });
 });
@@ -1,4 +1,12 @@
-import { getNetworkConfig, validateNetworkName, NETWORKS } from '../../src/config/networks';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import {
+  getNetworkConfig,
+  validateNetworkName,
+  loadNetworkRegistry,
+  NETWORKS,
+} from '../../src/config/networks';
 
 describe('Network Configuration', () => {
   describe('NETWORKS constant', () => {
@@ -11,6 +19,64 @@ describe('Network Configuration', () => {
 
       expect(NETWORKS.chronos.name).toBe('Chronos Testnet');
       expect(NETWORKS.chronos.rpcEndpoint).toBe('wss://rpc.chronos.autonomys.xyz/ws');
+
+      expect(NETWORKS.local.rpcEndpoint).toBe('ws://127.0.0.1:9944');
+    });
+  });
+
+  describe('loadNetworkRegistry', () => {
+    let tempDir: string;
+    let networksFile: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'networks-'));
+      networksFile = path.join(tempDir, 'networks.json');
+    });
+
+    afterEach(async () => {
+      await fs.remove(tempDir);
+    });
+
+    test('should return the built-in networks when the file does not exist', () => {
+      expect(loadNetworkRegistry(networksFile)).toEqual(NETWORKS);
+    });
+
+    test('should add custom networks and override built-in ones', async () => {
+      await fs.writeJson(networksFile, {
+        Devnet: {
+          name: 'Team Devnet',
+          rpcEndpoints: ['wss://devnet-0.example.com/ws', 'wss://devnet-1.example.com/ws'],
+          explorerUrl: 'https://explorer.example.com/tx/{hash}',
+          ss58Format: 42,
+          tokenDecimals: 18,
+          genesisHash: '0xAB' + '00'.repeat(31),
+        },
+        local: {
+          name: 'Local Dev Node',
+          rpcEndpoints: ['ws://127.0.0.1:9955'],
+          ss58Format: 6094,
+          tokenDecimals: 18,
+        },
+      });
+
+      const registry = loadNetworkRegistry(networksFile);
+
+      expect(registry.mainnet).toEqual(NETWORKS.mainnet);
+      expect(registry.devnet).toMatchObject({
+        name: 'Team Devnet',
+        rpcEndpoint: 'wss://devnet-0.example.com/ws',
+        ss58Format: 42,
+        genesisHash: '0xab' + '00'.repeat(31),
+      });
+      expect(registry.local.rpcEndpoint).toBe('ws://127.0.0.1:9955');
+    });
+
+    test('should reject invalid entries', async () => {
+      await fs.writeJson(networksFile, {
+        broken: { name: 'Broken', rpcEndpoints: ['https://not-a-websocket'], ss58Format: 42 },
+      });
+
+      expect(() => loadNetworkRegistry(networksFile)).toThrow(/Invalid network "broken"/);
     });
   });
 
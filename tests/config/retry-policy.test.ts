@@ -0,0 +1,61 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { DEFAULT_RETRY_POLICY, loadRetryPolicy } from '../../src/config/retry-policy';
+
+describe('loadRetryPolicy', () => {
+  let tempDir: string;
+  let policyFile: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'retry-policy-'));
+    policyFile = path.join(tempDir, 'retry-policy.json');
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  test('should return the default policy when the file does not exist', () => {
+    expect(loadRetryPolicy(policyFile)).toEqual(DEFAULT_RETRY_POLICY);
+  });
+
+  test('should lay partial rules over the defaults', async () => {
+    await fs.writeJson(policyFile, {
+      transient: { maxRetries: 10, maxBackoffSeconds: 120 },
+      permanent: { action: 'pause' },
+    });
+
+    const policy = loadRetryPolicy(policyFile);
+
+    expect(policy.transient).toEqual({
+      ...DEFAULT_RETRY_POLICY.transient,
+      maxRetries: 10,
+      maxBackoffSeconds: 120,
+    });
+    expect(policy.permanent.action).toBe('pause');
+    expect(policy.fatal).toEqual(DEFAULT_RETRY_POLICY.fatal);
+  });
+
+  test('should reject unknown classes and invalid actions', async () => {
+    await fs.writeJson(policyFile, { flaky: { action: 'retry' } });
+    expect(() => loadRetryPolicy(policyFile)).toThrow('Invalid retry policy');
+
+    await fs.writeJson(policyFile, { transient: { exhausted: 'retry' } });
+    expect(() => loadRetryPolicy(policyFile)).toThrow('"transient.exhausted" must be one of');
+  });
+
+  test('should refuse to retry unconfirmed transfers', async () => {
+    await fs.writeJson(policyFile, { unconfirmed: { action: 'retry', maxRetries: 3 } });
+
+    expect(() => loadRetryPolicy(policyFile)).toThrow('unconfirmed transfers');
+  });
+
+  test('should reject a maximum backoff below the initial one', async () => {
+    await fs.writeJson(policyFile, { unknown: { backoffSeconds: 60 } });
+
+    expect(() => loadRetryPolicy(policyFile)).toThrow(
+      'unknown.maxBackoffSeconds is below backoffSeconds'
+    );
+  });
+});
@@ -0,0 +1,121 @@
+import { CircuitBreaker, DEFAULT_CIRCUIT_BREAKER } from '../../src/core/circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  const config = {
+    ...DEFAULT_CIRCUIT_BREAKER,
+    maxConsecutiveFailures: 3,
+    maxFailureRatePercent: 50,
+    failureRateWindow: 4,
+  };
+
+  test('should trip on consecutive failures and reset on a success', () => {
+    const breaker = new CircuitBreaker({ ...config, maxFailureRatePercent: 0 });
+
+    breaker.recordOutcome(false);
+    breaker.recordOutcome(false);
+    breaker.recordOutcome(true);
+    breaker.recordOutcome(false);
+    breaker.recordOutcome(false);
+    expect(breaker.checkFailures()).toBeUndefined();
+
+    breaker.recordOutcome(false);
+    expect(breaker.checkFailures()).toEqual({
+      trigger: 'consecutiveFailures',
+      reason: '3 transfers failed in a row',
+    });
+  });
+
+  test('should trip on the failure rate only over a full window', () => {
+    const breaker = new CircuitBreaker({ ...config, maxConsecutiveFailures: 0 });
+
+    breaker.recordOutcome(false);
+    breaker.recordOutcome(false);
+    expect(breaker.checkFailures()).toBeUndefined();
+
+    breaker.recordOutcome(true);
+    breaker.recordOutcome(true);
+    // 2 of 4 is not over 50%
+    expect(breaker.checkFailures()).toBeUndefined();
+
+    // The window slides: the first two failures drop out
+    breaker.recordOutcome(false);
+    breaker.recordOutcome(false);
+    expect(breaker.checkFailures()).toBeUndefined();
+
+    breaker.recordOutcome(false);
+    expect(breaker.checkFailures()).toEqual({
+      trigger: 'failureRate',
+      reason: '3 of the last 4 transfers failed',
+    });
+  });
+
+  test('should forget earlier outcomes on reset', () => {
+    const breaker = new CircuitBreaker(config);
+    [false, false, false].forEach(success => breaker.recordOutcome(success));
+
+    breaker.reset();
+
+    expect(breaker.checkFailures()).toBeUndefined();
+  });
+
+  test('should read the chain at most once every 10 seconds until reset', () => {
+    const breaker = new CircuitBreaker(config);
+
+    expect(breaker.chainCheckDue(1_000)).toBe(true);
+    expect(breaker.chainCheckDue(5_000)).toBe(false);
+    expect(breaker.chainCheckDue(10_999)).toBe(false);
+    expect(breaker.chainCheckDue(11_000)).toBe(true);
+
+    breaker.reset();
+
+    expect(breaker.chainCheckDue(12_000)).toBe(true);
+  });
+
+  test('should trip when the best block is too old', () => {
+    const breaker = new CircuitBreaker({ ...config, chainStallSeconds: 60 });
+    const now = 1_000_000_000;
+
+    const health = { freeBalance: 10n, requiredBalance: 1n };
+    expect(
+      breaker.checkChainHealth({ ...health, bestBlockTimestamp: now - 60_000 }, now)
+    ).toBeUndefined();
+    expect(breaker.checkChainHealth({ ...health, bestBlockTimestamp: now - 90_000 }, now)).toEqual({
+      trigger: 'chainStall',
+      reason: 'No new block for 90s',
+    });
+  });
+
+  test('should trip when the balance cannot cover the remaining records', () => {
+    const breaker = new CircuitBreaker(config);
+    const now = Date.now();
+
+    const trip = breaker.checkChainHealth(
+      {
+        bestBlockTimestamp: now,
+        freeBalance: BigInt('1000000000000000000'),
+        requiredBalance: BigInt('2500000000000000000'),
+      },
+      now
+    );
+
+    expect(trip?.trigger).toBe('lowBalance');
+    expect(trip?.reason).toContain('1');
+    expect(trip?.reason).toContain('2.5');
+  });
+
+  test('should leave out checks turned off', () => {
+    const breaker = new CircuitBreaker({
+      maxConsecutiveFailures: 0,
+      maxFailureRatePercent: 0,
+      failureRateWindow: 0,
+      chainStallSeconds: 0,
+      checkBalance: false,
+    });
+    [false, false, false, false, false].forEach(success => breaker.recordOutcome(success));
+
+    expect(breaker.checkFailures()).toBeUndefined();
+    expect(
+      breaker.checkChainHealth({ bestBlockTimestamp: 0, freeBalance: 0n, requiredBalance: 1n })
+    ).toBeUndefined();
+  });
+});
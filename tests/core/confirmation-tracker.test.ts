@@ -0,0 +1,219 @@
+import {
+  ConfirmationTracker,
+  ConfirmationTimeoutError,
+  ReorgError,
+} from '../../src/core/confirmation-tracker';
+import Logger from '../../src/utils/logger';
+
+const TX_HASH = '0xtx';
+
+/**
+ * Minimal in-memory chain: canonical block hashes by height and extrinsic hashes per block
+ */
+function createFakeChain() {
+  const canonical: Record<number, string> = {};
+  const blockExtrinsics: Record<string, string[]> = {};
+  let newHeadsCallback: ((_header: any) => void) | undefined;
+  let finalizedCallback: ((_header: any) => void) | undefined;
+  const unsubscribeNewHeads = jest.fn();
+  const unsubscribeFinalized = jest.fn();
+
+  const header = (number: number) => ({ number: { toNumber: () => number } });
+
+  const api = {
+    rpc: {
+      chain: {
+        subscribeNewHeads: jest.fn(async (callback: any) => {
+          newHeadsCallback = callback;
+          return unsubscribeNewHeads;
+        }),
+        subscribeFinalizedHeads: jest.fn(async (callback: any) => {
+          finalizedCallback = callback;
+          return unsubscribeFinalized;
+        }),
+        getBlockHash: jest.fn(async (number: number) => ({
+          toHex: () => canonical[number] || '0xunknown',
+        })),
+        getBlock: jest.fn(async (hash: string) => ({
+          block: {
+            extrinsics: (blockExtrinsics[hash] || []).map(h => ({ hash: { toHex: () => h } })),
+          },
+        })),
+      },
+    },
+  };
+
+  const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  return {
+    api: api as any,
+    canonical,
+    blockExtrinsics,
+    unsubscribeNewHeads,
+    unsubscribeFinalized,
+    async newHead(number: number) {
+      await flush();
+      newHeadsCallback!(header(number));
+      await flush();
+    },
+    async finalizedHead(number: number) {
+      await flush();
+      finalizedCallback!(header(number));
+      await flush();
+    },
+  };
+}
+
+describe('ConfirmationTracker', () => {
+  const mockLogger = {
+    info: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    error: jest.fn(),
+  } as unknown as Logger;
+
+  const inclusion = { transactionHash: TX_HASH, blockHash: '0xb100', blockNumber: 100 };
+
+  test('should count confirmations from the inclusion block and unsubscribe', async () => {
+    const chain = createFakeChain();
+    chain.canonical[100] = '0xb100';
+    const tracker = new ConfirmationTracker(chain.api, mockLogger, {
+      confirmationBlocks: 3,
+      waitForFinality: false,
+      timeoutMs: 10000,
+    });
+
+    let resolved = false;
+    const promise = tracker.waitForConfirmation(inclusion).then(result => {
+      resolved = true;
+      return result;
+    });
+
+    await chain.newHead(100);
+    await chain.newHead(101);
+    expect(resolved).toBe(false);
+
+    await chain.newHead(102);
+    const result = await promise;
+
+    expect(result).toEqual({
+      blockHash: '0xb100',
+      blockNumber: 100,
+      confirmations: 3,
+      finalized: false,
+    });
+    expect(chain.unsubscribeNewHeads).toHaveBeenCalledTimes(1);
+  });
+
+  test('should wait for finality when requested', async () => {
+    const chain = createFakeChain();
+    chain.canonical[100] = '0xb100';
+    const tracker = new ConfirmationTracker(chain.api, mockLogger, {
+      confirmationBlocks: 1,
+      waitForFinality: true,
+      timeoutMs: 10000,
+    });
+
+    let resolved = false;
+    const promise = tracker.waitForConfirmation(inclusion).then(result => {
+      resolved = true;
+      return result;
+    });
+
+    await chain.newHead(101);
+    expect(resolved).toBe(false);
+
+    await chain.finalizedHead(99);
+    expect(resolved).toBe(false);
+
+    await chain.finalizedHead(100);
+    const result = await promise;
+
+    expect(result.finalized).toBe(true);
+    expect(chain.unsubscribeNewHeads).toHaveBeenCalled();
+    expect(chain.unsubscribeFinalized).toHaveBeenCalled();
+  });
+
+  test('should follow the extrinsic when a reorg re-includes it', async () => {
+    const chain = createFakeChain();
+    chain.canonical[100] = '0xb100';
+    const tracker = new ConfirmationTracker(chain.api, mockLogger, {
+      confirmationBlocks: 2,
+      waitForFinality: false,
+      timeoutMs: 10000,
+    });
+
+    const promise = tracker.waitForConfirmation(inclusion);
+
+    await chain.newHead(100);
+
+    // Fork: block 100 replaced, extrinsic lands in the new block 101
+    chain.canonical[100] = '0xa100';
+    chain.canonical[101] = '0xa101';
+    chain.blockExtrinsics['0xa101'] = [TX_HASH];
+    await chain.newHead(101);
+    await chain.newHead(102);
+
+    const result = await promise;
+    expect(result.blockHash).toBe('0xa101');
+    expect(result.blockNumber).toBe(101);
+    expect(mockLogger.warn).toHaveBeenCalledWith(
+      'Chain reorganization dropped the inclusion block',
+      expect.any(Object)
+    );
+  });
+
+  test('should reject with ReorgError when a dropped extrinsic never comes back', async () => {
+    const chain = createFakeChain();
+    chain.canonical[100] = '0xa100';
+    chain.canonical[101] = '0xa101';
+    const tracker = new ConfirmationTracker(chain.api, mockLogger, {
+      confirmationBlocks: 2,
+      waitForFinality: false,
+      timeoutMs: 50,
+    });
+
+    const promise = tracker.waitForConfirmation(inclusion);
+    const assertion = expect(promise).rejects.toBeInstanceOf(ReorgError);
+
+    await chain.newHead(100);
+    await chain.newHead(101);
+
+    await assertion;
+  });
+
+  test('should reject with ReorgError when another block is finalized at the height', async () => {
+    const chain = createFakeChain();
+    chain.canonical[100] = '0xb100';
+    const tracker = new ConfirmationTracker(chain.api, mockLogger, {
+      confirmationBlocks: 1,
+      waitForFinality: true,
+      timeoutMs: 10000,
+    });
+
+    const promise = tracker.waitForConfirmation(inclusion);
+    const assertion = expect(promise).rejects.toBeInstanceOf(ReorgError);
+
+    await chain.newHead(100);
+    chain.canonical[100] = '0xa100';
+    await chain.finalizedHead(100);
+
+    await assertion;
+  });
+
+  test('should time out with ConfirmationTimeoutError', async () => {
+    const chain = createFakeChain();
+    chain.canonical[100] = '0xb100';
+    const tracker = new ConfirmationTracker(chain.api, mockLogger, {
+      confirmationBlocks: 5,
+      waitForFinality: false,
+      timeoutMs: 20,
+    });
+
+    const promise = tracker.waitForConfirmation(inclusion);
+    await chain.newHead(100);
+
+    await expect(promise).rejects.toBeInstanceOf(ConfirmationTimeoutError);
+    expect(chain.unsubscribeNewHeads).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,131 @@
+import { EventEmitter } from 'events';
+import { ApiPromise, WsProvider } from '@polkadot/api';
+import { ConnectionLostError, ConnectionManager } from '../../src/core/connection-manager';
+import Logger from '../../src/utils/logger';
+
+jest.mock('@polkadot/api', () => ({
+  WsProvider: jest.fn(),
+  ApiPromise: { create: jest.fn() },
+}));
+
+describe('ConnectionManager', () => {
+  const mockLogger = {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  } as unknown as Logger;
+
+  /**
+   * nodes maps an endpoint to how it behaves; endpoints not listed refuse the connection
+   */
+  function fakeNodes(nodes: Record<string, { syncing?: boolean }>) {
+    const apis: Record<string, any> = {};
+
+    (WsProvider as unknown as jest.Mock).mockImplementation((endpoint: string) => ({
+      endpoint,
+      connect: jest.fn(async () => undefined),
+      disconnect: jest.fn(async () => undefined),
+      isReady: nodes[endpoint]
+        ? Promise.resolve()
+        : Promise.reject(new Error(`connect ECONNREFUSED ${endpoint}`)),
+    }));
+
+    (ApiPromise.create as jest.Mock).mockImplementation(async ({ provider }: any) => {
+      const api: any = new EventEmitter();
+      api.endpoint = provider.endpoint;
+      api.rpc = {
+        system: {
+          health: jest.fn(async () => ({
+            isSyncing: { isTrue: !!nodes[provider.endpoint].syncing },
+          })),
+        },
+      };
+      api.disconnect = jest.fn(async () => undefined);
+      apis[provider.endpoint] = api;
+      return api;
+    });
+
+    return apis;
+  }
+
+  const createManager = (endpoints: string[], verify?: (_api: ApiPromise) => void) =>
+    new ConnectionManager(mockLogger, {
+      endpoints,
+      timeoutMs: 1000,
+      initialBackoffMs: 1,
+      maxBackoffMs: 4,
+      verify,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should connect to the first healthy endpoint in order', async () => {
+    fakeNodes({ 'ws://syncing': { syncing: true }, 'ws://healthy': {} });
+    const manager = createManager(['ws://down', 'ws://syncing', 'ws://healthy']);
+
+    const api: any = await manager.connect();
+
+    expect(api.endpoint).toBe('ws://healthy');
+    expect(manager.endpoint).toBe('ws://healthy');
+    expect(manager.isConnected).toBe(true);
+    expect(mockLogger.warn).toHaveBeenCalledTimes(2);
+  });
+
+  test('should fail when no endpoint is healthy', async () => {
+    fakeNodes({});
+    const manager = createManager(['ws://a', 'ws://b']);
+
+    await expect(manager.connect()).rejects.toThrow(
+      'No healthy RPC endpoint available: ws://a, ws://b'
+    );
+  });
+
+  test('should not try other endpoints when verification fails', async () => {
+    fakeNodes({ 'ws://a': {}, 'ws://b': {} });
+    const manager = createManager(['ws://a', 'ws://b'], () => {
+      throw new Error('Genesis hash mismatch');
+    });
+
+    await expect(manager.connect()).rejects.toThrow('Genesis hash mismatch');
+    expect(ApiPromise.create).toHaveBeenCalledTimes(1);
+  });
+
+  test('should fail guarded operations as soon as the connection drops', async () => {
+    const apis = fakeNodes({ 'ws://a': {} });
+    const manager = createManager(['ws://a']);
+    await manager.connect();
+
+    const pending = manager.guard(new Promise(() => undefined));
+    apis['ws://a'].emit('disconnected');
+
+    await expect(pending).rejects.toThrow(ConnectionLostError);
+    expect(manager.isConnected).toBe(false);
+  });
+
+  test('should reconnect with backoff, failing over to the next endpoint', async () => {
+    const nodes: Record<string, { syncing?: boolean }> = { 'ws://primary': {} };
+    const apis = fakeNodes(nodes);
+    const manager = createManager(['ws://primary', 'ws://backup']);
+    await manager.connect();
+
+    apis['ws://primary'].emit('disconnected');
+    delete nodes['ws://primary'];
+
+    const reconnecting = Promise.all([manager.waitUntilConnected(), manager.waitUntilConnected()]);
+    // Nothing reachable for a couple of rounds, then the backup comes up
+    await new Promise(resolve => setTimeout(resolve, 10));
+    nodes['ws://backup'] = {};
+
+    const [first, second]: any[] = await reconnecting;
+    expect(first.endpoint).toBe('ws://backup');
+    expect(second).toBe(first);
+    expect(manager.isConnected).toBe(true);
+    expect(mockLogger.info).toHaveBeenCalledWith(
+      'RPC connection re-established',
+      expect.objectContaining({ endpoint: 'ws://backup' })
+    );
+  });
+});
@@ -1,7 +1,19 @@
 import { TokenDistributor } from '../../src/core/distributor';
-import { AppConfig } from '../../src/types';
+import { Reconciler } from '../../src/core/reconciler';
+import { ConfirmationTimeoutError } from '../../src/core/confirmation-tracker';
+import { IntentSigner } from '../../src/core/intent-signer';
+import { ResumeManager } from '../../src/core/resume-manager';
+import { ExitCode, summaryExitCode } from '../../src/cli/exit-codes';
+import {
+  AppConfig,
+  DistributionRecord,
+  ReconciliationReport,
+  TransactionFailureHandler,
+  TransactionResult,
+} from '../../src/types';
 import Logger from '../../src/utils/logger';
 import { ai3ToShannons } from '@autonomys/auto-utils';
+import { balance } from '@autonomys/auto-consensus';
 // Mock the Auto SDK modules
 jest.mock('@autonomys/auto-consensus', () => ({
   activate: jest.fn(),
@@ -9,6 +21,11 @@ jest.mock('@autonomys/auto-consensus', () => ({
   balance: jest.fn(),
 }));
 
+jest.mock('@autonomys/auto-utils', () => ({
+  ...jest.requireActual('@autonomys/auto-utils'),
+  signAndSendTx: jest.fn(),
+}));
+
 jest.mock('@polkadot/api', () => ({
   ApiPromise: {
     create: jest.fn(),
@@ -31,11 +48,17 @@ jest.mock('@polkadot/util-crypto', () => ({
 jest.mock('../../src/core/resume-manager', () => ({
   ResumeManager: jest.fn().mockImplementation(() => ({
     saveState: jest.fn().mockResolvedValue(undefined),
+    appendJournal: jest.fn().mockResolvedValue(undefined),
+    startRun: jest.fn(),
+    setStreamPosition: jest.fn(),
     loadLatestState: jest.fn().mockResolvedValue(null),
     listResumeFiles: jest.fn().mockResolvedValue([]),
     loadSpecificState: jest.fn().mockResolvedValue(null),
     clearState: jest.fn().mockResolvedValue(undefined),
     clearOldStates: jest.fn().mockResolvedValue(undefined),
+    getInFlightRecords: jest.fn((records: DistributionRecord[]) =>
+      records.filter(r => r.status === 'processing' && r.nonce !== undefined)
+    ),
     getResumeDir: jest.fn().mockReturnValue('/mock/resume/dir'),
     getResumeStats: jest
       .fn()
@@ -47,6 +70,49 @@ jest.mock('../../src/core/resume-manager', () => ({
   })),
 }));
 
+// Mock CSVTransactionLogger to keep runs with a source file out of ./logs
+jest.mock('../../src/utils/csv-logger', () => ({
+  CSVTransactionLogger: jest.fn().mockImplementation(() => ({
+    initialize: jest.fn().mockResolvedValue(undefined),
+    logTransaction: jest.fn().mockResolvedValue(undefined),
+    getLogFilePath: jest.fn().mockReturnValue('/mock/logs/transactions.csv'),
+  })),
+}));
+
+/**
+ * The private members these tests stub or spy on, typed so the stubs are checked too
+ */
+interface DistributorInternals {
+  isConnected: boolean;
+  api: unknown;
+  account: unknown;
+  connection: unknown;
+  resumeManager: jest.Mocked<ResumeManager>;
+  delay(_ms: number): Promise<void>;
+  executeTransfer(_record: DistributionRecord, _nonce?: number): Promise<TransactionResult>;
+  executeBatch(_records: DistributionRecord[]): Promise<TransactionResult[]>;
+  waitForConfirmation(_sent: unknown): Promise<unknown>;
+  fetchNextNonce(): Promise<number>;
+  fillNonceGap(_nonce: number): Promise<void>;
+  recoverInDoubt(_run: { records: DistributionRecord[] }, _indices: number[]): Promise<number[]>;
+}
+
+const internals = (instance: TokenDistributor) => instance as unknown as DistributorInternals;
+
+/**
+ * Stand in for a live connection: distribute() sends without reaching a node
+ */
+const connect = (instance: TokenDistributor, overrides: Partial<DistributorInternals> = {}) => {
+  Object.assign(internals(instance), { isConnected: true, api: {}, account: {}, ...overrides });
+};
+
+const makeRecords = (count: number): DistributionRecord[] =>
+  Array.from({ length: count }, (_, i) => ({
+    address: `address-${i}`,
+    amount: BigInt('1000000000000000000'),
+    status: 'pending' as const,
+  }));
+
 describe('TokenDistributor', () => {
   let distributor: TokenDistributor;
   let mockConfig: AppConfig;
@@ -85,6 +151,20 @@ describe('TokenDistributor', () => {
     distributor = new TokenDistributor(mockConfig, mockLogger);
   });
 
+  /**
+   * A connected distributor that sends without pausing between transfers
+   */
+  const createDistributor = (
+    config: Partial<AppConfig> = {},
+    failureHandler?: TransactionFailureHandler,
+    overrides: Partial<DistributorInternals> = {}
+  ) => {
+    const instance = new TokenDistributor({ ...mockConfig, ...config }, mockLogger, failureHandler);
+    connect(instance, overrides);
+    jest.spyOn(internals(instance), 'delay').mockResolvedValue(undefined);
+    return instance;
+  };
+
   describe('validateSufficientBalance', () => {
     beforeEach(() => {
       // Mock the checkDistributorBalance method
@@ -116,6 +196,23 @@ describe('TokenDistributor', () => {
       );
     });
 
+    test('should use exact estimated fees instead of the gas buffer', async () => {
+      const distributionAmount = ai3ToShannons('999.5'); // 999.5 AI3
+      const estimatedFees = ai3ToShannons('0.25');
+
+      const result = await distributor.validateSufficientBalance(distributionAmount, estimatedFees);
+
+      expect(result.sufficient).toBe(true);
+      expect(result.requiredAmount).toBe(distributionAmount + estimatedFees);
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        'Balance validation completed',
+        expect.objectContaining({
+          estimatedFees: estimatedFees.toString(),
+          requiredAmount: (distributionAmount + estimatedFees).toString(),
+        })
+      );
+    });
+
     test('should include gas buffer in balance calculation - insufficient balance', async () => {
       const distributionAmount = ai3ToShannons('999.5'); // 999.5 AI3
 
@@ -265,13 +362,11 @@ describe('TokenDistributor', () => {
         .mockResolvedValue('1000000000000000000000');
 
       // Set internal connection state
-      (distributorWithAbort as any).isConnected = true;
-      (distributorWithAbort as any).api = {}; // Mock API
-      (distributorWithAbort as any).account = {}; // Mock account
+      connect(distributorWithAbort);
 
       // Mock executeTransfer to throw an error (to trigger failure handler)
       jest
-        .spyOn(distributorWithAbort as any, 'executeTransfer')
+        .spyOn(internals(distributorWithAbort), 'executeTransfer')
         .mockRejectedValue(new Error('Mock transaction error'));
 
       const records = [
@@ -310,19 +405,19 @@ describe('TokenDistributor', () => {
         .mockResolvedValue('1000000000000000000000');
 
       // Set internal connection state
-      (distributorWithPause as any).isConnected = true;
-      (distributorWithPause as any).api = {};
-      (distributorWithPause as any).account = {};
+      connect(distributorWithPause);
 
       // Mock executeTransfer to fail on first attempt, succeed on second
       let callCount = 0;
-      jest.spyOn(distributorWithPause as any, 'executeTransfer').mockImplementation(async () => {
-        callCount++;
-        if (callCount === 1) {
-          throw new Error('First attempt fails');
-        }
-        return { success: true, transactionHash: 'hash123', blockNumber: 100 };
-      });
+      jest
+        .spyOn(internals(distributorWithPause), 'executeTransfer')
+        .mockImplementation(async () => {
+          callCount++;
+          if (callCount === 1) {
+            throw new Error('First attempt fails');
+          }
+          return { success: true, transactionHash: 'hash123', blockNumber: 100 };
+        });
 
       const records = [
         {
@@ -347,6 +442,26 @@ describe('TokenDistributor', () => {
       expect(records[0].status).toBe('completed');
     });
 
+    test('should not count a failed attempt that a retry completed', async () => {
+      const failureHandler = { handleFailure: jest.fn().mockResolvedValue('retry') };
+      const retryingDistributor = new TokenDistributor(mockConfig, mockLogger, failureHandler);
+      connect(retryingDistributor);
+      jest.spyOn(internals(retryingDistributor), 'delay').mockResolvedValue(undefined);
+      jest
+        .spyOn(internals(retryingDistributor), 'executeTransfer')
+        .mockResolvedValueOnce({ success: false, error: 'Temporary failure' })
+        .mockResolvedValue({ success: true, transactionHash: 'hash123', blockNumber: 100 });
+
+      const records: DistributionRecord[] = [
+        { address: 'test-address', amount: 100n, status: 'pending' },
+      ];
+      const summary = await retryingDistributor.distribute(records);
+
+      expect(records[0]).toMatchObject({ status: 'completed', attempts: 1 });
+      expect(summary).toMatchObject({ completed: 1, failed: 0, failedAmount: 0n });
+      expect(summaryExitCode(summary)).toBe(ExitCode.Success);
+    });
+
     test('should handle pause correctly without setting endTime', async () => {
       const mockFailureHandler = {
         handleFailure: jest.fn().mockResolvedValue('pause'),
@@ -361,13 +476,11 @@ describe('TokenDistributor', () => {
         .mockResolvedValue('1000000000000000000000');
 
       // Set internal connection state
-      (distributorWithPause as any).isConnected = true;
-      (distributorWithPause as any).api = {};
-      (distributorWithPause as any).account = {};
+      connect(distributorWithPause);
 
       // Mock executeTransfer to fail (trigger pause)
       jest
-        .spyOn(distributorWithPause as any, 'executeTransfer')
+        .spyOn(internals(distributorWithPause), 'executeTransfer')
         .mockRejectedValue(new Error('Transaction failed'));
 
       const records = [
@@ -389,4 +502,1065 @@ describe('TokenDistributor', () => {
       expect(mockLogger.logDistributionPaused).toHaveBeenCalledWith(0, 'User requested pause');
     });
   });
+
+  describe('existential deposit decisions', () => {
+    test('should not send skipped records and report every decision in the summary', async () => {
+      connect(distributor);
+      jest.spyOn(internals(distributor), 'delay').mockResolvedValue(undefined);
+      const executeTransfer = jest
+        .spyOn(internals(distributor), 'executeTransfer')
+        .mockResolvedValue({ success: true, transactionHash: '0xhash' });
+
+      const records = [
+        {
+          address: 'address-0',
+          amount: 5n,
+          status: 'skipped' as const,
+          existentialDepositAction: 'skipped' as const,
+        },
+        {
+          address: 'address-1',
+          amount: 500n,
+          requestedAmount: 7n,
+          status: 'pending' as const,
+          existentialDepositAction: 'raised' as const,
+        },
+      ];
+
+      const summary = await distributor.distribute(records);
+
+      expect(executeTransfer).toHaveBeenCalledTimes(1);
+      expect(executeTransfer).toHaveBeenCalledWith(records[1]);
+      expect(summary.skipped).toBe(1);
+      expect(summary.existentialDepositDecisions).toEqual([
+        { index: 0, address: 'address-0', action: 'skipped', requestedAmount: 5n, amount: 5n },
+        { index: 1, address: 'address-1', action: 'raised', requestedAmount: 7n, amount: 500n },
+      ]);
+    });
+  });
+
+  describe('streamed distribution', () => {
+    const chunkOf = (...rows: number[]): DistributionRecord[] =>
+      rows.map(row => ({
+        address: `address-${row}`,
+        amount: 100n,
+        status: 'pending' as const,
+        sourceRowNumber: row,
+      }));
+
+    async function* chunks(...list: ReturnType<typeof chunkOf>[]) {
+      yield* list;
+    }
+
+    beforeEach(() => {
+      connect(distributor);
+      jest.spyOn(internals(distributor), 'delay').mockResolvedValue(undefined);
+      jest.spyOn(distributor, 'preflightRecipients').mockResolvedValue({
+        existentialDeposit: 1n,
+        checkedAccounts: 0,
+        newAccounts: 0,
+        decisions: [],
+        blocked: false,
+      });
+    });
+
+    test('should send every chunk and save where the next one starts', async () => {
+      const executeTransfer = jest
+        .spyOn(internals(distributor), 'executeTransfer')
+        .mockResolvedValue({ success: true, transactionHash: '0xhash' });
+      const resumeManager = internals(distributor).resumeManager;
+
+      const summary = await distributor.distributeStream(
+        chunks(chunkOf(1, 2), chunkOf(4)),
+        'input.csv'
+      );
+
+      expect(executeTransfer).toHaveBeenCalledTimes(3);
+      expect(resumeManager.setStreamPosition).toHaveBeenNthCalledWith(1, {
+        nextRow: 3,
+        completed: undefined,
+      });
+      expect(resumeManager.setStreamPosition).toHaveBeenNthCalledWith(2, {
+        nextRow: 5,
+        completed: expect.objectContaining({ totalRecords: 2, completed: 2 }),
+      });
+      expect(summary).toMatchObject({ totalRecords: 3, completed: 3, totalAmount: 300n });
+      expect(summary.endTime).toBeDefined();
+      expect(resumeManager.clearState).toHaveBeenCalledTimes(1);
+    });
+
+    test('should finish the saved chunk of a resumed run before reading on', async () => {
+      const executeTransfer = jest
+        .spyOn(internals(distributor), 'executeTransfer')
+        .mockResolvedValue({ success: true, transactionHash: '0xhash' });
+      const saved = chunkOf(3, 4);
+      saved[0] = { ...saved[0], status: 'completed' };
+      const completed = {
+        totalRecords: 2,
+        completed: 2,
+        failed: 0,
+        skipped: 0,
+        totalAmount: 200n,
+        distributedAmount: 200n,
+        failedAmount: 0n,
+        feesPaid: 0n,
+        startTime: new Date(),
+        existentialDepositDecisions: [],
+      };
+
+      const resumeData = {
+        records: saved,
+        summary: completed,
+        lastProcessedIndex: 1,
+        timestamp: new Date(),
+        stream: { nextRow: 5, completed },
+      };
+
+      const summary = await distributor.distributeStream(
+        chunks(chunkOf(5)),
+        'input.csv',
+        undefined,
+        undefined,
+        resumeData
+      );
+
+      const sentRows = executeTransfer.mock.calls.map(([record]) => record.sourceRowNumber);
+      expect(sentRows).toEqual([4, 5]);
+      expect(summary).toMatchObject({ totalRecords: 5, completed: 4 });
+    });
+
+    test('should stop before sending a chunk the pre-flight blocks', async () => {
+      const executeTransfer = jest.spyOn(internals(distributor), 'executeTransfer');
+      (distributor.preflightRecipients as jest.Mock).mockResolvedValue({
+        existentialDeposit: 1n,
+        checkedAccounts: 1,
+        newAccounts: 1,
+        decisions: [
+          {
+            index: 0,
+            address: 'address-7',
+            action: 'blocked',
+            requestedAmount: 100n,
+            amount: 100n,
+          },
+        ],
+        blocked: true,
+      });
+
+      await expect(distributor.distributeStream(chunks(chunkOf(7)), 'input.csv')).rejects.toThrow(
+        'Transfers below the existential deposit to new accounts on rows 7'
+      );
+      expect(executeTransfer).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('transfer mode', () => {
+    test('should send transferAllowDeath only when configured', async () => {
+      const { transfer } = jest.requireMock('@autonomys/auto-consensus');
+      transfer.mockRejectedValue(new Error('stop after building the call'));
+
+      const allowDeathDistributor = new TokenDistributor(
+        { ...mockConfig, transferMode: 'transferAllowDeath' },
+        mockLogger
+      );
+      for (const instance of [distributor, allowDeathDistributor]) {
+        Object.assign(internals(instance), { api: {}, account: {} });
+        await internals(instance).executeTransfer({
+          address: 'address-0',
+          amount: 1n,
+          status: 'pending',
+        });
+      }
+
+      expect(transfer).toHaveBeenNthCalledWith(1, {}, 'address-0', '1', false);
+      expect(transfer).toHaveBeenNthCalledWith(2, {}, 'address-0', '1', true);
+    });
+  });
+
+  describe('batch mode', () => {
+    const batched: Partial<AppConfig> = { batchSize: 2, batchMode: 'forceBatch' };
+
+    test('should pack records into batches of batchSize', async () => {
+      const batchDistributor = createDistributor(batched);
+      const executeBatch = jest
+        .spyOn(internals(batchDistributor), 'executeBatch')
+        .mockImplementation(async batch =>
+          batch.map(() => ({ success: true, transactionHash: '0xbatch', blockNumber: 7 }))
+        );
+
+      const records = makeRecords(5);
+      const summary = await batchDistributor.distribute(records);
+
+      expect(executeBatch).toHaveBeenCalledTimes(3);
+      expect(executeBatch.mock.calls[0][0].length).toBe(2);
+      expect(executeBatch.mock.calls[2][0].length).toBe(1);
+      expect(summary.completed).toBe(5);
+      expect(summary.endTime).toBeDefined();
+      records.forEach(record => {
+        expect(record.status).toBe('completed');
+        expect(record.transactionHash).toBe('0xbatch');
+        expect(record.blockNumber).toBe(7);
+      });
+    });
+
+    test('should save only the records each batch touched', async () => {
+      const batchDistributor = createDistributor(batched);
+      jest
+        .spyOn(internals(batchDistributor), 'executeBatch')
+        .mockImplementation(async batch =>
+          batch.map(() => ({ success: true, transactionHash: '0xbatch' }))
+        );
+      const saved: (number[] | undefined)[] = [];
+      internals(batchDistributor).resumeManager.saveState.mockImplementation(
+        async (_records, _summary, _index, _sourceFilename, changed) => {
+          saved.push(changed && [...changed]);
+        }
+      );
+
+      await batchDistributor.distribute(makeRecords(5));
+
+      // The first save writes every record
+      expect(saved).toEqual([undefined, [0, 1], [2, 3], [4]]);
+    });
+
+    test('should map failed batch items back onto their records', async () => {
+      const failureHandler = { handleFailure: jest.fn().mockResolvedValue('skip') };
+      const batchDistributor = createDistributor(batched, failureHandler);
+      jest.spyOn(internals(batchDistributor), 'executeBatch').mockResolvedValue([
+        { success: true, transactionHash: '0xbatch' },
+        { success: false, error: 'Token.BelowMinimum' },
+      ]);
+
+      const records = makeRecords(2);
+      const summary = await batchDistributor.distribute(records);
+
+      expect(records[0].status).toBe('completed');
+      expect(records[1].status).toBe('failed');
+      expect(records[1].error).toBe('Token.BelowMinimum');
+      expect(summary.completed).toBe(1);
+      expect(summary.failed).toBe(1);
+      expect(failureHandler.handleFailure).toHaveBeenCalledTimes(1);
+      expect(failureHandler.handleFailure).toHaveBeenCalledWith(
+        records[1],
+        1,
+        expect.any(Error),
+        1
+      );
+    });
+
+    test('should retry failed batch items as individual transfers', async () => {
+      const failureHandler = { handleFailure: jest.fn().mockResolvedValue('retry') };
+      const batchDistributor = createDistributor(batched, failureHandler);
+      jest.spyOn(internals(batchDistributor), 'executeBatch').mockResolvedValue([
+        { success: false, error: 'Pool full' },
+        { success: true, transactionHash: '0xbatch' },
+      ]);
+      const executeTransfer = jest
+        .spyOn(internals(batchDistributor), 'executeTransfer')
+        .mockResolvedValue({ success: true, transactionHash: '0xsingle' });
+
+      const records = makeRecords(2);
+      const summary = await batchDistributor.distribute(records);
+
+      expect(executeTransfer).toHaveBeenCalledTimes(1);
+      expect(records[0].status).toBe('completed');
+      expect(records[0].transactionHash).toBe('0xsingle');
+      expect(summary.completed).toBe(2);
+    });
+
+    test('should back off before a retry by the error class', async () => {
+      const failureHandler = { handleFailure: jest.fn().mockResolvedValue('retry') };
+      const batchDistributor = createDistributor(batched, failureHandler);
+      jest.spyOn(internals(batchDistributor), 'executeBatch').mockResolvedValue([
+        { success: false, error: '1014: Priority is too low' },
+        { success: true, transactionHash: '0xbatch' },
+      ]);
+      jest
+        .spyOn(internals(batchDistributor), 'executeTransfer')
+        .mockResolvedValue({ success: true, transactionHash: '0xsingle' });
+
+      await batchDistributor.distribute(makeRecords(2));
+
+      expect(internals(batchDistributor).delay).toHaveBeenCalledWith(2000);
+    });
+
+    test('should fall back to the retry policy without a failure handler', async () => {
+      const batchDistributor = createDistributor(batched);
+      jest.spyOn(internals(batchDistributor), 'executeBatch').mockResolvedValue([
+        { success: false, error: 'balances.InsufficientBalance' },
+        { success: true, transactionHash: '0xbatch' },
+      ]);
+      const executeTransfer = jest.spyOn(internals(batchDistributor), 'executeTransfer');
+
+      const records = makeRecords(2);
+      const summary = await batchDistributor.distribute(records);
+
+      // Permanent errors are skipped, not retried
+      expect(executeTransfer).not.toHaveBeenCalled();
+      expect(records[0].status).toBe('failed');
+      expect(summary.failed).toBe(1);
+      expect(summary.endTime).toBeDefined();
+    });
+
+    test('should record fees paid by completed and failed batch items', async () => {
+      const failureHandler = { handleFailure: jest.fn().mockResolvedValue('retry') };
+      const batchDistributor = createDistributor(batched, failureHandler);
+      jest.spyOn(internals(batchDistributor), 'executeBatch').mockResolvedValue([
+        { success: false, error: 'Token.BelowMinimum', feePaid: 501n, tipPaid: 1n },
+        { success: true, transactionHash: '0xbatch', feePaid: 500n, tipPaid: 0n },
+      ]);
+      jest
+        .spyOn(internals(batchDistributor), 'executeTransfer')
+        .mockResolvedValue({ success: true, transactionHash: '0xsingle', feePaid: 700n });
+
+      const records = makeRecords(2);
+      const summary = await batchDistributor.distribute(records);
+
+      // The failed attempt was charged too, so the retried record carries both fees
+      expect(records[0].feePaid).toBe(1201n);
+      expect(records[0].tipPaid).toBe(1n);
+      expect(records[1].feePaid).toBe(500n);
+      expect(summary.feesPaid).toBe(1701n);
+    });
+
+    test('should pause at the failed batch item', async () => {
+      const failureHandler = { handleFailure: jest.fn().mockResolvedValue('pause') };
+      const batchDistributor = createDistributor(batched, failureHandler);
+      jest.spyOn(internals(batchDistributor), 'executeBatch').mockResolvedValue([
+        { success: true, transactionHash: '0xbatch' },
+        { success: false, error: 'Pool full' },
+      ]);
+
+      const records = makeRecords(4);
+      const summary = await batchDistributor.distribute(records);
+
+      expect(summary.endTime).toBeUndefined();
+      expect(records[2].status).toBe('pending');
+      expect(mockLogger.logDistributionPaused).toHaveBeenCalledWith(1, 'User requested pause');
+    });
+
+    test('should skip completed records when building batches', async () => {
+      const batchDistributor = createDistributor(batched);
+      const executeBatch = jest
+        .spyOn(internals(batchDistributor), 'executeBatch')
+        .mockImplementation(async batch =>
+          batch.map(() => ({ success: true, transactionHash: '0xbatch' }))
+        );
+
+      const records = makeRecords(3);
+      records[0].status = 'completed';
+
+      const summary = await batchDistributor.distribute(records);
+
+      expect(executeBatch).toHaveBeenCalledTimes(1);
+      expect(executeBatch.mock.calls[0][0].map(r => r.address)).toEqual(['address-1', 'address-2']);
+      expect(summary.skipped).toBe(1);
+      expect(summary.completed).toBe(2);
+    });
+  });
+
+  describe('pipelined mode', () => {
+    const pipelined: Partial<AppConfig> = { pipelineDepth: 3 };
+
+    // Next nonce of the distributor account, as read when the distribution starts
+    const fetchNextNonce = jest.fn();
+
+    beforeEach(() => {
+      fetchNextNonce.mockResolvedValue(40);
+    });
+
+    test('should assign consecutive nonces and bound the number in flight', async () => {
+      const pipelinedDistributor = createDistributor(pipelined, undefined, { fetchNextNonce });
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const executeTransfer = jest
+        .spyOn(internals(pipelinedDistributor), 'executeTransfer')
+        .mockImplementation(async () => {
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          await new Promise(resolve => setTimeout(resolve, 5));
+          inFlight--;
+          return { success: true, transactionHash: '0xhash' };
+        });
+
+      const records = makeRecords(7);
+      const summary = await pipelinedDistributor.distribute(records);
+
+      expect(summary.completed).toBe(7);
+      expect(maxInFlight).toBe(3);
+      expect(executeTransfer.mock.calls.map(call => call[1])).toEqual([40, 41, 42, 43, 44, 45, 46]);
+      records.forEach(record => expect(record.status).toBe('completed'));
+    });
+
+    test('should fill the nonce gap and retry with a fresh nonce', async () => {
+      const failureHandler = { handleFailure: jest.fn().mockResolvedValue('retry') };
+      const pipelinedDistributor = createDistributor(pipelined, failureHandler, { fetchNextNonce });
+      const fillNonceGap = jest
+        .spyOn(internals(pipelinedDistributor), 'fillNonceGap')
+        .mockResolvedValue(undefined);
+      let firstAttempt = true;
+      const executeTransfer = jest
+        .spyOn(internals(pipelinedDistributor), 'executeTransfer')
+        .mockImplementation(async record => {
+          if (record.address === 'address-1' && firstAttempt) {
+            firstAttempt = false;
+            return { success: false, error: 'Priority is too low' };
+          }
+          return { success: true, transactionHash: '0xhash' };
+        });
+
+      const records = makeRecords(3);
+      const summary = await pipelinedDistributor.distribute(records);
+
+      expect(fillNonceGap).toHaveBeenCalledWith(41);
+      expect(executeTransfer).toHaveBeenCalledTimes(4);
+      expect(executeTransfer.mock.calls[3][1]).toBe(43);
+      expect(records[1].status).toBe('completed');
+      expect(summary.completed).toBe(3);
+    });
+
+    test('should settle in-flight transfers before pausing', async () => {
+      const failureHandler = { handleFailure: jest.fn().mockResolvedValue('pause') };
+      const pipelinedDistributor = createDistributor(pipelined, failureHandler, { fetchNextNonce });
+      jest.spyOn(internals(pipelinedDistributor), 'fillNonceGap').mockResolvedValue(undefined);
+      jest
+        .spyOn(internals(pipelinedDistributor), 'executeTransfer')
+        .mockImplementation(async record => {
+          if (record.address === 'address-0') {
+            return { success: false, error: 'Transaction failed' };
+          }
+          await new Promise(resolve => setTimeout(resolve, 5));
+          return { success: true, transactionHash: '0xhash' };
+        });
+
+      const records = makeRecords(5);
+      const summary = await pipelinedDistributor.distribute(records);
+
+      expect(summary.endTime).toBeUndefined();
+      expect(records[0].status).toBe('failed');
+      expect(records[1].status).toBe('completed');
+      expect(records[2].status).toBe('completed');
+      expect(records[3].status).toBe('pending');
+      expect(mockLogger.logDistributionPaused).toHaveBeenCalledWith(0, 'User requested pause');
+    });
+
+    test('should release unsent in-flight records and skip ones that may have landed', async () => {
+      fetchNextNonce.mockResolvedValue(11);
+      const pipelinedDistributor = createDistributor(pipelined, undefined, { fetchNextNonce });
+      const executeTransfer = jest
+        .spyOn(internals(pipelinedDistributor), 'executeTransfer')
+        .mockResolvedValue({ success: true, transactionHash: '0xhash' });
+
+      const records = makeRecords(2);
+      records[0].status = 'processing';
+      records[0].nonce = 10; // Consumed on chain or still in the pool
+      records[1].status = 'processing';
+      records[1].nonce = 11; // Never reached the node
+
+      const summary = await pipelinedDistributor.distribute(records);
+
+      expect(executeTransfer).toHaveBeenCalledTimes(1);
+      expect(executeTransfer.mock.calls[0][0]).toBe(records[1]);
+      expect(records[0].status).toBe('processing');
+      expect(summary.skipped).toBe(1);
+      expect(summary.completed).toBe(1);
+    });
+  });
+
+  describe('finality', () => {
+    test('should mark records finalized and skip them on resume', async () => {
+      const finalityDistributor = new TokenDistributor(
+        { ...mockConfig, waitForFinality: true },
+        mockLogger
+      );
+      connect(finalityDistributor);
+      jest.spyOn(internals(finalityDistributor), 'delay').mockResolvedValue(undefined);
+      const executeTransfer = jest
+        .spyOn(internals(finalityDistributor), 'executeTransfer')
+        .mockResolvedValue({
+          success: true,
+          transactionHash: '0xhash',
+          blockHash: '0xblock',
+          blockNumber: 12,
+          finalized: true,
+        });
+
+      const records = [
+        {
+          address: 'test-address',
+          amount: BigInt('1000000000000000000'),
+          status: 'pending' as const,
+        },
+      ];
+
+      const summary = await finalityDistributor.distribute(records);
+      expect(records[0].status).toBe('finalized');
+      expect(summary.completed).toBe(1);
+
+      const resumed = await finalityDistributor.distribute(records);
+      expect(executeTransfer).toHaveBeenCalledTimes(1);
+      expect(resumed.skipped).toBe(1);
+    });
+  });
+
+  describe('deferred retries', () => {
+    const deferred: Partial<AppConfig> = {
+      retryMode: 'deferred',
+      deferredRetryPasses: 2,
+      deferredRetryDelaySeconds: 10,
+    };
+
+    test('should finish the main pass before retrying a failed record', async () => {
+      const failureHandler = { handleFailure: jest.fn().mockResolvedValue('retry') };
+      const deferredDistributor = createDistributor(deferred, failureHandler);
+      const executeTransfer = jest
+        .spyOn(internals(deferredDistributor), 'executeTransfer')
+        .mockResolvedValueOnce({ success: true, transactionHash: '0x0' })
+        .mockResolvedValueOnce({ success: false, error: '1014: Priority is too low' })
+        .mockResolvedValue({ success: true, transactionHash: '0xok' });
+
+      const records = makeRecords(3);
+      const summary = await deferredDistributor.distribute(records);
+
+      expect(executeTransfer.mock.calls.map(([record]) => record.address)).toEqual([
+        'address-0',
+        'address-1',
+        'address-2',
+        'address-1',
+      ]);
+      expect(records[1].status).toBe('completed');
+      expect(failureHandler.handleFailure).not.toHaveBeenCalled();
+      expect(internals(deferredDistributor).delay).toHaveBeenCalledWith(10000);
+      expect(summary.endTime).toBeDefined();
+      expect(summary).toMatchObject({ completed: 3, failed: 0, failedAmount: 0n });
+      expect(summaryExitCode(summary)).toBe(ExitCode.Success);
+    });
+
+    test('should hand records still failing after the last pass to the failure handler', async () => {
+      const failureHandler = { handleFailure: jest.fn().mockResolvedValue('skip') };
+      const deferredDistributor = createDistributor(deferred, failureHandler);
+      const executeTransfer = jest
+        .spyOn(internals(deferredDistributor), 'executeTransfer')
+        .mockResolvedValue({ success: false, error: '1014: Priority is too low' });
+
+      const records = makeRecords(1);
+      await deferredDistributor.distribute(records);
+
+      // Main pass and two deferred passes, with a growing delay before each
+      expect(executeTransfer).toHaveBeenCalledTimes(3);
+      expect(internals(deferredDistributor).delay).toHaveBeenCalledWith(10000);
+      expect(internals(deferredDistributor).delay).toHaveBeenCalledWith(20000);
+      expect(failureHandler.handleFailure).toHaveBeenCalledTimes(1);
+      expect(failureHandler.handleFailure).toHaveBeenCalledWith(
+        records[0],
+        0,
+        expect.any(Error),
+        3
+      );
+      expect(records[0].status).toBe('failed');
+    });
+
+    test('should check the chain before resending a deferred record that was sent', async () => {
+      const failureHandler = { handleFailure: jest.fn().mockResolvedValue('skip') };
+      const deferredDistributor = createDistributor(deferred, failureHandler);
+      const executeTransfer = jest
+        .spyOn(internals(deferredDistributor), 'executeTransfer')
+        .mockImplementation(async record => {
+          // Signed and sent, but the node reported it rejected
+          record.transactionHash = '0xsent';
+          record.nonce = 3;
+          return { success: false, error: '1014: Priority is too low' };
+        });
+      // It made it into a block after all
+      const reconcile = jest
+        .spyOn(Reconciler.prototype, 'reconcile')
+        .mockImplementation(async records => {
+          records[0].status = 'completed';
+          records[0].blockNumber = 12;
+          return {} as ReconciliationReport;
+        });
+
+      const records = makeRecords(1);
+      const summary = await deferredDistributor.distribute(records);
+
+      expect(executeTransfer).toHaveBeenCalledTimes(1);
+      expect(reconcile).toHaveBeenCalledWith([records[0]], expect.any(Date));
+      expect(records[0]).toMatchObject({ status: 'completed', transactionHash: '0xsent' });
+      expect(summary).toMatchObject({ completed: 1, failed: 0 });
+      expect(failureHandler.handleFailure).not.toHaveBeenCalled();
+
+      reconcile.mockRestore();
+    });
+
+    test('should not defer errors the retry policy does not retry', async () => {
+      const failureHandler = { handleFailure: jest.fn().mockResolvedValue('skip') };
+      const deferredDistributor = createDistributor(deferred, failureHandler);
+      const executeTransfer = jest
+        .spyOn(internals(deferredDistributor), 'executeTransfer')
+        .mockResolvedValue({ success: false, error: 'balances.InsufficientBalance' });
+
+      await deferredDistributor.distribute(makeRecords(1));
+
+      expect(executeTransfer).toHaveBeenCalledTimes(1);
+      expect(failureHandler.handleFailure).toHaveBeenCalledTimes(1);
+    });
+
+    test('should resume from the first deferred record when paused', async () => {
+      const failureHandler = { handleFailure: jest.fn().mockResolvedValue('pause') };
+      const deferredDistributor = createDistributor(
+        { ...deferred, batchSize: 2, batchMode: 'forceBatch' },
+        failureHandler
+      );
+      jest
+        .spyOn(internals(deferredDistributor), 'executeBatch')
+        .mockResolvedValueOnce([
+          { success: false, error: '1014: Priority is too low' },
+          { success: true, transactionHash: '0xbatch' },
+        ])
+        .mockResolvedValueOnce([
+          { success: true, transactionHash: '0xbatch' },
+          { success: false, error: 'balances.InsufficientBalance' },
+        ]);
+      const saveState = internals(deferredDistributor).resumeManager.saveState;
+
+      const records = makeRecords(4);
+      const summary = await deferredDistributor.distribute(records);
+
+      expect(summary.endTime).toBeUndefined();
+      expect(saveState).toHaveBeenLastCalledWith(records, summary, 0);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    const guarded: Partial<AppConfig> = {
+      circuitBreaker: {
+        maxConsecutiveFailures: 2,
+        maxFailureRatePercent: 0,
+        failureRateWindow: 0,
+        chainStallSeconds: 60,
+        checkBalance: true,
+      },
+    };
+
+    // Timestamp of the best block, as read by the chain stall check
+    const now = jest.fn();
+    const chain = { api: { query: { timestamp: { now } } }, account: { address: 'distributor' } };
+
+    beforeEach(() => {
+      now.mockResolvedValue(Date.now());
+      (balance as jest.Mock).mockResolvedValue({ free: BigInt('100000000000000000000') });
+    });
+
+    test('should pause the distribution after consecutive failures', async () => {
+      const failureHandler = { handleFailure: jest.fn().mockResolvedValue('skip') };
+      const guardedDistributor = createDistributor(guarded, failureHandler, chain);
+      const executeTransfer = jest
+        .spyOn(internals(guardedDistributor), 'executeTransfer')
+        .mockResolvedValue({ success: false, error: 'balances.InsufficientBalance' });
+
+      const records = makeRecords(4);
+      const summary = await guardedDistributor.distribute(records);
+
+      // The operator is asked about the first failure only
+      expect(executeTransfer).toHaveBeenCalledTimes(2);
+      expect(failureHandler.handleFailure).toHaveBeenCalledTimes(1);
+      expect(summary.endTime).toBeUndefined();
+      expect(summary.circuitBreaker).toEqual({
+        trigger: 'consecutiveFailures',
+        reason: '2 transfers failed in a row',
+      });
+      expect(mockLogger.logDistributionPaused).toHaveBeenCalledWith(
+        1,
+        'Circuit breaker: 2 transfers failed in a row'
+      );
+      expect(internals(guardedDistributor).resumeManager.saveState).toHaveBeenLastCalledWith(
+        records,
+        summary,
+        1
+      );
+    });
+
+    test('should pause once the balance cannot cover the remaining records', async () => {
+      (balance as jest.Mock).mockResolvedValue({ free: BigInt('500000000000000000') });
+      const guardedDistributor = createDistributor(guarded, undefined, chain);
+      const executeTransfer = jest
+        .spyOn(internals(guardedDistributor), 'executeTransfer')
+        .mockResolvedValue({ success: true, transactionHash: '0xok' });
+
+      const records = makeRecords(3);
+      const summary = await guardedDistributor.distribute(records);
+
+      expect(executeTransfer).toHaveBeenCalledTimes(1);
+      expect(summary.circuitBreaker?.trigger).toBe('lowBalance');
+      expect(records[1].status).toBe('pending');
+    });
+
+    test('should read the chain once per interval, not after every record', async () => {
+      (balance as jest.Mock).mockClear();
+      now.mockClear();
+      const guardedDistributor = createDistributor(guarded, undefined, chain);
+      jest
+        .spyOn(internals(guardedDistributor), 'executeTransfer')
+        .mockResolvedValue({ success: true, transactionHash: '0xok' });
+
+      const summary = await guardedDistributor.distribute(makeRecords(4));
+
+      // All four records settle well within one interval
+      expect(balance).toHaveBeenCalledTimes(1);
+      expect(now).toHaveBeenCalledTimes(1);
+      expect(summary.endTime).toBeDefined();
+    });
+
+    test('should pause when the chain stops producing blocks', async () => {
+      const failureHandler = { handleFailure: jest.fn().mockResolvedValue('skip') };
+      const guardedDistributor = createDistributor(guarded, failureHandler, chain);
+      now.mockResolvedValue(Date.now() - 600_000);
+      jest
+        .spyOn(internals(guardedDistributor), 'executeTransfer')
+        .mockResolvedValue({ success: false, error: 'Timed out waiting for confirmations' });
+
+      const summary = await guardedDistributor.distribute(makeRecords(2));
+
+      expect(summary.circuitBreaker?.trigger).toBe('chainStall');
+      expect(failureHandler.handleFailure).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dispatch errors', () => {
+    const insufficientBalance = {
+      pallet: 'balances',
+      error: 'InsufficientBalance',
+      docs: 'Balance too low to send value.',
+      raw: '{"module":{"index":4,"error":"0x02000000"}}',
+    };
+
+    const skip = { handleFailure: jest.fn().mockResolvedValue('skip') };
+
+    test('should store the decoded error on the record and group failures by error', async () => {
+      const sequentialDistributor = createDistributor({}, skip);
+      jest
+        .spyOn(internals(sequentialDistributor), 'executeTransfer')
+        .mockResolvedValueOnce({
+          success: false,
+          error: 'balances.InsufficientBalance',
+          dispatchError: insufficientBalance,
+        })
+        .mockResolvedValueOnce({ success: true, transactionHash: '0xok' })
+        .mockResolvedValueOnce({
+          success: false,
+          error: 'balances.InsufficientBalance',
+          dispatchError: insufficientBalance,
+        });
+
+      const records: DistributionRecord[] = Array.from({ length: 3 }, (_, i) => ({
+        address: `address-${i}`,
+        amount: BigInt('1000000000000000000'),
+        status: 'pending' as const,
+      }));
+      const summary = await sequentialDistributor.distribute(records);
+
+      expect(records[0].status).toBe('failed');
+      expect(records[0].error).toBe('balances.InsufficientBalance');
+      expect(records[0].dispatchError).toEqual(insufficientBalance);
+      expect(records[1].dispatchError).toBeUndefined();
+      expect(summary.failureHistogram).toEqual([
+        {
+          error: 'balances.InsufficientBalance',
+          count: 2,
+          amount: BigInt('2000000000000000000'),
+        },
+      ]);
+      expect(mockLogger.warn).toHaveBeenCalledWith('Failed transfers by error', {
+        failures: [
+          { error: 'balances.InsufficientBalance', count: 2, amount: '2000000000000000000' },
+        ],
+      });
+    });
+
+    test('should decode the error of a transfer the runtime rejected', async () => {
+      const { transfer } = jest.requireMock('@autonomys/auto-consensus');
+      const { signAndSendTx } = jest.requireMock('@autonomys/auto-utils');
+      transfer.mockResolvedValue({ hash: { toHex: () => '0xfailed' } });
+      const receipt = {
+        status: { isInBlock: true, asInBlock: { toHex: () => '0xblock' } },
+        events: [
+          {
+            event: {
+              section: 'transactionPayment',
+              method: 'TransactionFeePaid',
+              data: ['distributor', 1500n, 0n],
+            },
+          },
+          {
+            event: {
+              section: 'system',
+              method: 'ExtrinsicFailed',
+              data: [{ isModule: true, asModule: {}, toString: () => insufficientBalance.raw }],
+            },
+          },
+        ],
+      };
+      // Like the SDK: rejected with "Events not found" unless the receipt has every expected event
+      signAndSendTx.mockImplementation(
+        async (
+          _sender: string,
+          _tx: unknown,
+          _options: unknown,
+          eventsExpected = ['system.ExtrinsicSuccess']
+        ) => {
+          const found = receipt.events.map(({ event }) => `${event.section}.${event.method}`);
+          if (!eventsExpected.every((expected: string) => found.includes(expected))) {
+            throw new Error('Events not found');
+          }
+          return { txHash: '0xfailed', receipt };
+        }
+      );
+
+      const sequentialDistributor = createDistributor({}, skip);
+      internals(sequentialDistributor).api = {
+        registry: {
+          findMetaError: () => ({
+            section: 'balances',
+            name: 'InsufficientBalance',
+            docs: ['Balance too low to send value.'],
+          }),
+        },
+      };
+      const waitForConfirmation = jest.spyOn(
+        internals(sequentialDistributor),
+        'waitForConfirmation'
+      );
+
+      const records: DistributionRecord[] = [
+        { address: 'address-0', amount: 100n, status: 'pending' },
+      ];
+      const summary = await sequentialDistributor.distribute(records);
+
+      expect(waitForConfirmation).not.toHaveBeenCalled();
+      expect(records[0]).toMatchObject({
+        status: 'failed',
+        error: 'balances.InsufficientBalance',
+        dispatchError: insufficientBalance,
+        feePaid: 1500n,
+      });
+      expect(summary.failed).toBe(1);
+
+      signAndSendTx.mockReset();
+    });
+
+    test('should clear the decoded error when a failed record is sent again', async () => {
+      const sequentialDistributor = createDistributor({}, skip);
+      jest
+        .spyOn(internals(sequentialDistributor), 'executeTransfer')
+        .mockResolvedValue({ success: true, transactionHash: '0xok' });
+
+      const records: DistributionRecord[] = [
+        {
+          address: 'address-0',
+          amount: BigInt('1000000000000000000'),
+          status: 'failed',
+          error: 'balances.InsufficientBalance',
+          dispatchError: insufficientBalance,
+        },
+      ];
+      const summary = await sequentialDistributor.distribute(records);
+
+      expect(records[0].status).toBe('completed');
+      expect(records[0].dispatchError).toBeUndefined();
+      expect(summary.failureHistogram).toEqual([]);
+    });
+  });
+
+  describe('connection loss', () => {
+    test('should pause instead of failing and resend transfers that never landed', async () => {
+      const failureHandler = { handleFailure: jest.fn().mockResolvedValue('skip') };
+      const sequentialDistributor = createDistributor({}, failureHandler);
+      const recoverFromDisconnect = jest
+        .spyOn(internals(sequentialDistributor), 'recoverInDoubt')
+        .mockImplementation(async (run, indices) => {
+          indices.forEach(index => (run.records[index].status = 'pending'));
+          return indices;
+        });
+      const executeTransfer = jest
+        .spyOn(internals(sequentialDistributor), 'executeTransfer')
+        .mockResolvedValueOnce({ success: false, error: 'disconnected', connectionLost: true })
+        .mockResolvedValue({ success: true, transactionHash: '0xhash' });
+
+      const records = makeRecords(2);
+      const summary = await sequentialDistributor.distribute(records);
+
+      expect(recoverFromDisconnect).toHaveBeenCalledWith(expect.anything(), [0]);
+      expect(executeTransfer).toHaveBeenCalledTimes(3);
+      expect(failureHandler.handleFailure).not.toHaveBeenCalled();
+      expect(summary.failed).toBe(0);
+      expect(summary.completed).toBe(2);
+    });
+
+    test('should check the chain for lost batch transfers after reconnecting', async () => {
+      const api = {};
+      const connection = {
+        isConnected: false,
+        guard: (operation: Promise<unknown>) => operation,
+        waitUntilConnected: jest.fn(async () => {
+          connection.isConnected = true;
+          return api;
+        }),
+      };
+      const batchDistributor = createDistributor(
+        { batchMode: 'batchAll', batchSize: 3 },
+        undefined,
+        {
+          connection,
+          account: { address: 'distributor' },
+        }
+      );
+      const reconcile = jest
+        .spyOn(Reconciler.prototype, 'reconcile')
+        .mockImplementation(async records => {
+          // Landed, still in the pool, and never sent
+          records[0].status = 'completed';
+          records[0].transactionHash = '0xlanded';
+          records[1].nonce = 9;
+          records[2].status = 'pending';
+          return {} as ReconciliationReport;
+        });
+      const executeBatch = jest
+        .spyOn(internals(batchDistributor), 'executeBatch')
+        .mockImplementationOnce(async batch =>
+          batch.map(() => ({ success: false, error: 'disconnected', connectionLost: true }))
+        )
+        .mockImplementation(async batch =>
+          batch.map(() => ({ success: true, transactionHash: '0xresent' }))
+        );
+
+      const records = makeRecords(3);
+      const summary = await batchDistributor.distribute(records);
+
+      expect(connection.waitUntilConnected).toHaveBeenCalled();
+      expect(reconcile).toHaveBeenCalledTimes(1);
+      expect(executeBatch).toHaveBeenCalledTimes(2);
+      expect(executeBatch.mock.calls[1][0].map(record => record.address)).toEqual(['address-2']);
+      expect(records.map(record => record.status)).toEqual([
+        'completed',
+        'processing',
+        'completed',
+      ]);
+      expect(summary.completed).toBe(2);
+      expect(summary.skipped).toBe(1);
+      expect(summary.failed).toBe(0);
+
+      reconcile.mockRestore();
+    });
+  });
+
+  describe('unconfirmed transfers', () => {
+    test('should check the chain instead of resending a transfer whose confirmation timed out', async () => {
+      const { transfer } = jest.requireMock('@autonomys/auto-consensus');
+      const { signAndSendTx } = jest.requireMock('@autonomys/auto-utils');
+      transfer.mockResolvedValue({});
+      signAndSendTx.mockImplementation(
+        async (_sender: string, _tx: unknown, options: { signer: IntentSigner }) => {
+          await options.signer['hooks'].onSigned({ transactionHash: '0xsent', nonce: 7 });
+          return { txHash: '0xsent', receipt: { events: [] } };
+        }
+      );
+
+      const failureHandler = { handleFailure: jest.fn().mockResolvedValue('retry') };
+      const sequentialDistributor = new TokenDistributor(mockConfig, mockLogger, failureHandler);
+      connect(sequentialDistributor, { account: { address: 'distributor' } });
+      jest.spyOn(internals(sequentialDistributor), 'delay').mockResolvedValue(undefined);
+      jest
+        .spyOn(internals(sequentialDistributor), 'waitForConfirmation')
+        .mockRejectedValue(new ConfirmationTimeoutError('0xsent', 300000));
+      // Still waiting in the pool
+      const reconcile = jest
+        .spyOn(Reconciler.prototype, 'reconcile')
+        .mockImplementation(async () => ({}) as ReconciliationReport);
+
+      const records = [{ address: 'address-0', amount: 100n, status: 'pending' as const }];
+      const summary = await sequentialDistributor.distribute(records);
+
+      expect(signAndSendTx).toHaveBeenCalledTimes(1);
+      expect(reconcile).toHaveBeenCalledWith([records[0]], expect.any(Date));
+      expect(failureHandler.handleFailure).not.toHaveBeenCalled();
+      expect(records[0]).toMatchObject({
+        status: 'processing',
+        transactionHash: '0xsent',
+        nonce: 7,
+      });
+      expect(summary).toMatchObject({ completed: 0, failed: 0, skipped: 1 });
+
+      reconcile.mockRestore();
+      signAndSendTx.mockReset();
+    });
+  });
+
+  describe('resume journal', () => {
+    test('should journal the outcome of every transfer before going on', async () => {
+      const failureHandler = { handleFailure: jest.fn().mockResolvedValue('skip') };
+      const journaledDistributor = new TokenDistributor(mockConfig, mockLogger, failureHandler);
+      connect(journaledDistributor);
+      jest.spyOn(internals(journaledDistributor), 'delay').mockResolvedValue(undefined);
+      jest
+        .spyOn(internals(journaledDistributor), 'executeTransfer')
+        .mockResolvedValueOnce({
+          success: true,
+          transactionHash: '0xok',
+          blockHash: '0xblock',
+          blockNumber: 12,
+          finalized: true,
+          feePaid: 15n,
+          tipPaid: 0n,
+        })
+        .mockResolvedValueOnce({ success: false, error: 'Transaction failed', feePaid: 10n });
+
+      const records = Array.from({ length: 2 }, (_, i) => ({
+        address: `address-${i}`,
+        amount: 100n,
+        status: 'pending' as const,
+      }));
+      await journaledDistributor.distribute(records);
+
+      const appendJournal = internals(journaledDistributor).resumeManager.appendJournal;
+      const entries = appendJournal.mock.calls.flatMap(call => call[0]);
+      expect(entries).toEqual([
+        expect.objectContaining({
+          type: 'included',
+          index: 0,
+          transactionHash: '0xok',
+          blockHash: '0xblock',
+          blockNumber: 12,
+          finalized: true,
+          feePaid: 15n,
+        }),
+        expect.objectContaining({
+          type: 'failed',
+          index: 1,
+          error: 'Transaction failed',
+          feePaid: 10n,
+        }),
+      ]);
+      expect(entries[0].at).toBeInstanceOf(Date);
+    });
+
+    test('should stop when the journal cannot be written', async () => {
+      connect(distributor);
+      jest.spyOn(internals(distributor), 'delay').mockResolvedValue(undefined);
+      jest
+        .spyOn(internals(distributor), 'executeTransfer')
+        .mockResolvedValue({ success: true, transactionHash: '0xok' });
+      internals(distributor).resumeManager.appendJournal.mockRejectedValue(
+        new Error('ENOSPC: no space left on device')
+      );
+
+      const records = Array.from({ length: 2 }, (_, i) => ({
+        address: `address-${i}`,
+        amount: 100n,
+        status: 'pending' as const,
+      }));
+
+      await expect(distributor.distribute(records)).rejects.toThrow('ENOSPC');
+      expect(internals(distributor).executeTransfer).toHaveBeenCalledTimes(1);
+    });
+  });
 });
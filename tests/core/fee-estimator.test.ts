@@ -0,0 +1,166 @@
+import { transfer, balance } from '@autonomys/auto-consensus';
+import { FeeEstimator } from '../../src/core/fee-estimator';
+import { DistributionRecord } from '../../src/types';
+import Logger from '../../src/utils/logger';
+
+jest.mock('@autonomys/auto-consensus', () => ({
+  transfer: jest.fn(),
+  balance: jest.fn(),
+}));
+
+const TRANSFER_FEE = 1_000n;
+
+describe('FeeEstimator', () => {
+  const account = { address: 'su-distributor' } as any;
+
+  const mockLogger = {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  } as unknown as Logger;
+
+  const records: DistributionRecord[] = [
+    { address: 'su-alice', amount: 100_000n, status: 'pending', sourceRowNumber: 2 },
+    { address: 'su-bob', amount: 200_000n, status: 'pending', sourceRowNumber: 3 },
+    { address: 'su-charlie', amount: 300_000n, status: 'pending', sourceRowNumber: 4 },
+  ];
+
+  const ok = (value: any = undefined) => ({ isErr: false, isOk: true, asOk: value });
+  const err = (value: any) => ({ isErr: true, isOk: false, asErr: value });
+
+  /**
+   * dryRunOutcomes maps a recipient to the ApplyExtrinsicResult the node returns for it
+   */
+  function createFakeApi(dryRunOutcomes: Record<string, any> = {}, dryRunError?: Error) {
+    (transfer as jest.Mock).mockImplementation(async (_api: any, to: string) => ({
+      to,
+      paymentInfo: jest.fn(async () => ({ partialFee: { toBigInt: () => TRANSFER_FEE } })),
+      signAsync: jest.fn(async () => undefined),
+      toHex: () => to,
+    }));
+
+    const batch = (calls: any[]) => ({
+      paymentInfo: jest.fn(async () => ({
+        partialFee: { toBigInt: () => 500n + BigInt(calls.length) * 300n },
+      })),
+    });
+
+    return {
+      tx: { utility: { batchAll: jest.fn(batch), forceBatch: jest.fn(batch) } },
+      rpc: {
+        system: {
+          accountNextIndex: jest.fn(async () => ({ toNumber: () => 7 })),
+          dryRun: jest.fn(async (hex: string) => {
+            if (dryRunError) throw dryRunError;
+            return dryRunOutcomes[hex] || ok(ok());
+          }),
+        },
+      },
+      registry: {
+        findMetaError: jest.fn(() => ({
+          section: 'balances',
+          name: 'ExistentialDeposit',
+          docs: ['Value too low to create account due to existential deposit.'],
+        })),
+      },
+    } as any;
+  }
+
+  beforeEach(() => {
+    (balance as jest.Mock).mockResolvedValue({ free: 10_000_000n });
+  });
+
+  test('should report the exact fee of every transfer', async () => {
+    const api = createFakeApi();
+    const estimator = new FeeEstimator(api, mockLogger, account);
+
+    const report = await estimator.estimate(records, {
+      batchMode: 'single',
+      batchSize: 10,
+      allowDeath: false,
+      simulate: false,
+    });
+
+    expect(report.records.map(row => row.fee)).toEqual([TRANSFER_FEE, TRANSFER_FEE, TRANSFER_FEE]);
+    expect(report.totalFees).toBe(3n * TRANSFER_FEE);
+    expect(report.totalAmount).toBe(600_000n);
+    expect(report.predictedFailures).toBe(0);
+    expect(report.simulated).toBe(false);
+    expect(api.rpc.system.dryRun).not.toHaveBeenCalled();
+  });
+
+  test('should share each batch fee across its rows', async () => {
+    const api = createFakeApi();
+    const estimator = new FeeEstimator(api, mockLogger, account);
+
+    const report = await estimator.estimate(records, {
+      batchMode: 'batchAll',
+      batchSize: 2,
+      allowDeath: false,
+      simulate: false,
+    });
+
+    // Batch of 2 costs 1100 and batch of 1 costs 800
+    expect(api.tx.utility.batchAll).toHaveBeenCalledTimes(2);
+    expect(report.records.map(row => row.fee)).toEqual([550n, 550n, 800n]);
+    expect(report.totalFees).toBe(1900n);
+  });
+
+  test('should predict dispatch and validity errors with system_dryRun', async () => {
+    const api = createFakeApi({
+      'su-bob': ok(err({ isModule: true, asModule: {} })),
+      'su-charlie': err({ toString: () => '{"invalid":{"payment":null}}' }),
+    });
+    const estimator = new FeeEstimator(api, mockLogger, account);
+
+    const report = await estimator.estimate(records, {
+      batchMode: 'single',
+      batchSize: 10,
+      allowDeath: false,
+      simulate: true,
+    });
+
+    expect(report.simulated).toBe(true);
+    expect(report.predictedFailures).toBe(2);
+    expect(report.records[0].success).toBe(true);
+    expect(report.records[1].error).toBe(
+      'balances.ExistentialDeposit: Value too low to create account due to existential deposit.'
+    );
+    expect(report.records[2].error).toBe('Invalid transaction: {"invalid":{"payment":null}}');
+  });
+
+  test('should fall back to fees only when system_dryRun is unavailable', async () => {
+    const api = createFakeApi({}, new Error('RPC call is unsafe to be called externally'));
+    const estimator = new FeeEstimator(api, mockLogger, account);
+
+    const report = await estimator.estimate(records, {
+      batchMode: 'single',
+      batchSize: 10,
+      allowDeath: false,
+      simulate: true,
+    });
+
+    expect(report.simulated).toBe(false);
+    expect(report.predictedFailures).toBe(0);
+    expect(report.totalFees).toBe(3n * TRANSFER_FEE);
+    expect(mockLogger.warn).toHaveBeenCalled();
+  });
+
+  test('should fail rows once the distributor balance runs out', async () => {
+    (balance as jest.Mock).mockResolvedValue({ free: 302_000n });
+    const api = createFakeApi();
+    const estimator = new FeeEstimator(api, mockLogger, account);
+
+    const report = await estimator.estimate(records, {
+      batchMode: 'single',
+      batchSize: 10,
+      allowDeath: false,
+      simulate: false,
+    });
+
+    // 101000 + 201000 = 302000 leaves nothing for the third row
+    expect(report.records.map(row => row.success)).toEqual([true, true, false]);
+    expect(report.records[2].error).toMatch(/Insufficient balance/);
+  });
+});
@@ -0,0 +1,74 @@
+import { ApiPromise } from '@polkadot/api';
+import { Keyring } from '@polkadot/keyring';
+import { MockProvider } from '@polkadot/rpc-provider/mock';
+import { TypeRegistry } from '@polkadot/types';
+import { cryptoWaitReady } from '@polkadot/util-crypto';
+import { IntentSigner, SignedIntent } from '../../src/core/intent-signer';
+
+describe('IntentSigner', () => {
+  let api: ApiPromise;
+  let keyring: Keyring;
+
+  beforeAll(async () => {
+    await cryptoWaitReady();
+    const registry = new TypeRegistry();
+    // The mock node has no runtime metadata API, which the API warns about while it connects
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    try {
+      api = await ApiPromise.create({ provider: new MockProvider(registry), registry });
+    } finally {
+      warn.mockRestore();
+    }
+    keyring = new Keyring({ type: 'sr25519' });
+  });
+
+  afterAll(async () => {
+    await api.disconnect();
+  });
+
+  const createTransfer = () =>
+    api.tx.balances.transferKeepAlive(keyring.addFromUri('//Bob').address, 12345);
+
+  test('should report the hash and nonce the extrinsic is sent with', async () => {
+    const alice = keyring.addFromUri('//Alice');
+    const tx = createTransfer();
+    const intents: SignedIntent[] = [];
+    const signer = new IntentSigner(alice, tx, {
+      onSigned: async intent => {
+        intents.push(intent);
+      },
+    });
+
+    await tx.signAsync(alice.address, { signer, nonce: 7 });
+
+    expect(tx.isSigned).toBe(true);
+    expect(intents).toEqual([{ transactionHash: tx.hash.toHex(), nonce: 7 }]);
+    expect(tx.signer.toString()).toBe(alice.address);
+  });
+
+  test('should not hand out the signature until the intent is recorded', async () => {
+    const alice = keyring.addFromUri('//Alice');
+    const tx = createTransfer();
+    const signer = new IntentSigner(alice, tx, {
+      onSigned: async () => {
+        throw new Error('ENOSPC: no space left on device');
+      },
+    });
+
+    await expect(tx.signAsync(alice.address, { signer, nonce: 7 })).rejects.toThrow('ENOSPC');
+    expect(tx.isSigned).toBe(false);
+  });
+
+  test('should report the submission once', () => {
+    const onSubmitted = jest.fn();
+    const signer = new IntentSigner(keyring.addFromUri('//Alice'), createTransfer(), {
+      onSigned: async () => undefined,
+      onSubmitted,
+    });
+
+    signer.update(1, {});
+    signer.update(1, {});
+
+    expect(onSubmitted).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,215 @@
+import { LogRecovery } from '../../src/core/log-recovery';
+import { DistributionRecord, ReconciliationReport } from '../../src/types';
+import Logger from '../../src/utils/logger';
+import { LoggedTransaction, TransactionLog } from '../../src/utils/transaction-log';
+
+describe('LogRecovery', () => {
+  // Well-known development accounts
+  const alice = '5GrwvaEF5zXb26Fz9rcQpDWS57CtERHpNehXCPcNoHGKutQY';
+  const bob = '5FHneW46xGXgs5mUiveU4sbTyGBzmstUspZC92UhjJM694ty';
+  const charlie = '5FLSigC9HGRKVhB9FiEo4Y3koPsNmBmLJbpXg2mp1hXcS59Y';
+
+  const mockLogger = {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  } as unknown as Logger;
+
+  const run = {
+    id: '3f2a9c0e5b7d4e18',
+    csvHash: 'abc',
+    network: 'chronos',
+    distributorAddress: alice,
+  };
+
+  // Rows 2-4 of the CSV file
+  const createRecords = (): DistributionRecord[] => [
+    { address: alice, amount: 100n, status: 'pending', sourceRowNumber: 2 },
+    { address: bob, amount: 200n, status: 'pending', sourceRowNumber: 3 },
+    { address: charlie, amount: 300n, status: 'pending', sourceRowNumber: 4 },
+  ];
+
+  const entry = (
+    sourceRowNumber: number,
+    address: string,
+    amount: bigint,
+    status: string,
+    fields: Partial<LoggedTransaction> = {}
+  ): LoggedTransaction => ({ line: 2, sourceRowNumber, address, amount, status, ...fields });
+
+  const log = (startedAt: string, entries: LoggedTransaction[]): TransactionLog => ({
+    filePath: `logs/airdrop-transactions-${startedAt}.csv`,
+    startedAt: new Date(startedAt),
+    entries,
+    unreadableLines: [],
+  });
+
+  const reconciliation = (overrides: Partial<ReconciliationReport>): ReconciliationReport => ({
+    complete: true,
+    fromBlock: 100,
+    toBlock: 200,
+    accountNonce: 5,
+    nonceDelta: 2,
+    matchedOnChain: [],
+    pendingInPool: [],
+    clearedForResend: [],
+    unmatchedTransfers: 0,
+    ...overrides,
+  });
+
+  test('should apply the logs oldest first', () => {
+    const records = createRecords();
+    const recovery = new LogRecovery(records, mockLogger);
+
+    const report = recovery.applyLogs([
+      log('2026-03-02T00:00:00Z', [
+        entry(3, bob, 200n, 'completed', { transactionHash: '0xbob', feePaid: 7n }),
+      ]),
+      log('2026-03-01T00:00:00Z', [
+        entry(2, alice, 100n, 'completed', { transactionHash: '0xalice', feePaid: 5n }),
+        entry(3, bob, 200n, 'failed', { error: 'Connection lost', feePaid: 3n }),
+      ]),
+    ]);
+
+    expect(records[0]).toMatchObject({ status: 'completed', transactionHash: '0xalice' });
+    expect(records[1]).toMatchObject({
+      status: 'completed',
+      transactionHash: '0xbob',
+      feePaid: 7n,
+      attempts: 1,
+      error: undefined,
+    });
+    expect(records[2].status).toBe('pending');
+    expect(report).toMatchObject({ loggedRows: 3, completed: 2, failed: 0, pending: 1 });
+    expect(report.discrepancies).toEqual([]);
+  });
+
+  test('should report what the logs and the CSV disagree on', () => {
+    const records = createRecords();
+    const recovery = new LogRecovery(records, mockLogger);
+
+    const report = recovery.applyLogs([
+      {
+        ...log('2026-03-01T00:00:00Z', [
+          entry(2, alice, 100n, 'completed', { transactionHash: '0xa1' }),
+          entry(2, alice, 100n, 'completed', { transactionHash: '0xa2' }),
+          entry(2, alice, 100n, 'failed', { error: 'Timeout' }),
+          entry(3, charlie, 200n, 'completed', { transactionHash: '0xc' }),
+          entry(4, charlie, 500n, 'completed', { transactionHash: '0xc2' }),
+          entry(9, bob, 100n, 'completed'),
+        ]),
+        unreadableLines: [8],
+      },
+    ]);
+
+    expect(report.discrepancies.map(discrepancy => discrepancy.sourceRowNumber)).toEqual([
+      undefined,
+      2,
+      2,
+      3,
+      4,
+      9,
+    ]);
+    expect(report.discrepancies[1].message).toContain('may have been paid twice');
+    expect(records[0]).toMatchObject({ status: 'completed', transactionHash: '0xa2' });
+    expect(records[1].status).toBe('pending'); // Logged for another address
+    expect(records[2]).toMatchObject({ amount: 500n, requestedAmount: 300n });
+  });
+
+  test('should take transfers found on chain but never logged as completed', async () => {
+    const records = createRecords();
+    const recovery = new LogRecovery(records, mockLogger);
+    recovery.applyLogs([
+      log('2026-03-01T00:00:00Z', [
+        entry(2, alice, 100n, 'completed', { transactionHash: '0xalice', feePaid: 5n }),
+      ]),
+    ]);
+
+    let statuses: string[] = [];
+    const reconcile = jest.fn(async (unsettled: DistributionRecord[], _since: Date) => {
+      statuses = unsettled.map(record => record.status);
+      unsettled[0].transactionHash = '0xalice';
+      unsettled[0].feePaid = 9n;
+      unsettled[1].status = 'completed';
+      unsettled[1].transactionHash = '0xbob';
+      return reconciliation({ matchedOnChain: [0, 1] });
+    });
+    const report = await recovery.checkOnChain(reconcile);
+
+    // Logged records are matched too, from the first session on
+    expect(statuses).toEqual(['processing', 'pending', 'pending']);
+    expect(reconcile.mock.calls[0][1]).toEqual(new Date('2026-03-01T00:00:00Z'));
+    expect(records[0]).toMatchObject({ status: 'completed', feePaid: 5n });
+    expect(records[1]).toMatchObject({ status: 'completed', transactionHash: '0xbob' });
+    expect(report).toMatchObject({ checkedOnChain: true, completed: 2, pending: 1 });
+    expect(report.discrepancies).toEqual([
+      { sourceRowNumber: 3, message: expect.stringContaining('not logged as completed') },
+    ]);
+  });
+
+  test('should report logged transfers the chain does not have', async () => {
+    const records = createRecords();
+    const recovery = new LogRecovery(records, mockLogger);
+    recovery.applyLogs([
+      log('2026-03-01T00:00:00Z', [
+        entry(2, alice, 100n, 'completed', { transactionHash: '0xalice' }),
+        entry(3, bob, 200n, 'completed', { transactionHash: '0xbob' }),
+      ]),
+    ]);
+
+    const report = await recovery.checkOnChain(async unsettled => {
+      unsettled[0].status = 'pending';
+      unsettled[0].transactionHash = undefined;
+      unsettled[1].transactionHash = '0xother';
+      return reconciliation({ matchedOnChain: [1] });
+    });
+
+    expect(records[0]).toMatchObject({ status: 'completed', transactionHash: '0xalice' });
+    expect(report.discrepancies.map(discrepancy => discrepancy.message)).toEqual([
+      expect.stringContaining('Row 2: logged as completed in 0xalice, but no such transfer'),
+      expect.stringContaining('Row 3: logged as completed in 0xbob, but the transfer on chain'),
+    ]);
+  });
+
+  test('should report a chain scan that did not reach the first session', async () => {
+    const recovery = new LogRecovery(createRecords(), mockLogger);
+    recovery.applyLogs([log('2026-03-01T00:00:00Z', [])]);
+
+    const report = await recovery.checkOnChain(async () => reconciliation({ complete: false }));
+
+    expect(report.discrepancies).toEqual([
+      { sourceRowNumber: undefined, message: expect.stringContaining('RECONCILE_MAX_BLOCKS') },
+    ]);
+  });
+
+  test('should build resume state that continues from the first unsettled record', () => {
+    const recovery = new LogRecovery(createRecords(), mockLogger);
+    recovery.applyLogs([
+      log('2026-03-01T00:00:00Z', [
+        entry(2, alice, 100n, 'completed', { transactionHash: '0xalice', feePaid: 5n }),
+        entry(3, bob, 200n, 'failed', { feePaid: 2n }),
+      ]),
+    ]);
+
+    const resumeData = recovery.buildResumeData('airdrop.csv', run);
+
+    expect(resumeData).toMatchObject({
+      lastProcessedIndex: 0,
+      sourceFilename: 'airdrop.csv',
+      run,
+      summary: {
+        totalRecords: 3,
+        completed: 1,
+        failed: 1,
+        skipped: 0,
+        totalAmount: 600n,
+        distributedAmount: 100n,
+        failedAmount: 200n,
+        feesPaid: 7n,
+        startTime: new Date('2026-03-01T00:00:00Z'),
+      },
+    });
+    expect(resumeData.summary.endTime).toBeUndefined();
+  });
+});
@@ -0,0 +1,83 @@
+import { NetworkVerifier } from '../../src/core/network-verifier';
+import { NetworkConfig } from '../../src/types';
+import Logger from '../../src/utils/logger';
+
+const MAINNET_GENESIS = '0x' + '11'.repeat(32);
+const TESTNET_GENESIS = '0x' + '22'.repeat(32);
+
+describe('NetworkVerifier', () => {
+  const mockLogger = {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  } as unknown as Logger;
+
+  const network = (overrides: Partial<NetworkConfig>): NetworkConfig => ({
+    name: 'Network',
+    rpcEndpoint: 'ws://127.0.0.1:9944',
+    rpcEndpoints: ['ws://127.0.0.1:9944'],
+    ss58Format: 6094,
+    tokenDecimals: 18,
+    ...overrides,
+  });
+
+  const registry: Record<string, NetworkConfig> = {
+    mainnet: network({ name: 'Mainnet', genesisHash: MAINNET_GENESIS }),
+    testnet: network({ name: 'Testnet', genesisHash: TESTNET_GENESIS }),
+    local: network({ name: 'Local' }),
+  };
+
+  function createFakeApi(genesisHash: string, chainDecimals: number[] = [18]) {
+    return {
+      genesisHash: { toHex: () => genesisHash },
+      registry: { chainDecimals },
+    } as any;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should accept a node on the configured chain', () => {
+    const verifier = new NetworkVerifier(createFakeApi(MAINNET_GENESIS), mockLogger, registry);
+
+    expect(() => verifier.verify('mainnet')).not.toThrow();
+    expect(mockLogger.warn).not.toHaveBeenCalled();
+  });
+
+  test('should refuse a node with a different genesis hash', () => {
+    const verifier = new NetworkVerifier(createFakeApi(TESTNET_GENESIS), mockLogger, registry);
+
+    expect(() => verifier.verify('mainnet')).toThrow(/Genesis hash mismatch for Mainnet/);
+  });
+
+  test('should refuse a chain pinned by another network when none is configured', () => {
+    const verifier = new NetworkVerifier(createFakeApi(MAINNET_GENESIS), mockLogger, registry);
+
+    expect(() => verifier.verify('local')).toThrow(
+      'The connected node is on Mainnet, not Local. Check RPC_ENDPOINT.'
+    );
+  });
+
+  test('should warn when the chain identity is not pinned', () => {
+    const verifier = new NetworkVerifier(
+      createFakeApi('0x' + '33'.repeat(32)),
+      mockLogger,
+      registry
+    );
+
+    expect(() => verifier.verify('local')).not.toThrow();
+    expect(mockLogger.warn).toHaveBeenCalled();
+  });
+
+  test('should refuse a chain with different token decimals', () => {
+    const verifier = new NetworkVerifier(
+      createFakeApi(MAINNET_GENESIS, [12]),
+      mockLogger,
+      registry
+    );
+
+    expect(() => verifier.verify('mainnet')).toThrow(/Token decimals mismatch/);
+  });
+});
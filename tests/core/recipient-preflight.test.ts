@@ -0,0 +1,112 @@
+import { RecipientPreflight } from '../../src/core/recipient-preflight';
+import { DistributionRecord } from '../../src/types';
+import Logger from '../../src/utils/logger';
+
+const ED = 500_000_000_000_000n; // 0.0005 AI3
+
+describe('RecipientPreflight', () => {
+  const mockLogger = {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  } as unknown as Logger;
+
+  function createFakeApi(existingAccounts: string[]) {
+    const accountInfo = (address: string) => {
+      const references = existingAccounts.includes(address) ? 1 : 0;
+      return {
+        providers: { toNumber: () => references },
+        sufficients: { toNumber: () => 0 },
+      };
+    };
+
+    return {
+      consts: { balances: { existentialDeposit: { toString: () => ED.toString() } } },
+      query: {
+        system: {
+          account: { multi: jest.fn(async (addresses: string[]) => addresses.map(accountInfo)) },
+        },
+      },
+    } as any;
+  }
+
+  const makeRecords = (): DistributionRecord[] => [
+    { address: 'existing', amount: 1n, status: 'pending' },
+    { address: 'new-small', amount: ED - 1n, status: 'pending' },
+    { address: 'new-large', amount: ED, status: 'pending' },
+    { address: 'new-large', amount: 1n, status: 'pending' },
+  ];
+
+  test('should flag only transfers that would create an account below the ED', async () => {
+    const api = createFakeApi(['existing']);
+    const records = makeRecords();
+
+    const report = await new RecipientPreflight(api, mockLogger).check(records, 'block');
+
+    expect(report.existentialDeposit).toBe(ED);
+    expect(report.checkedAccounts).toBe(3);
+    expect(report.newAccounts).toBe(2);
+    expect(report.blocked).toBe(true);
+    expect(report.decisions).toEqual([
+      {
+        index: 1,
+        address: 'new-small',
+        action: 'blocked',
+        requestedAmount: ED - 1n,
+        amount: ED - 1n,
+      },
+    ]);
+    // Blocking leaves the records alone
+    expect(records[1]).toEqual({ address: 'new-small', amount: ED - 1n, status: 'pending' });
+  });
+
+  test('should skip flagged records under the skip policy', async () => {
+    const records = makeRecords();
+
+    const report = await new RecipientPreflight(createFakeApi(['existing']), mockLogger).check(
+      records,
+      'skip'
+    );
+
+    expect(report.blocked).toBe(false);
+    expect(report.decisions[0].action).toBe('skipped');
+    expect(records[1].status).toBe('skipped');
+    expect(records[1].existentialDepositAction).toBe('skipped');
+  });
+
+  test('should raise flagged records to the ED under the raise policy', async () => {
+    const records = makeRecords();
+    records.push({ address: 'new-small', amount: 5n, status: 'pending' });
+
+    const report = await new RecipientPreflight(createFakeApi(['existing']), mockLogger).check(
+      records,
+      'raise'
+    );
+
+    expect(report.decisions).toHaveLength(1);
+    expect(report.decisions[0]).toMatchObject({ action: 'raised', amount: ED });
+    expect(records[1]).toMatchObject({
+      amount: ED,
+      requestedAmount: ED - 1n,
+      existentialDepositAction: 'raised',
+    });
+    // The raised transfer creates the account, so later ones to it are left alone
+    expect(records[4].amount).toBe(5n);
+  });
+
+  test('should query accounts in chunks', async () => {
+    const api = createFakeApi([]);
+    const records: DistributionRecord[] = Array.from({ length: 300 }, (_, i) => ({
+      address: `address-${i}`,
+      amount: ED,
+      status: 'pending',
+    }));
+
+    const report = await new RecipientPreflight(api, mockLogger).check(records, 'block');
+
+    expect(api.query.system.account.multi).toHaveBeenCalledTimes(2);
+    expect(report.newAccounts).toBe(300);
+    expect(report.decisions).toEqual([]);
+  });
+});
@@ -0,0 +1,280 @@
+import { decodeAddress } from '@polkadot/util-crypto';
+import { Reconciler } from '../../src/core/reconciler';
+import { DistributionRecord } from '../../src/types';
+import Logger from '../../src/utils/logger';
+
+const BLOCK_TIME_MS = 6000;
+const GENESIS_TIME = new Date('2026-01-01T00:00:00Z').getTime();
+
+describe('Reconciler', () => {
+  // Well-known development accounts
+  const distributor = '5DAAnrj7VHTznn2AWBemMuyBwZWs6FNFjdyVXUeYum3PTXFy'; // Dave
+  const alice = '5GrwvaEF5zXb26Fz9rcQpDWS57CtERHpNehXCPcNoHGKutQY';
+  const bob = '5FHneW46xGXgs5mUiveU4sbTyGBzmstUspZC92UhjJM694ty';
+  const charlie = '5FLSigC9HGRKVhB9FiEo4Y3koPsNmBmLJbpXg2mp1hXcS59Y';
+
+  const mockLogger = {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  } as unknown as Logger;
+
+  const blockTime = (blockNumber: number) => GENESIS_TIME + blockNumber * BLOCK_TIME_MS;
+
+  /**
+   * Fake chain of `best + 1` blocks with distributor transfers at chosen heights
+   */
+  function createFakeApi(options: {
+    best: number;
+    transfers?: { block: number; to: string; amount: bigint; extrinsicIndex: number }[];
+    pool?: { nonce: number; hash: string; transfers: { to: string; amount: bigint }[] }[];
+    nonceAt?: (_blockNumber: number) => number;
+  }) {
+    const accountCodec = (address: string) => ({ toU8a: () => decodeAddress(address) });
+    const transferCall = (t: { to: string; amount: bigint }) => ({
+      section: 'balances',
+      method: 'transferKeepAlive',
+      args: [{ toString: () => t.to }, { toString: () => t.amount.toString() }],
+    });
+    const transfers = options.transfers || [];
+
+    return {
+      rpc: {
+        chain: {
+          getHeader: jest.fn(async () => ({ number: { toNumber: () => options.best } })),
+          getBlockHash: jest.fn(async (n: number) => ({ toHex: () => `0xblock${n}` })),
+          getBlock: jest.fn(async (hash: string) => ({
+            block: {
+              extrinsics: Array.from({ length: 4 }, (_, i) => ({
+                hash: { toHex: () => `${hash}-ext${i}` },
+              })),
+            },
+          })),
+        },
+        author: {
+          pendingExtrinsics: jest.fn(async () =>
+            (options.pool || []).map(p => ({
+              isSigned: true,
+              signer: { toString: () => distributor },
+              nonce: { toNumber: () => p.nonce },
+              hash: { toHex: () => p.hash },
+              method:
+                p.transfers.length === 1
+                  ? transferCall(p.transfers[0])
+                  : {
+                      section: 'utility',
+                      method: 'batchAll',
+                      args: [p.transfers.map(transferCall)],
+                    },
+            }))
+          ),
+        },
+      },
+      at: jest.fn(async (hash: any) => {
+        const blockNumber = Number(hash.toHex().replace('0xblock', ''));
+        return {
+          query: {
+            timestamp: {
+              now: async () => ({ toString: () => String(blockTime(blockNumber)) }),
+            },
+            system: {
+              account: async () => ({
+                nonce: { toNumber: () => (options.nonceAt ? options.nonceAt(blockNumber) : 0) },
+              }),
+              events: async () =>
+                transfers
+                  .filter(t => t.block === blockNumber)
+                  .flatMap(t => {
+                    const phase = {
+                      isApplyExtrinsic: true,
+                      asApplyExtrinsic: { toNumber: () => t.extrinsicIndex },
+                    };
+                    return [
+                      {
+                        phase,
+                        event: {
+                          section: 'balances',
+                          method: 'Transfer',
+                          data: [
+                            accountCodec(distributor),
+                            accountCodec(t.to),
+                            { toString: () => t.amount.toString() },
+                          ],
+                        },
+                      },
+                      {
+                        phase,
+                        event: {
+                          section: 'transactionPayment',
+                          method: 'TransactionFeePaid',
+                          data: [
+                            accountCodec(distributor),
+                            { toString: () => '1500' },
+                            { toString: () => '0' },
+                          ],
+                        },
+                      },
+                    ];
+                  }),
+            },
+          },
+        };
+      }),
+    } as any;
+  }
+
+  const reconciler = (api: any, maxBlocks = 1000) =>
+    new Reconciler(api, mockLogger, distributor, { maxBlocks, lookbackBlocks: 2 });
+
+  test('should mark records found in Transfer events as completed', async () => {
+    const api = createFakeApi({
+      best: 30,
+      transfers: [{ block: 22, to: alice, amount: 100n, extrinsicIndex: 2 }],
+      nonceAt: n => (n >= 22 ? 6 : 5),
+    });
+    const records: DistributionRecord[] = [
+      { address: alice, amount: 100n, status: 'processing' },
+      { address: bob, amount: 200n, status: 'pending' },
+    ];
+
+    const report = await reconciler(api).reconcile(records, new Date(blockTime(20)));
+
+    expect(report.complete).toBe(true);
+    expect(report.fromBlock).toBe(18);
+    expect(report.toBlock).toBe(30);
+    expect(report.nonceDelta).toBe(1);
+    expect(report.matchedOnChain).toEqual([0]);
+    expect(records[0]).toMatchObject({
+      status: 'completed',
+      blockHash: '0xblock22',
+      blockNumber: 22,
+      transactionHash: '0xblock22-ext2',
+      feePaid: 1500n,
+    });
+    expect(records[1].status).toBe('pending');
+  });
+
+  test('should clear unmatched processing records for resend', async () => {
+    const api = createFakeApi({ best: 30 });
+    const records: DistributionRecord[] = [
+      { address: alice, amount: 100n, status: 'processing', nonce: 4 },
+    ];
+
+    const report = await reconciler(api).reconcile(records, new Date(blockTime(20)));
+
+    expect(report.clearedForResend).toEqual([0]);
+    expect(records[0].status).toBe('pending');
+    expect(records[0].nonce).toBeUndefined();
+  });
+
+  test('should keep transfers waiting in the pool as in flight', async () => {
+    const api = createFakeApi({
+      best: 30,
+      pool: [{ nonce: 9, hash: '0xpooled', transfers: [{ to: bob, amount: 200n }] }],
+    });
+    const records: DistributionRecord[] = [{ address: bob, amount: 200n, status: 'pending' }];
+
+    const report = await reconciler(api).reconcile(records, new Date(blockTime(20)));
+
+    expect(report.pendingInPool).toEqual([0]);
+    expect(records[0]).toMatchObject({
+      status: 'processing',
+      nonce: 9,
+      transactionHash: '0xpooled',
+    });
+  });
+
+  test('should find transfers inside a pooled batch by their nonce', async () => {
+    const api = createFakeApi({
+      best: 30,
+      pool: [
+        {
+          nonce: 12,
+          hash: '0xbatch',
+          transfers: [
+            { to: alice, amount: 100n },
+            { to: bob, amount: 200n },
+          ],
+        },
+      ],
+    });
+    const records: DistributionRecord[] = [
+      { address: bob, amount: 200n, status: 'processing', nonce: 11 },
+      { address: bob, amount: 200n, status: 'processing', nonce: 12 },
+      { address: alice, amount: 100n, status: 'processing', nonce: 12 },
+    ];
+
+    const report = await reconciler(api).reconcile(records, new Date(blockTime(20)));
+
+    // Row 0 is the same payment as row 1, signed earlier, and was never included
+    expect(report.pendingInPool).toEqual([1, 2]);
+    expect(report.clearedForResend).toEqual([0]);
+    expect(records[1]).toMatchObject({ status: 'processing', transactionHash: '0xbatch' });
+  });
+
+  test('should match the transfer with the hash the record was signed with', async () => {
+    const api = createFakeApi({
+      best: 30,
+      transfers: [
+        { block: 22, to: alice, amount: 100n, extrinsicIndex: 1 },
+        { block: 24, to: alice, amount: 100n, extrinsicIndex: 3 },
+      ],
+      nonceAt: n => (n >= 24 ? 7 : n >= 22 ? 6 : 5),
+    });
+    const records: DistributionRecord[] = [
+      { address: alice, amount: 100n, status: 'processing' },
+      { address: alice, amount: 100n, status: 'processing', transactionHash: '0xblock22-ext1' },
+    ];
+
+    const report = await reconciler(api).reconcile(records, new Date(blockTime(20)));
+
+    expect(report.matchedOnChain).toEqual([0, 1]);
+    expect(records[0].blockNumber).toBe(24);
+    expect(records[1].blockNumber).toBe(22);
+  });
+
+  test('should not reuse a transfer that belongs to a settled duplicate row', async () => {
+    const api = createFakeApi({
+      best: 30,
+      transfers: [{ block: 25, to: charlie, amount: 50n, extrinsicIndex: 1 }],
+      nonceAt: n => (n >= 25 ? 6 : 5),
+    });
+    const records: DistributionRecord[] = [
+      { address: charlie, amount: 50n, status: 'completed', blockHash: '0xblock25' },
+      { address: charlie, amount: 50n, status: 'processing' },
+    ];
+
+    const report = await reconciler(api).reconcile(records, new Date(blockTime(20)));
+
+    expect(report.matchedOnChain).toEqual([]);
+    expect(report.clearedForResend).toEqual([1]);
+    expect(report.unmatchedTransfers).toBe(0);
+  });
+
+  test('should leave processing records untouched when the range is too large', async () => {
+    const api = createFakeApi({ best: 30, nonceAt: n => (n >= 25 ? 6 : 5) });
+    const records: DistributionRecord[] = [
+      { address: alice, amount: 100n, status: 'processing', nonce: 5 },
+      { address: bob, amount: 200n, status: 'processing', nonce: 6 },
+    ];
+
+    const report = await reconciler(api, 5).reconcile(records, new Date(blockTime(20)));
+
+    expect(report.complete).toBe(false);
+    // Nonce 6 is still unused, so that transfer cannot be on chain
+    expect(report.clearedForResend).toEqual([1]);
+    expect(records[0].status).toBe('processing');
+  });
+
+  test('should not scan blocks when the distributor nonce did not move', async () => {
+    const api = createFakeApi({ best: 30, nonceAt: () => 5 });
+    const records: DistributionRecord[] = [{ address: alice, amount: 100n, status: 'processing' }];
+
+    const report = await reconciler(api, 5).reconcile(records, new Date(blockTime(20)));
+
+    expect(report.complete).toBe(true);
+    expect(report.clearedForResend).toEqual([0]);
+    expect(api.rpc.chain.getBlock).not.toHaveBeenCalled();
+  });
+});
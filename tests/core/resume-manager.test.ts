@@ -0,0 +1,440 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { ResumeManager } from '../../src/core/resume-manager';
+import { RESUME_DATA_VERSION, ResumeStateError } from '../../src/core/resume-schema';
+import { DistributionRecord, DistributionSummary, JournalEntry } from '../../src/types';
+import Logger from '../../src/utils/logger';
+import { stringifyWithBigInt } from '../../src/utils/bigint-json';
+
+describe('ResumeManager', () => {
+  const mockLogger = {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  } as unknown as Logger;
+
+  let workDir: string;
+  let resumeDir: string;
+  let manager: ResumeManager;
+
+  const makeRecords = (): DistributionRecord[] =>
+    Array.from({ length: 3 }, (_, i) => ({
+      address: `address-${i}`,
+      amount: BigInt(`${i + 1}000000000000000000`),
+      status: 'pending' as const,
+    }));
+
+  const makeSummary = (records: DistributionRecord[]): DistributionSummary => ({
+    totalRecords: records.length,
+    completed: 0,
+    failed: 0,
+    skipped: 0,
+    totalAmount: records.reduce((sum, record) => sum + record.amount, 0n),
+    distributedAmount: 0n,
+    failedAmount: 0n,
+    feesPaid: 0n,
+    startTime: new Date(),
+    existentialDepositDecisions: [],
+  });
+
+  const entry = (fields: Omit<JournalEntry, 'at'>): JournalEntry => ({ ...fields, at: new Date() });
+
+  // Snapshot file names carry the time in milliseconds
+  const nextMillisecond = () => new Promise(resolve => setTimeout(resolve, 5));
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'resume-manager-'));
+    resumeDir = path.join(workDir, '.resume');
+    jest.spyOn(process, 'cwd').mockReturnValue(workDir);
+    manager = new ResumeManager(mockLogger);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(workDir);
+  });
+
+  test('should write checksummed snapshots without leaving temporary files', async () => {
+    const records = makeRecords();
+    await manager.saveState(records, makeSummary(records), 1, 'input.csv');
+
+    const files = await fs.readdir(resumeDir);
+    expect(files.filter(file => file.endsWith('.tmp'))).toEqual([]);
+
+    const [snapshot] = await manager.listResumeFiles();
+    const data = await fs.readJSON(path.join(resumeDir, snapshot));
+    expect(data.checksum).toMatch(/^[0-9a-f]{64}$/);
+    expect(data.state.lastProcessedIndex).toBe(1);
+
+    const loaded = await manager.loadLatestState();
+    expect(loaded?.records[2].amount).toBe(BigInt('3000000000000000000'));
+    expect(loaded?.sourceFilename).toBe('input.csv');
+  });
+
+  test('should rebuild record state from the snapshot and the journal after it', async () => {
+    const records = makeRecords();
+    await manager.saveState(records, makeSummary(records), 0);
+
+    await manager.appendJournal([
+      entry({ type: 'intent', index: 0, nonce: 7, transactionHash: '0xaa' }),
+      entry({ type: 'intent', index: 1, nonce: 8, transactionHash: '0xbb' }),
+      entry({ type: 'submitted', index: 0, transactionHash: '0xaa' }),
+    ]);
+    await manager.appendJournal([
+      entry({
+        type: 'included',
+        index: 0,
+        transactionHash: '0xaa',
+        blockHash: '0xblock',
+        blockNumber: 100,
+        finalized: false,
+        feePaid: 15n,
+        tipPaid: 0n,
+      }),
+      entry({ type: 'failed', index: 1, error: 'balances.InsufficientBalance', feePaid: 10n }),
+    ]);
+
+    const loaded = await manager.loadLatestState();
+
+    expect(loaded?.records[0]).toMatchObject({
+      status: 'completed',
+      nonce: 7,
+      transactionHash: '0xaa',
+      blockHash: '0xblock',
+      blockNumber: 100,
+      feePaid: 15n,
+    });
+    expect(loaded?.records[1]).toMatchObject({
+      status: 'failed',
+      error: 'balances.InsufficientBalance',
+      attempts: 1,
+      feePaid: 10n,
+    });
+    expect(loaded?.records[2].status).toBe('pending');
+    expect(loaded?.summary).toMatchObject({
+      completed: 1,
+      failed: 1,
+      distributedAmount: BigInt('1000000000000000000'),
+      failedAmount: BigInt('2000000000000000000'),
+      feesPaid: 25n,
+    });
+  });
+
+  test('should not count a failure that a later attempt completed', async () => {
+    const records = makeRecords();
+    await manager.saveState(records, makeSummary(records), 0);
+    await manager.appendJournal([
+      entry({ type: 'intent', index: 0, nonce: 7, transactionHash: '0xaa' }),
+      entry({ type: 'failed', index: 0, error: 'Temporary failure' }),
+      entry({ type: 'intent', index: 0, nonce: 8, transactionHash: '0xbb' }),
+      entry({ type: 'failed', index: 0, error: 'Temporary failure' }),
+      entry({ type: 'intent', index: 0, nonce: 9, transactionHash: '0xcc' }),
+      entry({
+        type: 'included',
+        index: 0,
+        transactionHash: '0xcc',
+        blockHash: '0xblock',
+        blockNumber: 100,
+        finalized: false,
+      }),
+    ]);
+
+    const loaded = await manager.loadLatestState();
+
+    expect(loaded?.records[0]).toMatchObject({ status: 'completed', attempts: 2 });
+    expect(loaded?.summary).toMatchObject({ completed: 1, failed: 0, failedAmount: 0n });
+  });
+
+  test('should keep a transfer signed but not settled in flight with its nonce', async () => {
+    const records = makeRecords();
+    await manager.saveState(records, makeSummary(records), 0);
+    await manager.appendJournal([
+      entry({ type: 'intent', index: 2, nonce: 3, transactionHash: '0xcc' }),
+    ]);
+
+    const loaded = await manager.loadLatestState();
+
+    expect(loaded?.records[2]).toMatchObject({
+      status: 'processing',
+      nonce: 3,
+      transactionHash: '0xcc',
+    });
+    expect(manager.getInFlightRecords(loaded!.records)).toHaveLength(1);
+  });
+
+  test('should start a new journal with every snapshot', async () => {
+    const records = makeRecords();
+    await manager.saveState(records, makeSummary(records), 0);
+    await manager.appendJournal([entry({ type: 'failed', index: 0, error: 'first attempt' })]);
+
+    records[0].status = 'failed';
+    records[0].attempts = 1;
+    await nextMillisecond();
+    await manager.saveState(records, makeSummary(records), 1);
+
+    const loaded = await manager.loadLatestState();
+
+    // Replaying the old entry again would count the attempt twice
+    expect(loaded?.records[0].attempts).toBe(1);
+  });
+
+  test('should fall back to the previous snapshot when the latest fails its checksum', async () => {
+    const records = makeRecords();
+    await manager.saveState(records, makeSummary(records), 0);
+    await nextMillisecond();
+    await manager.saveState(records, makeSummary(records), 2);
+
+    const [latest, previous] = await manager.listResumeFiles();
+    const latestPath = path.join(resumeDir, latest);
+    const data = await fs.readJSON(latestPath);
+    data.state.records[0].amount = '999';
+    await fs.writeJSON(latestPath, data);
+
+    const loaded = await manager.loadLatestState();
+
+    expect(loaded?.lastProcessedIndex).toBe(0);
+    expect(loaded?.records[0].amount).toBe(BigInt('1000000000000000000'));
+    expect(mockLogger.error).toHaveBeenCalledWith(
+      'Skipping unreadable resume state',
+      expect.objectContaining({ error: `Checksum mismatch in resume state ${latest}` })
+    );
+    expect(await manager.loadSpecificState(latest)).toBeNull();
+    expect(await manager.loadSpecificState(previous)).not.toBeNull();
+  });
+
+  test('should replay a journal only onto the snapshot it follows', async () => {
+    const records = makeRecords();
+    await manager.saveState(records, makeSummary(records), 0);
+    const [first] = await manager.listResumeFiles();
+    await nextMillisecond();
+    await manager.saveState(records, makeSummary(records), 0);
+    await manager.appendJournal([
+      entry({ type: 'intent', index: 0, nonce: 1, transactionHash: '0xaa' }),
+    ]);
+
+    const loaded = await manager.loadSpecificState(first);
+
+    expect(loaded?.records[0].status).toBe('pending');
+    expect(mockLogger.warn).toHaveBeenCalledWith(
+      'Resume journal belongs to another snapshot, not replayed',
+      expect.anything()
+    );
+  });
+
+  test('should replay a journal up to a partially written last entry', async () => {
+    const records = makeRecords();
+    await manager.saveState(records, makeSummary(records), 0);
+    await manager.appendJournal([
+      entry({ type: 'intent', index: 0, nonce: 1, transactionHash: '0xaa' }),
+    ]);
+    await fs.appendFile(path.join(resumeDir, 'journal.ndjson'), '{"type":"inclu');
+
+    const loaded = await manager.loadLatestState();
+
+    expect(loaded?.records[0].status).toBe('processing');
+    expect(mockLogger.warn).toHaveBeenCalledWith(
+      'Resume journal ends in an incomplete entry, replayed up to it'
+    );
+  });
+
+  test('should load snapshots written before they were checksummed', async () => {
+    const records = makeRecords();
+    await fs.ensureDir(resumeDir);
+    await fs.writeFile(
+      path.join(resumeDir, 'resume-2026-01-01T00-00-00-000Z.json'),
+      stringifyWithBigInt(
+        { records, summary: makeSummary(records), lastProcessedIndex: 1, timestamp: new Date() },
+        2
+      )
+    );
+
+    const loaded = await manager.loadLatestState();
+
+    expect(loaded?.lastProcessedIndex).toBe(1);
+    expect(loaded?.records[0].amount).toBe(BigInt('1000000000000000000'));
+    expect(mockLogger.warn).toHaveBeenCalledWith(
+      'Resume state has no checksum, loading it unverified',
+      expect.anything()
+    );
+  });
+
+  test('should refuse state from a newer version instead of an earlier snapshot', async () => {
+    const records = makeRecords();
+    await manager.saveState(records, makeSummary(records), 0);
+    await nextMillisecond();
+    await manager.saveState(records, makeSummary(records), 2);
+
+    const [latest] = await manager.listResumeFiles();
+    const latestPath = path.join(resumeDir, latest);
+    const { state } = await fs.readJSON(latestPath);
+    state.version = 99;
+    await fs.writeJSON(latestPath, state);
+
+    await expect(manager.loadLatestState()).rejects.toThrow(
+      `Resume state ${latest} is version 99, written by a newer distributor`
+    );
+    await expect(manager.listRuns()).rejects.toThrow(ResumeStateError);
+  });
+
+  test('should stamp snapshots with the resume data version', async () => {
+    const records = makeRecords();
+    await manager.saveState(records, makeSummary(records), 0);
+
+    const [snapshot] = await manager.listResumeFiles();
+    const data = await fs.readJSON(path.join(resumeDir, snapshot));
+    expect(data.state.version).toBe(RESUME_DATA_VERSION);
+  });
+
+  test('should not swallow a failed save', async () => {
+    // A file where the resume directory should be
+    await fs.writeFile(resumeDir, '');
+    const records = makeRecords();
+
+    await expect(manager.saveState(records, makeSummary(records), 0)).rejects.toThrow();
+    expect(mockLogger.error).toHaveBeenCalledWith('Failed to save resume state', expect.anything());
+  });
+
+  describe('runs', () => {
+    const runInfo = (id: string) => ({
+      id,
+      csvHash: `hash-${id}`,
+      network: 'taurus',
+      distributorAddress: 'distributor',
+    });
+
+    test('should keep the state of every run in its own directory', async () => {
+      const records = makeRecords();
+      manager.startRun(runInfo('run-a'));
+      await manager.saveState(records, makeSummary(records), 0, 'a.csv');
+      await manager.appendJournal([
+        entry({ type: 'intent', index: 0, nonce: 1, transactionHash: '0xaa' }),
+      ]);
+
+      await nextMillisecond();
+      const other = new ResumeManager(mockLogger);
+      other.startRun(runInfo('run-b'));
+      await other.saveState(records, makeSummary(records), 0, 'b.csv');
+
+      expect((await fs.readdir(path.join(resumeDir, 'run-a'))).sort()).toEqual([
+        'journal.ndjson',
+        ...(await manager.listResumeFiles()),
+      ]);
+
+      const loaded = await manager.loadLatestState();
+      expect(loaded?.run).toEqual(runInfo('run-a'));
+      expect(loaded?.records[0].status).toBe('processing');
+      expect((await other.loadLatestState())?.records[0].status).toBe('pending');
+    });
+
+    test('should keep the source file name in every snapshot of a run', async () => {
+      const records = makeRecords();
+      manager.startRun(runInfo('run-a'));
+      await manager.saveState(records, makeSummary(records), 0, 'a.csv');
+      await nextMillisecond();
+      await manager.saveState(records, makeSummary(records), 2);
+
+      expect((await manager.loadLatestState())?.sourceFilename).toBe('a.csv');
+    });
+
+    test('should list open runs with their progress, most recently saved first', async () => {
+      const records = makeRecords();
+      await manager.saveState(records, makeSummary(records), 0); // Saved before run IDs
+
+      await nextMillisecond();
+      const runA = new ResumeManager(mockLogger);
+      runA.startRun(runInfo('run-a'));
+      records[0].status = 'completed';
+      await runA.saveState(records, makeSummary(records), 1, 'a.csv');
+
+      await nextMillisecond();
+      const runB = new ResumeManager(mockLogger);
+      runB.startRun(runInfo('run-b'));
+      await runB.saveState(makeRecords(), makeSummary(records), 0, 'b.csv');
+
+      const runs = await manager.listRuns();
+
+      expect(runs.map(run => run.runId)).toEqual(['run-b', 'run-a', undefined]);
+      expect(runs[1].resumeData.sourceFilename).toBe('a.csv');
+      expect(runs[1].progress.completed).toBe(1);
+      expect(await manager.hasRun('run-a')).toBe(true);
+      expect(await manager.hasRun('run-c')).toBe(false);
+    });
+
+    test('should clear only the run that finished', async () => {
+      const records = makeRecords();
+      await manager.saveState(records, makeSummary(records), 0); // Saved before run IDs
+
+      const runA = new ResumeManager(mockLogger);
+      runA.startRun(runInfo('run-a'));
+      await runA.saveState(records, makeSummary(records), 0);
+      const runB = new ResumeManager(mockLogger);
+      runB.startRun(runInfo('run-b'));
+      await runB.saveState(records, makeSummary(records), 0);
+
+      await runA.clearState();
+      expect((await manager.listRuns()).map(run => run.runId)).toEqual(
+        expect.arrayContaining(['run-b', undefined])
+      );
+      expect(await manager.hasRun('run-a')).toBe(false);
+
+      await manager.clearState();
+      expect((await manager.listRuns()).map(run => run.runId)).toEqual(['run-b']);
+    });
+  });
+
+  describe('SQLite backend', () => {
+    const runInfo = {
+      id: 'run-a',
+      csvHash: 'hash-run-a',
+      network: 'taurus',
+      distributorAddress: 'distributor',
+    };
+
+    test('should keep a run in the backend it was started with', async () => {
+      const records = makeRecords();
+      const sqlite = new ResumeManager(mockLogger, 'sqlite');
+      sqlite.startRun(runInfo);
+      await sqlite.saveState(records, makeSummary(records), 0, 'a.csv');
+      await sqlite.appendJournal([
+        entry({ type: 'intent', index: 1, nonce: 4, transactionHash: '0xbb' }),
+      ]);
+      sqlite.close();
+
+      expect(await fs.readdir(path.join(resumeDir, 'run-a'))).toContain('state.sqlite');
+      expect(await manager.listResumeFiles()).toEqual([]);
+
+      // Configured for snapshots, but the run has a database
+      manager.openRun('run-a');
+      const loaded = await manager.loadLatestState();
+      expect(loaded?.run).toEqual(runInfo);
+      expect(loaded?.records[1]).toMatchObject({ status: 'processing', nonce: 4 });
+      expect(await manager.hasRun('run-a')).toBe(true);
+      expect((await manager.listRuns()).map(run => run.runId)).toEqual(['run-a']);
+
+      await manager.clearState();
+      expect(await manager.hasRun('run-a')).toBe(false);
+    });
+
+    test('should find records by status and address with either backend', async () => {
+      for (const backend of ['json', 'sqlite'] as const) {
+        const records = makeRecords();
+        records[0].status = 'failed';
+        records[2].status = 'failed';
+        const resumeManager = new ResumeManager(mockLogger, backend);
+        resumeManager.startRun({ ...runInfo, id: `run-${backend}` });
+        await resumeManager.saveState(records, makeSummary(records), 0);
+
+        expect(
+          (await resumeManager.findRecords({ status: 'failed' })).map(({ index }) => index)
+        ).toEqual([0, 2]);
+        expect(await resumeManager.findRecords({ address: 'address-2' })).toEqual([
+          { index: 2, record: records[2] },
+        ]);
+        resumeManager.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import {
+  RESUME_DATA_VERSION,
+  ResumeStateError,
+  parseResumeData,
+} from '../../src/core/resume-schema';
+
+describe('parseResumeData', () => {
+  // Resume data as saved before it had a version
+  const versionOne = () => ({
+    records: [
+      { address: 'su-a', amount: '100', status: 'completed', feePaid: '3' },
+      { address: 'su-b', amount: '200', status: 'pending', sourceRowNumber: 2 },
+    ],
+    summary: {
+      totalRecords: 2,
+      completed: 1,
+      failed: 0,
+      skipped: 0,
+      totalAmount: '300',
+      distributedAmount: '100',
+      failedAmount: '0',
+      startTime: '2026-01-01T00:00:00.000Z',
+    },
+    lastProcessedIndex: 1,
+    timestamp: '2026-01-01T00:05:00.000Z',
+    sourceFilename: 'input.csv',
+  });
+
+  test('should migrate state saved before versioning', () => {
+    const resumeData = parseResumeData(versionOne(), 'resume.json');
+
+    expect(resumeData.summary.feesPaid).toBe(3n);
+    expect(resumeData.summary.existentialDepositDecisions).toEqual([]);
+    expect(resumeData.records[1]).toEqual({
+      address: 'su-b',
+      amount: 200n,
+      status: 'pending',
+      sourceRowNumber: 2,
+    });
+    expect(resumeData.timestamp).toEqual(new Date('2026-01-01T00:05:00.000Z'));
+    expect(resumeData.summary.startTime).toEqual(new Date('2026-01-01T00:00:00.000Z'));
+  });
+
+  test('should load the current version without migrating it', () => {
+    const state = versionOne();
+    const saved = {
+      version: RESUME_DATA_VERSION,
+      ...state,
+      summary: { ...state.summary, feesPaid: '10', existentialDepositDecisions: [] },
+    };
+
+    expect(parseResumeData(saved, 'resume.json').summary.feesPaid).toBe(10n);
+  });
+
+  test('should keep the metadata columns of a record', () => {
+    const state = versionOne();
+    const metadata = { label: 'Alice', reference: 'INV-2024-001' };
+    const saved = {
+      version: RESUME_DATA_VERSION,
+      ...state,
+      records: [{ ...state.records[0], metadata }, state.records[1]],
+      summary: { ...state.summary, feesPaid: '3', existentialDepositDecisions: [] },
+    };
+
+    expect(parseResumeData(saved, 'resume.json').records[0].metadata).toEqual(metadata);
+  });
+
+  test('should reject state written by a newer version', () => {
+    const saved = { ...versionOne(), version: RESUME_DATA_VERSION + 1 };
+
+    expect(() => parseResumeData(saved, 'resume.json')).toThrow(ResumeStateError);
+    expect(() => parseResumeData(saved, 'resume.json')).toThrow(
+      `Resume state resume.json is version ${RESUME_DATA_VERSION + 1}, written by a newer distributor`
+    );
+  });
+
+  test('should reject fields of the wrong type', () => {
+    const state = versionOne();
+    state.records[0].amount = '1.5';
+
+    expect(() => parseResumeData(state, 'resume.json')).toThrow(
+      'Resume state resume.json is invalid: "records[0].amount"'
+    );
+  });
+
+  test('should reject a missing field and an unknown status', () => {
+    const { records, ...withoutRecords } = versionOne();
+    expect(() => parseResumeData(withoutRecords, 'resume.json')).toThrow('"records" is required');
+
+    records[0].status = 'sent';
+    expect(() => parseResumeData({ ...withoutRecords, records }, 'resume.json')).toThrow(
+      '"records[0].status" must be one of'
+    );
+  });
+
+  test('should reject an invalid version', () => {
+    expect(() => parseResumeData({ ...versionOne(), version: 'two' }, 'resume.json')).toThrow(
+      'Resume state resume.json has an invalid version: two'
+    );
+    expect(() => parseResumeData([], 'resume.json')).toThrow('is not an object');
+  });
+});
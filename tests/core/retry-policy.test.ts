@@ -0,0 +1,117 @@
+import { classifyError, RetryPolicyEngine } from '../../src/core/retry-policy';
+import { DEFAULT_RETRY_POLICY } from '../../src/config/retry-policy';
+import Logger from '../../src/utils/logger';
+
+describe('classifyError', () => {
+  test.each([
+    [
+      "1016: Immediately Dropped: The transaction couldn't enter the pool because of the limit",
+      'transient',
+      'pool full',
+    ],
+    ['1014: Priority is too low: (100 vs 100)', 'transient', 'priority too low'],
+    ['1010: Invalid Transaction: Transaction is outdated', 'transient', 'stale transaction'],
+    ['RPC connection to wss://rpc.example.com/ws was lost', 'transient', 'connection'],
+    [
+      'Extrinsic failed: InsufficientBalance in block #0x01 with error: {}',
+      'permanent',
+      'insufficient balance',
+    ],
+    [
+      '1010: Invalid Transaction: Inability to pay some fees , e.g. account balance too low',
+      'permanent',
+      'insufficient balance',
+    ],
+    ['balances.ExistentialDeposit', 'permanent', 'existential deposit'],
+    ['Decoding su123: Invalid decoded address checksum', 'permanent', 'invalid address'],
+    ['1010: Invalid Transaction: Transaction has a bad signature', 'fatal', 'bad signature'],
+    ['Genesis hash mismatch for Autonomys Mainnet', 'fatal', 'wrong chain'],
+    [
+      'Transaction 0x01 was dropped from block #12 by a chain reorganization and has not been re-included',
+      'unconfirmed',
+      'reorg',
+    ],
+    ['Transaction confirmation timeout after 60s: 0x01', 'unconfirmed', 'confirmation timeout'],
+    ['{"module":{"index":4,"error":"0x02000000"}}', 'unknown', 'unrecognized error'],
+  ])('should classify "%s" as %s', (message, errorClass, reason) => {
+    expect(classifyError(new Error(message))).toEqual({ errorClass, reason });
+  });
+
+  test('should classify non-Error values by their string form', () => {
+    expect(classifyError('Priority is too low')).toEqual({
+      errorClass: 'transient',
+      reason: 'priority too low',
+    });
+  });
+});
+
+describe('RetryPolicyEngine', () => {
+  const mockLogger = {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  } as unknown as Logger;
+
+  const record = { address: 'su-test', amount: 1n, status: 'failed' as const };
+  const poolFull = new Error("1016: Immediately Dropped: The transaction couldn't enter the pool");
+
+  test('should retry transient errors with exponential backoff up to the limit', () => {
+    const engine = new RetryPolicyEngine(mockLogger, {
+      ...DEFAULT_RETRY_POLICY,
+      transient: {
+        action: 'retry',
+        maxRetries: 4,
+        exhausted: 'pause',
+        backoffSeconds: 2,
+        maxBackoffSeconds: 10,
+      },
+    });
+
+    const decisions = [1, 2, 3, 4, 5].map(attempts => engine.decide(poolFull, attempts));
+
+    expect(decisions.map(decision => decision.action)).toEqual([
+      'retry',
+      'retry',
+      'retry',
+      'retry',
+      'pause',
+    ]);
+    expect(decisions.map(decision => decision.backoffMs)).toEqual([2000, 4000, 8000, 10000, 0]);
+    expect(decisions[0]).toMatchObject({ errorClass: 'transient', reason: 'pool full' });
+  });
+
+  test('should skip permanent errors and abort on fatal ones without retrying', () => {
+    const engine = new RetryPolicyEngine(mockLogger);
+
+    expect(engine.decide(new Error('balances.InsufficientBalance'), 1)).toEqual({
+      errorClass: 'permanent',
+      reason: 'insufficient balance',
+      action: 'skip',
+      backoffMs: 0,
+    });
+    expect(engine.decide(new Error('Transaction has a bad signature'), 1).action).toBe('abort');
+  });
+
+  test('should tell retryable errors apart by their class action', () => {
+    const engine = new RetryPolicyEngine(mockLogger);
+
+    expect(engine.isRetryable(poolFull)).toBe(true);
+    expect(engine.isRetryable(new Error('something odd'))).toBe(true);
+    expect(engine.isRetryable(new Error('balances.InsufficientBalance'))).toBe(false);
+    expect(engine.isRetryable(new Error('Transaction has a bad signature'))).toBe(false);
+    expect(
+      engine.isRetryable(new Error('Transaction confirmation timeout after 60s: 0x01'))
+    ).toBe(false);
+  });
+
+  test('should act as a failure handler', async () => {
+    const engine = new RetryPolicyEngine(mockLogger);
+
+    await expect(engine.handleFailure(record, 3, poolFull, 1)).resolves.toBe('retry');
+    expect(mockLogger.info).toHaveBeenCalledWith(
+      'Retry policy decision',
+      expect.objectContaining({ index: 3, errorClass: 'transient', action: 'retry' })
+    );
+  });
+});
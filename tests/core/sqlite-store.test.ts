@@ -0,0 +1,192 @@
+import Database from 'better-sqlite3';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { SQLITE_STATE_FILE, SqliteStore } from '../../src/core/sqlite-store';
+import { DistributionRecord, JournalEntry, ResumeData } from '../../src/types';
+import Logger from '../../src/utils/logger';
+
+describe('SqliteStore', () => {
+  const mockLogger = {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  } as unknown as Logger;
+
+  let dir: string;
+  let store: SqliteStore;
+
+  const makeResumeData = (): ResumeData => {
+    const records: DistributionRecord[] = Array.from({ length: 4 }, (_, i) => ({
+      address: `address-${i}`,
+      amount: BigInt(`${i + 1}000000000000000000`),
+      status: 'pending' as const,
+    }));
+    return {
+      records,
+      summary: {
+        totalRecords: records.length,
+        completed: 0,
+        failed: 0,
+        skipped: 0,
+        totalAmount: records.reduce((sum, record) => sum + record.amount, 0n),
+        distributedAmount: 0n,
+        failedAmount: 0n,
+        feesPaid: 0n,
+        startTime: new Date(),
+        existentialDepositDecisions: [],
+      },
+      lastProcessedIndex: 0,
+      timestamp: new Date(),
+      sourceFilename: 'input.csv',
+      run: { id: 'run-a', csvHash: 'hash', network: 'taurus', distributorAddress: 'distributor' },
+    };
+  };
+
+  const entry = (fields: Omit<JournalEntry, 'at'>): JournalEntry => ({ ...fields, at: new Date() });
+
+  const query = <T>(sql: string): T[] => {
+    const db = new Database(path.join(dir, SQLITE_STATE_FILE), { readonly: true });
+    try {
+      return db.prepare(sql).all() as T[];
+    } finally {
+      db.close();
+    }
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'sqlite-store-'));
+    store = new SqliteStore(dir, mockLogger);
+  });
+
+  afterEach(async () => {
+    store.close();
+    await fs.remove(dir);
+  });
+
+  test('should load the state as it was saved', async () => {
+    const resumeData = makeResumeData();
+    resumeData.records[1].feePaid = 15n;
+    await store.save(resumeData);
+    store.close();
+    store = new SqliteStore(dir, mockLogger);
+
+    const loaded = await store.load();
+
+    expect(loaded?.records).toEqual(resumeData.records);
+    expect(loaded?.summary.totalAmount).toBe(BigInt('10000000000000000000'));
+    expect(loaded?.timestamp).toEqual(resumeData.timestamp);
+    expect(loaded?.sourceFilename).toBe('input.csv');
+    expect(loaded?.run).toEqual(resumeData.run);
+  });
+
+  test('should return null without saved state', async () => {
+    expect(await store.exists()).toBe(false);
+    expect(await store.load()).toBeNull();
+    expect(await store.findRecords({ status: 'pending' })).toEqual([]);
+  });
+
+  test('should rewrite only the records it is told changed since the last save', async () => {
+    const resumeData = makeResumeData();
+    await store.save(resumeData);
+
+    resumeData.records[2].status = 'skipped';
+    resumeData.records[3].status = 'skipped';
+    resumeData.lastProcessedIndex = 3;
+    await store.save(resumeData, new Set([2]));
+
+    expect(mockLogger.debug).toHaveBeenLastCalledWith(
+      'Resume state saved',
+      expect.objectContaining({ totalRecords: 4, changedRecords: 1, lastProcessedIndex: 3 })
+    );
+    const loaded = await store.load();
+    expect(loaded?.records[2].status).toBe('skipped');
+    expect(loaded?.records[3].status).toBe('pending');
+  });
+
+  test('should apply journal entries to their record in place', async () => {
+    const resumeData = makeResumeData();
+    await store.save(resumeData);
+
+    await store.append([
+      entry({ type: 'intent', index: 0, nonce: 7, transactionHash: '0xaa' }),
+      entry({ type: 'submitted', index: 0, transactionHash: '0xaa' }),
+      entry({ type: 'intent', index: 1, nonce: 8, transactionHash: '0xbb' }),
+    ]);
+    await store.append([
+      entry({
+        type: 'included',
+        index: 0,
+        transactionHash: '0xaa',
+        blockHash: '0xblock',
+        blockNumber: 100,
+        finalized: false,
+        feePaid: 15n,
+        tipPaid: 0n,
+      }),
+      entry({ type: 'failed', index: 2, error: 'balances.InsufficientBalance' }),
+    ]);
+    store.close();
+    store = new SqliteStore(dir, mockLogger);
+
+    const loaded = await store.load();
+
+    expect(loaded?.records[0]).toMatchObject({
+      status: 'completed',
+      nonce: 7,
+      transactionHash: '0xaa',
+      blockNumber: 100,
+      feePaid: 15n,
+    });
+    expect(loaded?.records[1]).toMatchObject({ status: 'processing', nonce: 8 });
+    expect(loaded?.records[2]).toMatchObject({ status: 'failed', attempts: 1 });
+    expect(loaded?.summary).toMatchObject({
+      completed: 1,
+      failed: 1,
+      distributedAmount: BigInt('1000000000000000000'),
+      failedAmount: BigInt('3000000000000000000'),
+      feesPaid: 15n,
+    });
+
+    expect(
+      query('SELECT record_idx, nonce, outcome, error, fee_paid FROM attempts ORDER BY id')
+    ).toEqual([
+      { record_idx: 0, nonce: 7, outcome: 'included', error: null, fee_paid: '15' },
+      { record_idx: 1, nonce: 8, outcome: null, error: null, fee_paid: null },
+      {
+        record_idx: 2,
+        nonce: null,
+        outcome: 'failed',
+        error: 'balances.InsufficientBalance',
+        fee_paid: null,
+      },
+    ]);
+    expect(query<{ type: string }>('SELECT type FROM events ORDER BY id')).toEqual(
+      ['intent', 'submitted', 'intent', 'included', 'failed'].map(type => ({ type }))
+    );
+  });
+
+  test('should find records by status and address', async () => {
+    const resumeData = makeResumeData();
+    resumeData.records[1].status = 'failed';
+    resumeData.records[3].status = 'failed';
+    await store.save(resumeData);
+
+    const failed = await store.findRecords({ status: 'failed' });
+    expect(failed.map(({ index }) => index)).toEqual([1, 3]);
+    expect(failed[1].record.amount).toBe(BigInt('4000000000000000000'));
+
+    expect(await store.findRecords({ status: 'failed', address: 'address-3' })).toEqual([
+      { index: 3, record: resumeData.records[3] },
+    ]);
+    expect(await store.findRecords({ status: 'completed' })).toEqual([]);
+  });
+
+  test('should refuse journal entries before the first save', async () => {
+    await expect(
+      store.append([entry({ type: 'intent', index: 0, nonce: 1, transactionHash: '0xaa' })])
+    ).rejects.toThrow('No resume state saved to append to');
+  });
+});
@@ -10,6 +10,13 @@ jest.mock('fs-extra', () => ({
   writeFile: jest.fn().mockResolvedValue(undefined),
   pathExists: jest.fn().mockResolvedValue(true),
   createReadStream: jest.fn(),
+  // The start of the file, read to detect its format
+  open: jest.fn().mockResolvedValue(1),
+  read: jest.fn(async (_fd: number, buffer: Buffer) => ({
+    bytesRead: Buffer.from(mockCsvContent).copy(buffer),
+    buffer,
+  })),
+  close: jest.fn().mockResolvedValue(undefined),
 }));
 
 // Store CSV content for mocking
@@ -0,0 +1,210 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { cryptoWaitReady } from '@polkadot/util-crypto';
+import {
+  WeightEntry,
+  allocatePool,
+  defaultAllocationPath,
+  readWeights,
+  writeAllocation,
+} from '../../src/utils/allocation';
+import { CSVValidator } from '../../src/utils/validation';
+import Logger from '../../src/utils/logger';
+
+const mockLogger = {
+  info: jest.fn(),
+  error: jest.fn(),
+  warn: jest.fn(),
+  debug: jest.fn(),
+  logValidationResults: jest.fn(),
+} as unknown as Logger;
+
+// Well-known development accounts
+const alice = '5GrwvaEF5zXb26Fz9rcQpDWS57CtERHpNehXCPcNoHGKutQY';
+const bob = '5FHneW46xGXgs5mUiveU4sbTyGBzmstUspZC92UhjJM694ty';
+const charlie = '5FLSigC9HGRKVhB9FiEo4Y3koPsNmBmLJbpXg2mp1hXcS59Y';
+let dir: string;
+
+const writeFile = async (name: string, content: string): Promise<string> => {
+  const filePath = path.join(dir, name);
+  await fs.writeFile(filePath, content);
+  return filePath;
+};
+
+const entries = (...weights: string[]): WeightEntry[] =>
+  weights.map((weight, index) => ({
+    rowNumber: index + 2,
+    address: [alice, bob, charlie][index % 3],
+    weight,
+  }));
+
+beforeAll(async () => {
+  await cryptoWaitReady();
+});
+
+beforeEach(async () => {
+  jest.clearAllMocks();
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'allocation-'));
+});
+
+afterEach(async () => {
+  await fs.remove(dir);
+});
+
+describe('allocatePool', () => {
+  test('should split the pool exactly in proportion to the weights', () => {
+    const split = allocatePool(1000n, entries('1', '3'));
+
+    expect(split.shares.map(share => share.share)).toEqual([250n, 750n]);
+    expect(split.shares.every(share => !share.roundedUp)).toBe(true);
+    expect(split.totalWeight).toBe('4');
+  });
+
+  test('should give the Shannon left over to the largest remainders', () => {
+    // 100 / 3 = 33 rem 1 each: one Shannon is left, for the earliest row
+    expect(allocatePool(100n, entries('1', '1', '1')).shares.map(share => share.share)).toEqual([
+      34n,
+      33n,
+      33n,
+    ]);
+
+    // 10 × 0.15 / 0.6 = 2.5, 10 × 0.2 / 0.6 = 3.33.., 10 × 0.25 / 0.6 = 4.16..
+    const split = allocatePool(10n, entries('0.15', '0.2', '0.25'));
+    expect(split.shares.map(share => share.share)).toEqual([3n, 3n, 4n]);
+    expect(split.shares.map(share => share.roundedUp)).toEqual([true, false, false]);
+    expect(split.totalWeight).toBe('0.6');
+  });
+
+  test('should always add up to exactly the pool', () => {
+    const pool = 500000n * 10n ** 18n + 7n;
+    const weights = entries('1,250', '0.333333333333333333333', '7', '99999.5', '1', '42.42');
+    const split = allocatePool(pool, weights);
+
+    expect(split.shares.reduce((sum, share) => sum + share.share, 0n)).toBe(pool);
+    expect(allocatePool(pool, weights)).toEqual(split);
+  });
+
+  test('should leave out zero weights and shares that round to zero', () => {
+    const split = allocatePool(2n, entries('1', '0', '1', '1'));
+
+    expect(split.shares.map(share => [share.rowNumber, share.share])).toEqual([
+      [2, 1n],
+      [4, 1n],
+    ]);
+    expect(split.excluded).toEqual([
+      { rowNumber: 3, address: bob, weight: '0', reason: 'Zero weight' },
+      { rowNumber: 5, address: alice, weight: '1', reason: 'Share rounds to zero Shannon' },
+    ]);
+  });
+
+  test('should refuse weights that add up to zero', () => {
+    expect(() => allocatePool(100n, entries('0', '0.0'))).toThrow('The weights add up to zero');
+  });
+});
+
+describe('readWeights', () => {
+  test('should read weights from a points column with its metadata', async () => {
+    const filePath = await writeFile(
+      'points.csv',
+      `wallet,points,label\n${alice},"1,250",Alice\n${bob},0.5,\n`
+    );
+
+    const { entries: read, errors } = await readWeights(filePath);
+
+    expect(errors).toEqual([]);
+    expect(read).toEqual([
+      { rowNumber: 2, address: alice, weight: '1,250', metadata: { label: 'Alice' } },
+      { rowNumber: 3, address: bob, weight: '0.5' },
+    ]);
+  });
+
+  test('should read weights from JSON entries', async () => {
+    const filePath = await writeFile(
+      'points.json',
+      JSON.stringify([{ address: alice, weight: '2' }, { address: bob, score: '1' }])
+    );
+
+    const { entries: read } = await readWeights(filePath);
+
+    expect(read.map(entry => entry.weight)).toEqual(['2', '1']);
+  });
+
+  test('should read whole weights written as JSON numbers', async () => {
+    const filePath = await writeFile(
+      'points.ndjson',
+      `{"address":"${alice}","weight":3}\n{"address":"${bob}","points":0}\n`
+    );
+
+    const { entries: read, errors } = await readWeights(filePath);
+
+    expect(errors).toEqual([]);
+    expect(read.map(entry => entry.weight)).toEqual(['3', '0']);
+  });
+
+  test('should refuse JSON number weights that may have lost precision', async () => {
+    const filePath = await writeFile(
+      'points.ndjson',
+      `{"address":"${alice}","weight":0.1}\n{"address":"${bob}","score":2.5}\n`
+    );
+
+    expect((await readWeights(filePath)).errors).toEqual([
+      'Line 1: The weight must be a string, as JSON numbers can lose precision: write "0.1"',
+      'Line 2: The score must be a string, as JSON numbers can lose precision: write "2.5"',
+    ]);
+  });
+
+  test('should report every row that cannot be read', async () => {
+    const filePath = await writeFile(
+      'points.csv',
+      `address,weight\n${alice},-1\nnot-an-address,1\n${bob},1e3\n${charlie},\n`
+    );
+
+    const { errors } = await readWeights(filePath);
+
+    expect(errors).toEqual([
+      'Line 2: Invalid weight: -1; write a number of 0 or more, such as 12 or 0.5',
+      'Line 3: Invalid SS58 address format: not-an-address',
+      'Line 4: Invalid weight: 1e3; write a number of 0 or more, such as 12 or 0.5',
+      'Line 5: Weight is required',
+    ]);
+    expect((await readWeights(await writeFile('empty.csv', 'address,weight\n'))).errors).toEqual([
+      'The weights file has no entries',
+    ]);
+  });
+});
+
+describe('writeAllocation', () => {
+  test('should write a distribution CSV that validates to the pool, with its report beside it', async () => {
+    const weightsFile = await writeFile(
+      'contributors.csv',
+      `address,points,note\n${alice},1,"first, and best"\n${bob},1,\n${charlie},1,\n`
+    );
+    const { entries: read } = await readWeights(weightsFile);
+    const pool = 500000n * 10n ** 18n;
+    const distributionFile = defaultAllocationPath(weightsFile);
+
+    const reportPath = await writeAllocation({
+      weightsFile,
+      distributionFile,
+      createdAt: new Date(),
+      ...allocatePool(pool, read),
+    });
+
+    expect(distributionFile).toBe(path.join(dir, 'contributors-allocation.csv'));
+    expect(reportPath).toBe(path.join(dir, 'contributors-allocation-report.json'));
+
+    const validation = await new CSVValidator(mockLogger).validateCSV(distributionFile);
+    expect(validation.isValid).toBe(true);
+    expect(validation.recordCount).toBe(3);
+    expect(validation.totalAmount).toBe(pool);
+
+    const records = await new CSVValidator(mockLogger).parseValidatedCSV(distributionFile);
+    expect(records[0].metadata).toEqual({ note: 'first, and best' });
+
+    const report = await fs.readJson(reportPath);
+    expect(report.pool).toBe(pool.toString());
+    expect(report.method).toBe('largest-remainder');
+    expect(report.shares[0]).toMatchObject({ address: alice, weight: '1', roundedUp: true });
+  });
+});
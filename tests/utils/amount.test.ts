@@ -0,0 +1,87 @@
+import { AmountFormatError, parseAmount, parseAmountUnit } from '../../src/utils/amount';
+import { AmountRounding } from '../../src/types';
+
+describe('parseAmount', () => {
+  const rounding = (policy: AmountRounding) => ({ unit: 'ai3' as const, rounding: policy });
+
+  test('should read AI3 amounts exactly', () => {
+    expect(parseAmount('1.5')).toEqual({
+      shannons: 1500000000000000000n,
+      unit: 'ai3',
+      rounded: false,
+      grouped: false,
+    });
+    expect(parseAmount(' 0.000000000000000001 ').shannons).toBe(1n);
+    expect(parseAmount('1.500000000000000000000').shannons).toBe(1500000000000000000n);
+  });
+
+  test('should take the unit from a suffix, the unit column or the configuration', () => {
+    expect(parseAmount('1.5 AI3').shannons).toBe(1500000000000000000n);
+    expect(parseAmount('1500 shannons').shannons).toBe(1500n);
+    expect(parseAmount('1500Shannon').unit).toBe('shannon');
+    expect(parseAmount('1500', undefined, 'Shannon').shannons).toBe(1500n);
+    expect(parseAmount('1500', { unit: 'shannon', rounding: 'strict' }).shannons).toBe(1500n);
+    expect(parseAmount('1 AI3', { unit: 'shannon', rounding: 'strict' }).shannons).toBe(
+      1000000000000000000n
+    );
+
+    expect(() => parseAmount('1500 shannon', undefined, 'AI3')).toThrow(
+      'Amount 1500 shannon does not match its unit column (AI3)'
+    );
+    expect(() => parseAmountUnit('tokens')).toThrow('Unknown amount unit "tokens"; use AI3 or Shannon');
+  });
+
+  test('should accept thousands separators between groups of three', () => {
+    expect(parseAmount('1,000,000.25')).toMatchObject({
+      shannons: 1000000250000000000000000n,
+      grouped: true,
+    });
+    expect(parseAmount('12_500').shannons).toBe(12500000000000000000000n);
+    expect(parseAmount('12 500 AI3').shannons).toBe(12500000000000000000000n);
+
+    for (const amount of ['1,5', '1,00,000', '1,000_000', '1 000,50']) {
+      expect(() => parseAmount(amount)).toThrow(`Misplaced thousands separator in ${amount}`);
+    }
+  });
+
+  test('should refuse scientific notation and other malformed amounts', () => {
+    for (const amount of ['1e-18', '1.5E+2', '2.5e-10 AI3']) {
+      expect(() => parseAmount(amount)).toThrow(
+        `Scientific notation is not accepted: ${amount}; write the amount out in full`
+      );
+    }
+    for (const amount of ['-1', '0', '0.000', 'abc', '1.', '.5', 'AI3']) {
+      expect(() => parseAmount(amount)).toThrow(AmountFormatError);
+      expect(() => parseAmount(amount)).toThrow(`Invalid amount format: ${amount}`);
+    }
+  });
+
+  test('should refuse excess precision in strict mode', () => {
+    expect(() => parseAmount('1.0000000000000000001')).toThrow(
+      'Amount 1.0000000000000000001 has 19 decimal places, more than the 18 of AI3; set AMOUNT_ROUNDING to round it'
+    );
+    expect(() => parseAmount('10.5 shannon')).toThrow(
+      'Shannon amounts must be whole numbers: 10.5 shannon'
+    );
+  });
+
+  test('should round excess precision by the rounding policy', () => {
+    const cases: [string, AmountRounding, bigint][] = [
+      ['0.0000000000000000014', 'down', 1n],
+      ['0.0000000000000000014', 'up', 2n],
+      ['0.0000000000000000015', 'half-up', 2n],
+      ['0.0000000000000000014999', 'half-up', 1n],
+      ['0.0000000000000000015', 'half-even', 2n],
+      ['0.0000000000000000025', 'half-even', 2n],
+      ['0.00000000000000000250001', 'half-even', 3n],
+    ];
+    for (const [amount, policy, shannons] of cases) {
+      expect(parseAmount(amount, rounding(policy))).toMatchObject({ shannons, rounded: true });
+    }
+
+    expect(parseAmount('10.5 shannon', rounding('half-even')).shannons).toBe(10n);
+    expect(() => parseAmount('0.0000000000000000004', rounding('half-up'))).toThrow(
+      'Amount 0.0000000000000000004 rounds to zero Shannon'
+    );
+  });
+});
@@ -0,0 +1,69 @@
+import { mapBatchItemResults, BatchEventRecord } from '../../src/utils/batch-results';
+
+const event = (section: string, method: string, data: any[] = []): BatchEventRecord => ({
+  event: { section, method, data },
+});
+
+describe('mapBatchItemResults', () => {
+  test('should map ItemCompleted events onto items in order', () => {
+    const events = [
+      event('balances', 'Transfer'),
+      event('utility', 'ItemCompleted'),
+      event('balances', 'Transfer'),
+      event('utility', 'ItemCompleted'),
+      event('utility', 'BatchCompleted'),
+      event('system', 'ExtrinsicSuccess'),
+    ];
+
+    expect(mapBatchItemResults(events, 2)).toEqual([{ success: true }, { success: true }]);
+  });
+
+  test('should report ItemFailed errors for forceBatch', () => {
+    const dispatchError = { toString: () => '{"module":{"index":4,"error":"0x02"}}' };
+    const events = [
+      event('utility', 'ItemCompleted'),
+      event('utility', 'ItemFailed', [dispatchError]),
+      event('utility', 'ItemCompleted'),
+      event('utility', 'BatchCompletedWithErrors'),
+    ];
+
+    const results = mapBatchItemResults(events, 3);
+
+    expect(results[0]).toEqual({ success: true });
+    expect(results[1]).toEqual({
+      success: false,
+      error: '{"module":{"index":4,"error":"0x02"}}',
+      dispatchError,
+    });
+    expect(results[2]).toEqual({ success: true });
+  });
+
+  test('should fail remaining items after BatchInterrupted', () => {
+    const events = [
+      event('utility', 'ItemCompleted'),
+      event('utility', 'BatchInterrupted', [1, 'Token.BelowMinimum']),
+    ];
+
+    expect(mapBatchItemResults(events, 3)).toEqual([
+      { success: true },
+      { success: false, error: 'Token.BelowMinimum', dispatchError: 'Token.BelowMinimum' },
+      { success: false, error: 'Token.BelowMinimum', dispatchError: 'Token.BelowMinimum' },
+    ]);
+  });
+
+  test('should fail every item when no item events are present', () => {
+    const results = mapBatchItemResults([event('system', 'ExtrinsicSuccess')], 2);
+
+    expect(results).toHaveLength(2);
+    results.forEach(result => {
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Batch item was not executed');
+    });
+  });
+
+  test('should ignore surplus item events', () => {
+    const events = [event('utility', 'ItemCompleted'), event('utility', 'ItemCompleted')];
+
+    expect(mapBatchItemResults(events, 1)).toEqual([{ success: true }]);
+  });
+});
@@ -93,6 +93,23 @@ describe('BigInt JSON Utilities', () => {
       expect(summary.failedAmount).toBe(BigInt('0'));
     });
 
+    test('should convert fee amounts from string to BigInt', () => {
+      const record = {
+        address: 'test-address',
+        amount: '1000000000000000000',
+        status: 'completed',
+        feePaid: '15000000000000',
+        tipPaid: '0',
+      };
+      const summary = { feesPaid: '15000000000000' };
+
+      convertDistributionStringsToBigInt([record, summary]);
+
+      expect(record.feePaid).toBe(BigInt('15000000000000'));
+      expect(record.tipPaid).toBe(0n);
+      expect(summary.feesPaid).toBe(BigInt('15000000000000'));
+    });
+
     test('should handle arrays of records', () => {
       const records = [
         { address: 'addr1', amount: '1000000000000000000', status: 'pending' },
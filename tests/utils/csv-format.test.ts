@@ -0,0 +1,146 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import {
+  CSVFormatError,
+  DEFAULT_CSV_INPUT,
+  describeCSVFormat,
+  detectCSVFormat,
+} from '../../src/utils/csv-format';
+import { readCSVRows } from '../../src/utils/csv-stream';
+import { CSVInputConfig } from '../../src/types';
+
+describe('detectCSVFormat', () => {
+  // Well-known development accounts
+  const alice = '5GrwvaEF5zXb26Fz9rcQpDWS57CtERHpNehXCPcNoHGKutQY';
+  const bob = '5FHneW46xGXgs5mUiveU4sbTyGBzmstUspZC92UhjJM694ty';
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'csv-format-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  const writeFile = async (content: string | Buffer): Promise<string> => {
+    const filePath = path.join(dir, 'input.csv');
+    await fs.writeFile(filePath, content);
+    return filePath;
+  };
+
+  const collect = async (filePath: string, input?: Partial<CSVInputConfig>) => {
+    const format = await detectCSVFormat(filePath, { ...DEFAULT_CSV_INPUT, ...input });
+    const rows = [];
+    for await (const row of readCSVRows(filePath, 1, format)) {
+      rows.push(row);
+    }
+    return rows;
+  };
+
+  test('should read a file without a header as address and amount', async () => {
+    const filePath = await writeFile(`${alice},1.5\n${bob},2\n`);
+
+    const format = await detectCSVFormat(filePath);
+
+    expect(format).toMatchObject({
+      encoding: 'utf8',
+      bomLength: 0,
+      delimiter: ',',
+      hasHeader: false,
+      columns: { address: 0, amount: 1 },
+    });
+  });
+
+  test('should find the columns and metadata by their header names', async () => {
+    const filePath = await writeFile(
+      [
+        'Invoice Reference;Amount (AI3);Wallet;Notes;Cost centre',
+        `INV-001;1.5;${alice};"First; of two";ops`,
+        `INV-002;2;${bob};;ops`,
+      ].join('\r\n')
+    );
+
+    const rows = await collect(filePath);
+
+    expect(rows).toEqual([
+      {
+        rowNumber: 2,
+        address: alice,
+        amount: '1.5',
+        metadata: { reference: 'INV-001', note: 'First; of two' },
+      },
+      { rowNumber: 3, address: bob, amount: '2', metadata: { reference: 'INV-002' } },
+    ]);
+  });
+
+  test('should take the columns named or numbered in the configuration', async () => {
+    const filePath = await writeFile(
+      ['Payee\tPayout\tTeam', `${alice}\t1.5\tcore`, `${bob}\t2\tdocs`].join('\n')
+    );
+
+    const rows = await collect(filePath, {
+      columns: { address: 'payee', amount: '2', category: 'Team' },
+    });
+
+    expect(rows.map(row => [row.address, row.amount, row.metadata?.category])).toEqual([
+      [alice, '1.5', 'core'],
+      [bob, '2', 'docs'],
+    ]);
+  });
+
+  test('should skip a byte order mark', async () => {
+    const filePath = await writeFile(
+      Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from(`address,amount\n${alice},1\n`)])
+    );
+
+    const format = await detectCSVFormat(filePath);
+
+    expect(format).toMatchObject({ encoding: 'utf8', bomLength: 3, hasHeader: true });
+    expect(await collect(filePath)).toEqual([{ rowNumber: 2, address: alice, amount: '1' }]);
+  });
+
+  test('should read UTF-16 and Latin-1 files', async () => {
+    const utf16 = await writeFile(
+      Buffer.concat([
+        Buffer.from([0xff, 0xfe]),
+        Buffer.from(`address,amount,label\n${alice},1,Zoë\n`, 'utf16le'),
+      ])
+    );
+    expect(await collect(utf16)).toEqual([
+      { rowNumber: 2, address: alice, amount: '1', metadata: { label: 'Zoë' } },
+    ]);
+
+    const latin1 = await writeFile(Buffer.from(`address,amount,label\n${alice},1,Zoë\n`, 'latin1'));
+    expect((await detectCSVFormat(latin1)).encoding).toBe('latin1');
+    expect((await collect(latin1))[0].metadata).toEqual({ label: 'Zoë' });
+  });
+
+  test('should describe the format it detected', async () => {
+    const filePath = await writeFile(`Wallet|Amount\n${alice}|1\n`);
+
+    expect(describeCSVFormat(await detectCSVFormat(filePath))).toBe(
+      'utf8, delimiter "|", header row, columns address="Wallet", amount="Amount"'
+    );
+  });
+
+  test('should refuse columns it cannot find', async () => {
+    const withHeader = await writeFile(`Payee,Payout\n${alice},1\n`);
+    await expect(detectCSVFormat(withHeader)).rejects.toThrow(CSVFormatError);
+    await expect(detectCSVFormat(withHeader)).rejects.toThrow(
+      'No address column found in the header (Payee, Payout); set CSV_ADDRESS_COLUMN'
+    );
+    await expect(
+      detectCSVFormat(withHeader, { ...DEFAULT_CSV_INPUT, columns: { address: 'Recipient' } })
+    ).rejects.toThrow('No address column named "Recipient"; the header has: Payee, Payout');
+
+    const withoutHeader = await writeFile(`${alice},1\n`);
+    await expect(
+      detectCSVFormat(withoutHeader, { ...DEFAULT_CSV_INPUT, columns: { amount: 'Amount' } })
+    ).rejects.toThrow('the file has no header row');
+    await expect(
+      detectCSVFormat(withoutHeader, { ...DEFAULT_CSV_INPUT, columns: { note: '1' } })
+    ).rejects.toThrow('The address and note columns are both column 1');
+  });
+});
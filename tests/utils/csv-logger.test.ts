@@ -8,6 +8,7 @@ jest.mock('fs-extra', () => ({
   appendFile: jest.fn().mockResolvedValue(undefined),
   readFile: jest.fn().mockResolvedValue(''),
   pathExists: jest.fn().mockResolvedValue(true),
+  pathExistsSync: jest.fn().mockReturnValue(false),
 }));
 
 // Mock process.cwd to avoid filesystem issues
@@ -213,5 +214,85 @@ describe('CSVTransactionLogger', () => {
 
       await expect(logger.logTransaction(record)).resolves.not.toThrow();
     });
+
+    it('should write the fee paid in its own column', async () => {
+      const fs = require('fs-extra');
+      const logger = new CSVTransactionLogger(testSourceFilename, 'mainnet');
+      await logger.initialize();
+
+      expect(fs.writeFile).toHaveBeenCalledWith(
+        logger.getLogFilePath(),
+        'SourceFileRowNumber,Address,Amount,Status,Fee,TransactionHash,ExplorerLink,' +
+          'Error,ErrorPallet,ErrorName,ErrorDocs,ErrorRaw,Label,Reference,Category,Note\n'
+      );
+
+      const record: DistributionRecord = {
+        address: '5CiPPseXPECbkjWCa6MnjNokrgYjMqmKndv2rSnekmSK2DjL',
+        amount: BigInt('1000000000000000000'),
+        status: 'completed',
+        sourceRowNumber: 3,
+        transactionHash: '0xtest',
+        feePaid: BigInt('15000000000000000'), // 0.015 AI3
+      };
+
+      await logger.logTransaction(record);
+
+      expect(fs.appendFile).toHaveBeenLastCalledWith(
+        logger.getLogFilePath(),
+        '3,5CiPPseXPECbkjWCa6MnjNokrgYjMqmKndv2rSnekmSK2DjL,1,completed,0.015,0xtest,https://autonomys.subscan.io/extrinsic/0xtest,,,,,,,,,\n'
+      );
+    });
+
+    it('should write a decoded dispatch error in its own columns', async () => {
+      const fs = require('fs-extra');
+      const logger = new CSVTransactionLogger(testSourceFilename, 'mainnet');
+      await logger.initialize();
+
+      const record: DistributionRecord = {
+        address: '5CiPPseXPECbkjWCa6MnjNokrgYjMqmKndv2rSnekmSK2DjL',
+        amount: BigInt('1000000000000000000'),
+        status: 'failed',
+        sourceRowNumber: 4,
+        error: 'balances.InsufficientBalance',
+        dispatchError: {
+          pallet: 'balances',
+          error: 'InsufficientBalance',
+          docs: 'Balance too low to send value.',
+          raw: '{"module":{"index":4,"error":"0x02000000"}}',
+        },
+      };
+
+      await logger.logTransaction(record);
+
+      expect(fs.appendFile).toHaveBeenLastCalledWith(
+        logger.getLogFilePath(),
+        '4,5CiPPseXPECbkjWCa6MnjNokrgYjMqmKndv2rSnekmSK2DjL,1,failed,,,,' +
+          'balances.InsufficientBalance,balances,InsufficientBalance,Balance too low to send value.,' +
+          '"{""module"":{""index"":4,""error"":""0x02000000""}}",,,,\n'
+      );
+    });
+
+    it('should pass the metadata columns of the source row through', async () => {
+      const fs = require('fs-extra');
+      const logger = new CSVTransactionLogger(testSourceFilename, 'mainnet');
+      await logger.initialize();
+
+      const record: DistributionRecord = {
+        address: '5CiPPseXPECbkjWCa6MnjNokrgYjMqmKndv2rSnekmSK2DjL',
+        amount: BigInt('1000000000000000000'),
+        status: 'completed',
+        sourceRowNumber: 5,
+        transactionHash: '0xtest',
+        metadata: { label: 'Alice', reference: 'INV-2024-001', note: 'Q1, contributors' },
+      };
+
+      await logger.logTransaction(record);
+
+      expect(fs.appendFile).toHaveBeenLastCalledWith(
+        logger.getLogFilePath(),
+        '5,5CiPPseXPECbkjWCa6MnjNokrgYjMqmKndv2rSnekmSK2DjL,1,completed,,0xtest,https://autonomys.subscan.io/extrinsic/0xtest,,,,,,' +
+          'Alice,INV-2024-001,,"Q1, contributors"\n'
+      );
+    });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,149 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { Keyring } from '@polkadot/keyring';
+import { cryptoWaitReady, encodeAddress } from '@polkadot/util-crypto';
+import { readChunks, readCSVRows } from '../../src/utils/csv-stream';
+import { DuplicateIndex } from '../../src/utils/duplicate-index';
+import { CSVValidator } from '../../src/utils/validation';
+import Logger from '../../src/utils/logger';
+
+const mockLogger = {
+  info: jest.fn(),
+  error: jest.fn(),
+  warn: jest.fn(),
+  debug: jest.fn(),
+  logValidationResults: jest.fn(),
+} as unknown as Logger;
+
+let dir: string;
+let alice: string;
+let bob: string;
+
+const writeCSV = async (lines: string[]): Promise<string> => {
+  const filePath = path.join(dir, 'input.csv');
+  await fs.writeFile(filePath, `${lines.join('\n')}\n`);
+  return filePath;
+};
+
+const collect = async <T>(source: AsyncIterable<T>): Promise<T[]> => {
+  const items: T[] = [];
+  for await (const item of source) {
+    items.push(item);
+  }
+  return items;
+};
+
+beforeAll(async () => {
+  await cryptoWaitReady();
+  const keyring = new Keyring({ type: 'sr25519' });
+  alice = encodeAddress(keyring.addFromUri('//Alice').addressRaw, 6094);
+  bob = encodeAddress(keyring.addFromUri('//Bob').addressRaw, 6094);
+});
+
+beforeEach(async () => {
+  jest.clearAllMocks();
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'csv-stream-'));
+});
+
+afterEach(async () => {
+  await fs.remove(dir);
+});
+
+describe('readCSVRows', () => {
+  test('should number rows from 1 and trim their values', async () => {
+    const filePath = await writeCSV([' su-a , 1.5', 'su-b,2', 'su-c,3']);
+
+    expect(await collect(readCSVRows(filePath))).toEqual([
+      { rowNumber: 1, address: 'su-a', amount: '1.5' },
+      { rowNumber: 2, address: 'su-b', amount: '2' },
+      { rowNumber: 3, address: 'su-c', amount: '3' },
+    ]);
+  });
+
+  test('should start from the given row and keep its number', async () => {
+    const filePath = await writeCSV(['su-a,1', 'su-b,2', 'su-c,3']);
+
+    const rows = await collect(readCSVRows(filePath, 3));
+
+    expect(rows).toEqual([{ rowNumber: 3, address: 'su-c', amount: '3' }]);
+  });
+});
+
+describe('readChunks', () => {
+  test('should group items and yield the remainder last', async () => {
+    async function* numbers() {
+      yield* [1, 2, 3, 4, 5];
+    }
+
+    expect(await collect(readChunks(numbers(), 2))).toEqual([[1, 2], [3, 4], [5]]);
+  });
+});
+
+describe('streamed CSV validation', () => {
+  test('should validate like validateCSV and find duplicates through the index', async () => {
+    const validator = new CSVValidator(mockLogger);
+    const filePath = await writeCSV([`${alice},1`, `${bob},2`, 'not-an-address,3', `${alice},4`]);
+
+    const result = await validator.validateCSVStream(filePath);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual([`Line 3: Invalid SS58 address format: not-an-address`]);
+    expect(result.duplicates).toEqual([{ address: alice, indices: [1, 4] }]);
+    expect(result.recordCount).toBe(3);
+    expect(result.totalAmount).toBe(BigInt('7000000000000000000'));
+  });
+
+  test('should keep only the first messages and count the rest', async () => {
+    const validator = new CSVValidator(mockLogger);
+    const lines = Array.from({ length: 105 }, (_, i) => `bad-${i},1`);
+    const filePath = await writeCSV(lines);
+
+    const result = await validator.validateCSVStream(filePath);
+
+    expect(result.errors).toHaveLength(101);
+    // Every row is invalid, so no records and a zero total are errors too
+    expect(result.errors[100]).toBe('... and 7 more errors');
+  });
+
+  test('should stream records from a row with their source row numbers', async () => {
+    const validator = new CSVValidator(mockLogger);
+    const filePath = await writeCSV([`${alice},1`, 'not-an-address,3', `${bob},2`]);
+
+    const records = await collect(validator.streamValidatedCSV(filePath, { fromRow: 2 }));
+
+    expect(records).toEqual([
+      {
+        address: bob,
+        amount: BigInt('2000000000000000000'),
+        status: 'pending',
+        sourceRowNumber: 3,
+      },
+    ]);
+  });
+
+  test('should send merged duplicates once, from their first row', async () => {
+    const validator = new CSVValidator(mockLogger, { duplicatePolicy: 'merge' });
+    const filePath = await writeCSV([`${alice},1`, `${bob},2`, `${alice},4`]);
+    const duplicates = new DuplicateIndex();
+
+    try {
+      const result = await validator.validateCSVStream(filePath, duplicates);
+      const records = await collect(validator.streamValidatedCSV(filePath, { duplicates }));
+
+      expect(result).toMatchObject({ isValid: true, recordCount: 2 });
+      expect(
+        records.map(({ sourceRowNumber, amount, mergedRows }) => ({
+          sourceRowNumber,
+          amount,
+          mergedRows,
+        }))
+      ).toEqual([
+        { sourceRowNumber: 1, amount: BigInt('5000000000000000000'), mergedRows: [1, 3] },
+        { sourceRowNumber: 2, amount: BigInt('2000000000000000000'), mergedRows: undefined },
+      ]);
+    } finally {
+      duplicates.close();
+    }
+  });
+});
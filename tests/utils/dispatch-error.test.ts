@@ -0,0 +1,114 @@
+import {
+  decodeDispatchError,
+  formatDispatchError,
+  readExtrinsicFailed,
+} from '../../src/utils/dispatch-error';
+
+describe('decodeDispatchError', () => {
+  const registry = {
+    findMetaError: jest.fn(() => ({
+      section: 'balances',
+      name: 'InsufficientBalance',
+      method: 'InsufficientBalance',
+      docs: ['Balance too low to send value.'],
+      args: [],
+      fields: [],
+      index: 2,
+    })),
+  };
+
+  beforeEach(() => {
+    registry.findMetaError.mockClear();
+  });
+
+  test('should look module errors up in the metadata', () => {
+    const asModule = { index: 4, error: '0x02000000' };
+    const dispatchError = {
+      isModule: true,
+      asModule,
+      type: 'Module',
+      toString: () => '{"module":{"index":4,"error":"0x02000000"}}',
+    };
+
+    const info = decodeDispatchError(registry, dispatchError);
+
+    expect(registry.findMetaError).toHaveBeenCalledWith(asModule);
+    expect(info).toEqual({
+      pallet: 'balances',
+      error: 'InsufficientBalance',
+      docs: 'Balance too low to send value.',
+      raw: '{"module":{"index":4,"error":"0x02000000"}}',
+    });
+    expect(formatDispatchError(info)).toBe('balances.InsufficientBalance');
+  });
+
+  test('should keep the raw error when the metadata does not know the module error', () => {
+    registry.findMetaError.mockImplementationOnce(() => {
+      throw new Error('Unable to find Error with index [99/0]');
+    });
+
+    const info = decodeDispatchError(registry, {
+      isModule: true,
+      asModule: { index: 99, error: '0x00000000' },
+      type: 'Module',
+      toString: () => '{"module":{"index":99,"error":"0x00000000"}}',
+    });
+
+    expect(info).toEqual({
+      pallet: 'unknown',
+      error: 'Module',
+      docs: '',
+      raw: '{"module":{"index":99,"error":"0x00000000"}}',
+    });
+  });
+
+  test('should name token errors after their inner variant', () => {
+    const info = decodeDispatchError(registry, {
+      isModule: false,
+      type: 'Token',
+      asToken: { type: 'BelowMinimum' },
+      toString: () => '{"token":"BelowMinimum"}',
+    } as any);
+
+    expect(formatDispatchError(info)).toBe('token.BelowMinimum');
+    expect(info.raw).toBe('{"token":"BelowMinimum"}');
+    expect(registry.findMetaError).not.toHaveBeenCalled();
+  });
+
+  test('should attribute plain variants to the system', () => {
+    const info = decodeDispatchError(registry, {
+      isModule: false,
+      type: 'BadOrigin',
+      toString: () => '{"badOrigin":null}',
+    });
+
+    expect(info).toEqual({
+      pallet: 'system',
+      error: 'BadOrigin',
+      docs: '',
+      raw: '{"badOrigin":null}',
+    });
+  });
+});
+
+describe('readExtrinsicFailed', () => {
+  test('should read the dispatch error of a failed extrinsic only', () => {
+    const dispatchError = { isModule: false, type: 'BadOrigin', toString: () => 'BadOrigin' };
+    const feePaid = {
+      event: { section: 'transactionPayment', method: 'TransactionFeePaid', data: [] },
+    };
+
+    expect(
+      readExtrinsicFailed([
+        feePaid,
+        { event: { section: 'system', method: 'ExtrinsicFailed', data: [dispatchError, {}] } },
+      ])
+    ).toBe(dispatchError);
+    expect(
+      readExtrinsicFailed([
+        feePaid,
+        { event: { section: 'system', method: 'ExtrinsicSuccess', data: [{}] } },
+      ])
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,144 @@
+import {
+  buildDistributionReport,
+  buildFailureHistogram,
+  combineSummaries,
+} from '../../src/utils/distribution-report';
+import { DistributionRecord, DistributionSummary, ResumeData } from '../../src/types';
+
+describe('buildDistributionReport', () => {
+  const records: DistributionRecord[] = [
+    { address: 'su-a', amount: 100n, status: 'completed', feePaid: 3n },
+    { address: 'su-b', amount: 200n, status: 'finalized', feePaid: 3n },
+    {
+      address: 'su-c',
+      amount: 300n,
+      status: 'failed',
+      attempts: 3,
+      error: 'balances.InsufficientBalance',
+      feePaid: 9n,
+      sourceRowNumber: 4,
+    },
+    { address: 'su-d', amount: 400n, status: 'pending' },
+  ];
+
+  const resumeData = {
+    records,
+    lastProcessedIndex: 2,
+    timestamp: new Date('2026-01-01T00:00:00Z'),
+    sourceFilename: 'payouts.csv',
+  } as ResumeData;
+
+  test('should count records and amounts by status', () => {
+    const report = buildDistributionReport(resumeData);
+
+    expect(report.totalRecords).toBe(4);
+    expect(report.byStatus.completed).toEqual({ count: 1, amount: 100n });
+    expect(report.byStatus.finalized).toEqual({ count: 1, amount: 200n });
+    expect(report.byStatus.pending).toEqual({ count: 1, amount: 400n });
+    expect(report.byStatus.skipped).toEqual({ count: 0, amount: 0n });
+    expect(report.feesPaid).toBe(15n);
+  });
+
+  test('should list every failed record', () => {
+    const report = buildDistributionReport(resumeData);
+
+    expect(report.failures).toEqual([
+      {
+        index: 2,
+        sourceRowNumber: 4,
+        address: 'su-c',
+        amount: 300n,
+        attempts: 3,
+        error: 'balances.InsufficientBalance',
+      },
+    ]);
+  });
+});
+
+describe('buildFailureHistogram', () => {
+  const insufficientBalance = {
+    pallet: 'balances',
+    error: 'InsufficientBalance',
+    docs: 'Balance too low to send value.',
+    raw: '{"module":{"index":4,"error":"0x02000000"}}',
+  };
+
+  test('should group failed records by decoded error, most frequent first', () => {
+    const histogram = buildFailureHistogram([
+      { address: 'su-a', amount: 100n, status: 'failed', error: 'Timed out' },
+      {
+        address: 'su-b',
+        amount: 200n,
+        status: 'failed',
+        error: 'balances.InsufficientBalance',
+        dispatchError: insufficientBalance,
+      },
+      {
+        address: 'su-c',
+        amount: 300n,
+        status: 'failed',
+        error: 'balances.InsufficientBalance',
+        dispatchError: insufficientBalance,
+      },
+      { address: 'su-d', amount: 400n, status: 'completed' },
+    ]);
+
+    expect(histogram).toEqual([
+      { error: 'balances.InsufficientBalance', count: 2, amount: 500n },
+      { error: 'Timed out', count: 1, amount: 100n },
+    ]);
+  });
+
+  test('should be empty when nothing failed', () => {
+    expect(buildFailureHistogram([{ address: 'su-a', amount: 1n, status: 'skipped' }])).toEqual([]);
+  });
+});
+
+describe('combineSummaries', () => {
+  const summary = (fields: Partial<DistributionSummary>): DistributionSummary => ({
+    totalRecords: 2,
+    completed: 1,
+    failed: 1,
+    skipped: 0,
+    totalAmount: 300n,
+    distributedAmount: 100n,
+    failedAmount: 200n,
+    feesPaid: 5n,
+    startTime: new Date('2026-01-01T00:00:00Z'),
+    existentialDepositDecisions: [],
+    ...fields,
+  });
+
+  test('should add up the chunks of a streamed distribution', () => {
+    const first = summary({
+      failureHistogram: [{ error: 'Timed out', count: 1, amount: 200n }],
+      endTime: new Date('2026-01-01T00:10:00Z'),
+    });
+    const second = summary({
+      startTime: new Date('2026-01-01T00:10:00Z'),
+      failureHistogram: [{ error: 'Timed out', count: 1, amount: 200n }],
+      endTime: undefined,
+    });
+
+    const combined = combineSummaries(first, second);
+
+    expect(combined).toMatchObject({
+      totalRecords: 4,
+      completed: 2,
+      failed: 2,
+      totalAmount: 600n,
+      distributedAmount: 200n,
+      failedAmount: 400n,
+      feesPaid: 10n,
+      startTime: first.startTime,
+      endTime: undefined, // Halted in the second chunk
+    });
+    expect(combined.failureHistogram).toEqual([{ error: 'Timed out', count: 2, amount: 400n }]);
+  });
+
+  test('should take the first chunk as it is', () => {
+    const first = summary({});
+
+    expect(combineSummaries(undefined, first)).toBe(first);
+  });
+});
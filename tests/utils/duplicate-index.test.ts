@@ -0,0 +1,41 @@
+import { DuplicateIndex } from '../../src/utils/duplicate-index';
+
+describe('DuplicateIndex', () => {
+  let index: DuplicateIndex;
+
+  beforeEach(() => {
+    index = new DuplicateIndex();
+  });
+
+  afterEach(() => {
+    index.close();
+  });
+
+  test('should report recipients seen on earlier rows', () => {
+    expect(index.add('su-a', 1, 100n)).toBe(false);
+    expect(index.add('su-b', 2, 200n)).toBe(false);
+    expect(index.add('su-a', 3, 50n)).toBe(true);
+
+    expect(index.lookup('su-a')).toEqual({ address: 'su-a', rows: [1, 3], total: 150n });
+    expect(index.lookup('su-b')).toEqual({ address: 'su-b', rows: [2], total: 200n });
+    expect(index.lookup('su-c')).toBeUndefined();
+  });
+
+  test('should list duplicates in the order they first appear, up to a limit', () => {
+    index.add('su-b', 1, 1n);
+    index.add('su-a', 2, 1n);
+    index.add('su-a', 3, 1n);
+    index.add('su-b', 4, 1n);
+    index.add('su-b', 5, 1n);
+    index.add('su-c', 6, 1n);
+
+    expect(index.duplicates().map(({ address }) => address)).toEqual(['su-b', 'su-a']);
+    expect(index.duplicates(1)).toEqual([{ address: 'su-b', rows: [1, 4, 5], total: 3n }]);
+    expect(index.countDuplicates()).toEqual({ recipients: 2, extraRows: 3 });
+  });
+
+  test('should count no duplicates in an empty index', () => {
+    expect(index.duplicates()).toEqual([]);
+    expect(index.countDuplicates()).toEqual({ recipients: 0, extraRows: 0 });
+  });
+});
@@ -0,0 +1,42 @@
+import { readFeePaid, splitFee } from '../../src/utils/fee-events';
+
+const feePaidEvent = (fee: bigint, tip: bigint) => ({
+  event: {
+    section: 'transactionPayment',
+    method: 'TransactionFeePaid',
+    data: [
+      { toString: () => 'su-distributor' },
+      { toString: () => fee.toString() },
+      { toString: () => tip.toString() },
+    ],
+  },
+});
+
+describe('readFeePaid', () => {
+  test('should read the actual fee and tip', () => {
+    const events = [
+      { event: { section: 'balances', method: 'Withdraw', data: [] } },
+      feePaidEvent(1234n, 10n),
+      { event: { section: 'system', method: 'ExtrinsicSuccess', data: [] } },
+    ];
+
+    expect(readFeePaid(events)).toEqual({ fee: 1234n, tip: 10n });
+  });
+
+  test('should return undefined without a TransactionFeePaid event', () => {
+    expect(
+      readFeePaid([{ event: { section: 'system', method: 'ExtrinsicSuccess', data: [] } }])
+    ).toBeUndefined();
+  });
+});
+
+describe('splitFee', () => {
+  test('should give the remainder to the first share', () => {
+    expect(splitFee(1001n, 3)).toEqual([335n, 333n, 333n]);
+  });
+
+  test('should always add up to the fee', () => {
+    const shares = splitFee(999_999_999_999n, 7);
+    expect(shares.reduce((sum, share) => sum + share, 0n)).toBe(999_999_999_999n);
+  });
+});
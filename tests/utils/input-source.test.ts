@@ -0,0 +1,168 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { cryptoWaitReady } from '@polkadot/util-crypto';
+import {
+  InputFormatError,
+  InputRow,
+  detectInputFormat,
+  openInputSource,
+} from '../../src/utils/input-source';
+import { CSVValidator } from '../../src/utils/validation';
+import Logger from '../../src/utils/logger';
+
+const mockLogger = {
+  info: jest.fn(),
+  error: jest.fn(),
+  warn: jest.fn(),
+  debug: jest.fn(),
+  logValidationResults: jest.fn(),
+} as unknown as Logger;
+
+// Well-known development accounts
+const alice = '5GrwvaEF5zXb26Fz9rcQpDWS57CtERHpNehXCPcNoHGKutQY';
+const bob = '5FHneW46xGXgs5mUiveU4sbTyGBzmstUspZC92UhjJM694ty';
+let dir: string;
+
+const writeFile = async (name: string, content: string): Promise<string> => {
+  const filePath = path.join(dir, name);
+  await fs.writeFile(filePath, content);
+  return filePath;
+};
+
+const collect = async (filePath: string, fromRow?: number): Promise<InputRow[]> => {
+  const source = await openInputSource(filePath);
+  const rows: InputRow[] = [];
+  for await (const row of source.rows(fromRow)) {
+    rows.push(row);
+  }
+  return rows;
+};
+
+beforeAll(async () => {
+  await cryptoWaitReady();
+});
+
+beforeEach(async () => {
+  jest.clearAllMocks();
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'input-source-'));
+});
+
+afterEach(async () => {
+  await fs.remove(dir);
+});
+
+describe('detectInputFormat', () => {
+  test('should pick the format by file extension unless one is configured', () => {
+    expect(detectInputFormat('payouts.csv')).toBe('csv');
+    expect(detectInputFormat('payouts.JSON')).toBe('json');
+    expect(detectInputFormat('payouts.ndjson')).toBe('ndjson');
+    expect(detectInputFormat('payouts.jsonl')).toBe('ndjson');
+    expect(detectInputFormat('payouts.txt')).toBe('csv');
+    expect(detectInputFormat('payouts.txt', 'ndjson')).toBe('ndjson');
+  });
+});
+
+describe('openInputSource', () => {
+  test('should read a JSON array, numbering entries by position', async () => {
+    const filePath = await writeFile(
+      'payouts.json',
+      JSON.stringify([
+        { address: alice, amount: '1.5', reference: 'INV-001', category: 7 },
+        { address: bob, amountShannons: '2000000000000000000' },
+      ])
+    );
+
+    expect(await collect(filePath)).toEqual([
+      {
+        rowNumber: 1,
+        address: alice,
+        amount: '1.5',
+        metadata: { reference: 'INV-001', category: '7' },
+      },
+      { rowNumber: 2, address: bob, amount: '2000000000000000000', unit: 'shannon' },
+    ]);
+    expect(await collect(filePath, 2)).toHaveLength(1);
+
+    const source = await openInputSource(filePath);
+    expect(source.locate(2)).toBe('Item 2 (/1)');
+  });
+
+  test('should read NDJSON line by line, skipping blank lines', async () => {
+    const filePath = await writeFile(
+      'payouts.ndjson',
+      `\uFEFF${JSON.stringify({ address: alice, amount: '1' })}\n\n{"address": "${bob}",\n`
+    );
+
+    expect(await collect(filePath)).toEqual([
+      { rowNumber: 1, address: alice, amount: '1' },
+      { rowNumber: 3, error: expect.stringMatching(/^Invalid JSON: /) },
+    ]);
+  });
+
+  test('should refuse amounts that are JSON numbers or malformed entries', async () => {
+    const filePath = await writeFile(
+      'payouts.json',
+      `[{"address": "${alice}", "amount": 0.1}, "${bob}", {"address": "${bob}", "amount": "1", "amountShannons": "1"}]`
+    );
+
+    expect((await collect(filePath)).map(row => row.error)).toEqual([
+      'The amount must be a string, as JSON numbers can lose precision: write "0.1"',
+      'Entry must be an object with an address and an amount',
+      'Give either amount or amountShannons, not both',
+    ]);
+  });
+
+  test('should refuse a JSON file that does not hold an array', async () => {
+    const notJSON = await writeFile('broken.json', '[{"address": ');
+    await expect(openInputSource(notJSON)).rejects.toThrow(InputFormatError);
+
+    const notArray = await writeFile('object.json', '{"records": []}');
+    await expect(openInputSource(notArray)).rejects.toThrow(
+      'A JSON distribution file must hold an array of entries'
+    );
+  });
+});
+
+describe('CSVValidator with JSON input', () => {
+  test('should give the same result as the same distribution in CSV', async () => {
+    const csvPath = await writeFile('payouts.csv', `${alice},1.5\n${bob},2\n${alice},0.5\n`);
+    const jsonPath = await writeFile(
+      'payouts.json',
+      JSON.stringify([
+        { address: alice, amount: '1.5' },
+        { address: bob, amountShannons: '2000000000000000000' },
+        { address: alice, amount: '0.5' },
+      ])
+    );
+    const validator = new CSVValidator(mockLogger, { duplicatePolicy: 'merge' });
+
+    const fromCSV = await validator.validateCSV(csvPath);
+    const fromJSON = await validator.validateCSV(jsonPath);
+
+    expect(fromJSON).toEqual(fromCSV);
+    expect(fromJSON.totalAmount).toBe(4000000000000000000n);
+    expect(await validator.parseValidatedCSV(jsonPath)).toEqual(
+      await validator.parseValidatedCSV(csvPath)
+    );
+  });
+
+  test('should point at the entries it rejects', async () => {
+    const filePath = await writeFile(
+      'payouts.json',
+      JSON.stringify([
+        { address: alice, amount: '1' },
+        { address: 'not-an-address', amount: '1' },
+        { address: bob, amountShannons: '1.5' },
+      ])
+    );
+
+    const result = await new CSVValidator(mockLogger).validateCSVStream(filePath);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual([
+      'Item 2 (/1): Invalid SS58 address format: not-an-address',
+      'Item 3 (/2): Shannon amounts must be whole numbers: 1.5; set AMOUNT_ROUNDING to round it',
+    ]);
+  });
+});
@@ -0,0 +1,55 @@
+import { createHash } from 'crypto';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { computeRunId, createRunInfo, hashFile } from '../../src/utils/run-id';
+
+describe('run IDs', () => {
+  const csvHash = 'a'.repeat(64);
+
+  test('should derive the same ID from the same CSV, network and account', () => {
+    const id = computeRunId(csvHash, 'taurus', 'distributor');
+
+    expect(id).toMatch(/^[0-9a-f]{16}$/);
+    expect(computeRunId(csvHash, 'taurus', 'distributor')).toBe(id);
+  });
+
+  test('should start a different run when any of them changes', () => {
+    const id = computeRunId(csvHash, 'taurus', 'distributor');
+
+    expect(computeRunId('b'.repeat(64), 'taurus', 'distributor')).not.toBe(id);
+    expect(computeRunId(csvHash, 'mainnet', 'distributor')).not.toBe(id);
+    expect(computeRunId(csvHash, 'taurus', 'other-distributor')).not.toBe(id);
+  });
+
+  test('should identify the CSV by its contents, not its name', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'run-id-'));
+    try {
+      const contents = 'address,amount\nst1abc,1.5\n';
+      await fs.writeFile(path.join(dir, 'payouts.csv'), contents);
+      await fs.writeFile(path.join(dir, 'payouts-copy.csv'), contents);
+
+      const run = await createRunInfo(path.join(dir, 'payouts.csv'), 'taurus', 'distributor');
+      const copy = await createRunInfo(path.join(dir, 'payouts-copy.csv'), 'taurus', 'distributor');
+
+      expect(run.csvHash).toBe(await hashFile(path.join(dir, 'payouts.csv')));
+      expect(copy.id).toBe(run.id);
+      expect(run).toMatchObject({ network: 'taurus', distributorAddress: 'distributor' });
+    } finally {
+      await fs.remove(dir);
+    }
+  });
+
+  test('should hash a file larger than one read the same as its contents', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'run-id-'));
+    try {
+      const contents = 'address,amount\n' + 'st1abc,1.5\n'.repeat(20000);
+      const filePath = path.join(dir, 'payouts.csv');
+      await fs.writeFile(filePath, contents);
+
+      expect(await hashFile(filePath)).toBe(createHash('sha256').update(contents).digest('hex'));
+    } finally {
+      await fs.remove(dir);
+    }
+  });
+});
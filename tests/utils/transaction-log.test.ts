@@ -0,0 +1,92 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { logStartTime, readTransactionLog } from '../../src/utils/transaction-log';
+
+const HEADER =
+  'SourceFileRowNumber,Address,Amount,Status,Fee,TransactionHash,ExplorerLink,' +
+  'Error,ErrorPallet,ErrorName,ErrorDocs,ErrorRaw';
+
+describe('readTransactionLog', () => {
+  const alice = '5GrwvaEF5zXb26Fz9rcQpDWS57CtERHpNehXCPcNoHGKutQY';
+  const bob = '5FHneW46xGXgs5mUiveU4sbTyGBzmstUspZC92UhjJM694ty';
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'transaction-log-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  const writeLog = async (name: string, lines: string[]): Promise<string> => {
+    const filePath = path.join(dir, name);
+    await fs.writeFile(filePath, `${[HEADER, ...lines].join('\n')}\n`);
+    return filePath;
+  };
+
+  test('should read the entries the transaction logger wrote', async () => {
+    const filePath = await writeLog('airdrop-transactions-2026-03-04T05-06-07-890Z.csv', [
+      `2,${alice},1.5,completed,0.0001,0xabc,https://explorer/0xabc,,,,,`,
+      `3,${bob},2,failed,,unknown,,"Balance too low, try again",Balances,InsufficientBalance,Balance too low,0x02`,
+    ]);
+
+    const log = await readTransactionLog(filePath);
+
+    expect(log.startedAt).toEqual(new Date('2026-03-04T05:06:07.890Z'));
+    expect(log.unreadableLines).toEqual([]);
+    expect(log.entries).toEqual([
+      {
+        line: 2,
+        sourceRowNumber: 2,
+        address: alice,
+        amount: 1500000000000000000n,
+        status: 'completed',
+        feePaid: 100000000000000n,
+        transactionHash: '0xabc',
+        error: undefined,
+      },
+      {
+        line: 3,
+        sourceRowNumber: 3,
+        address: bob,
+        amount: 2000000000000000000n,
+        status: 'failed',
+        feePaid: undefined,
+        transactionHash: undefined,
+        error: 'Balance too low, try again',
+        dispatchError: {
+          pallet: 'Balances',
+          error: 'InsufficientBalance',
+          docs: 'Balance too low',
+          raw: '0x02',
+        },
+      },
+    ]);
+  });
+
+  test('should skip lines it cannot read, such as one cut off by a crash', async () => {
+    const filePath = await writeLog('renamed.csv', [
+      `2,${alice},1,completed,,0xabc,,,,,,`,
+      `0,${bob},1,completed,,0xdef,,,,,,`,
+      `4,${bob}`,
+    ]);
+
+    const log = await readTransactionLog(filePath);
+
+    expect(log.entries.map(entry => entry.sourceRowNumber)).toEqual([2]);
+    expect(log.unreadableLines).toEqual([3, 4]);
+    // Without the time in its name, the file's modification time is used
+    expect(log.startedAt).toEqual((await fs.stat(filePath)).mtime);
+  });
+});
+
+describe('logStartTime', () => {
+  test('should read the session start from the file name', () => {
+    expect(logStartTime('logs/payouts-transactions-2026-01-02T03-04-05-006Z.csv')).toEqual(
+      new Date('2026-01-02T03:04:05.006Z')
+    );
+    expect(logStartTime('logs/payouts.csv')).toBeUndefined();
+  });
+});
@@ -18,6 +18,13 @@ jest.mock('fs-extra', () => ({
   writeFile: jest.fn().mockResolvedValue(undefined),
   pathExists: jest.fn().mockResolvedValue(true),
   createReadStream: jest.fn(),
+  // The start of the file, read to detect its format
+  open: jest.fn().mockResolvedValue(1),
+  read: jest.fn(async (_fd: number, buffer: Buffer) => ({
+    bytesRead: Buffer.from(mockCsvContent).copy(buffer),
+    buffer,
+  })),
+  close: jest.fn().mockResolvedValue(undefined),
 }));
 
 // Store CSV content for mocking
@@ -517,9 +524,108 @@ describe('CSV Validation', () => {
     expect(records[0].address).toBe(testAddresses.validAutonomys);
     expect(records[0].amount).toBe(ai3ToShannons('100.5'));
     expect(records[0].status).toBe('pending');
-    expect(records[1].address).toBe(testAddresses.validSubstrate);
+    // Both rows are reported in the network's canonical encoding
+    expect(records[1].address).toBe(testAddresses.validAutonomys);
     expect(records[1].amount).toBe(ai3ToShannons('250.0'));
   });
+
+  test('should detect duplicates written in different SS58 encodings', async () => {
+    const csvContent = [
+      `${testAddresses.validAutonomys},100.5`,
+      `${testAddresses.validSubstrate},250.0`,
+    ].join('\n');
+
+    setMockCsvContent(csvContent);
+    const result = await validator.validateCSV('mock-file.csv');
+
+    expect(result.isValid).toBe(true);
+    expect(result.duplicates).toEqual([{ address: testAddresses.validAutonomys, indices: [1, 2] }]);
+    expect(result.warnings).toContain(
+      `Duplicate address found: ${testAddresses.validAutonomys} on lines 1, 2`
+    );
+  });
+
+  test('should reject duplicates under the reject policy', async () => {
+    const csvContent = [
+      `${testAddresses.validSubstrate},100.5`,
+      `${testAddresses.validAutonomys},250.0`,
+    ].join('\n');
+
+    setMockCsvContent(csvContent);
+    const result = await new CSVValidator(mockLogger, { duplicatePolicy: 'reject' }).validateCSV(
+      'mock-file.csv'
+    );
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContain(
+      `Duplicate recipient ${testAddresses.validAutonomys} on lines 1, 2`
+    );
+  });
+
+  test('should sum duplicate amounts under the merge policy', async () => {
+    const bob = keyring.addFromUri('//Bob');
+    const csvContent = [
+      `${testAddresses.validAutonomys},100.5`,
+      `${encodeAddress(bob.addressRaw, 42)},1`,
+      `${testAddresses.validSubstrate},250.0`,
+    ].join('\n');
+    const mergingValidator = new CSVValidator(mockLogger, { duplicatePolicy: 'merge' });
+
+    setMockCsvContent(csvContent);
+    const result = await mergingValidator.validateCSV('mock-file.csv');
+
+    expect(result.isValid).toBe(true);
+    expect(result.recordCount).toBe(2);
+    expect(result.totalAmount).toBe(ai3ToShannons('351.5'));
+
+    setMockCsvContent(csvContent);
+    const records = await mergingValidator.parseValidatedCSV('mock-file.csv');
+
+    expect(records).toHaveLength(2);
+    expect(records[0]).toMatchObject({
+      address: testAddresses.validAutonomys,
+      amount: ai3ToShannons('350.5'),
+      sourceRowNumber: 1,
+      mergedRows: [1, 3],
+    });
+    expect(records[1].address).toBe(encodeAddress(bob.addressRaw, 6094));
+    expect(records[1].mergedRows).toBeUndefined();
+  });
+
+  test('should reject excess precision unless a rounding policy is set', async () => {
+    const csvContent = [
+      `${testAddresses.validAutonomys},1.0000000000000000005`,
+      `${testAddresses.validSubstrate},2`,
+    ].join('\n');
+
+    setMockCsvContent(csvContent);
+    const strict = await validator.validateCSV('mock-file.csv');
+
+    expect(strict.isValid).toBe(false);
+    expect(strict.errors[0]).toBe(
+      'Line 1: Amount 1.0000000000000000005 has 19 decimal places, more than the 18 of AI3; set AMOUNT_ROUNDING to round it'
+    );
+
+    const rounding = new CSVValidator(mockLogger, {
+      amounts: { unit: 'ai3', rounding: 'half-up' },
+    });
+    setMockCsvContent(csvContent);
+    const result = await rounding.validateCSV('mock-file.csv');
+
+    expect(result.isValid).toBe(true);
+    expect(result.totalAmount).toBe(3000000000000000001n);
+    expect(result.roundedAmounts).toEqual([
+      {
+        rowNumber: 1,
+        location: 'Line 1',
+        amount: '1.0000000000000000005',
+        roundedShannons: 1000000000000000001n,
+      },
+    ]);
+    expect(result.warnings).toContain(
+      '1 amount(s) rounded to a whole Shannon (AMOUNT_ROUNDING=half-up); see the rounded amounts'
+    );
+  });
 });
 
 describe('Individual Record Validation', () => {